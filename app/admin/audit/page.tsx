@@ -0,0 +1,313 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { useRouter } from 'next/navigation';
+import { authFetch, logout } from '@/lib/client-auth';
+import NotificationBell from '@/components/NotificationBell';
+
+interface AuditEvent {
+  id: string;
+  action: string;
+  actorId: string | null;
+  actorEmail: string | null;
+  targetType: string;
+  targetId: string | null;
+  before: Record<string, unknown> | null;
+  after: Record<string, unknown> | null;
+  ip: string | null;
+  createdAt: string;
+}
+
+const ACTIONS = [
+  'task.create',
+  'task.update',
+  'task.delete',
+  'task.restore',
+  'auth.register',
+  'auth.login',
+  'auth.login_failed',
+  'auth.logout',
+  'auth.logout_all',
+  'auth.session_revoke',
+  'auth.password_forgot',
+  'auth.password_reset',
+  'auth.password_change',
+  'admin.user_update',
+  'admin.user_delete',
+  'admin.user_restore',
+  'admin.password_reset',
+  'admin.invitation_create',
+  'admin.invitation_revoke',
+  'admin.comment_delete',
+  'admin.workflow_create',
+  'admin.workflow_update',
+  'admin.workflow_delete',
+  'webhook.create',
+  'webhook.update',
+  'webhook.delete',
+];
+
+const TARGET_TYPES = ['task', 'user', 'session', 'invitation', 'comment', 'workflow', 'webhook'];
+
+const formatValue = (value: unknown) =>
+  value === null || value === undefined ? '-' : typeof value === 'string' ? value : JSON.stringify(value);
+
+// One line per field: "status: OPEN → DONE"
+const describeChanges = (event: AuditEvent) => {
+  const fields = [...new Set([...Object.keys(event.before ?? {}), ...Object.keys(event.after ?? {})])];
+  return fields.map((field) => {
+    const before = event.before && field in event.before ? formatValue(event.before[field]) : null;
+    const after = event.after && field in event.after ? formatValue(event.after[field]) : null;
+    if (before !== null && after !== null) return `${field}: ${before} → ${after}`;
+    return `${field}: ${after ?? before}`;
+  });
+};
+
+export default function AuditLog() {
+  const [events, setEvents] = useState<AuditEvent[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [page, setPage] = useState(1);
+  const [totalPages, setTotalPages] = useState(1);
+  const [action, setAction] = useState('');
+  const [targetType, setTargetType] = useState('');
+  const [targetId, setTargetId] = useState('');
+  const router = useRouter();
+
+  useEffect(() => {
+    const fetchEvents = async () => {
+      try {
+        const params = new URLSearchParams({
+          page: page.toString(),
+          limit: '50',
+          ...(action && { action }),
+          ...(targetType && { targetType }),
+          ...(targetId.trim() && { targetId: targetId.trim() }),
+        });
+
+        const res = await authFetch(`/api/admin/audit?${params}`);
+
+        if (res.status === 401) {
+          router.push('/');
+          return;
+        }
+        if (!res.ok) throw new Error('Failed to fetch audit events');
+
+        const data = await res.json();
+        setEvents(data.events);
+        setTotalPages(Math.max(1, data.pagination.totalPages));
+      } catch (error) {
+        console.error('Error:', error);
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    fetchEvents();
+  }, [page, action, targetType, targetId, router]);
+
+  if (loading) {
+    return (
+      <div className="flex min-h-screen items-center justify-center bg-zinc-50 dark:bg-black">
+        <div className="text-zinc-600 dark:text-zinc-400">Loading...</div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-zinc-50 dark:bg-black">
+      {/* Header */}
+      <nav className="bg-white dark:bg-zinc-900 border-b border-zinc-200 dark:border-zinc-800">
+        <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
+          <div className="flex justify-between items-center h-16">
+            <div className="flex items-center gap-4">
+              <button
+                onClick={() => router.push('/admin')}
+                className="text-zinc-600 dark:text-zinc-400 hover:text-zinc-900 dark:hover:text-white"
+              >
+                ← Back
+              </button>
+              <h1 className="text-xl font-bold text-zinc-900 dark:text-white">
+                Audit Log
+              </h1>
+            </div>
+            <div className="flex items-center gap-4">
+              <NotificationBell />
+              <button
+                onClick={async () => {
+                  await logout();
+                  router.push('/');
+                }}
+                className="px-4 py-2 bg-red-600 hover:bg-red-700 text-white rounded-lg transition-colors text-sm"
+              >
+                Logout
+              </button>
+            </div>
+          </div>
+        </div>
+      </nav>
+
+      {/* Main Content */}
+      <main className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        {/* Filters */}
+        <div className="bg-white dark:bg-zinc-900 rounded-lg shadow p-6 mb-6 border border-zinc-200 dark:border-zinc-800">
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            <div>
+              <label className="block text-sm font-medium text-zinc-700 dark:text-zinc-300 mb-2">
+                Action
+              </label>
+              <select
+                value={action}
+                onChange={(e) => {
+                  setAction(e.target.value);
+                  setPage(1);
+                }}
+                className="w-full px-4 py-2 rounded-lg border border-zinc-300 dark:border-zinc-600 bg-white dark:bg-zinc-800 text-zinc-900 dark:text-white"
+              >
+                <option value="">All Actions</option>
+                {ACTIONS.map((name) => (
+                  <option key={name} value={name}>
+                    {name}
+                  </option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-zinc-700 dark:text-zinc-300 mb-2">
+                Target Type
+              </label>
+              <select
+                value={targetType}
+                onChange={(e) => {
+                  setTargetType(e.target.value);
+                  setPage(1);
+                }}
+                className="w-full px-4 py-2 rounded-lg border border-zinc-300 dark:border-zinc-600 bg-white dark:bg-zinc-800 text-zinc-900 dark:text-white"
+              >
+                <option value="">All Targets</option>
+                {TARGET_TYPES.map((type) => (
+                  <option key={type} value={type}>
+                    {type}
+                  </option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-zinc-700 dark:text-zinc-300 mb-2">
+                Target ID
+              </label>
+              <input
+                type="text"
+                value={targetId}
+                onChange={(e) => {
+                  setTargetId(e.target.value);
+                  setPage(1);
+                }}
+                placeholder="Task, user or session id..."
+                className="w-full px-4 py-2 rounded-lg border border-zinc-300 dark:border-zinc-600 bg-white dark:bg-zinc-800 text-zinc-900 dark:text-white"
+              />
+            </div>
+          </div>
+        </div>
+
+        {/* Events Table */}
+        <div className="bg-white dark:bg-zinc-900 rounded-lg shadow border border-zinc-200 dark:border-zinc-800 overflow-hidden">
+          <div className="overflow-x-auto">
+            <table className="w-full">
+              <thead className="bg-zinc-50 dark:bg-zinc-800 border-b border-zinc-200 dark:border-zinc-700">
+                <tr>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-zinc-500 dark:text-zinc-400 uppercase tracking-wider">
+                    Time
+                  </th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-zinc-500 dark:text-zinc-400 uppercase tracking-wider">
+                    Actor
+                  </th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-zinc-500 dark:text-zinc-400 uppercase tracking-wider">
+                    Action
+                  </th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-zinc-500 dark:text-zinc-400 uppercase tracking-wider">
+                    Target
+                  </th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-zinc-500 dark:text-zinc-400 uppercase tracking-wider">
+                    Changes
+                  </th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-zinc-500 dark:text-zinc-400 uppercase tracking-wider">
+                    IP
+                  </th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-zinc-200 dark:divide-zinc-700">
+                {events.length === 0 && (
+                  <tr>
+                    <td colSpan={6} className="px-6 py-12 text-center text-sm text-zinc-500 dark:text-zinc-400">
+                      No events found
+                    </td>
+                  </tr>
+                )}
+                {events.map((event) => (
+                  <tr key={event.id} className="hover:bg-zinc-50 dark:hover:bg-zinc-800 align-top">
+                    <td className="px-6 py-4 text-sm text-zinc-500 dark:text-zinc-400 whitespace-nowrap">
+                      {new Date(event.createdAt).toLocaleString()}
+                    </td>
+                    <td className="px-6 py-4 text-sm text-zinc-900 dark:text-white">
+                      {event.actorEmail || 'Anonymous'}
+                    </td>
+                    <td className="px-6 py-4">
+                      <span className="px-2 py-1 text-xs font-semibold rounded bg-zinc-100 dark:bg-zinc-800 text-zinc-800 dark:text-zinc-200 whitespace-nowrap">
+                        {event.action}
+                      </span>
+                    </td>
+                    <td className="px-6 py-4 text-sm text-zinc-500 dark:text-zinc-400">
+                      <button
+                        onClick={() => {
+                          setTargetType(event.targetType);
+                          setTargetId(event.targetId ?? '');
+                          setPage(1);
+                        }}
+                        disabled={!event.targetId}
+                        className="text-left hover:underline disabled:no-underline"
+                      >
+                        {event.targetType}
+                        {event.targetId && <span className="block font-mono text-xs">{event.targetId}</span>}
+                      </button>
+                    </td>
+                    <td className="px-6 py-4 text-xs text-zinc-700 dark:text-zinc-300 font-mono">
+                      {describeChanges(event).map((line) => (
+                        <div key={line} className="break-all">
+                          {line}
+                        </div>
+                      ))}
+                    </td>
+                    <td className="px-6 py-4 text-sm text-zinc-500 dark:text-zinc-400">
+                      {event.ip || '-'}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+
+          {/* Pagination */}
+          <div className="bg-zinc-50 dark:bg-zinc-800 px-6 py-4 flex items-center justify-between border-t border-zinc-200 dark:border-zinc-700">
+            <button
+              onClick={() => setPage(p => Math.max(1, p - 1))}
+              disabled={page === 1}
+              className="px-4 py-2 text-sm font-medium text-zinc-700 dark:text-zinc-300 bg-white dark:bg-zinc-900 border border-zinc-300 dark:border-zinc-600 rounded-lg hover:bg-zinc-50 dark:hover:bg-zinc-800 disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              Previous
+            </button>
+            <span className="text-sm text-zinc-700 dark:text-zinc-300">
+              Page {page} of {totalPages}
+            </span>
+            <button
+              onClick={() => setPage(p => Math.min(totalPages, p + 1))}
+              disabled={page === totalPages}
+              className="px-4 py-2 text-sm font-medium text-zinc-700 dark:text-zinc-300 bg-white dark:bg-zinc-900 border border-zinc-300 dark:border-zinc-600 rounded-lg hover:bg-zinc-50 dark:hover:bg-zinc-800 disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              Next
+            </button>
+          </div>
+        </div>
+      </main>
+    </div>
+  );
+}
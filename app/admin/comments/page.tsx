@@ -0,0 +1,229 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { useRouter } from 'next/navigation';
+import { authFetch, logout } from '@/lib/client-auth';
+import NotificationBell from '@/components/NotificationBell';
+
+interface Comment {
+  id: string;
+  body: string;
+  createdAt: string;
+  updatedAt: string;
+  author: {
+    id: string;
+    email: string;
+    name: string | null;
+  } | null;
+  task: {
+    id: string;
+    title: string;
+  };
+}
+
+export default function CommentsModeration() {
+  const [comments, setComments] = useState<Comment[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [page, setPage] = useState(1);
+  const [totalPages, setTotalPages] = useState(1);
+  const [search, setSearch] = useState('');
+  // Bumped to refetch the current page after a deletion
+  const [reload, setReload] = useState(0);
+  const router = useRouter();
+
+  useEffect(() => {
+    const fetchComments = async () => {
+      try {
+        const params = new URLSearchParams({
+          page: page.toString(),
+          limit: '20',
+          ...(search && { search }),
+        });
+
+        const res = await authFetch(`/api/admin/comments?${params}`);
+
+        if (res.status === 401) {
+          router.push('/');
+          return;
+        }
+        if (!res.ok) throw new Error('Failed to fetch comments');
+
+        const data = await res.json();
+        setComments(data.comments);
+        setTotalPages(Math.max(1, data.pagination.totalPages));
+      } catch (error) {
+        console.error('Error:', error);
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    fetchComments();
+  }, [page, search, reload, router]);
+
+  const handleDelete = async (commentId: string) => {
+    if (!confirm('Delete this comment?')) return;
+
+    try {
+      const res = await authFetch(`/api/admin/comments/${commentId}`, {
+        method: 'DELETE',
+      });
+
+      if (!res.ok) throw new Error('Failed to delete comment');
+
+      setReload((n) => n + 1);
+    } catch (error) {
+      console.error('Error:', error);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="flex min-h-screen items-center justify-center bg-zinc-50 dark:bg-black">
+        <div className="text-zinc-600 dark:text-zinc-400">Loading...</div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-zinc-50 dark:bg-black">
+      {/* Header */}
+      <nav className="bg-white dark:bg-zinc-900 border-b border-zinc-200 dark:border-zinc-800">
+        <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
+          <div className="flex justify-between items-center h-16">
+            <div className="flex items-center gap-4">
+              <button
+                onClick={() => router.push('/admin')}
+                className="text-zinc-600 dark:text-zinc-400 hover:text-zinc-900 dark:hover:text-white"
+              >
+                ← Back
+              </button>
+              <h1 className="text-xl font-bold text-zinc-900 dark:text-white">
+                Comment Moderation
+              </h1>
+            </div>
+            <div className="flex items-center gap-4">
+              <NotificationBell />
+              <button
+                onClick={async () => {
+                  await logout();
+                  router.push('/');
+                }}
+                className="px-4 py-2 bg-red-600 hover:bg-red-700 text-white rounded-lg transition-colors text-sm"
+              >
+                Logout
+              </button>
+            </div>
+          </div>
+        </div>
+      </nav>
+
+      {/* Main Content */}
+      <main className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        {/* Filters */}
+        <div className="bg-white dark:bg-zinc-900 rounded-lg shadow p-6 mb-6 border border-zinc-200 dark:border-zinc-800">
+          <label className="block text-sm font-medium text-zinc-700 dark:text-zinc-300 mb-2">
+            Search
+          </label>
+          <input
+            type="text"
+            value={search}
+            onChange={(e) => {
+              setSearch(e.target.value);
+              setPage(1);
+            }}
+            placeholder="Search comment text..."
+            className="w-full px-4 py-2 rounded-lg border border-zinc-300 dark:border-zinc-600 bg-white dark:bg-zinc-800 text-zinc-900 dark:text-white"
+          />
+        </div>
+
+        {/* Comments Table */}
+        <div className="bg-white dark:bg-zinc-900 rounded-lg shadow border border-zinc-200 dark:border-zinc-800 overflow-hidden">
+          <div className="overflow-x-auto">
+            <table className="w-full">
+              <thead className="bg-zinc-50 dark:bg-zinc-800 border-b border-zinc-200 dark:border-zinc-700">
+                <tr>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-zinc-500 dark:text-zinc-400 uppercase tracking-wider">
+                    Comment
+                  </th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-zinc-500 dark:text-zinc-400 uppercase tracking-wider">
+                    Author
+                  </th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-zinc-500 dark:text-zinc-400 uppercase tracking-wider">
+                    Task
+                  </th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-zinc-500 dark:text-zinc-400 uppercase tracking-wider">
+                    Posted
+                  </th>
+                  <th className="px-6 py-3 text-right text-xs font-medium text-zinc-500 dark:text-zinc-400 uppercase tracking-wider">
+                    Actions
+                  </th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-zinc-200 dark:divide-zinc-700">
+                {comments.length === 0 && (
+                  <tr>
+                    <td colSpan={5} className="px-6 py-12 text-center text-sm text-zinc-500 dark:text-zinc-400">
+                      No comments found
+                    </td>
+                  </tr>
+                )}
+                {comments.map((comment) => (
+                  <tr key={comment.id} className="hover:bg-zinc-50 dark:hover:bg-zinc-800">
+                    <td className="px-6 py-4 text-sm text-zinc-900 dark:text-white whitespace-pre-wrap max-w-md">
+                      {comment.body}
+                    </td>
+                    <td className="px-6 py-4">
+                      <div className="text-sm font-medium text-zinc-900 dark:text-white">
+                        {comment.author ? comment.author.name || 'No name' : 'Deleted user'}
+                      </div>
+                      <div className="text-sm text-zinc-500 dark:text-zinc-400">
+                        {comment.author?.email}
+                      </div>
+                    </td>
+                    <td className="px-6 py-4 text-sm text-zinc-500 dark:text-zinc-400">
+                      {comment.task.title}
+                    </td>
+                    <td className="px-6 py-4 text-sm text-zinc-500 dark:text-zinc-400">
+                      {new Date(comment.createdAt).toLocaleString()}
+                      {comment.updatedAt !== comment.createdAt && ' (edited)'}
+                    </td>
+                    <td className="px-6 py-4 text-right">
+                      <button
+                        onClick={() => handleDelete(comment.id)}
+                        className="px-3 py-1 bg-red-600 hover:bg-red-700 text-white rounded text-xs transition-colors"
+                      >
+                        Delete
+                      </button>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+
+          {/* Pagination */}
+          <div className="bg-zinc-50 dark:bg-zinc-800 px-6 py-4 flex items-center justify-between border-t border-zinc-200 dark:border-zinc-700">
+            <button
+              onClick={() => setPage(p => Math.max(1, p - 1))}
+              disabled={page === 1}
+              className="px-4 py-2 text-sm font-medium text-zinc-700 dark:text-zinc-300 bg-white dark:bg-zinc-900 border border-zinc-300 dark:border-zinc-600 rounded-lg hover:bg-zinc-50 dark:hover:bg-zinc-800 disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              Previous
+            </button>
+            <span className="text-sm text-zinc-700 dark:text-zinc-300">
+              Page {page} of {totalPages}
+            </span>
+            <button
+              onClick={() => setPage(p => Math.min(totalPages, p + 1))}
+              disabled={page === totalPages}
+              className="px-4 py-2 text-sm font-medium text-zinc-700 dark:text-zinc-300 bg-white dark:bg-zinc-900 border border-zinc-300 dark:border-zinc-600 rounded-lg hover:bg-zinc-50 dark:hover:bg-zinc-800 disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              Next
+            </button>
+          </div>
+        </div>
+      </main>
+    </div>
+  );
+}
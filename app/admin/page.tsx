@@ -2,7 +2,8 @@
 
 import { useEffect, useState } from 'react';
 import { useRouter } from 'next/navigation';
-import { getToken, removeToken } from '@/lib/client-auth';
+import { authFetch, removeToken, logout } from '@/lib/client-auth';
+import NotificationBell from '@/components/NotificationBell';
 
 interface User {
   id: string;
@@ -16,12 +17,25 @@ interface Stats {
     total: number;
     admins: number;
     regular: number;
+    trashed: number;
   };
   tasks: {
     total: number;
     open: number;
     inProgress: number;
     done: number;
+    unlabeled: number;
+    trashed: number;
+    byLabel: {
+      id: string;
+      name: string;
+      color: string;
+      projectId: string | null;
+      total: number;
+      open: number;
+      inProgress: number;
+      done: number;
+    }[];
   };
 }
 
@@ -33,18 +47,9 @@ export default function AdminDashboard() {
 
   useEffect(() => {
     const fetchData = async () => {
-      const token = getToken();
-      
-      if (!token) {
-        router.push('/');
-        return;
-      }
-
       try {
         // Fetch current user
-        const userRes = await fetch('/api/auth/me', {
-          headers: { 'Authorization': `Bearer ${token}` },
-        });
+        const userRes = await authFetch('/api/auth/me');
 
         if (!userRes.ok) throw new Error('Unauthorized');
 
@@ -59,9 +64,7 @@ export default function AdminDashboard() {
         setUser(userData.user);
 
         // Fetch admin stats
-        const statsRes = await fetch('/api/admin/stats', {
-          headers: { 'Authorization': `Bearer ${token}` },
-        });
+        const statsRes = await authFetch('/api/admin/stats');
 
         if (statsRes.ok) {
           const statsData = await statsRes.json();
@@ -79,8 +82,8 @@ export default function AdminDashboard() {
     fetchData();
   }, [router]);
 
-  const handleLogout = () => {
-    removeToken();
+  const handleLogout = async () => {
+    await logout();
     router.push('/');
   };
 
@@ -107,6 +110,7 @@ export default function AdminDashboard() {
               </span>
             </div>
             <div className="flex items-center gap-4">
+              <NotificationBell />
               <span className="text-sm text-zinc-600 dark:text-zinc-400">
                 {user?.email}
               </span>
@@ -148,6 +152,9 @@ export default function AdminDashboard() {
                 <span className="text-zinc-600 dark:text-zinc-400">
                   Users: <span className="font-semibold text-zinc-900 dark:text-white">{stats.users.regular}</span>
                 </span>
+                <span className="text-zinc-600 dark:text-zinc-400">
+                  In trash: <span className="font-semibold text-zinc-900 dark:text-white">{stats.users.trashed}</span>
+                </span>
               </div>
             </div>
 
@@ -166,6 +173,11 @@ export default function AdminDashboard() {
                   </svg>
                 </div>
               </div>
+              <div className="mt-4 flex gap-4 text-xs">
+                <span className="text-zinc-600 dark:text-zinc-400">
+                  In trash: <span className="font-semibold text-zinc-900 dark:text-white">{stats.tasks.trashed}</span>
+                </span>
+              </div>
             </div>
 
             {/* Open Tasks */}
@@ -204,6 +216,46 @@ export default function AdminDashboard() {
           </div>
         )}
 
+        {/* Tasks by Label */}
+        {stats && stats.tasks.byLabel.length > 0 && (
+          <div className="bg-white dark:bg-zinc-900 rounded-lg shadow p-6 border border-zinc-200 dark:border-zinc-800 mb-8">
+            <h2 className="text-lg font-semibold text-zinc-900 dark:text-white mb-4">Tasks by Label</h2>
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-left text-xs text-zinc-500 dark:text-zinc-400 uppercase tracking-wider">
+                  <th className="pb-2">Label</th>
+                  <th className="pb-2 text-right">Open</th>
+                  <th className="pb-2 text-right">In Progress</th>
+                  <th className="pb-2 text-right">Done</th>
+                  <th className="pb-2 text-right">Total</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-zinc-200 dark:divide-zinc-700">
+                {stats.tasks.byLabel.map((label) => (
+                  <tr key={label.id} className="text-zinc-700 dark:text-zinc-300">
+                    <td className="py-2">
+                      <span className="inline-flex items-center gap-2">
+                        <span className="h-2.5 w-2.5 rounded-full" style={{ backgroundColor: label.color }} />
+                        {label.name}
+                        <span className="text-xs text-zinc-400 dark:text-zinc-500">
+                          {label.projectId ? 'project' : 'personal'}
+                        </span>
+                      </span>
+                    </td>
+                    <td className="py-2 text-right">{label.open}</td>
+                    <td className="py-2 text-right">{label.inProgress}</td>
+                    <td className="py-2 text-right">{label.done}</td>
+                    <td className="py-2 text-right font-semibold text-zinc-900 dark:text-white">{label.total}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+            <p className="mt-3 text-xs text-zinc-500 dark:text-zinc-400">
+              Tasks without labels: {stats.tasks.unlabeled}
+            </p>
+          </div>
+        )}
+
         {/* Quick Actions */}
         <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
           <button
@@ -227,6 +279,48 @@ export default function AdminDashboard() {
             </div>
           </button>
 
+          <button
+            onClick={() => router.push('/admin/comments')}
+            className="bg-white dark:bg-zinc-900 rounded-lg shadow p-6 border border-zinc-200 dark:border-zinc-800 hover:border-purple-500 dark:hover:border-purple-500 transition-colors text-left"
+          >
+            <div className="flex items-center gap-4">
+              <div className="w-12 h-12 bg-purple-100 dark:bg-purple-900 rounded-lg flex items-center justify-center">
+                <svg className="w-6 h-6 text-purple-600 dark:text-purple-400" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M8 10h.01M12 10h.01M16 10h.01M9 16H5a2 2 0 01-2-2V6a2 2 0 012-2h14a2 2 0 012 2v8a2 2 0 01-2 2h-5l-5 5v-5z" />
+                </svg>
+              </div>
+              <div>
+                <h3 className="text-lg font-semibold text-zinc-900 dark:text-white">
+                  Moderate Comments
+                </h3>
+                <p className="text-sm text-zinc-600 dark:text-zinc-400">
+                  Review and remove task comments
+                </p>
+              </div>
+            </div>
+          </button>
+
+          <button
+            onClick={() => router.push('/admin/audit')}
+            className="bg-white dark:bg-zinc-900 rounded-lg shadow p-6 border border-zinc-200 dark:border-zinc-800 hover:border-yellow-500 dark:hover:border-yellow-500 transition-colors text-left"
+          >
+            <div className="flex items-center gap-4">
+              <div className="w-12 h-12 bg-yellow-100 dark:bg-yellow-900 rounded-lg flex items-center justify-center">
+                <svg className="w-6 h-6 text-yellow-600 dark:text-yellow-400" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 12h6m-6 4h6m2 5H7a2 2 0 01-2-2V5a2 2 0 012-2h5.586a1 1 0 01.707.293l5.414 5.414a1 1 0 01.293.707V19a2 2 0 01-2 2z" />
+                </svg>
+              </div>
+              <div>
+                <h3 className="text-lg font-semibold text-zinc-900 dark:text-white">
+                  Audit Log
+                </h3>
+                <p className="text-sm text-zinc-600 dark:text-zinc-400">
+                  See who changed what, and when
+                </p>
+              </div>
+            </div>
+          </button>
+
           <button
             onClick={() => router.push('/dashboard')}
             className="bg-white dark:bg-zinc-900 rounded-lg shadow p-6 border border-zinc-200 dark:border-zinc-800 hover:border-green-500 dark:hover:border-green-500 transition-colors text-left"
@@ -2,7 +2,8 @@
 
 import { useEffect, useState } from 'react';
 import { useRouter } from 'next/navigation';
-import { getToken, removeToken } from '@/lib/client-auth';
+import { authFetch, logout } from '@/lib/client-auth';
+import NotificationBell from '@/components/NotificationBell';
 
 interface User {
   id: string;
@@ -13,6 +14,13 @@ interface User {
   _count: {
     tasks: number;
   };
+  lockout: {
+    failedAttempts: number;
+    locked: boolean;
+    lockedUntil: string | null;
+  };
+  // Set for users in the trash
+  purgeAt?: string;
 }
 
 export default function UsersManagement() {
@@ -22,27 +30,25 @@ export default function UsersManagement() {
   const [totalPages, setTotalPages] = useState(1);
   const [search, setSearch] = useState('');
   const [roleFilter, setRoleFilter] = useState('');
+  const [showDeleted, setShowDeleted] = useState(false);
   const router = useRouter();
 
   const fetchUsers = async () => {
-    const token = getToken();
-    if (!token) {
-      router.push('/');
-      return;
-    }
-
     try {
       const params = new URLSearchParams({
         page: page.toString(),
         limit: '10',
         ...(search && { search }),
         ...(roleFilter && { role: roleFilter }),
+        ...(showDeleted && { deleted: 'true' }),
       });
 
-      const res = await fetch(`/api/admin/users?${params}`, {
-        headers: { 'Authorization': `Bearer ${token}` },
-      });
+      const res = await authFetch(`/api/admin/users?${params}`);
 
+      if (res.status === 401) {
+        router.push('/');
+        return;
+      }
       if (!res.ok) throw new Error('Failed to fetch users');
 
       const data = await res.json();
@@ -55,9 +61,39 @@ export default function UsersManagement() {
     }
   };
 
+  const handleUnlock = async (userId: string) => {
+    try {
+      const res = await authFetch(`/api/admin/users/${userId}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ unlock: true }),
+      });
+
+      if (!res.ok) throw new Error('Failed to unlock user');
+
+      await fetchUsers();
+    } catch (error) {
+      console.error('Error:', error);
+    }
+  };
+
+  const handleRestore = async (userId: string) => {
+    try {
+      const res = await authFetch(`/api/admin/users/${userId}/restore`, {
+        method: 'POST',
+      });
+
+      if (!res.ok) throw new Error('Failed to restore user');
+
+      await fetchUsers();
+    } catch (error) {
+      console.error('Error:', error);
+    }
+  };
+
   useEffect(() => {
     fetchUsers();
-  }, [page, search, roleFilter]);
+  }, [page, search, roleFilter, showDeleted]);
 
   if (loading) {
     return (
@@ -84,15 +120,18 @@ export default function UsersManagement() {
                 User Management
               </h1>
             </div>
-            <button
-              onClick={() => {
-                removeToken();
-                router.push('/');
-              }}
-              className="px-4 py-2 bg-red-600 hover:bg-red-700 text-white rounded-lg transition-colors text-sm"
-            >
-              Logout
-            </button>
+            <div className="flex items-center gap-4">
+              <NotificationBell />
+              <button
+                onClick={async () => {
+                  await logout();
+                  router.push('/');
+                }}
+                className="px-4 py-2 bg-red-600 hover:bg-red-700 text-white rounded-lg transition-colors text-sm"
+              >
+                Logout
+              </button>
+            </div>
           </div>
         </div>
       </nav>
@@ -134,6 +173,22 @@ export default function UsersManagement() {
                 <option value="ADMIN">Admin</option>
               </select>
             </div>
+            <div>
+              <label className="block text-sm font-medium text-zinc-700 dark:text-zinc-300 mb-2">
+                Status
+              </label>
+              <select
+                value={showDeleted ? 'deleted' : ''}
+                onChange={(e) => {
+                  setShowDeleted(e.target.value === 'deleted');
+                  setPage(1);
+                }}
+                className="w-full px-4 py-2 rounded-lg border border-zinc-300 dark:border-zinc-600 bg-white dark:bg-zinc-800 text-zinc-900 dark:text-white"
+              >
+                <option value="">Active</option>
+                <option value="deleted">In trash</option>
+              </select>
+            </div>
           </div>
         </div>
 
@@ -152,6 +207,9 @@ export default function UsersManagement() {
                   <th className="px-6 py-3 text-left text-xs font-medium text-zinc-500 dark:text-zinc-400 uppercase tracking-wider">
                     Tasks
                   </th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-zinc-500 dark:text-zinc-400 uppercase tracking-wider">
+                    Login
+                  </th>
                   <th className="px-6 py-3 text-left text-xs font-medium text-zinc-500 dark:text-zinc-400 uppercase tracking-wider">
                     Joined
                   </th>
@@ -182,6 +240,42 @@ export default function UsersManagement() {
                     <td className="px-6 py-4 text-sm text-zinc-900 dark:text-white">
                       {user._count.tasks}
                     </td>
+                    <td className="px-6 py-4">
+                      {user.purgeAt ? (
+                        <div className="flex items-center gap-2">
+                          <span className="text-sm text-zinc-500 dark:text-zinc-400">
+                            Purged {new Date(user.purgeAt).toLocaleDateString()}
+                          </span>
+                          <button
+                            onClick={() => handleRestore(user.id)}
+                            className="text-xs text-blue-600 dark:text-blue-400 hover:underline"
+                          >
+                            Restore
+                          </button>
+                        </div>
+                      ) : user.lockout.locked ? (
+                        <div className="flex items-center gap-2">
+                          <span
+                            title={`Locked until ${new Date(user.lockout.lockedUntil!).toLocaleString()}`}
+                            className="px-2 py-1 text-xs font-semibold rounded bg-red-100 dark:bg-red-900 text-red-800 dark:text-red-200"
+                          >
+                            LOCKED
+                          </span>
+                          <button
+                            onClick={() => handleUnlock(user.id)}
+                            className="text-xs text-blue-600 dark:text-blue-400 hover:underline"
+                          >
+                            Unlock
+                          </button>
+                        </div>
+                      ) : (
+                        <span className="text-sm text-zinc-500 dark:text-zinc-400">
+                          {user.lockout.failedAttempts > 0
+                            ? `${user.lockout.failedAttempts} failed`
+                            : 'OK'}
+                        </span>
+                      )}
+                    </td>
                     <td className="px-6 py-4 text-sm text-zinc-500 dark:text-zinc-400">
                       {new Date(user.createdAt).toLocaleDateString()}
                     </td>
@@ -0,0 +1,61 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireAdmin } from '@/lib/middleware';
+import { prisma } from '@/lib/prisma';
+import { Prisma } from '@prisma/client';
+import { listAuditEventsQuerySchema } from '@/lib/schemas';
+
+// GET /api/admin/audit - Browse the audit log, newest first
+export const GET = requireAdmin(async (request: NextRequest, user, context, { query }) => {
+  try {
+    const { page, limit, action, actorId, targetType, targetId, from, to } = query;
+
+    const skip = (page - 1) * limit;
+
+    // Build where clause
+    const where: Prisma.AuditEventWhereInput = {};
+    if (action) {
+      where.action = action;
+    }
+    if (actorId) {
+      where.actorId = actorId;
+    }
+    if (targetType) {
+      where.targetType = targetType;
+    }
+    if (targetId) {
+      where.targetId = targetId;
+    }
+    if (from || to) {
+      where.createdAt = {
+        ...(from && { gte: new Date(from) }),
+        ...(to && { lt: new Date(to) }),
+      };
+    }
+
+    const [events, total] = await Promise.all([
+      prisma.auditEvent.findMany({
+        where,
+        skip,
+        take: limit,
+        orderBy: { createdAt: 'desc' },
+      }),
+      prisma.auditEvent.count({ where }),
+    ]);
+
+    return NextResponse.json({
+      events,
+      pagination: {
+        page,
+        limit,
+        total,
+        totalPages: Math.ceil(total / limit),
+      },
+    });
+  } catch (error) {
+    console.error('Get audit events error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}, { query: listAuditEventsQuerySchema });
@@ -0,0 +1,45 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireAdmin } from '@/lib/middleware';
+import { prisma } from '@/lib/prisma';
+import { recordAudit } from '@/lib/audit';
+
+// DELETE /api/admin/comments/[id] - Remove any comment
+export const DELETE = requireAdmin(
+  async (request: NextRequest, user, { params }: { params: Promise<{ id: string }> }) => {
+    try {
+      const { id } = await params;
+
+      const comment = await prisma.comment.findUnique({
+        where: { id },
+      });
+
+      if (!comment) {
+        return NextResponse.json(
+          { error: 'Comment not found' },
+          { status: 404 }
+        );
+      }
+
+      await prisma.comment.delete({
+        where: { id },
+      });
+
+      await recordAudit(request, user, {
+        action: 'admin.comment_delete',
+        targetType: 'comment',
+        targetId: id,
+        before: { body: comment.body, taskId: comment.taskId, authorId: comment.authorId },
+      });
+
+      return NextResponse.json({
+        message: 'Comment deleted successfully',
+      });
+    } catch (error) {
+      console.error('Delete comment error:', error);
+      return NextResponse.json(
+        { error: 'Internal server error' },
+        { status: 500 }
+      );
+    }
+  }
+);
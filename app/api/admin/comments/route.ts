@@ -0,0 +1,57 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireAdmin } from '@/lib/middleware';
+import { prisma } from '@/lib/prisma';
+import { Prisma } from '@prisma/client';
+import { listCommentsQuerySchema } from '@/lib/schemas';
+import { commentInclude, toComment } from '@/lib/comments';
+
+// GET /api/admin/comments - Get all comments, newest first, for moderation
+export const GET = requireAdmin(async (request: NextRequest, user, context, { query }) => {
+  try {
+    const { page, limit, taskId, authorId, search } = query;
+
+    const skip = (page - 1) * limit;
+
+    // Build where clause
+    const where: Prisma.CommentWhereInput = { task: { deletedAt: null } };
+    if (taskId) {
+      where.taskId = taskId;
+    }
+    if (authorId) {
+      where.authorId = authorId;
+    }
+    if (search) {
+      where.body = { contains: search, mode: 'insensitive' };
+    }
+
+    const [comments, total] = await Promise.all([
+      prisma.comment.findMany({
+        where,
+        include: {
+          ...commentInclude,
+          task: { select: { id: true, title: true } },
+        },
+        skip,
+        take: limit,
+        orderBy: { createdAt: 'desc' },
+      }),
+      prisma.comment.count({ where }),
+    ]);
+
+    return NextResponse.json({
+      comments: comments.map(toComment),
+      pagination: {
+        page,
+        limit,
+        total,
+        totalPages: Math.ceil(total / limit),
+      },
+    });
+  } catch (error) {
+    console.error('Get all comments error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}, { query: listCommentsQuerySchema });
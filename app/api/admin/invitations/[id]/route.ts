@@ -0,0 +1,52 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireAdmin } from '@/lib/middleware';
+import { prisma } from '@/lib/prisma';
+import { recordAudit } from '@/lib/audit';
+
+// DELETE /api/admin/invitations/[id] - Revoke a pending invitation
+export const DELETE = requireAdmin(
+  async (request: NextRequest, user, { params }: { params: Promise<{ id: string }> }) => {
+    try {
+      const { id } = await params;
+
+      const invitation = await prisma.invitation.findUnique({
+        where: { id },
+      });
+
+      if (!invitation) {
+        return NextResponse.json(
+          { error: 'Invitation not found' },
+          { status: 404 }
+        );
+      }
+
+      if (invitation.acceptedAt) {
+        return NextResponse.json(
+          { error: 'Invitation has already been accepted' },
+          { status: 400 }
+        );
+      }
+
+      await prisma.invitation.delete({
+        where: { id },
+      });
+
+      await recordAudit(request, user, {
+        action: 'admin.invitation_revoke',
+        targetType: 'invitation',
+        targetId: id,
+        before: { email: invitation.email, role: invitation.role, expiresAt: invitation.expiresAt },
+      });
+
+      return NextResponse.json({
+        message: 'Invitation revoked successfully',
+      });
+    } catch (error) {
+      console.error('Revoke invitation error:', error);
+      return NextResponse.json(
+        { error: 'Internal server error' },
+        { status: 500 }
+      );
+    }
+  }
+);
@@ -0,0 +1,112 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireAdmin } from '@/lib/middleware';
+import { prisma } from '@/lib/prisma';
+import { generateOpaqueToken } from '@/lib/auth';
+import { createInvitationSchema } from '@/lib/schemas';
+import { recordAudit } from '@/lib/audit';
+import { appUrl, queueMail } from '@/lib/mail';
+
+const invitationSelect = {
+  id: true,
+  email: true,
+  role: true,
+  expiresAt: true,
+  acceptedAt: true,
+  createdAt: true,
+  createdBy: { select: { id: true, email: true } },
+  acceptedBy: { select: { id: true, email: true } },
+};
+
+// GET /api/admin/invitations - List invitations
+export const GET = requireAdmin(async () => {
+  try {
+    const invitations = await prisma.invitation.findMany({
+      select: invitationSelect,
+      orderBy: { createdAt: 'desc' },
+    });
+
+    const now = new Date();
+    return NextResponse.json({
+      invitations: invitations.map((invitation) => ({
+        ...invitation,
+        status: invitation.acceptedAt
+          ? 'ACCEPTED'
+          : invitation.expiresAt < now
+            ? 'EXPIRED'
+            : 'PENDING',
+      })),
+    });
+  } catch (error) {
+    console.error('Get invitations error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+});
+
+// POST /api/admin/invitations - Create an invitation
+export const POST = requireAdmin(async (request: NextRequest, user, context, { body }) => {
+  try {
+    const { email, role, expiresInHours } = body;
+
+    if (email) {
+      const existingUser = await prisma.user.findUnique({
+        where: { email },
+      });
+
+      if (existingUser) {
+        return NextResponse.json(
+          { error: 'User already exists' },
+          { status: 409 }
+        );
+      }
+    }
+
+    const { token, tokenHash } = generateOpaqueToken();
+
+    const invitation = await prisma.invitation.create({
+      data: {
+        tokenHash,
+        email: email || null,
+        role,
+        expiresAt: new Date(Date.now() + expiresInHours * 60 * 60 * 1000),
+        createdById: user.userId,
+      },
+      select: invitationSelect,
+    });
+
+    await recordAudit(request, user, {
+      action: 'admin.invitation_create',
+      targetType: 'invitation',
+      targetId: invitation.id,
+      after: { email: invitation.email, role: invitation.role, expiresAt: invitation.expiresAt },
+    });
+
+    if (invitation.email) {
+      await queueMail(invitation.email, 'invitation', {
+        inviterEmail: user.email,
+        role: invitation.role,
+        acceptUrl: appUrl(`/?invite=${token}`),
+        expiresAt: invitation.expiresAt,
+      });
+    }
+
+    // The raw token is only returned here and in the invitation email; the
+    // database keeps its hash
+    return NextResponse.json(
+      {
+        message: 'Invitation created successfully',
+        invitation: { ...invitation, status: 'PENDING' },
+        token,
+      },
+      { status: 201 }
+    );
+  } catch (error) {
+    console.error('Create invitation error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}, { body: createInvitationSchema });
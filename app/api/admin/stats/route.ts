@@ -1,6 +1,10 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { requireAdmin } from '@/lib/middleware';
 import { prisma } from '@/lib/prisma';
+import { labelTaskStats } from '@/lib/labels';
+
+// Labels listed in the per-label task breakdown
+const TOP_LABELS = 20;
 
 // GET /api/admin/stats - Get system statistics
 export const GET = requireAdmin(async (request: NextRequest) => {
@@ -14,16 +18,25 @@ export const GET = requireAdmin(async (request: NextRequest) => {
       openTasks,
       inProgressTasks,
       doneTasks,
+      unlabeledTasks,
+      trashedUsers,
+      trashedTasks,
+      byLabel,
       recentUsers,
     ] = await Promise.all([
-      prisma.user.count(),
-      prisma.user.count({ where: { role: 'ADMIN' } }),
-      prisma.user.count({ where: { role: 'USER' } }),
-      prisma.task.count(),
-      prisma.task.count({ where: { status: 'OPEN' } }),
-      prisma.task.count({ where: { status: 'IN_PROGRESS' } }),
-      prisma.task.count({ where: { status: 'DONE' } }),
+      prisma.user.count({ where: { deletedAt: null } }),
+      prisma.user.count({ where: { role: 'ADMIN', deletedAt: null } }),
+      prisma.user.count({ where: { role: 'USER', deletedAt: null } }),
+      prisma.task.count({ where: { deletedAt: null } }),
+      prisma.task.count({ where: { status: 'OPEN', deletedAt: null } }),
+      prisma.task.count({ where: { status: 'IN_PROGRESS', deletedAt: null } }),
+      prisma.task.count({ where: { status: 'DONE', deletedAt: null } }),
+      prisma.task.count({ where: { labels: { none: {} }, deletedAt: null } }),
+      prisma.user.count({ where: { deletedAt: { not: null } } }),
+      prisma.task.count({ where: { deletedAt: { not: null } } }),
+      labelTaskStats(TOP_LABELS),
       prisma.user.findMany({
+        where: { deletedAt: null },
         select: {
           id: true,
           email: true,
@@ -36,14 +49,16 @@ export const GET = requireAdmin(async (request: NextRequest) => {
       }),
     ]);
 
-    // Get top users by task count
+    // Get top users by task count. Prisma can't order by a filtered count, so
+    // the ranking includes tasks in the trash.
     const topUsers = await prisma.user.findMany({
+      where: { deletedAt: null },
       select: {
         id: true,
         email: true,
         name: true,
         _count: {
-          select: { tasks: true },
+          select: { tasks: { where: { deletedAt: null } } },
         },
       },
       orderBy: {
@@ -59,6 +74,7 @@ export const GET = requireAdmin(async (request: NextRequest) => {
         total: totalUsers,
         admins: adminUsers,
         regular: regularUsers,
+        trashed: trashedUsers,
         recent: recentUsers,
         topUsers: topUsers.map((u) => ({
           id: u.id,
@@ -72,6 +88,9 @@ export const GET = requireAdmin(async (request: NextRequest) => {
         open: openTasks,
         inProgress: inProgressTasks,
         done: doneTasks,
+        unlabeled: unlabeledTasks,
+        trashed: trashedTasks,
+        byLabel,
       },
     });
   } catch (error) {
@@ -1,41 +1,70 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { requireAdmin } from '@/lib/middleware';
 import { prisma } from '@/lib/prisma';
+import { Prisma } from '@prisma/client';
+import { listAllTasksQuerySchema } from '@/lib/schemas';
+import { searchTasks, withSearchHits } from '@/lib/search';
+import { labelFilterWhere, labelSelect } from '@/lib/labels';
+
+const userSelect = {
+  id: true,
+  email: true,
+  name: true,
+  role: true,
+};
+
+const taskInclude = {
+  user: { select: userSelect },
+  labels: { select: labelSelect, orderBy: { name: 'asc' } },
+} satisfies Prisma.TaskInclude;
 
 // GET /api/admin/tasks - Get all tasks across all users
-export const GET = requireAdmin(async (request: NextRequest) => {
+// ?q= switches to ranked full-text search
+export const GET = requireAdmin(async (request: NextRequest, user, context, { query }) => {
   try {
-    const { searchParams } = new URL(request.url);
-    const page = parseInt(searchParams.get('page') || '1');
-    const limit = parseInt(searchParams.get('limit') || '20');
-    const status = searchParams.get('status');
-    const userId = searchParams.get('userId');
+    const { page, limit, status, userId, labels, labelMatch, q } = query;
 
     const skip = (page - 1) * limit;
 
+    if (q) {
+      const { hits, total } = await searchTasks(
+        q,
+        { userId, status, labelIds: labels, labelMatch },
+        { limit, offset: skip }
+      );
+      const tasks = await prisma.task.findMany({
+        where: { id: { in: hits.map((hit) => hit.id) } },
+        include: taskInclude,
+      });
+
+      return NextResponse.json({
+        tasks: withSearchHits(tasks, hits),
+        pagination: {
+          page,
+          limit,
+          total,
+          totalPages: Math.ceil(total / limit),
+        },
+      });
+    }
+
     // Build where clause
-    const where: any = {};
+    const where: Prisma.TaskWhereInput = { deletedAt: null };
     if (status) {
       where.status = status;
     }
     if (userId) {
       where.userId = userId;
     }
+    if (labels) {
+      Object.assign(where, labelFilterWhere(labels, labelMatch));
+    }
 
     // Get tasks with pagination
     const [tasks, total] = await Promise.all([
       prisma.task.findMany({
         where,
-        include: {
-          user: {
-            select: {
-              id: true,
-              email: true,
-              name: true,
-              role: true,
-            },
-          },
-        },
+        include: taskInclude,
         skip,
         take: limit,
         orderBy: { createdAt: 'desc' },
@@ -59,4 +88,4 @@ export const GET = requireAdmin(async (request: NextRequest) => {
       { status: 500 }
     );
   }
-});
+}, { query: listAllTasksQuerySchema });
@@ -1,34 +1,26 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { requireAdmin } from '@/lib/middleware';
 import { prisma } from '@/lib/prisma';
-import { hashPassword } from '@/lib/auth';
-import { revokeAllUserSessions } from '@/lib/cache';
+import { setPassword } from '@/lib/password-reset';
+import { resetPasswordSchema } from '@/lib/schemas';
+import { recordAudit } from '@/lib/audit';
+import { notify } from '@/lib/notifications';
 
 // POST /api/admin/users/[id]/password - Reset user password
 export const POST = requireAdmin(
-  async (request: NextRequest, user, { params }: { params: Promise<{ id: string }> }) => {
+  async (
+    request: NextRequest,
+    user,
+    { params }: { params: Promise<{ id: string }> },
+    { body }
+  ) => {
     try {
       const { id } = await params;
-      const body = await request.json();
       const { newPassword } = body;
 
-      if (!newPassword) {
-        return NextResponse.json(
-          { error: 'New password is required' },
-          { status: 400 }
-        );
-      }
-
-      if (newPassword.length < 8) {
-        return NextResponse.json(
-          { error: 'Password must be at least 8 characters' },
-          { status: 400 }
-        );
-      }
-
       // Check if user exists
       const existingUser = await prisma.user.findUnique({
-        where: { id },
+        where: { id, deletedAt: null },
       });
 
       if (!existingUser) {
@@ -38,17 +30,22 @@ export const POST = requireAdmin(
         );
       }
 
-      // Hash new password
-      const passwordHash = await hashPassword(newPassword);
+      // Update password and revoke all sessions to force re-login
+      await setPassword(id, newPassword);
 
-      // Update password
-      await prisma.user.update({
-        where: { id },
-        data: { passwordHash },
+      await recordAudit(request, user, {
+        action: 'admin.password_reset',
+        targetType: 'user',
+        targetId: id,
       });
-
-      // Revoke all sessions to force re-login
-      await revokeAllUserSessions(id);
+      await notify([
+        {
+          userId: id,
+          type: 'PASSWORD_RESET',
+          message: `${user.email} reset your password`,
+          actorId: user.userId,
+        },
+      ]);
 
       return NextResponse.json({
         message: 'Password reset successfully. User must login again.',
@@ -60,5 +57,6 @@ export const POST = requireAdmin(
         { status: 500 }
       );
     }
-  }
+  },
+  { body: resetPasswordSchema }
 );
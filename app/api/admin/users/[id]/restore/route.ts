@@ -0,0 +1,48 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireAdmin } from '@/lib/middleware';
+import { prisma } from '@/lib/prisma';
+import { invalidateUserCache } from '@/lib/cache';
+import { restoreUser } from '@/lib/trash';
+import { recordAudit } from '@/lib/audit';
+
+// POST /api/admin/users/[id]/restore - Restore a user and their tasks from the trash
+export const POST = requireAdmin(
+  async (request: NextRequest, user, { params }: { params: Promise<{ id: string }> }) => {
+    try {
+      const { id } = await params;
+
+      const trashedUser = await prisma.user.findUnique({
+        where: { id },
+      });
+
+      if (!trashedUser?.deletedAt) {
+        return NextResponse.json(
+          { error: 'User not found in the trash' },
+          { status: 404 }
+        );
+      }
+
+      const { restoredTasks } = await restoreUser({ id, deletedAt: trashedUser.deletedAt });
+
+      await invalidateUserCache(id);
+
+      await recordAudit(request, user, {
+        action: 'admin.user_restore',
+        targetType: 'user',
+        targetId: id,
+        after: { email: trashedUser.email, name: trashedUser.name, role: trashedUser.role },
+      });
+
+      return NextResponse.json({
+        message: 'User restored successfully',
+        restoredTasks,
+      });
+    } catch (error) {
+      console.error('Restore user error:', error);
+      return NextResponse.json(
+        { error: 'Internal server error' },
+        { status: 500 }
+      );
+    }
+  }
+);
@@ -2,6 +2,11 @@ import { NextRequest, NextResponse } from 'next/server';
 import { requireAdmin } from '@/lib/middleware';
 import { prisma } from '@/lib/prisma';
 import { invalidateUserCache, revokeAllUserSessions } from '@/lib/cache';
+import { getAccountLockouts, clearLoginFailures } from '@/lib/lockout';
+import { updateUserSchema } from '@/lib/schemas';
+import { recordAudit, auditDiff } from '@/lib/audit';
+import { purgeDate, trashUser } from '@/lib/trash';
+import { notify } from '@/lib/notifications';
 
 // GET /api/admin/users/[id] - Get user details
 export const GET = requireAdmin(
@@ -10,7 +15,7 @@ export const GET = requireAdmin(
       const { id } = await params;
 
       const userData = await prisma.user.findUnique({
-        where: { id },
+        where: { id, deletedAt: null },
         select: {
           id: true,
           email: true,
@@ -18,6 +23,7 @@ export const GET = requireAdmin(
           role: true,
           createdAt: true,
           tasks: {
+            where: { deletedAt: null },
             select: {
               id: true,
               title: true,
@@ -28,7 +34,7 @@ export const GET = requireAdmin(
             take: 10,
           },
           _count: {
-            select: { tasks: true },
+            select: { tasks: { where: { deletedAt: null } } },
           },
         },
       });
@@ -40,7 +46,9 @@ export const GET = requireAdmin(
         );
       }
 
-      return NextResponse.json({ user: userData });
+      const [lockout] = await getAccountLockouts([userData.email]);
+
+      return NextResponse.json({ user: { ...userData, lockout } });
     } catch (error) {
       console.error('Get user error:', error);
       return NextResponse.json(
@@ -53,11 +61,15 @@ export const GET = requireAdmin(
 
 // PATCH /api/admin/users/[id] - Update user
 export const PATCH = requireAdmin(
-  async (request: NextRequest, user, { params }: { params: Promise<{ id: string }> }) => {
+  async (
+    request: NextRequest,
+    user,
+    { params }: { params: Promise<{ id: string }> },
+    { body }
+  ) => {
     try {
       const { id } = await params;
-      const body = await request.json();
-      const { name, role, email } = body;
+      const { name, role, email, unlock } = body;
 
       // Prevent admin from demoting themselves
       if (id === user.userId && role === 'USER') {
@@ -69,7 +81,7 @@ export const PATCH = requireAdmin(
 
       // Check if user exists
       const existingUser = await prisma.user.findUnique({
-        where: { id },
+        where: { id, deletedAt: null },
       });
 
       if (!existingUser) {
@@ -113,11 +125,36 @@ export const PATCH = requireAdmin(
       // Invalidate user cache
       await invalidateUserCache(id);
 
+      // Clear failed login attempts and any temporary lock
+      if (unlock) {
+        await clearLoginFailures(existingUser.email);
+      }
+
       // If role changed, revoke all sessions to force re-login
       if (role !== undefined && role !== existingUser.role) {
         await revokeAllUserSessions(id);
       }
 
+      const changes = auditDiff(existingUser, updatedUser, ['name', 'role', 'email']);
+      await recordAudit(request, user, {
+        action: 'admin.user_update',
+        targetType: 'user',
+        targetId: id,
+        before: changes.before,
+        after: { ...changes.after, ...(unlock && { unlocked: true }) },
+      });
+
+      if (role !== undefined && role !== existingUser.role) {
+        await notify([
+          {
+            userId: id,
+            type: 'ROLE_CHANGED',
+            message: `${user.email} changed your role from ${existingUser.role} to ${role}`,
+            actorId: user.userId,
+          },
+        ]);
+      }
+
       return NextResponse.json({
         message: 'User updated successfully',
         user: updatedUser,
@@ -129,10 +166,11 @@ export const PATCH = requireAdmin(
         { status: 500 }
       );
     }
-  }
+  },
+  { body: updateUserSchema }
 );
 
-// DELETE /api/admin/users/[id] - Delete user
+// DELETE /api/admin/users/[id] - Move a user and their tasks to the trash
 export const DELETE = requireAdmin(
   async (request: NextRequest, user, { params }: { params: Promise<{ id: string }> }) => {
     try {
@@ -148,7 +186,7 @@ export const DELETE = requireAdmin(
 
       // Check if user exists
       const existingUser = await prisma.user.findUnique({
-        where: { id },
+        where: { id, deletedAt: null },
       });
 
       if (!existingUser) {
@@ -158,17 +196,24 @@ export const DELETE = requireAdmin(
         );
       }
 
-      // Delete user (tasks will be cascade deleted)
-      await prisma.user.delete({
-        where: { id },
-      });
+      // The tasks they created go with them, and come back with them
+      const { deletedAt, deletedTasks } = await trashUser(id);
 
       // Clean up cache and sessions
       await invalidateUserCache(id);
       await revokeAllUserSessions(id);
 
+      await recordAudit(request, user, {
+        action: 'admin.user_delete',
+        targetType: 'user',
+        targetId: id,
+        before: { email: existingUser.email, name: existingUser.name, role: existingUser.role },
+      });
+
       return NextResponse.json({
         message: 'User deleted successfully',
+        deletedTasks,
+        purgeAt: purgeDate(deletedAt),
       });
     } catch (error) {
       console.error('Delete user error:', error);
@@ -1,18 +1,24 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { requireAdmin } from '@/lib/middleware';
 import { prisma } from '@/lib/prisma';
+import { Prisma } from '@prisma/client';
+import { userTasksQuerySchema } from '@/lib/schemas';
 
 // GET /api/admin/users/[id]/tasks - Get all tasks for a specific user
 export const GET = requireAdmin(
-  async (request: NextRequest, user, { params }: { params: Promise<{ id: string }> }) => {
+  async (
+    request: NextRequest,
+    user,
+    { params }: { params: Promise<{ id: string }> },
+    { query }
+  ) => {
     try {
       const { id } = await params;
-      const { searchParams } = new URL(request.url);
-      const status = searchParams.get('status');
+      const { status } = query;
 
       // Check if user exists
       const userExists = await prisma.user.findUnique({
-        where: { id },
+        where: { id, deletedAt: null },
       });
 
       if (!userExists) {
@@ -23,7 +29,7 @@ export const GET = requireAdmin(
       }
 
       // Build where clause
-      const where: any = { userId: id };
+      const where: Prisma.TaskWhereInput = { userId: id, deletedAt: null };
       if (status) {
         where.status = status;
       }
@@ -42,5 +48,6 @@ export const GET = requireAdmin(
         { status: 500 }
       );
     }
-  }
+  },
+  { query: userTasksQuerySchema }
 );
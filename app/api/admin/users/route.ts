@@ -1,20 +1,20 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { requireAdmin } from '@/lib/middleware';
 import { prisma } from '@/lib/prisma';
+import { Prisma } from '@prisma/client';
+import { listUsersQuerySchema } from '@/lib/schemas';
+import { getAccountLockouts } from '@/lib/lockout';
+import { purgeDate } from '@/lib/trash';
 
-// GET /api/admin/users - Get all users
-export const GET = requireAdmin(async (request: NextRequest) => {
+// GET /api/admin/users - Get all users, or ?deleted=true the users in the trash
+export const GET = requireAdmin(async (request: NextRequest, user, context, { query }) => {
   try {
-    const { searchParams } = new URL(request.url);
-    const page = parseInt(searchParams.get('page') || '1');
-    const limit = parseInt(searchParams.get('limit') || '10');
-    const role = searchParams.get('role');
-    const search = searchParams.get('search');
+    const { page, limit, role, search, deleted } = query;
 
     const skip = (page - 1) * limit;
 
     // Build where clause
-    const where: any = {};
+    const where: Prisma.UserWhereInput = { deletedAt: deleted ? { not: null } : null };
     if (role) {
       where.role = role;
     }
@@ -35,8 +35,10 @@ export const GET = requireAdmin(async (request: NextRequest) => {
           name: true,
           role: true,
           createdAt: true,
+          deletedAt: true,
+          // Users in the trash count the tasks deleted with them
           _count: {
-            select: { tasks: true },
+            select: { tasks: { where: { deletedAt: deleted ? { not: null } : null } } },
           },
         },
         skip,
@@ -46,8 +48,14 @@ export const GET = requireAdmin(async (request: NextRequest) => {
       prisma.user.count({ where }),
     ]);
 
+    const lockouts = await getAccountLockouts(users.map((u) => u.email));
+
     return NextResponse.json({
-      users,
+      users: users.map((u, i) => ({
+        ...u,
+        lockout: lockouts[i],
+        ...(u.deletedAt && { purgeAt: purgeDate(u.deletedAt) }),
+      })),
       pagination: {
         page,
         limit,
@@ -62,4 +70,4 @@ export const GET = requireAdmin(async (request: NextRequest) => {
       { status: 500 }
     );
   }
-});
+}, { query: listUsersQuerySchema });
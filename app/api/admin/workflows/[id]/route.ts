@@ -0,0 +1,197 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireAdmin } from '@/lib/middleware';
+import { prisma } from '@/lib/prisma';
+import { workflowDefinitionSchema } from '@/lib/schemas';
+import {
+  saveWorkflow,
+  statesInUse,
+  workflowAuditSnapshot,
+  workflowInclude,
+} from '@/lib/workflows';
+import { recordAudit } from '@/lib/audit';
+import { invalidateTaskCache } from '@/lib/cache';
+import { publishTaskEvents } from '@/lib/events';
+import { taskListScopes } from '@/lib/tasks';
+
+// GET /api/admin/workflows/[id] - Get a workflow
+export const GET = requireAdmin(
+  async (request: NextRequest, user, { params }: { params: Promise<{ id: string }> }) => {
+    try {
+      const { id } = await params;
+
+      const workflow = await prisma.workflow.findUnique({
+        where: { id },
+        include: workflowInclude,
+      });
+
+      if (!workflow) {
+        return NextResponse.json(
+          { error: 'Workflow not found' },
+          { status: 404 }
+        );
+      }
+
+      return NextResponse.json({ workflow });
+    } catch (error) {
+      console.error('Get workflow error:', error);
+      return NextResponse.json(
+        { error: 'Internal server error' },
+        { status: 500 }
+      );
+    }
+  }
+);
+
+// PUT /api/admin/workflows/[id] - Replace a workflow's definition
+export const PUT = requireAdmin(
+  async (
+    request: NextRequest,
+    user,
+    { params }: { params: Promise<{ id: string }> },
+    { body }
+  ) => {
+    try {
+      const { id } = await params;
+
+      const workflow = await prisma.workflow.findUnique({
+        where: { id },
+        include: workflowInclude,
+      });
+
+      if (!workflow) {
+        return NextResponse.json(
+          { error: 'Workflow not found' },
+          { status: 404 }
+        );
+      }
+
+      // Another workflow has to be made default instead
+      if (workflow.isDefault && body.isDefault === false) {
+        return NextResponse.json(
+          { error: 'Cannot unset the default workflow; make another workflow the default' },
+          { status: 400 }
+        );
+      }
+
+      if (body.name !== workflow.name) {
+        const existing = await prisma.workflow.findUnique({
+          where: { name: body.name },
+        });
+
+        if (existing) {
+          return NextResponse.json(
+            { error: 'A workflow with this name already exists' },
+            { status: 409 }
+          );
+        }
+      }
+
+      const removed = await statesInUse(id, body);
+      if (removed.length > 0) {
+        return NextResponse.json(
+          { error: `Cannot remove states still used by tasks: ${removed.join(', ')}` },
+          { status: 409 }
+        );
+      }
+
+      const { workflow: updated, recategorized } = await saveWorkflow(id, body);
+
+      // Tasks on a recategorized state changed status, and so did their
+      // parents' subtask lists
+      const parentIds = new Set(recategorized.flatMap((task) => (task.parentId ? [task.parentId] : [])));
+      await Promise.all([
+        ...recategorized.map((task) => invalidateTaskCache(task.id, taskListScopes(task))),
+        ...[...parentIds].map((parentId) => invalidateTaskCache(parentId, [])),
+      ]);
+      await publishTaskEvents('task.updated', recategorized);
+
+      await recordAudit(request, user, {
+        action: 'admin.workflow_update',
+        targetType: 'workflow',
+        targetId: id,
+        before: workflowAuditSnapshot(workflow),
+        after: workflowAuditSnapshot(updated),
+      });
+
+      return NextResponse.json({ workflow: updated });
+    } catch (error) {
+      console.error('Update workflow error:', error);
+      return NextResponse.json(
+        { error: 'Internal server error' },
+        { status: 500 }
+      );
+    }
+  },
+  { body: workflowDefinitionSchema }
+);
+
+// DELETE /api/admin/workflows/[id] - Delete an unused workflow
+export const DELETE = requireAdmin(
+  async (request: NextRequest, user, { params }: { params: Promise<{ id: string }> }) => {
+    try {
+      const { id } = await params;
+
+      const workflow = await prisma.workflow.findUnique({
+        where: { id },
+        include: {
+          ...workflowInclude,
+          _count: { select: { projects: true } },
+        },
+      });
+
+      if (!workflow) {
+        return NextResponse.json(
+          { error: 'Workflow not found' },
+          { status: 404 }
+        );
+      }
+
+      if (workflow.isDefault) {
+        return NextResponse.json(
+          { error: 'Cannot delete the default workflow' },
+          { status: 400 }
+        );
+      }
+
+      if (workflow._count.projects > 0) {
+        return NextResponse.json(
+          { error: 'Workflow is used by projects; switch them to another workflow first' },
+          { status: 409 }
+        );
+      }
+
+      // Personal tasks created while this was the default may still use it
+      const tasksInWorkflow = await prisma.task.count({
+        where: { state: { workflowId: id } },
+      });
+
+      if (tasksInWorkflow > 0) {
+        return NextResponse.json(
+          { error: 'Workflow states are still used by tasks' },
+          { status: 409 }
+        );
+      }
+
+      await prisma.workflow.delete({
+        where: { id },
+      });
+
+      await recordAudit(request, user, {
+        action: 'admin.workflow_delete',
+        targetType: 'workflow',
+        targetId: id,
+        before: workflowAuditSnapshot(workflow),
+      });
+
+      return NextResponse.json({
+        message: 'Workflow deleted successfully',
+      });
+    } catch (error) {
+      console.error('Delete workflow error:', error);
+      return NextResponse.json(
+        { error: 'Internal server error' },
+        { status: 500 }
+      );
+    }
+  }
+);
@@ -0,0 +1,57 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireAdmin } from '@/lib/middleware';
+import { prisma } from '@/lib/prisma';
+import { workflowDefinitionSchema } from '@/lib/schemas';
+import { saveWorkflow, workflowAuditSnapshot, workflowInclude } from '@/lib/workflows';
+import { recordAudit } from '@/lib/audit';
+
+// GET /api/admin/workflows - List workflows with their states and transitions
+export const GET = requireAdmin(async () => {
+  try {
+    const workflows = await prisma.workflow.findMany({
+      include: workflowInclude,
+      orderBy: [{ isDefault: 'desc' }, { name: 'asc' }],
+    });
+
+    return NextResponse.json({ workflows });
+  } catch (error) {
+    console.error('Get workflows error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+});
+
+// POST /api/admin/workflows - Create a workflow
+export const POST = requireAdmin(async (request: NextRequest, user, context, { body }) => {
+  try {
+    const existing = await prisma.workflow.findUnique({
+      where: { name: body.name },
+    });
+
+    if (existing) {
+      return NextResponse.json(
+        { error: 'A workflow with this name already exists' },
+        { status: 409 }
+      );
+    }
+
+    const { workflow } = await saveWorkflow(null, body);
+
+    await recordAudit(request, user, {
+      action: 'admin.workflow_create',
+      targetType: 'workflow',
+      targetId: workflow.id,
+      after: workflowAuditSnapshot(workflow),
+    });
+
+    return NextResponse.json({ workflow }, { status: 201 });
+  } catch (error) {
+    console.error('Create workflow error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}, { body: workflowDefinitionSchema });
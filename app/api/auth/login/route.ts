@@ -1,24 +1,49 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { prisma } from '@/lib/prisma';
-import { verifyPassword, generateToken } from '@/lib/auth';
+import { getClientInfo, setRefreshCookie, withRateLimit } from '@/lib/middleware';
+import { RATE_LIMITS } from '@/lib/rate-limit';
+import { loginSchema } from '@/lib/schemas';
+import { verifyPassword, createSession } from '@/lib/auth';
+import {
+  checkLoginAllowed,
+  registerLoginFailure,
+  clearLoginFailures,
+} from '@/lib/lockout';
+import { recordAudit } from '@/lib/audit';
 
-export async function POST(request: NextRequest) {
+export const POST = withRateLimit(RATE_LIMITS.login, async (request: NextRequest, context, { body }) => {
   try {
-    const body = await request.json();
     const { email, password } = body;
 
-    if (!email || !password) {
-      return NextResponse.json(
-        { error: 'Email and password are required' },
-        { status: 400 }
+    const client = getClientInfo(request);
+
+    // Back off after failed attempts and lock the account after too many
+    const gate = await checkLoginAllowed(email, client.ip);
+    if (!gate.allowed) {
+      const response = NextResponse.json(
+        {
+          error: gate.locked
+            ? 'Account temporarily locked due to too many failed login attempts'
+            : 'Too many failed login attempts, please wait before retrying',
+          retryAfter: gate.retryAfter,
+        },
+        { status: gate.locked ? 423 : 429 }
       );
+      response.headers.set('Retry-After', String(gate.retryAfter));
+      return response;
     }
 
     const user = await prisma.user.findUnique({
-      where: { email },
+      where: { email, deletedAt: null },
     });
 
     if (!user) {
+      await registerLoginFailure(email, client.ip);
+      await recordAudit(request, null, {
+        action: 'auth.login_failed',
+        targetType: 'user',
+        after: { email },
+      });
       return NextResponse.json(
         { error: 'Invalid credentials' },
         { status: 401 }
@@ -28,19 +53,33 @@ export async function POST(request: NextRequest) {
     const isValidPassword = await verifyPassword(password, user.passwordHash);
 
     if (!isValidPassword) {
+      await registerLoginFailure(email, client.ip);
+      await recordAudit(request, null, {
+        action: 'auth.login_failed',
+        targetType: 'user',
+        targetId: user.id,
+        after: { email },
+      });
       return NextResponse.json(
         { error: 'Invalid credentials' },
         { status: 401 }
       );
     }
 
-    const token = generateToken({
-      userId: user.id,
-      email: user.email,
-      role: user.role,
+    await clearLoginFailures(email);
+
+    const { accessToken, refreshToken } = await createSession(
+      { userId: user.id, email: user.email, role: user.role },
+      client
+    );
+
+    await recordAudit(request, { userId: user.id, email: user.email }, {
+      action: 'auth.login',
+      targetType: 'user',
+      targetId: user.id,
     });
 
-    return NextResponse.json({
+    const response = NextResponse.json({
       message: 'Login successful',
       user: {
         id: user.id,
@@ -48,8 +87,10 @@ export async function POST(request: NextRequest) {
         name: user.name,
         role: user.role,
       },
-      token,
+      token: accessToken,
     });
+
+    return setRefreshCookie(response, refreshToken);
   } catch (error) {
     console.error('Login error:', error);
     return NextResponse.json(
@@ -57,4 +98,4 @@ export async function POST(request: NextRequest) {
       { status: 500 }
     );
   }
-}
+}, { body: loginSchema });
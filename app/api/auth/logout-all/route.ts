@@ -0,0 +1,27 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireAuth, clearRefreshCookie } from '@/lib/middleware';
+import { revokeAllUserSessions } from '@/lib/cache';
+import { recordAudit } from '@/lib/audit';
+
+// POST /api/auth/logout-all - Revoke every session of the current user
+export const POST = requireAuth(async (request: NextRequest, user) => {
+  try {
+    await revokeAllUserSessions(user.userId);
+
+    await recordAudit(request, user, {
+      action: 'auth.logout_all',
+      targetType: 'user',
+      targetId: user.userId,
+    });
+
+    return clearRefreshCookie(
+      NextResponse.json({ message: 'Logged out from all sessions' })
+    );
+  } catch (error) {
+    console.error('Logout all error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+});
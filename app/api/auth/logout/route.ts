@@ -0,0 +1,27 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireAuth, clearRefreshCookie } from '@/lib/middleware';
+import { revokeSession } from '@/lib/cache';
+import { recordAudit } from '@/lib/audit';
+
+// POST /api/auth/logout - Revoke the current session
+export const POST = requireAuth(async (request: NextRequest, user) => {
+  try {
+    await revokeSession(user.userId, user.jti!);
+
+    await recordAudit(request, user, {
+      action: 'auth.logout',
+      targetType: 'session',
+      targetId: user.jti,
+    });
+
+    return clearRefreshCookie(
+      NextResponse.json({ message: 'Logged out successfully' })
+    );
+  } catch (error) {
+    console.error('Logout error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+});
@@ -15,7 +15,7 @@ export const GET = requireAuth(async (request: NextRequest, user) => {
     // Fallback to database
     console.log('Cache miss: fetching from database');
     const userData = await prisma.user.findUnique({
-      where: { id: user.userId },
+      where: { id: user.userId, deletedAt: null },
       select: {
         id: true,
         email: true,
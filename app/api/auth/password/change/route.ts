@@ -0,0 +1,53 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { prisma } from '@/lib/prisma';
+import { requireAuth, clearRefreshCookie } from '@/lib/middleware';
+import { RATE_LIMITS } from '@/lib/rate-limit';
+import { changePasswordSchema } from '@/lib/schemas';
+import { verifyPassword } from '@/lib/auth';
+import { setPassword } from '@/lib/password-reset';
+import { recordAudit } from '@/lib/audit';
+
+// POST /api/auth/password/change - Change the current user's password
+// Every session, this one included, is revoked
+export const POST = requireAuth(async (request: NextRequest, user, context, { body }) => {
+  try {
+    const { currentPassword, newPassword } = body;
+
+    const existingUser = await prisma.user.findUnique({
+      where: { id: user.userId, deletedAt: null },
+      select: { passwordHash: true },
+    });
+
+    if (!existingUser) {
+      return NextResponse.json(
+        { error: 'User not found' },
+        { status: 404 }
+      );
+    }
+
+    if (!(await verifyPassword(currentPassword, existingUser.passwordHash))) {
+      return NextResponse.json(
+        { error: 'Current password is incorrect' },
+        { status: 400 }
+      );
+    }
+
+    await setPassword(user.userId, newPassword);
+
+    await recordAudit(request, user, {
+      action: 'auth.password_change',
+      targetType: 'user',
+      targetId: user.userId,
+    });
+
+    return clearRefreshCookie(
+      NextResponse.json({ message: 'Password changed successfully. Please login again.' })
+    );
+  } catch (error) {
+    console.error('Change password error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}, { rateLimit: RATE_LIMITS.passwordChange, body: changePasswordSchema });
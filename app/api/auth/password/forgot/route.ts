@@ -0,0 +1,48 @@
+import { NextRequest, NextResponse, after } from 'next/server';
+import { prisma } from '@/lib/prisma';
+import { withRateLimit } from '@/lib/middleware';
+import { RATE_LIMITS } from '@/lib/rate-limit';
+import { forgotPasswordSchema } from '@/lib/schemas';
+import { sendPasswordReset } from '@/lib/password-reset';
+import { recordAudit } from '@/lib/audit';
+
+// POST /api/auth/password/forgot - Email a password reset link
+// Answers the same, and as fast, whether or not the email has an account:
+// the lookup runs after the response is sent
+export const POST = withRateLimit(RATE_LIMITS.passwordForgot, async (request: NextRequest, context, { body }) => {
+  try {
+    const { email } = body;
+
+    after(async () => {
+      try {
+        const user = await prisma.user.findUnique({
+          where: { email, deletedAt: null },
+          select: { id: true, email: true, name: true },
+        });
+
+        if (user) {
+          await sendPasswordReset(user);
+        }
+
+        await recordAudit(request, null, {
+          action: 'auth.password_forgot',
+          targetType: 'user',
+          targetId: user?.id,
+          after: { email },
+        });
+      } catch (error) {
+        console.error('Forgot password error:', error);
+      }
+    });
+
+    return NextResponse.json({
+      message: 'If an account exists for this email, a password reset link has been sent.',
+    });
+  } catch (error) {
+    console.error('Forgot password error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}, { body: forgotPasswordSchema });
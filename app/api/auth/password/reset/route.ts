@@ -0,0 +1,43 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { withRateLimit } from '@/lib/middleware';
+import { RATE_LIMITS } from '@/lib/rate-limit';
+import { resetPasswordWithTokenSchema } from '@/lib/schemas';
+import { consumeResetToken, setPassword } from '@/lib/password-reset';
+import { clearLoginFailures } from '@/lib/lockout';
+import { recordAudit } from '@/lib/audit';
+
+// POST /api/auth/password/reset - Set a new password with a reset token
+export const POST = withRateLimit(RATE_LIMITS.passwordReset, async (request: NextRequest, context, { body }) => {
+  try {
+    const { token, newPassword } = body;
+
+    const user = await consumeResetToken(token);
+
+    if (!user) {
+      return NextResponse.json(
+        { error: 'Invalid or expired reset token' },
+        { status: 400 }
+      );
+    }
+
+    await setPassword(user.id, newPassword);
+    // The account is theirs again, so a lock from failed logins no longer applies
+    await clearLoginFailures(user.email);
+
+    await recordAudit(request, { userId: user.id, email: user.email }, {
+      action: 'auth.password_reset',
+      targetType: 'user',
+      targetId: user.id,
+    });
+
+    return NextResponse.json({
+      message: 'Password reset successfully. Please login again.',
+    });
+  } catch (error) {
+    console.error('Reset password with token error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}, { body: resetPasswordWithTokenSchema });
@@ -0,0 +1,91 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { prisma } from '@/lib/prisma';
+import {
+  getRefreshToken,
+  setRefreshCookie,
+  clearRefreshCookie,
+} from '@/lib/middleware';
+import {
+  verifyRefreshToken,
+  generateToken,
+  generateRefreshToken,
+} from '@/lib/auth';
+import { rotateSessionRefresh, SESSION_FAIL_OPEN } from '@/lib/cache';
+
+// POST /api/auth/refresh - Exchange the refresh cookie for a new token pair
+export async function POST(request: NextRequest) {
+  try {
+    const refreshToken = getRefreshToken(request);
+    const payload = refreshToken ? verifyRefreshToken(refreshToken) : null;
+
+    if (!payload) {
+      return clearRefreshCookie(
+        NextResponse.json(
+          { error: 'Invalid or expired refresh token' },
+          { status: 401 }
+        )
+      );
+    }
+
+    const rotation = await rotateSessionRefresh(payload.userId, payload.sid, payload.gen);
+
+    if (rotation.status === 'reused') {
+      console.warn(`Refresh token reuse detected, revoked session ${payload.sid}`);
+    }
+
+    if (rotation.status === 'reused' || rotation.status === 'missing') {
+      return clearRefreshCookie(
+        NextResponse.json(
+          { error: 'Session has been revoked' },
+          { status: 401 }
+        )
+      );
+    }
+
+    if (rotation.status === 'unavailable' && !SESSION_FAIL_OPEN) {
+      return NextResponse.json(
+        { error: 'Session store unavailable' },
+        { status: 503 }
+      );
+    }
+
+    const user = await prisma.user.findUnique({
+      where: { id: payload.userId, deletedAt: null },
+    });
+
+    if (!user) {
+      return clearRefreshCookie(
+        NextResponse.json(
+          { error: 'User not found' },
+          { status: 401 }
+        )
+      );
+    }
+
+    const token = generateToken(
+      { userId: user.id, email: user.email, role: user.role },
+      payload.sid
+    );
+    const response = NextResponse.json({ token });
+
+    // Without Redis the rotation can't be recorded, so keep the current cookie
+    if (rotation.status === 'rotated') {
+      setRefreshCookie(
+        response,
+        generateRefreshToken({
+          userId: user.id,
+          sid: payload.sid,
+          gen: rotation.generation,
+        })
+      );
+    }
+
+    return response;
+  } catch (error) {
+    console.error('Refresh token error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,122 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { prisma } from '@/lib/prisma';
+import { getClientInfo, setRefreshCookie, withRateLimit } from '@/lib/middleware';
+import { RATE_LIMITS } from '@/lib/rate-limit';
+import { recordAudit } from '@/lib/audit';
+import { registerWithInviteSchema } from '@/lib/schemas';
+import { hashPassword, hashToken, createSession } from '@/lib/auth';
+
+// POST /api/auth/register/invite - Register with an invitation token
+export const POST = withRateLimit(RATE_LIMITS.register, async (request: NextRequest, context, { body }) => {
+  try {
+    const { token, password, name } = body;
+
+    const invitation = await prisma.invitation.findUnique({
+      where: { tokenHash: hashToken(token) },
+    });
+
+    if (!invitation || invitation.acceptedAt || invitation.expiresAt < new Date()) {
+      return NextResponse.json(
+        { error: 'Invalid or expired invitation' },
+        { status: 400 }
+      );
+    }
+
+    // Invitations addressed to an email can only be used for that email
+    const email = invitation.email?.toLowerCase() ?? body.email;
+
+    if (!email) {
+      return NextResponse.json(
+        { error: 'Email is required' },
+        { status: 400 }
+      );
+    }
+
+    if (body.email && body.email !== email) {
+      return NextResponse.json(
+        { error: 'Email does not match the invitation' },
+        { status: 400 }
+      );
+    }
+
+    const existingUser = await prisma.user.findUnique({
+      where: { email },
+    });
+
+    if (existingUser) {
+      return NextResponse.json(
+        { error: 'User already exists' },
+        { status: 409 }
+      );
+    }
+
+    const passwordHash = await hashPassword(password);
+
+    // Claim the invitation and create the user together so a token can only be used once
+    const user = await prisma.$transaction(async (tx) => {
+      const claimed = await tx.invitation.updateMany({
+        where: { id: invitation.id, acceptedAt: null },
+        data: { acceptedAt: new Date() },
+      });
+
+      if (claimed.count === 0) return null;
+
+      const created = await tx.user.create({
+        data: {
+          email,
+          name,
+          passwordHash,
+          role: invitation.role,
+        },
+      });
+
+      await tx.invitation.update({
+        where: { id: invitation.id },
+        data: { acceptedById: created.id },
+      });
+
+      return created;
+    });
+
+    if (!user) {
+      return NextResponse.json(
+        { error: 'Invalid or expired invitation' },
+        { status: 400 }
+      );
+    }
+
+    const { accessToken, refreshToken } = await createSession(
+      { userId: user.id, email: user.email, role: user.role },
+      getClientInfo(request)
+    );
+
+    await recordAudit(request, { userId: user.id, email: user.email }, {
+      action: 'auth.register',
+      targetType: 'user',
+      targetId: user.id,
+      after: { email: user.email, name: user.name, role: user.role },
+    });
+
+    const response = NextResponse.json(
+      {
+        message: 'User registered successfully',
+        user: {
+          id: user.id,
+          email: user.email,
+          name: user.name,
+          role: user.role,
+        },
+        token: accessToken,
+      },
+      { status: 201 }
+    );
+
+    return setRefreshCookie(response, refreshToken);
+  } catch (error) {
+    console.error('Invite registration error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}, { body: registerWithInviteSchema });
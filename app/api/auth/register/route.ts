@@ -1,25 +1,14 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { prisma } from '@/lib/prisma';
-import { hashPassword, generateToken } from '@/lib/auth';
+import { getClientInfo, setRefreshCookie, withRateLimit } from '@/lib/middleware';
+import { RATE_LIMITS } from '@/lib/rate-limit';
+import { recordAudit } from '@/lib/audit';
+import { registerSchema } from '@/lib/schemas';
+import { hashPassword, createSession } from '@/lib/auth';
 
-export async function POST(request: NextRequest) {
+export const POST = withRateLimit(RATE_LIMITS.register, async (request: NextRequest, context, { body }) => {
   try {
-    const body = await request.json();
-    const { email, password, name, role } = body;
-
-    if (!email || !password) {
-      return NextResponse.json(
-        { error: 'Email and password are required' },
-        { status: 400 }
-      );
-    }
-
-    if (password.length < 8) {
-      return NextResponse.json(
-        { error: 'Password must be at least 8 characters' },
-        { status: 400 }
-      );
-    }
+    const { email, password, name } = body;
 
     const existingUser = await prisma.user.findUnique({
       where: { email },
@@ -39,17 +28,23 @@ export async function POST(request: NextRequest) {
         email,
         name,
         passwordHash,
-        role: role || 'USER',
+        role: 'USER', // ADMIN accounts are only created through invitations
       },
     });
 
-    const token = generateToken({
-      userId: user.id,
-      email: user.email,
-      role: user.role,
+    const { accessToken, refreshToken } = await createSession(
+      { userId: user.id, email: user.email, role: user.role },
+      getClientInfo(request)
+    );
+
+    await recordAudit(request, { userId: user.id, email: user.email }, {
+      action: 'auth.register',
+      targetType: 'user',
+      targetId: user.id,
+      after: { email: user.email, name: user.name, role: user.role },
     });
 
-    return NextResponse.json(
+    const response = NextResponse.json(
       {
         message: 'User registered successfully',
         user: {
@@ -58,10 +53,12 @@ export async function POST(request: NextRequest) {
           name: user.name,
           role: user.role,
         },
-        token,
+        token: accessToken,
       },
       { status: 201 }
     );
+
+    return setRefreshCookie(response, refreshToken);
   } catch (error) {
     console.error('Registration error:', error);
     return NextResponse.json(
@@ -69,4 +66,4 @@ export async function POST(request: NextRequest) {
       { status: 500 }
     );
   }
-}
+}, { body: registerSchema });
@@ -0,0 +1,36 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireAuth } from '@/lib/middleware';
+import { revokeSession } from '@/lib/cache';
+import { recordAudit } from '@/lib/audit';
+
+// DELETE /api/auth/sessions/[id] - Revoke one session of the current user
+export const DELETE = requireAuth(
+  async (request: NextRequest, user, { params }: { params: Promise<{ id: string }> }) => {
+    try {
+      const { id } = await params;
+
+      const revoked = await revokeSession(user.userId, id);
+
+      if (!revoked) {
+        return NextResponse.json(
+          { error: 'Session not found' },
+          { status: 404 }
+        );
+      }
+
+      await recordAudit(request, user, {
+        action: 'auth.session_revoke',
+        targetType: 'session',
+        targetId: id,
+      });
+
+      return NextResponse.json({ message: 'Session revoked successfully' });
+    } catch (error) {
+      console.error('Revoke session error:', error);
+      return NextResponse.json(
+        { error: 'Internal server error' },
+        { status: 500 }
+      );
+    }
+  }
+);
@@ -0,0 +1,27 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireAuth } from '@/lib/middleware';
+import { getUserSessions } from '@/lib/cache';
+
+// GET /api/auth/sessions - List active sessions of the current user
+export const GET = requireAuth(async (request: NextRequest, user) => {
+  try {
+    const sessions = await getUserSessions(user.userId);
+
+    return NextResponse.json({
+      sessions: sessions.map((session) => ({
+        id: session.tokenId,
+        createdAt: session.createdAt,
+        lastSeenAt: session.lastSeenAt,
+        ip: session.ip,
+        userAgent: session.userAgent,
+        current: session.tokenId === user.jti,
+      })),
+    });
+  } catch (error) {
+    console.error('Get sessions error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+});
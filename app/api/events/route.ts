@@ -0,0 +1,111 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireAuth } from '@/lib/middleware';
+import { RATE_LIMITS } from '@/lib/rate-limit';
+import { ACCESS_TOKEN_TTL } from '@/lib/auth';
+import { validateSession } from '@/lib/cache';
+import { compareEventIds, replayEvents, subscribeToEvents, TaskEvent } from '@/lib/events';
+
+// Comment lines keep proxies from closing an idle stream; the session is
+// checked at the same interval
+const HEARTBEAT_MS = 25 * 1000;
+// Clients reconnect after this long, so a stream outlives neither the access
+// token it was opened with nor the session
+const MAX_STREAM_MS = ACCESS_TOKEN_TTL * 1000;
+const RECONNECT_MS = 3000;
+
+const EVENT_ID = /^\d+-\d+$/;
+
+// GET /api/events - Stream the user's task events (Server-Sent Events)
+// Send Last-Event-ID to replay the events missed since
+export const GET = requireAuth(async (request: NextRequest, user) => {
+  try {
+    const lastEventId = request.headers.get('last-event-id');
+    const encoder = new TextEncoder();
+
+    let unsubscribe: () => Promise<void> = async () => {};
+    let heartbeat: ReturnType<typeof setInterval> | undefined;
+    let expiry: ReturnType<typeof setTimeout> | undefined;
+    let closed = false;
+
+    const stream = new ReadableStream<Uint8Array>({
+      async start(controller) {
+        const write = (text: string) => {
+          if (!closed) controller.enqueue(encoder.encode(text));
+        };
+
+        const close = async () => {
+          if (closed) return;
+          closed = true;
+          clearInterval(heartbeat);
+          clearTimeout(expiry);
+          await unsubscribe();
+          try {
+            controller.close();
+          } catch {
+            // The client cancelled the stream while we unsubscribed
+          }
+        };
+
+        // Events arriving during the replay wait for it; ids already sent are
+        // skipped
+        let lastSent = lastEventId && EVENT_ID.test(lastEventId) ? lastEventId : null;
+        let pending: TaskEvent[] | null = [];
+        const send = (event: TaskEvent) => {
+          if (lastSent && compareEventIds(event.id, lastSent) <= 0) return;
+          lastSent = event.id;
+          write(`id: ${event.id}\nevent: ${event.type}\ndata: ${JSON.stringify(event)}\n\n`);
+        };
+
+        unsubscribe = await subscribeToEvents(user.userId, (event) => {
+          if (pending) pending.push(event);
+          else send(event);
+        });
+
+        write(`retry: ${RECONNECT_MS}\n\n`);
+
+        if (lastSent) {
+          const missed = await replayEvents(user.userId, lastSent);
+          if (missed) {
+            missed.forEach(send);
+          } else {
+            // Too far behind to replay: the client refetches
+            write('event: reset\ndata: {}\n\n');
+          }
+        }
+        pending.forEach(send);
+        pending = null;
+
+        heartbeat = setInterval(async () => {
+          if (!(await validateSession(user.userId, user.jti!))) {
+            await close();
+            return;
+          }
+          write(': ping\n\n');
+        }, HEARTBEAT_MS);
+        expiry = setTimeout(close, MAX_STREAM_MS);
+        request.signal.addEventListener('abort', close);
+      },
+      async cancel() {
+        closed = true;
+        clearInterval(heartbeat);
+        clearTimeout(expiry);
+        await unsubscribe();
+      },
+    });
+
+    return new NextResponse(stream, {
+      headers: {
+        'Content-Type': 'text/event-stream',
+        'Cache-Control': 'no-cache, no-transform',
+        Connection: 'keep-alive',
+        'X-Accel-Buffering': 'no',
+      },
+    });
+  } catch (error) {
+    console.error('Event stream error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}, { rateLimit: RATE_LIMITS.tasks });
@@ -0,0 +1,49 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createHash, timingSafeEqual } from 'crypto';
+import { isJobName, runJob } from '@/lib/jobs';
+
+// Schedulers authenticate with `Authorization: Bearer <CRON_SECRET>`. Without
+// CRON_SECRET set, jobs can only be run with `npm run job`.
+function hasCronSecret(request: NextRequest) {
+  const secret = process.env.CRON_SECRET;
+  const header = request.headers.get('authorization');
+  if (!secret || !header?.startsWith('Bearer ')) return false;
+
+  // Compare digests so the comparison takes the same time for any input
+  const digest = (value: string) => createHash('sha256').update(value).digest();
+  return timingSafeEqual(digest(header.slice('Bearer '.length)), digest(secret));
+}
+
+// POST /api/jobs/[name] - Run a background job
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ name: string }> }
+) {
+  try {
+    if (!hasCronSecret(request)) {
+      return NextResponse.json(
+        { error: 'Invalid or missing cron secret' },
+        { status: 401 }
+      );
+    }
+
+    const { name } = await params;
+
+    if (!isJobName(name)) {
+      return NextResponse.json(
+        { error: 'Job not found' },
+        { status: 404 }
+      );
+    }
+
+    const run = await runJob(name);
+
+    return NextResponse.json({ job: name, ...run });
+  } catch (error) {
+    console.error('Run job error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,133 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireAuth } from '@/lib/middleware';
+import { RATE_LIMITS } from '@/lib/rate-limit';
+import { updateLabelSchema } from '@/lib/schemas';
+import { prisma } from '@/lib/prisma';
+import { labelAccess } from '@/lib/labels';
+import { taskListScopes } from '@/lib/tasks';
+import { invalidateTaskCache } from '@/lib/cache';
+import { publishTaskEvents } from '@/lib/events';
+
+// Load a label for someone who may change it. Labels the user can't see are
+// reported as not found.
+async function findEditableLabel(id: string, userId: string) {
+  const label = await prisma.label.findUnique({
+    where: { id },
+  });
+
+  const access = label ? await labelAccess(label, userId) : null;
+
+  if (!label || !access) {
+    return {
+      response: NextResponse.json(
+        { error: 'Label not found' },
+        { status: 404 }
+      ),
+    };
+  }
+
+  if (access !== 'edit') {
+    return {
+      response: NextResponse.json(
+        { error: 'Project editor access required' },
+        { status: 403 }
+      ),
+    };
+  }
+
+  return { label };
+}
+
+// Tasks embed their labels, so drop the cached tasks carrying one and the
+// lists they appear in, and tell their viewers
+async function invalidateLabeledTasks(labelId: string) {
+  const tasks = await prisma.task.findMany({
+    where: { labels: { some: { id: labelId } }, deletedAt: null },
+    select: { id: true, userId: true, projectId: true, parentId: true, assigneeId: true },
+  });
+  await Promise.all(tasks.map((task) => invalidateTaskCache(task.id, taskListScopes(task))));
+  await publishTaskEvents('task.updated', tasks);
+}
+
+// PATCH /api/labels/[id] - Rename or recolor a label
+export const PATCH = requireAuth(
+  async (
+    request: NextRequest,
+    user,
+    { params }: { params: Promise<{ id: string }> },
+    { body }
+  ) => {
+    try {
+      const { id } = await params;
+      const { name, color } = body;
+
+      const result = await findEditableLabel(id, user.userId);
+      if (result.response) return result.response;
+
+      if (name !== undefined && name !== result.label.name) {
+        const existing = await prisma.label.findFirst({
+          where: {
+            name,
+            ...(result.label.projectId
+              ? { projectId: result.label.projectId }
+              : { userId: result.label.userId }),
+          },
+        });
+
+        if (existing) {
+          return NextResponse.json(
+            { error: 'A label with this name already exists' },
+            { status: 409 }
+          );
+        }
+      }
+
+      const label = await prisma.label.update({
+        where: { id },
+        data: {
+          ...(name !== undefined && { name }),
+          ...(color !== undefined && { color }),
+        },
+      });
+
+      await invalidateLabeledTasks(id);
+
+      return NextResponse.json({ label });
+    } catch (error) {
+      console.error('Update label error:', error);
+      return NextResponse.json(
+        { error: 'Internal server error' },
+        { status: 500 }
+      );
+    }
+  },
+  { rateLimit: RATE_LIMITS.tasks, body: updateLabelSchema }
+);
+
+// DELETE /api/labels/[id] - Delete a label and remove it from its tasks
+export const DELETE = requireAuth(
+  async (request: NextRequest, user, { params }: { params: Promise<{ id: string }> }) => {
+    try {
+      const { id } = await params;
+
+      const result = await findEditableLabel(id, user.userId);
+      if (result.response) return result.response;
+
+      // While the tasks still carry the label
+      await invalidateLabeledTasks(id);
+
+      await prisma.label.delete({
+        where: { id },
+      });
+
+      return NextResponse.json({ message: 'Label deleted successfully' });
+    } catch (error) {
+      console.error('Delete label error:', error);
+      return NextResponse.json(
+        { error: 'Internal server error' },
+        { status: 500 }
+      );
+    }
+  },
+  { rateLimit: RATE_LIMITS.tasks }
+);
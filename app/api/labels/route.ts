@@ -0,0 +1,83 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireAuth } from '@/lib/middleware';
+import { RATE_LIMITS } from '@/lib/rate-limit';
+import { createLabelSchema, listLabelsQuerySchema } from '@/lib/schemas';
+import { prisma } from '@/lib/prisma';
+import { canEditProjectTasks, getProjectRole } from '@/lib/permissions';
+
+// GET /api/labels - List the user's personal labels, or ?projectId= a project's labels
+export const GET = requireAuth(async (request: NextRequest, user, context, { query }) => {
+  try {
+    const { projectId } = query;
+
+    if (projectId && !(await getProjectRole(projectId, user.userId))) {
+      return NextResponse.json(
+        { error: 'Project not found' },
+        { status: 404 }
+      );
+    }
+
+    const labels = await prisma.label.findMany({
+      where: projectId ? { projectId } : { userId: user.userId },
+      include: { _count: { select: { tasks: { where: { deletedAt: null } } } } },
+      orderBy: { name: 'asc' },
+    });
+
+    return NextResponse.json({ labels });
+  } catch (error) {
+    console.error('Get labels error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}, { rateLimit: RATE_LIMITS.tasks, query: listLabelsQuerySchema });
+
+// POST /api/labels - Create a personal label, or a project label (owners and editors)
+export const POST = requireAuth(async (request: NextRequest, user, context, { body }) => {
+  try {
+    const { name, color, projectId } = body;
+
+    if (projectId) {
+      const role = await getProjectRole(projectId, user.userId);
+      if (!role) {
+        return NextResponse.json(
+          { error: 'Project not found' },
+          { status: 404 }
+        );
+      }
+
+      if (!canEditProjectTasks(role)) {
+        return NextResponse.json(
+          { error: 'Project editor access required' },
+          { status: 403 }
+        );
+      }
+    }
+
+    const owner = projectId ? { projectId } : { userId: user.userId };
+
+    const existing = await prisma.label.findFirst({
+      where: { ...owner, name },
+    });
+
+    if (existing) {
+      return NextResponse.json(
+        { error: 'A label with this name already exists' },
+        { status: 409 }
+      );
+    }
+
+    const label = await prisma.label.create({
+      data: { ...owner, name, color },
+    });
+
+    return NextResponse.json({ label }, { status: 201 });
+  } catch (error) {
+    console.error('Create label error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}, { rateLimit: RATE_LIMITS.tasks, body: createLabelSchema });
@@ -0,0 +1,46 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireAuth } from '@/lib/middleware';
+import { RATE_LIMITS } from '@/lib/rate-limit';
+import { prisma } from '@/lib/prisma';
+import { notificationSelect } from '@/lib/notifications';
+
+// POST /api/notifications/[id]/read - Mark a notification as read
+export const POST = requireAuth(
+  async (request: NextRequest, user, { params }: { params: Promise<{ id: string }> }) => {
+    try {
+      const { id } = await params;
+
+      const notification = await prisma.notification.findUnique({
+        where: { id, userId: user.userId },
+        select: notificationSelect,
+      });
+
+      if (!notification) {
+        return NextResponse.json(
+          { error: 'Notification not found' },
+          { status: 404 }
+        );
+      }
+
+      // Marking it again keeps the time it was first read
+      if (notification.readAt) {
+        return NextResponse.json({ notification });
+      }
+
+      const updated = await prisma.notification.update({
+        where: { id },
+        data: { readAt: new Date() },
+        select: notificationSelect,
+      });
+
+      return NextResponse.json({ notification: updated });
+    } catch (error) {
+      console.error('Mark notification read error:', error);
+      return NextResponse.json(
+        { error: 'Internal server error' },
+        { status: 500 }
+      );
+    }
+  },
+  { rateLimit: RATE_LIMITS.tasks }
+);
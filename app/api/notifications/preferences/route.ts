@@ -0,0 +1,50 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { NotificationType } from '@prisma/client';
+import { requireAuth } from '@/lib/middleware';
+import { RATE_LIMITS } from '@/lib/rate-limit';
+import { updateNotificationPreferencesSchema } from '@/lib/schemas';
+import { prisma } from '@/lib/prisma';
+import { getNotificationPreferences } from '@/lib/notifications';
+
+// GET /api/notifications/preferences - Get which notifications the user receives
+export const GET = requireAuth(async (request: NextRequest, user) => {
+  try {
+    const preferences = await getNotificationPreferences(user.userId);
+
+    return NextResponse.json({ preferences });
+  } catch (error) {
+    console.error('Get notification preferences error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}, { rateLimit: RATE_LIMITS.tasks });
+
+// PATCH /api/notifications/preferences - Turn notification channels on or off
+// Types and channels left out keep their setting
+export const PATCH = requireAuth(async (request: NextRequest, user, context, { body }) => {
+  try {
+    const changes = Object.entries(body) as [NotificationType, { inApp?: boolean; email?: boolean }][];
+
+    await prisma.$transaction(
+      changes.map(([type, channels]) =>
+        prisma.notificationPreference.upsert({
+          where: { userId_type: { userId: user.userId, type } },
+          create: { userId: user.userId, type, ...channels },
+          update: channels,
+        })
+      )
+    );
+
+    const preferences = await getNotificationPreferences(user.userId);
+
+    return NextResponse.json({ preferences });
+  } catch (error) {
+    console.error('Update notification preferences error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}, { rateLimit: RATE_LIMITS.tasks, body: updateNotificationPreferencesSchema });
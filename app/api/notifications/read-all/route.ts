@@ -0,0 +1,25 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireAuth } from '@/lib/middleware';
+import { RATE_LIMITS } from '@/lib/rate-limit';
+import { prisma } from '@/lib/prisma';
+
+// POST /api/notifications/read-all - Mark all of the user's notifications as read
+export const POST = requireAuth(async (request: NextRequest, user) => {
+  try {
+    const { count } = await prisma.notification.updateMany({
+      where: { userId: user.userId, readAt: null },
+      data: { readAt: new Date() },
+    });
+
+    return NextResponse.json({
+      message: 'All notifications marked as read',
+      updated: count,
+    });
+  } catch (error) {
+    console.error('Mark all notifications read error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}, { rateLimit: RATE_LIMITS.tasks });
@@ -0,0 +1,48 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { Prisma } from '@prisma/client';
+import { requireAuth } from '@/lib/middleware';
+import { RATE_LIMITS } from '@/lib/rate-limit';
+import { listNotificationsQuerySchema } from '@/lib/schemas';
+import { prisma } from '@/lib/prisma';
+import { notificationSelect } from '@/lib/notifications';
+
+// GET /api/notifications - List the user's notifications, newest first, with the unread count
+export const GET = requireAuth(async (request: NextRequest, user, context, { query }) => {
+  try {
+    const { page, limit, unread } = query;
+
+    const where: Prisma.NotificationWhereInput = {
+      userId: user.userId,
+      ...(unread && { readAt: null }),
+    };
+
+    const [notifications, total, unreadCount] = await Promise.all([
+      prisma.notification.findMany({
+        where,
+        select: notificationSelect,
+        orderBy: { createdAt: 'desc' },
+        skip: (page - 1) * limit,
+        take: limit,
+      }),
+      prisma.notification.count({ where }),
+      prisma.notification.count({ where: { userId: user.userId, readAt: null } }),
+    ]);
+
+    return NextResponse.json({
+      notifications,
+      unreadCount,
+      pagination: {
+        page,
+        limit,
+        total,
+        totalPages: Math.ceil(total / limit),
+      },
+    });
+  } catch (error) {
+    console.error('Get notifications error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}, { rateLimit: RATE_LIMITS.tasks, query: listNotificationsQuerySchema });
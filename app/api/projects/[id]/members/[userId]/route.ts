@@ -0,0 +1,117 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireAuth } from '@/lib/middleware';
+import { RATE_LIMITS } from '@/lib/rate-limit';
+import { updateProjectMemberSchema } from '@/lib/schemas';
+import { prisma } from '@/lib/prisma';
+import { getProjectRole, canManageProject } from '@/lib/permissions';
+import { projectMemberInclude, toProjectMember, isLastOwner } from '@/lib/projects';
+
+type MemberParams = { params: Promise<{ id: string; userId: string }> };
+
+// PATCH /api/projects/[id]/members/[userId] - Change a member's role (owners only)
+export const PATCH = requireAuth(
+  async (request: NextRequest, user, { params }: MemberParams, { body }) => {
+    try {
+      const { id, userId } = await params;
+      const { role } = body;
+
+      const currentRole = await getProjectRole(id, user.userId);
+      if (!currentRole) {
+        return NextResponse.json(
+          { error: 'Project not found' },
+          { status: 404 }
+        );
+      }
+
+      if (!canManageProject(currentRole)) {
+        return NextResponse.json(
+          { error: 'Project owner access required' },
+          { status: 403 }
+        );
+      }
+
+      const memberRole = await getProjectRole(id, userId);
+      if (!memberRole) {
+        return NextResponse.json(
+          { error: 'Member not found' },
+          { status: 404 }
+        );
+      }
+
+      if (role !== 'OWNER' && (await isLastOwner(id, userId))) {
+        return NextResponse.json(
+          { error: 'A project needs at least one owner' },
+          { status: 400 }
+        );
+      }
+
+      const membership = await prisma.projectMember.update({
+        where: { projectId_userId: { projectId: id, userId } },
+        data: { role },
+        include: projectMemberInclude,
+      });
+
+      return NextResponse.json({ member: toProjectMember(membership) });
+    } catch (error) {
+      console.error('Update project member error:', error);
+      return NextResponse.json(
+        { error: 'Internal server error' },
+        { status: 500 }
+      );
+    }
+  },
+  { rateLimit: RATE_LIMITS.tasks, body: updateProjectMemberSchema }
+);
+
+// DELETE /api/projects/[id]/members/[userId] - Remove a member
+// Owners can remove anyone; every member can remove themselves to leave
+export const DELETE = requireAuth(
+  async (request: NextRequest, user, { params }: MemberParams) => {
+    try {
+      const { id, userId } = await params;
+
+      const currentRole = await getProjectRole(id, user.userId);
+      if (!currentRole) {
+        return NextResponse.json(
+          { error: 'Project not found' },
+          { status: 404 }
+        );
+      }
+
+      if (userId !== user.userId && !canManageProject(currentRole)) {
+        return NextResponse.json(
+          { error: 'Project owner access required' },
+          { status: 403 }
+        );
+      }
+
+      const memberRole = await getProjectRole(id, userId);
+      if (!memberRole) {
+        return NextResponse.json(
+          { error: 'Member not found' },
+          { status: 404 }
+        );
+      }
+
+      if (await isLastOwner(id, userId)) {
+        return NextResponse.json(
+          { error: 'A project needs at least one owner' },
+          { status: 400 }
+        );
+      }
+
+      await prisma.projectMember.delete({
+        where: { projectId_userId: { projectId: id, userId } },
+      });
+
+      return NextResponse.json({ message: 'Member removed successfully' });
+    } catch (error) {
+      console.error('Remove project member error:', error);
+      return NextResponse.json(
+        { error: 'Internal server error' },
+        { status: 500 }
+      );
+    }
+  },
+  { rateLimit: RATE_LIMITS.tasks }
+);
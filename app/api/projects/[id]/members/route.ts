@@ -0,0 +1,103 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireAuth } from '@/lib/middleware';
+import { RATE_LIMITS } from '@/lib/rate-limit';
+import { addProjectMemberSchema } from '@/lib/schemas';
+import { prisma } from '@/lib/prisma';
+import { getProjectRole, canManageProject } from '@/lib/permissions';
+import { projectMemberInclude, toProjectMember } from '@/lib/projects';
+
+// GET /api/projects/[id]/members - List project members
+export const GET = requireAuth(
+  async (request: NextRequest, user, { params }: { params: Promise<{ id: string }> }) => {
+    try {
+      const { id } = await params;
+
+      const role = await getProjectRole(id, user.userId);
+      if (!role) {
+        return NextResponse.json(
+          { error: 'Project not found' },
+          { status: 404 }
+        );
+      }
+
+      const members = await prisma.projectMember.findMany({
+        where: { projectId: id, user: { deletedAt: null } },
+        include: projectMemberInclude,
+        orderBy: { createdAt: 'asc' },
+      });
+
+      return NextResponse.json({ members: members.map(toProjectMember) });
+    } catch (error) {
+      console.error('Get project members error:', error);
+      return NextResponse.json(
+        { error: 'Internal server error' },
+        { status: 500 }
+      );
+    }
+  },
+  { rateLimit: RATE_LIMITS.tasks }
+);
+
+// POST /api/projects/[id]/members - Add a registered user to the project (owners only)
+export const POST = requireAuth(
+  async (
+    request: NextRequest,
+    user,
+    { params }: { params: Promise<{ id: string }> },
+    { body }
+  ) => {
+    try {
+      const { id } = await params;
+      const { email, role } = body;
+
+      const currentRole = await getProjectRole(id, user.userId);
+      if (!currentRole) {
+        return NextResponse.json(
+          { error: 'Project not found' },
+          { status: 404 }
+        );
+      }
+
+      if (!canManageProject(currentRole)) {
+        return NextResponse.json(
+          { error: 'Project owner access required' },
+          { status: 403 }
+        );
+      }
+
+      const member = await prisma.user.findUnique({
+        where: { email, deletedAt: null },
+        select: { id: true },
+      });
+
+      if (!member) {
+        return NextResponse.json(
+          { error: 'User not found' },
+          { status: 404 }
+        );
+      }
+
+      const existing = await getProjectRole(id, member.id);
+      if (existing) {
+        return NextResponse.json(
+          { error: 'User is already a member of this project' },
+          { status: 409 }
+        );
+      }
+
+      const membership = await prisma.projectMember.create({
+        data: { projectId: id, userId: member.id, role },
+        include: projectMemberInclude,
+      });
+
+      return NextResponse.json({ member: toProjectMember(membership) }, { status: 201 });
+    } catch (error) {
+      console.error('Add project member error:', error);
+      return NextResponse.json(
+        { error: 'Internal server error' },
+        { status: 500 }
+      );
+    }
+  },
+  { rateLimit: RATE_LIMITS.tasks, body: addProjectMemberSchema }
+);
@@ -0,0 +1,60 @@
+import { NextRequest } from 'next/server';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+const { prisma, getProjectRole } = vi.hoisted(() => ({
+  prisma: { project: { deleteMany: vi.fn() } },
+  getProjectRole: vi.fn(),
+}));
+
+vi.mock('@/lib/prisma', () => ({ prisma }));
+vi.mock('@/lib/permissions', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('@/lib/permissions')>()),
+  getProjectRole,
+}));
+vi.mock('@/lib/middleware', () => ({
+  requireAuth:
+    (handler: (...args: unknown[]) => unknown) => (request: NextRequest, context: unknown) =>
+      handler(request, { userId: 'owner', email: 'owner@example.com', role: 'USER' }, context, {}),
+}));
+
+import { DELETE } from './route';
+
+const deleteProject = () =>
+  DELETE(new NextRequest('http://localhost/api/projects/project-1', { method: 'DELETE' }), {
+    params: Promise.resolve({ id: 'project-1' }),
+  });
+
+describe('DELETE /api/projects/[id]', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    getProjectRole.mockResolvedValue('OWNER');
+  });
+
+  it('only deletes a project without live tasks', async () => {
+    prisma.project.deleteMany.mockResolvedValue({ count: 1 });
+
+    const response = await deleteProject();
+
+    expect(response.status).toBe(200);
+    expect(prisma.project.deleteMany).toHaveBeenCalledWith({
+      where: { id: 'project-1', tasks: { none: { deletedAt: null } } },
+    });
+  });
+
+  it('refuses while the project has live tasks', async () => {
+    prisma.project.deleteMany.mockResolvedValue({ count: 0 });
+
+    const response = await deleteProject();
+
+    expect(response.status).toBe(409);
+  });
+
+  it('refuses editors', async () => {
+    getProjectRole.mockResolvedValue('EDITOR');
+
+    const response = await deleteProject();
+
+    expect(response.status).toBe(403);
+    expect(prisma.project.deleteMany).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,183 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireAuth } from '@/lib/middleware';
+import { RATE_LIMITS } from '@/lib/rate-limit';
+import { updateProjectSchema } from '@/lib/schemas';
+import { prisma } from '@/lib/prisma';
+import { getProjectRole, canManageProject } from '@/lib/permissions';
+import { projectMemberInclude, toProjectMember } from '@/lib/projects';
+import { switchProjectWorkflow } from '@/lib/workflows';
+import { invalidateTaskCache, invalidateTasksCache } from '@/lib/cache';
+import { publishTaskEvents } from '@/lib/events';
+import { projectListScope, taskListScopes } from '@/lib/tasks';
+
+// GET /api/projects/[id] - Get a project with its members
+export const GET = requireAuth(
+  async (request: NextRequest, user, { params }: { params: Promise<{ id: string }> }) => {
+    try {
+      const { id } = await params;
+
+      // Non-members get a 404 so project ids don't leak
+      const role = await getProjectRole(id, user.userId);
+      if (!role) {
+        return NextResponse.json(
+          { error: 'Project not found' },
+          { status: 404 }
+        );
+      }
+
+      const project = await prisma.project.findUnique({
+        where: { id },
+        include: {
+          members: {
+            where: { user: { deletedAt: null } },
+            include: projectMemberInclude,
+            orderBy: { createdAt: 'asc' },
+          },
+          _count: {
+            select: { tasks: { where: { deletedAt: null } } },
+          },
+        },
+      });
+
+      if (!project) {
+        return NextResponse.json(
+          { error: 'Project not found' },
+          { status: 404 }
+        );
+      }
+
+      return NextResponse.json({
+        project: {
+          ...project,
+          role,
+          members: project.members.map(toProjectMember),
+        },
+      });
+    } catch (error) {
+      console.error('Get project error:', error);
+      return NextResponse.json(
+        { error: 'Internal server error' },
+        { status: 500 }
+      );
+    }
+  },
+  { rateLimit: RATE_LIMITS.tasks }
+);
+
+// PATCH /api/projects/[id] - Rename, describe or change the workflow of a project (owners only)
+export const PATCH = requireAuth(
+  async (
+    request: NextRequest,
+    user,
+    { params }: { params: Promise<{ id: string }> },
+    { body }
+  ) => {
+    try {
+      const { id } = await params;
+      const { name, description, workflowId } = body;
+
+      const role = await getProjectRole(id, user.userId);
+      if (!role) {
+        return NextResponse.json(
+          { error: 'Project not found' },
+          { status: 404 }
+        );
+      }
+
+      if (!canManageProject(role)) {
+        return NextResponse.json(
+          { error: 'Project owner access required' },
+          { status: 403 }
+        );
+      }
+
+      if (workflowId) {
+        const workflow = await prisma.workflow.findUnique({
+          where: { id: workflowId },
+        });
+
+        if (!workflow) {
+          return NextResponse.json(
+            { error: 'Workflow not found' },
+            { status: 400 }
+          );
+        }
+      }
+
+      const current = await prisma.project.findUniqueOrThrow({
+        where: { id },
+        select: { workflowId: true },
+      });
+
+      // Switching workflows moves every task onto a state of the new one
+      if (workflowId !== undefined && workflowId !== current.workflowId) {
+        const tasks = await switchProjectWorkflow(id, workflowId);
+        await Promise.all(tasks.map((task) => invalidateTaskCache(task.id, taskListScopes(task))));
+        await invalidateTasksCache(projectListScope(id));
+        await publishTaskEvents('task.updated', tasks);
+      }
+
+      const project = await prisma.project.update({
+        where: { id },
+        data: {
+          ...(name !== undefined && { name }),
+          ...(description !== undefined && { description }),
+        },
+      });
+
+      return NextResponse.json({ project: { ...project, role } });
+    } catch (error) {
+      console.error('Update project error:', error);
+      return NextResponse.json(
+        { error: 'Internal server error' },
+        { status: 500 }
+      );
+    }
+  },
+  { rateLimit: RATE_LIMITS.tasks, body: updateProjectSchema }
+);
+
+// DELETE /api/projects/[id] - Delete a project without live tasks (owners only)
+export const DELETE = requireAuth(
+  async (request: NextRequest, user, { params }: { params: Promise<{ id: string }> }) => {
+    try {
+      const { id } = await params;
+
+      const role = await getProjectRole(id, user.userId);
+      if (!role) {
+        return NextResponse.json(
+          { error: 'Project not found' },
+          { status: 404 }
+        );
+      }
+
+      if (!canManageProject(role)) {
+        return NextResponse.json(
+          { error: 'Project owner access required' },
+          { status: 403 }
+        );
+      }
+
+      // Deleting cascades to the project's tasks, so the live ones have to go
+      // through the trash first
+      const { count } = await prisma.project.deleteMany({
+        where: { id, tasks: { none: { deletedAt: null } } },
+      });
+      if (count === 0) {
+        return NextResponse.json(
+          { error: 'Project still has tasks; delete them first' },
+          { status: 409 }
+        );
+      }
+
+      return NextResponse.json({ message: 'Project deleted successfully' });
+    } catch (error) {
+      console.error('Delete project error:', error);
+      return NextResponse.json(
+        { error: 'Internal server error' },
+        { status: 500 }
+      );
+    }
+  },
+  { rateLimit: RATE_LIMITS.tasks }
+);
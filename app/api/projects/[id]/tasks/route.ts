@@ -0,0 +1,165 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireAuth } from '@/lib/middleware';
+import { RATE_LIMITS } from '@/lib/rate-limit';
+import { createTaskSchema, listTasksQuerySchema } from '@/lib/schemas';
+import { prisma } from '@/lib/prisma';
+import { recordAudit, taskAuditSnapshot } from '@/lib/audit';
+import { getProjectRole, canEditProjectTasks, checkTaskParticipants } from '@/lib/permissions';
+import { listTasks, taskInclude, taskListScopes, withTaskExtras } from '@/lib/tasks';
+import { getInitialState } from '@/lib/workflows';
+import { checkParent } from '@/lib/subtasks';
+import { checkTaskLabels } from '@/lib/labels';
+import { recurrenceFields } from '@/lib/recurrence';
+import { invalidateTaskCache, invalidateTasksCache } from '@/lib/cache';
+import { publishTaskEvent } from '@/lib/events';
+import { notifyAssignee } from '@/lib/notifications';
+
+// GET /api/projects/[id]/tasks - List a project's tasks
+// Takes the same filters, sorting and cursor paging as GET /api/tasks
+export const GET = requireAuth(
+  async (
+    request: NextRequest,
+    user,
+    { params }: { params: Promise<{ id: string }> },
+    { query }
+  ) => {
+    try {
+      const { id } = await params;
+
+      const role = await getProjectRole(id, user.userId);
+      if (!role) {
+        return NextResponse.json(
+          { error: 'Project not found' },
+          { status: 404 }
+        );
+      }
+
+      const page = await listTasks({ projectId: id }, query);
+      return NextResponse.json({ ...page, tasks: await withTaskExtras(page.tasks, user.userId) });
+    } catch (error) {
+      console.error('Get project tasks error:', error);
+      return NextResponse.json(
+        { error: 'Internal server error' },
+        { status: 500 }
+      );
+    }
+  },
+  { rateLimit: RATE_LIMITS.tasks, query: listTasksQuerySchema }
+);
+
+// POST /api/projects/[id]/tasks - Create a task in a project (owners and editors)
+export const POST = requireAuth(
+  async (
+    request: NextRequest,
+    user,
+    { params }: { params: Promise<{ id: string }> },
+    { body }
+  ) => {
+    try {
+      const { id } = await params;
+      const { title, description, status, priority, dueDate, assigneeId, watcherIds, parentId, labelIds, recurrence } =
+        body;
+
+      const role = await getProjectRole(id, user.userId);
+      if (!role) {
+        return NextResponse.json(
+          { error: 'Project not found' },
+          { status: 404 }
+        );
+      }
+
+      if (!canEditProjectTasks(role)) {
+        return NextResponse.json(
+          { error: 'Project editor access required' },
+          { status: 403 }
+        );
+      }
+
+      const participantError = await checkTaskParticipants({ userId: user.userId, projectId: id }, [
+        ...(assigneeId ? [assigneeId] : []),
+        ...(watcherIds ?? []),
+      ]);
+      if (participantError) {
+        return NextResponse.json(
+          { error: participantError },
+          { status: 400 }
+        );
+      }
+
+      if (parentId) {
+        const parentError = await checkParent(parentId, { userId: user.userId, projectId: id });
+        if (parentError) {
+          return NextResponse.json(
+            { error: parentError },
+            { status: 400 }
+          );
+        }
+      }
+
+      if (labelIds) {
+        const labelError = await checkTaskLabels({ userId: user.userId, projectId: id }, labelIds);
+        if (labelError) {
+          return NextResponse.json(
+            { error: labelError },
+            { status: 400 }
+          );
+        }
+      }
+
+      const state = await getInitialState(id, status);
+      if (!state) {
+        return NextResponse.json(
+          { error: `The project workflow has no state with status ${status}` },
+          { status: 400 }
+        );
+      }
+
+      const task = await prisma.task.create({
+        data: {
+          title,
+          description: description || null,
+          status: state.category,
+          stateId: state.id,
+          priority: priority || 'MEDIUM',
+          dueDate: dueDate || null,
+          userId: user.userId,
+          projectId: id,
+          assigneeId: assigneeId || null,
+          parentId: parentId || null,
+          ...recurrenceFields(recurrence ?? null, dueDate ? new Date(dueDate) : null),
+          watchers: {
+            create: [...new Set(watcherIds ?? [])].map((userId) => ({ userId })),
+          },
+          labels: {
+            connect: [...new Set(labelIds ?? [])].map((id) => ({ id })),
+          },
+        },
+        include: taskInclude,
+      });
+
+      await Promise.all(taskListScopes(task).map(invalidateTasksCache));
+      if (parentId) {
+        await invalidateTaskCache(parentId, []);
+      }
+      await publishTaskEvent('task.created', task);
+
+      await recordAudit(request, user, {
+        action: 'task.create',
+        targetType: 'task',
+        targetId: task.id,
+        after: taskAuditSnapshot(task),
+      });
+      await notifyAssignee(task, user);
+
+      const [created] = await withTaskExtras([task], user.userId);
+      return NextResponse.json({ task: created }, { status: 201 });
+    } catch (error) {
+      console.error('Create project task error:', error);
+      return NextResponse.json(
+        { error: 'Internal server error' },
+        { status: 500 }
+      );
+    }
+  },
+  { rateLimit: RATE_LIMITS.tasks, body: createTaskSchema }
+);
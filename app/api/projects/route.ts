@@ -0,0 +1,62 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireAuth } from '@/lib/middleware';
+import { RATE_LIMITS } from '@/lib/rate-limit';
+import { createProjectSchema } from '@/lib/schemas';
+import { prisma } from '@/lib/prisma';
+
+// GET /api/projects - List projects the authenticated user is a member of
+export const GET = requireAuth(async (request: NextRequest, user) => {
+  try {
+    const memberships = await prisma.projectMember.findMany({
+      where: { userId: user.userId },
+      include: {
+        project: {
+          include: {
+            _count: {
+              select: {
+                tasks: { where: { deletedAt: null } },
+                members: { where: { user: { deletedAt: null } } },
+              },
+            },
+          },
+        },
+      },
+      orderBy: { project: { name: 'asc' } },
+    });
+
+    const projects = memberships.map(({ role, project }) => ({ ...project, role }));
+
+    return NextResponse.json({ projects });
+  } catch (error) {
+    console.error('Get projects error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}, { rateLimit: RATE_LIMITS.tasks });
+
+// POST /api/projects - Create a project owned by the authenticated user
+export const POST = requireAuth(async (request: NextRequest, user, context, { body }) => {
+  try {
+    const { name, description } = body;
+
+    const project = await prisma.project.create({
+      data: {
+        name,
+        description: description || null,
+        members: {
+          create: { userId: user.userId, role: 'OWNER' },
+        },
+      },
+    });
+
+    return NextResponse.json({ project: { ...project, role: 'OWNER' } }, { status: 201 });
+  } catch (error) {
+    console.error('Create project error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}, { rateLimit: RATE_LIMITS.tasks, body: createProjectSchema });
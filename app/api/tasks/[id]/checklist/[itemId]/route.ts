@@ -0,0 +1,119 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireAuth } from '@/lib/middleware';
+import { RATE_LIMITS } from '@/lib/rate-limit';
+import { updateChecklistItemSchema } from '@/lib/schemas';
+import { prisma } from '@/lib/prisma';
+import { canAccessTask } from '@/lib/permissions';
+import { moveChecklistItem } from '@/lib/subtasks';
+import { invalidateTaskCache } from '@/lib/cache';
+import { publishTaskEvent } from '@/lib/events';
+
+// Load a checklist item on the task for someone who may edit the task
+async function findEditableItem(taskId: string, itemId: string, userId: string) {
+  const item = await prisma.checklistItem.findFirst({
+    where: { id: itemId, taskId, task: { deletedAt: null } },
+    include: { task: true },
+  });
+
+  if (!item) {
+    return {
+      response: NextResponse.json(
+        { error: 'Checklist item not found' },
+        { status: 404 }
+      ),
+    };
+  }
+
+  if (!(await canAccessTask(item.task, userId, 'edit'))) {
+    return {
+      response: NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 403 }
+      ),
+    };
+  }
+
+  return { item };
+}
+
+// PATCH /api/tasks/[id]/checklist/[itemId] - Rename, check off or move an item
+export const PATCH = requireAuth(
+  async (
+    request: NextRequest,
+    user,
+    { params }: { params: Promise<{ id: string; itemId: string }> },
+    { body }
+  ) => {
+    try {
+      const { id, itemId } = await params;
+      const { title, done, position } = body;
+
+      const result = await findEditableItem(id, itemId, user.userId);
+      if (result.response) return result.response;
+
+      const item = await prisma.$transaction(async (tx) => {
+        if (position !== undefined) {
+          await moveChecklistItem(tx, id, itemId, position);
+        }
+        return tx.checklistItem.update({
+          where: { id: itemId },
+          data: {
+            ...(title !== undefined && { title }),
+            ...(done !== undefined && { done }),
+          },
+        });
+      });
+
+      await invalidateTaskCache(id, []);
+      await publishTaskEvent('task.updated', result.item.task);
+
+      return NextResponse.json({ item });
+    } catch (error) {
+      console.error('Update checklist item error:', error);
+      return NextResponse.json(
+        { error: 'Internal server error' },
+        { status: 500 }
+      );
+    }
+  },
+  { rateLimit: RATE_LIMITS.tasks, body: updateChecklistItemSchema }
+);
+
+// DELETE /api/tasks/[id]/checklist/[itemId] - Remove an item
+export const DELETE = requireAuth(
+  async (
+    request: NextRequest,
+    user,
+    { params }: { params: Promise<{ id: string; itemId: string }> }
+  ) => {
+    try {
+      const { id, itemId } = await params;
+
+      const result = await findEditableItem(id, itemId, user.userId);
+      if (result.response) return result.response;
+
+      await prisma.$transaction(async (tx) => {
+        await tx.checklistItem.delete({
+          where: { id: itemId },
+        });
+        // Close the gap in the positions
+        await tx.checklistItem.updateMany({
+          where: { taskId: id, position: { gt: result.item.position } },
+          data: { position: { decrement: 1 } },
+        });
+      });
+
+      await invalidateTaskCache(id, []);
+      await publishTaskEvent('task.updated', result.item.task);
+
+      return NextResponse.json({ message: 'Checklist item deleted successfully' });
+    } catch (error) {
+      console.error('Delete checklist item error:', error);
+      return NextResponse.json(
+        { error: 'Internal server error' },
+        { status: 500 }
+      );
+    }
+  },
+  { rateLimit: RATE_LIMITS.tasks }
+);
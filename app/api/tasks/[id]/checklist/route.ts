@@ -0,0 +1,113 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireAuth } from '@/lib/middleware';
+import { RATE_LIMITS } from '@/lib/rate-limit';
+import { createChecklistItemSchema } from '@/lib/schemas';
+import { prisma } from '@/lib/prisma';
+import { canAccessTask } from '@/lib/permissions';
+import { MAX_CHECKLIST_ITEMS } from '@/lib/subtasks';
+import { invalidateTaskCache } from '@/lib/cache';
+import { publishTaskEvent } from '@/lib/events';
+
+// GET /api/tasks/[id]/checklist - List a task's checklist items in order
+export const GET = requireAuth(
+  async (request: NextRequest, user, { params }: { params: Promise<{ id: string }> }) => {
+    try {
+      const { id } = await params;
+
+      const task = await prisma.task.findUnique({
+        where: { id, deletedAt: null },
+      });
+
+      if (!task) {
+        return NextResponse.json(
+          { error: 'Task not found' },
+          { status: 404 }
+        );
+      }
+
+      if (!(await canAccessTask(task, user.userId, 'view'))) {
+        return NextResponse.json(
+          { error: 'Unauthorized' },
+          { status: 403 }
+        );
+      }
+
+      const items = await prisma.checklistItem.findMany({
+        where: { taskId: id },
+        orderBy: { position: 'asc' },
+      });
+
+      return NextResponse.json({ items });
+    } catch (error) {
+      console.error('Get checklist error:', error);
+      return NextResponse.json(
+        { error: 'Internal server error' },
+        { status: 500 }
+      );
+    }
+  },
+  { rateLimit: RATE_LIMITS.tasks }
+);
+
+// POST /api/tasks/[id]/checklist - Add an item to the end of the checklist
+export const POST = requireAuth(
+  async (
+    request: NextRequest,
+    user,
+    { params }: { params: Promise<{ id: string }> },
+    { body }
+  ) => {
+    try {
+      const { id } = await params;
+
+      const task = await prisma.task.findUnique({
+        where: { id, deletedAt: null },
+      });
+
+      if (!task) {
+        return NextResponse.json(
+          { error: 'Task not found' },
+          { status: 404 }
+        );
+      }
+
+      if (!(await canAccessTask(task, user.userId, 'edit'))) {
+        return NextResponse.json(
+          { error: 'Unauthorized' },
+          { status: 403 }
+        );
+      }
+
+      const count = await prisma.checklistItem.count({
+        where: { taskId: id },
+      });
+
+      if (count >= MAX_CHECKLIST_ITEMS) {
+        return NextResponse.json(
+          { error: `A checklist can have at most ${MAX_CHECKLIST_ITEMS} items` },
+          { status: 400 }
+        );
+      }
+
+      const item = await prisma.checklistItem.create({
+        data: {
+          taskId: id,
+          title: body.title,
+          position: count,
+        },
+      });
+
+      await invalidateTaskCache(id, []);
+      await publishTaskEvent('task.updated', task);
+
+      return NextResponse.json({ item }, { status: 201 });
+    } catch (error) {
+      console.error('Create checklist item error:', error);
+      return NextResponse.json(
+        { error: 'Internal server error' },
+        { status: 500 }
+      );
+    }
+  },
+  { rateLimit: RATE_LIMITS.tasks, body: createChecklistItemSchema }
+);
@@ -0,0 +1,106 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireAuth } from '@/lib/middleware';
+import { RATE_LIMITS } from '@/lib/rate-limit';
+import { updateCommentSchema } from '@/lib/schemas';
+import { prisma } from '@/lib/prisma';
+import { canAccessTask } from '@/lib/permissions';
+import { commentInclude, resolveMentions, toComment } from '@/lib/comments';
+
+// Load a comment on the task for its author. Authors who lost access to the
+// task can no longer change their comments; admins moderate through
+// /api/admin/comments.
+async function findOwnComment(taskId: string, commentId: string, userId: string) {
+  const comment = await prisma.comment.findFirst({
+    where: { id: commentId, taskId, task: { deletedAt: null } },
+    include: { task: true },
+  });
+
+  if (!comment) {
+    return {
+      response: NextResponse.json(
+        { error: 'Comment not found' },
+        { status: 404 }
+      ),
+    };
+  }
+
+  if (comment.authorId !== userId || !(await canAccessTask(comment.task, userId, 'view'))) {
+    return {
+      response: NextResponse.json(
+        { error: 'Only the author can change a comment' },
+        { status: 403 }
+      ),
+    };
+  }
+
+  return { comment };
+}
+
+// PATCH /api/tasks/[id]/comments/[commentId] - Edit a comment (author only)
+export const PATCH = requireAuth(
+  async (
+    request: NextRequest,
+    user,
+    { params }: { params: Promise<{ id: string; commentId: string }> },
+    { body }
+  ) => {
+    try {
+      const { id, commentId } = await params;
+
+      const result = await findOwnComment(id, commentId, user.userId);
+      if (result.response) return result.response;
+
+      const mentionIds = await resolveMentions(result.comment.task, body.body);
+
+      const comment = await prisma.comment.update({
+        where: { id: commentId },
+        data: {
+          body: body.body,
+          mentions: {
+            deleteMany: {},
+            create: mentionIds.map((userId) => ({ userId })),
+          },
+        },
+        include: commentInclude,
+      });
+
+      return NextResponse.json({ comment: toComment(comment) });
+    } catch (error) {
+      console.error('Update comment error:', error);
+      return NextResponse.json(
+        { error: 'Internal server error' },
+        { status: 500 }
+      );
+    }
+  },
+  { rateLimit: RATE_LIMITS.tasks, body: updateCommentSchema }
+);
+
+// DELETE /api/tasks/[id]/comments/[commentId] - Delete a comment (author only)
+export const DELETE = requireAuth(
+  async (
+    request: NextRequest,
+    user,
+    { params }: { params: Promise<{ id: string; commentId: string }> }
+  ) => {
+    try {
+      const { id, commentId } = await params;
+
+      const result = await findOwnComment(id, commentId, user.userId);
+      if (result.response) return result.response;
+
+      await prisma.comment.delete({
+        where: { id: commentId },
+      });
+
+      return NextResponse.json({ message: 'Comment deleted successfully' });
+    } catch (error) {
+      console.error('Delete comment error:', error);
+      return NextResponse.json(
+        { error: 'Internal server error' },
+        { status: 500 }
+      );
+    }
+  },
+  { rateLimit: RATE_LIMITS.tasks }
+);
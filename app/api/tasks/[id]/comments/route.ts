@@ -0,0 +1,104 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireAuth } from '@/lib/middleware';
+import { RATE_LIMITS } from '@/lib/rate-limit';
+import { createCommentSchema } from '@/lib/schemas';
+import { prisma } from '@/lib/prisma';
+import { canAccessTask } from '@/lib/permissions';
+import { commentInclude, resolveMentions, toComment } from '@/lib/comments';
+
+// GET /api/tasks/[id]/comments - List the comments on a task, oldest first
+export const GET = requireAuth(
+  async (request: NextRequest, user, { params }: { params: Promise<{ id: string }> }) => {
+    try {
+      const { id } = await params;
+
+      const task = await prisma.task.findUnique({
+        where: { id, deletedAt: null },
+      });
+
+      if (!task) {
+        return NextResponse.json(
+          { error: 'Task not found' },
+          { status: 404 }
+        );
+      }
+
+      if (!(await canAccessTask(task, user.userId, 'view'))) {
+        return NextResponse.json(
+          { error: 'Unauthorized' },
+          { status: 403 }
+        );
+      }
+
+      const comments = await prisma.comment.findMany({
+        where: { taskId: id },
+        include: commentInclude,
+        orderBy: { createdAt: 'asc' },
+      });
+
+      return NextResponse.json({ comments: comments.map(toComment) });
+    } catch (error) {
+      console.error('Get comments error:', error);
+      return NextResponse.json(
+        { error: 'Internal server error' },
+        { status: 500 }
+      );
+    }
+  },
+  { rateLimit: RATE_LIMITS.tasks }
+);
+
+// POST /api/tasks/[id]/comments - Comment on a task (anyone who can view it)
+export const POST = requireAuth(
+  async (
+    request: NextRequest,
+    user,
+    { params }: { params: Promise<{ id: string }> },
+    { body }
+  ) => {
+    try {
+      const { id } = await params;
+
+      const task = await prisma.task.findUnique({
+        where: { id, deletedAt: null },
+      });
+
+      if (!task) {
+        return NextResponse.json(
+          { error: 'Task not found' },
+          { status: 404 }
+        );
+      }
+
+      if (!(await canAccessTask(task, user.userId, 'view'))) {
+        return NextResponse.json(
+          { error: 'Unauthorized' },
+          { status: 403 }
+        );
+      }
+
+      const mentionIds = await resolveMentions(task, body.body);
+
+      const comment = await prisma.comment.create({
+        data: {
+          body: body.body,
+          taskId: id,
+          authorId: user.userId,
+          mentions: {
+            create: mentionIds.map((userId) => ({ userId })),
+          },
+        },
+        include: commentInclude,
+      });
+
+      return NextResponse.json({ comment: toComment(comment) }, { status: 201 });
+    } catch (error) {
+      console.error('Create comment error:', error);
+      return NextResponse.json(
+        { error: 'Internal server error' },
+        { status: 500 }
+      );
+    }
+  },
+  { rateLimit: RATE_LIMITS.tasks, body: createCommentSchema }
+);
@@ -0,0 +1,50 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireAuth } from '@/lib/middleware';
+import { RATE_LIMITS } from '@/lib/rate-limit';
+import { prisma } from '@/lib/prisma';
+import { canAccessTask } from '@/lib/permissions';
+
+// DELETE /api/tasks/[id]/dependencies/[blockerId] - Stop a task blocking this one
+export const DELETE = requireAuth(
+  async (
+    request: NextRequest,
+    user,
+    { params }: { params: Promise<{ id: string; blockerId: string }> }
+  ) => {
+    try {
+      const { id, blockerId } = await params;
+
+      const dependency = await prisma.taskDependency.findUnique({
+        where: { blockerId_blockedId: { blockerId, blockedId: id } },
+        include: { blocked: true },
+      });
+
+      if (!dependency || dependency.blocked.deletedAt) {
+        return NextResponse.json(
+          { error: 'Dependency not found' },
+          { status: 404 }
+        );
+      }
+
+      if (!(await canAccessTask(dependency.blocked, user.userId, 'edit'))) {
+        return NextResponse.json(
+          { error: 'Unauthorized' },
+          { status: 403 }
+        );
+      }
+
+      await prisma.taskDependency.delete({
+        where: { blockerId_blockedId: { blockerId, blockedId: id } },
+      });
+
+      return NextResponse.json({ message: 'Dependency removed successfully' });
+    } catch (error) {
+      console.error('Remove dependency error:', error);
+      return NextResponse.json(
+        { error: 'Internal server error' },
+        { status: 500 }
+      );
+    }
+  },
+  { rateLimit: RATE_LIMITS.tasks }
+);
@@ -0,0 +1,115 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireAuth } from '@/lib/middleware';
+import { RATE_LIMITS } from '@/lib/rate-limit';
+import { addDependencySchema } from '@/lib/schemas';
+import { prisma } from '@/lib/prisma';
+import { canAccessTask } from '@/lib/permissions';
+import { checkBlocker, dependencyGraph, wouldCreateCycle } from '@/lib/dependencies';
+
+// GET /api/tasks/[id]/dependencies - The tasks upstream and downstream of a task
+export const GET = requireAuth(
+  async (request: NextRequest, user, { params }: { params: Promise<{ id: string }> }) => {
+    try {
+      const { id } = await params;
+
+      const task = await prisma.task.findUnique({
+        where: { id, deletedAt: null },
+      });
+
+      if (!task) {
+        return NextResponse.json(
+          { error: 'Task not found' },
+          { status: 404 }
+        );
+      }
+
+      if (!(await canAccessTask(task, user.userId, 'view'))) {
+        return NextResponse.json(
+          { error: 'Unauthorized' },
+          { status: 403 }
+        );
+      }
+
+      return NextResponse.json(await dependencyGraph(task, user.userId));
+    } catch (error) {
+      console.error('Get dependencies error:', error);
+      return NextResponse.json(
+        { error: 'Internal server error' },
+        { status: 500 }
+      );
+    }
+  },
+  { rateLimit: RATE_LIMITS.tasks }
+);
+
+// POST /api/tasks/[id]/dependencies - Mark another task as blocking this one
+export const POST = requireAuth(
+  async (
+    request: NextRequest,
+    user,
+    { params }: { params: Promise<{ id: string }> },
+    { body }
+  ) => {
+    try {
+      const { id } = await params;
+      const { blockerId } = body;
+
+      const task = await prisma.task.findUnique({
+        where: { id, deletedAt: null },
+      });
+
+      if (!task) {
+        return NextResponse.json(
+          { error: 'Task not found' },
+          { status: 404 }
+        );
+      }
+
+      if (!(await canAccessTask(task, user.userId, 'edit'))) {
+        return NextResponse.json(
+          { error: 'Unauthorized' },
+          { status: 403 }
+        );
+      }
+
+      const blockerError = await checkBlocker(task, blockerId);
+      if (blockerError) {
+        return NextResponse.json(
+          { error: blockerError },
+          { status: 400 }
+        );
+      }
+
+      const existing = await prisma.taskDependency.findUnique({
+        where: { blockerId_blockedId: { blockerId, blockedId: id } },
+      });
+
+      if (existing) {
+        return NextResponse.json(
+          { error: 'Dependency already exists' },
+          { status: 409 }
+        );
+      }
+
+      if (await wouldCreateCycle(blockerId, id)) {
+        return NextResponse.json(
+          { error: 'Dependency would create a cycle' },
+          { status: 409 }
+        );
+      }
+
+      const dependency = await prisma.taskDependency.create({
+        data: { blockerId, blockedId: id },
+      });
+
+      return NextResponse.json({ dependency }, { status: 201 });
+    } catch (error) {
+      console.error('Add dependency error:', error);
+      return NextResponse.json(
+        { error: 'Internal server error' },
+        { status: 500 }
+      );
+    }
+  },
+  { rateLimit: RATE_LIMITS.tasks, body: addDependencySchema }
+);
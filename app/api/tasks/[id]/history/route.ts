@@ -0,0 +1,70 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireAuth } from '@/lib/middleware';
+import { RATE_LIMITS } from '@/lib/rate-limit';
+import { taskHistoryQuerySchema } from '@/lib/schemas';
+import { prisma } from '@/lib/prisma';
+import { canAccessTask } from '@/lib/permissions';
+
+// GET /api/tasks/[id]/history - Activity on a task, newest first
+export const GET = requireAuth(
+  async (
+    request: NextRequest,
+    user,
+    { params }: { params: Promise<{ id: string }> },
+    { query }
+  ) => {
+    try {
+      const { id } = await params;
+      const { page, limit } = query;
+
+      const task = await prisma.task.findUnique({
+        where: { id, deletedAt: null },
+      });
+
+      if (!task) {
+        return NextResponse.json(
+          { error: 'Task not found' },
+          { status: 404 }
+        );
+      }
+
+      if (!(await canAccessTask(task, user.userId, 'view'))) {
+        return NextResponse.json(
+          { error: 'Unauthorized' },
+          { status: 403 }
+        );
+      }
+
+      const where = { targetType: 'task', targetId: id };
+
+      // IPs stay in the admin audit log
+      const [events, total] = await Promise.all([
+        prisma.auditEvent.findMany({
+          where,
+          omit: { ip: true },
+          skip: (page - 1) * limit,
+          take: limit,
+          orderBy: { createdAt: 'desc' },
+        }),
+        prisma.auditEvent.count({ where }),
+      ]);
+
+      return NextResponse.json({
+        events,
+        pagination: {
+          page,
+          limit,
+          total,
+          totalPages: Math.ceil(total / limit),
+        },
+      });
+    } catch (error) {
+      console.error('Get task history error:', error);
+      return NextResponse.json(
+        { error: 'Internal server error' },
+        { status: 500 }
+      );
+    }
+  },
+  { rateLimit: RATE_LIMITS.tasks, query: taskHistoryQuerySchema }
+);
@@ -0,0 +1,80 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireAuth } from '@/lib/middleware';
+import { RATE_LIMITS } from '@/lib/rate-limit';
+import { prisma } from '@/lib/prisma';
+import { recordAudit, taskAuditSnapshot } from '@/lib/audit';
+import { canAccessTask } from '@/lib/permissions';
+import { taskInclude, withTaskExtras } from '@/lib/tasks';
+import { restoreTask } from '@/lib/trash';
+import { invalidateTaskCache } from '@/lib/cache';
+
+// POST /api/tasks/[id]/restore - Restore a task from the trash
+// Subtasks deleted along with the task come back with it
+export const POST = requireAuth(
+  async (request: NextRequest, user, { params }: { params: Promise<{ id: string }> }) => {
+    try {
+      const { id } = await params;
+
+      const task = await prisma.task.findUnique({
+        where: { id },
+        include: { parent: { select: { deletedAt: true } } },
+      });
+
+      if (!task?.deletedAt) {
+        return NextResponse.json(
+          { error: 'Task not found in the trash' },
+          { status: 404 }
+        );
+      }
+
+      if (!(await canAccessTask(task, user.userId, 'edit'))) {
+        return NextResponse.json(
+          { error: 'Unauthorized' },
+          { status: 403 }
+        );
+      }
+
+      if (task.parent?.deletedAt) {
+        return NextResponse.json(
+          { error: 'The parent task is in the trash; restore it first' },
+          { status: 409 }
+        );
+      }
+
+      const restored = await restoreTask({ id, deletedAt: task.deletedAt });
+
+      // Invalidate the parent's subtasks
+      if (task.parentId) {
+        await invalidateTaskCache(task.parentId, []);
+      }
+
+      for (const row of restored) {
+        await recordAudit(request, user, {
+          action: 'task.restore',
+          targetType: 'task',
+          targetId: row.id,
+          after: taskAuditSnapshot(row),
+        });
+      }
+
+      const restoredTask = await prisma.task.findUniqueOrThrow({
+        where: { id },
+        include: taskInclude,
+      });
+      const [taskWithExtras] = await withTaskExtras([restoredTask], user.userId);
+
+      return NextResponse.json({
+        message: 'Task restored successfully',
+        task: taskWithExtras,
+        restoredSubtasks: restored.length - 1,
+      });
+    } catch (error) {
+      console.error('Restore task error:', error);
+      return NextResponse.json(
+        { error: 'Internal server error' },
+        { status: 500 }
+      );
+    }
+  },
+  { rateLimit: RATE_LIMITS.tasks }
+);
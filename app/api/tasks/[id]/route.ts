@@ -1,6 +1,19 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { requireAuth } from '@/lib/middleware';
+import { RATE_LIMITS } from '@/lib/rate-limit';
+import { deleteTaskQuerySchema, updateTaskSchema } from '@/lib/schemas';
 import { prisma } from '@/lib/prisma';
+import { recordAudit, auditDiff, taskAuditSnapshot, TASK_AUDIT_FIELDS } from '@/lib/audit';
+import { canAccessTask, checkTaskParticipants } from '@/lib/permissions';
+import { taskDetailInclude, taskListScopes, withTaskExtras } from '@/lib/tasks';
+import { checkTransition } from '@/lib/workflows';
+import { checkParent, descendantIds } from '@/lib/subtasks';
+import { openBlockers } from '@/lib/dependencies';
+import { checkTaskLabels } from '@/lib/labels';
+import { createNextOccurrence, recurrenceFields } from '@/lib/recurrence';
+import { purgeDate, trashTasks } from '@/lib/trash';
+import { publishTaskEvents } from '@/lib/events';
+import { notifyAssignee } from '@/lib/notifications';
 import {
   getCachedTask,
   setCachedTask,
@@ -16,21 +29,23 @@ export const GET = requireAuth(
       // Try cache first
       const cachedTask = await getCachedTask(id);
       if (cachedTask) {
-        // Verify ownership
-        if (cachedTask.userId !== user.userId) {
+        // Verify access
+        if (!(await canAccessTask(cachedTask, user.userId, 'view'))) {
           return NextResponse.json(
             { error: 'Unauthorized' },
             { status: 403 }
           );
         }
         console.log('Cache hit: task', id);
-        return NextResponse.json({ task: cachedTask, cached: true });
+        const [task] = await withTaskExtras([cachedTask], user.userId);
+        return NextResponse.json({ task, cached: true });
       }
 
       // Fallback to database
       console.log('Cache miss: fetching task from database');
       const task = await prisma.task.findUnique({
-        where: { id },
+        where: { id, deletedAt: null },
+        include: taskDetailInclude,
       });
 
       if (!task) {
@@ -40,7 +55,7 @@ export const GET = requireAuth(
         );
       }
 
-      if (task.userId !== user.userId) {
+      if (!(await canAccessTask(task, user.userId, 'view'))) {
         return NextResponse.json(
           { error: 'Unauthorized' },
           { status: 403 }
@@ -50,7 +65,8 @@ export const GET = requireAuth(
       // Cache for next time
       await setCachedTask(id, task);
 
-      return NextResponse.json({ task, cached: false });
+      const [withActions] = await withTaskExtras([task], user.userId);
+      return NextResponse.json({ task: withActions, cached: false });
     } catch (error) {
       console.error('Get task error:', error);
       return NextResponse.json(
@@ -58,19 +74,37 @@ export const GET = requireAuth(
         { status: 500 }
       );
     }
-  }
+  },
+  { rateLimit: RATE_LIMITS.tasks }
 );
 
 // PATCH /api/tasks/[id] - Update a task
 export const PATCH = requireAuth(
-  async (request: NextRequest, user, { params }: { params: Promise<{ id: string }> }) => {
+  async (
+    request: NextRequest,
+    user,
+    { params }: { params: Promise<{ id: string }> },
+    { body }
+  ) => {
     try {
       const { id } = await params;
-      const body = await request.json();
-      const { title, description, status } = body;
+      const {
+        title,
+        description,
+        status,
+        stateId,
+        priority,
+        dueDate,
+        assigneeId,
+        watcherIds,
+        parentId,
+        labelIds,
+        recurrence,
+        force,
+      } = body;
 
       const task = await prisma.task.findUnique({
-        where: { id },
+        where: { id, deletedAt: null },
       });
 
       if (!task) {
@@ -80,26 +114,155 @@ export const PATCH = requireAuth(
         );
       }
 
-      if (task.userId !== user.userId) {
+      if (!(await canAccessTask(task, user.userId, 'edit'))) {
         return NextResponse.json(
           { error: 'Unauthorized' },
           { status: 403 }
         );
       }
 
+      // Status changes must follow the task's workflow
+      let nextState = null;
+      if (status !== undefined || stateId !== undefined) {
+        const transition = await checkTransition(task, user.userId, { status, stateId });
+        if (!transition.allowed) {
+          return NextResponse.json(
+            { error: transition.error },
+            { status: transition.status }
+          );
+        }
+        nextState = transition.state;
+      }
+
+      // Open blockers keep a task from being completed unless forced
+      if (nextState?.category === 'DONE' && task.status !== 'DONE' && !force) {
+        const blockers = await openBlockers(id);
+        if (blockers.length > 0) {
+          return NextResponse.json(
+            {
+              error: `Task is blocked by ${blockers.length} open task(s); pass force to complete it anyway`,
+              blockers,
+            },
+            { status: 409 }
+          );
+        }
+      }
+
+      // Reparenting stays within the task's list and may not create a cycle
+      if (parentId) {
+        const parentError =
+          parentId === id || (await descendantIds(id)).includes(parentId)
+            ? 'A task cannot be nested under itself or its subtasks'
+            : await checkParent(parentId, task);
+        if (parentError) {
+          return NextResponse.json(
+            { error: parentError },
+            { status: 400 }
+          );
+        }
+      }
+
+      // A new rule restarts the series from this occurrence; a new due date
+      // moves the next occurrence along
+      const nextDueDate =
+        dueDate !== undefined ? (dueDate ? new Date(dueDate) : null) : task.dueDate;
+      const nextRecurrence = recurrence !== undefined ? recurrence : task.recurrence;
+      if (nextRecurrence && !nextDueDate) {
+        return NextResponse.json(
+          { error: 'A recurring task needs a due date' },
+          { status: 400 }
+        );
+      }
+      const series =
+        recurrence !== undefined || (dueDate !== undefined && task.recurrence)
+          ? recurrenceFields(
+              nextRecurrence,
+              nextDueDate,
+              recurrence !== undefined ? 1 : task.occurrence ?? 1
+            )
+          : {};
+
+      if (labelIds) {
+        const labelError = await checkTaskLabels(task, labelIds);
+        if (labelError) {
+          return NextResponse.json(
+            { error: labelError },
+            { status: 400 }
+          );
+        }
+      }
+
+      const participantError = await checkTaskParticipants(task, [
+        ...(assigneeId ? [assigneeId] : []),
+        ...(watcherIds ?? []),
+      ]);
+      if (participantError) {
+        return NextResponse.json(
+          { error: participantError },
+          { status: 400 }
+        );
+      }
+
       const updatedTask = await prisma.task.update({
         where: { id },
         data: {
           ...(title !== undefined && { title }),
           ...(description !== undefined && { description }),
-          ...(status !== undefined && { status }),
+          ...(nextState && { stateId: nextState.id, status: nextState.category }),
+          ...(priority !== undefined && { priority }),
+          ...(dueDate !== undefined && { dueDate }),
+          ...(assigneeId !== undefined && { assigneeId }),
+          ...(parentId !== undefined && { parentId }),
+          ...series,
+          ...(watcherIds !== undefined && {
+            watchers: {
+              deleteMany: {},
+              create: [...new Set(watcherIds)].map((userId) => ({ userId })),
+            },
+          }),
+          ...(labelIds !== undefined && {
+            labels: { set: [...new Set(labelIds)].map((labelId) => ({ id: labelId })) },
+          }),
         },
+        include: taskDetailInclude,
+      });
+
+      // Invalidate cache for this task and the lists it appeared in before
+      // and after the change (a reassignment moves it between assignees)
+      await invalidateTaskCache(id, [
+        ...new Set([...taskListScopes(task), ...taskListScopes(updatedTask)]),
+      ]);
+      // Parents show their subtasks
+      for (const parent of new Set([task.parentId, updatedTask.parentId])) {
+        if (parent) await invalidateTaskCache(parent, []);
+      }
+      // Before and after, to also reach a previous assignee
+      await publishTaskEvents('task.updated', [task, updatedTask]);
+
+      await recordAudit(request, user, {
+        action: 'task.update',
+        targetType: 'task',
+        targetId: id,
+        ...auditDiff(task, updatedTask, TASK_AUDIT_FIELDS),
       });
+      if (updatedTask.assigneeId !== task.assigneeId) {
+        await notifyAssignee(updatedTask, user);
+      }
 
-      // Invalidate cache for this task and user's task list
-      await invalidateTaskCache(id, user.userId);
+      // Completing an occurrence of a recurring task generates the next one
+      const nextOccurrence =
+        nextState?.category === 'DONE' && task.status !== 'DONE'
+          ? await createNextOccurrence(id, request, user)
+          : null;
 
-      return NextResponse.json({ task: updatedTask });
+      const [withActions, ...next] = await withTaskExtras(
+        [updatedTask, ...(nextOccurrence ? [nextOccurrence] : [])],
+        user.userId
+      );
+      return NextResponse.json({
+        task: withActions,
+        ...(next.length > 0 && { nextOccurrence: next[0] }),
+      });
     } catch (error) {
       console.error('Update task error:', error);
       return NextResponse.json(
@@ -107,17 +270,25 @@ export const PATCH = requireAuth(
         { status: 500 }
       );
     }
-  }
+  },
+  { rateLimit: RATE_LIMITS.tasks, body: updateTaskSchema }
 );
 
 // DELETE /api/tasks/[id] - Delete a task
+// Moves the task to the trash, see lib/trash.ts. A task with subtasks is only
+// deleted with ?cascade=true, which deletes the subtasks too
 export const DELETE = requireAuth(
-  async (request: NextRequest, user, { params }: { params: Promise<{ id: string }> }) => {
+  async (
+    request: NextRequest,
+    user,
+    { params }: { params: Promise<{ id: string }> },
+    { query }
+  ) => {
     try {
       const { id } = await params;
 
       const task = await prisma.task.findUnique({
-        where: { id },
+        where: { id, deletedAt: null },
       });
 
       if (!task) {
@@ -127,21 +298,58 @@ export const DELETE = requireAuth(
         );
       }
 
-      if (task.userId !== user.userId) {
+      if (!(await canAccessTask(task, user.userId, 'edit'))) {
         return NextResponse.json(
           { error: 'Unauthorized' },
           { status: 403 }
         );
       }
 
-      await prisma.task.delete({
-        where: { id },
+      const subtasks = await prisma.task.findMany({
+        where: { id: { in: await descendantIds(id) }, deletedAt: null },
       });
 
-      // Invalidate cache for this task and user's task list
-      await invalidateTaskCache(id, user.userId);
+      if (subtasks.length > 0 && !query.cascade) {
+        return NextResponse.json(
+          {
+            error: `Task has ${subtasks.length} subtask(s); delete with ?cascade=true to remove them too`,
+          },
+          { status: 409 }
+        );
+      }
+
+      for (const subtask of subtasks) {
+        if (!(await canAccessTask(subtask, user.userId, 'edit'))) {
+          return NextResponse.json(
+            { error: 'No access to delete all subtasks' },
+            { status: 403 }
+          );
+        }
+      }
+
+      // Subtasks go with their parent, and come back with it
+      const deletedAt = new Date();
+      await trashTasks([task, ...subtasks], deletedAt);
+
+      // Invalidate the parent's subtasks
+      if (task.parentId) {
+        await invalidateTaskCache(task.parentId, []);
+      }
 
-      return NextResponse.json({ message: 'Task deleted successfully' });
+      for (const deleted of [task, ...subtasks]) {
+        await recordAudit(request, user, {
+          action: 'task.delete',
+          targetType: 'task',
+          targetId: deleted.id,
+          before: taskAuditSnapshot(deleted),
+        });
+      }
+
+      return NextResponse.json({
+        message: 'Task deleted successfully',
+        deletedSubtasks: subtasks.length,
+        purgeAt: purgeDate(deletedAt),
+      });
     } catch (error) {
       console.error('Delete task error:', error);
       return NextResponse.json(
@@ -149,5 +357,6 @@ export const DELETE = requireAuth(
         { status: 500 }
       );
     }
-  }
+  },
+  { rateLimit: RATE_LIMITS.tasks, query: deleteTaskQuerySchema }
 );
@@ -1,33 +1,29 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { requireAuth } from '@/lib/middleware';
+import { RATE_LIMITS } from '@/lib/rate-limit';
+import { createTaskSchema, listTasksQuerySchema } from '@/lib/schemas';
 import { prisma } from '@/lib/prisma';
-import {
-  getCachedTasks,
-  setCachedTasks,
-  invalidateTasksCache,
-} from '@/lib/cache';
+import { recordAudit, taskAuditSnapshot } from '@/lib/audit';
+import { listTasks, taskInclude, taskListScopes, withTaskExtras } from '@/lib/tasks';
+import { checkTaskParticipants } from '@/lib/permissions';
+import { getInitialState } from '@/lib/workflows';
+import { checkParent } from '@/lib/subtasks';
+import { checkTaskLabels } from '@/lib/labels';
+import { recurrenceFields } from '@/lib/recurrence';
+import { invalidateTaskCache, invalidateTasksCache } from '@/lib/cache';
+import { publishTaskEvent } from '@/lib/events';
+import { notifyAssignee } from '@/lib/notifications';
 
-// GET /api/tasks - Get all tasks for the authenticated user
-export const GET = requireAuth(async (request: NextRequest, user) => {
+// GET /api/tasks - List the authenticated user's personal tasks
+// ?assigned=me lists the tasks assigned to the user instead, in any project.
+// Supports status/priority/due filters, search, sort/order and cursor paging
+export const GET = requireAuth(async (request: NextRequest, user, context, { query }) => {
   try {
-    // Try cache first
-    const cachedTasks = await getCachedTasks(user.userId);
-    if (cachedTasks) {
-      console.log('Cache hit: tasks list');
-      return NextResponse.json({ tasks: cachedTasks, cached: true });
-    }
-
-    // Fallback to database
-    console.log('Cache miss: fetching tasks from database');
-    const tasks = await prisma.task.findMany({
-      where: { userId: user.userId },
-      orderBy: { createdAt: 'desc' },
-    });
-
-    // Cache for next time
-    await setCachedTasks(user.userId, tasks);
-
-    return NextResponse.json({ tasks, cached: false });
+    const page = await listTasks(
+      query.assigned ? { assigneeId: user.userId } : { userId: user.userId, projectId: null },
+      query
+    );
+    return NextResponse.json({ ...page, tasks: await withTaskExtras(page.tasks, user.userId) });
   } catch (error) {
     console.error('Get tasks error:', error);
     return NextResponse.json(
@@ -35,17 +31,49 @@ export const GET = requireAuth(async (request: NextRequest, user) => {
       { status: 500 }
     );
   }
-});
+}, { rateLimit: RATE_LIMITS.tasks, query: listTasksQuerySchema });
 
 // POST /api/tasks - Create a new task
-export const POST = requireAuth(async (request: NextRequest, user) => {
+export const POST = requireAuth(async (request: NextRequest, user, context, { body }) => {
   try {
-    const body = await request.json();
-    const { title, description, status } = body;
+    const { title, description, status, priority, dueDate, assigneeId, watcherIds, parentId, labelIds, recurrence } =
+      body;
+
+    const participantError = await checkTaskParticipants({ userId: user.userId, projectId: null }, [
+      ...(assigneeId ? [assigneeId] : []),
+      ...(watcherIds ?? []),
+    ]);
+    if (participantError) {
+      return NextResponse.json(
+        { error: participantError },
+        { status: 400 }
+      );
+    }
 
-    if (!title) {
+    if (parentId) {
+      const parentError = await checkParent(parentId, { userId: user.userId, projectId: null });
+      if (parentError) {
+        return NextResponse.json(
+          { error: parentError },
+          { status: 400 }
+        );
+      }
+    }
+
+    if (labelIds) {
+      const labelError = await checkTaskLabels({ userId: user.userId, projectId: null }, labelIds);
+      if (labelError) {
+        return NextResponse.json(
+          { error: labelError },
+          { status: 400 }
+        );
+      }
+    }
+
+    const state = await getInitialState(null, status);
+    if (!state) {
       return NextResponse.json(
-        { error: 'Title is required' },
+        { error: `The workflow has no state with status ${status}` },
         { status: 400 }
       );
     }
@@ -54,15 +82,42 @@ export const POST = requireAuth(async (request: NextRequest, user) => {
       data: {
         title,
         description: description || null,
-        status: status || 'OPEN',
+        status: state.category,
+        stateId: state.id,
+        priority: priority || 'MEDIUM',
+        dueDate: dueDate || null,
         userId: user.userId,
+        assigneeId: assigneeId || null,
+        parentId: parentId || null,
+        ...recurrenceFields(recurrence ?? null, dueDate ? new Date(dueDate) : null),
+        watchers: {
+          create: [...new Set(watcherIds ?? [])].map((userId) => ({ userId })),
+        },
+        labels: {
+          connect: [...new Set(labelIds ?? [])].map((id) => ({ id })),
+        },
       },
+      include: taskInclude,
     });
 
-    // Invalidate tasks cache since we added a new task
-    await invalidateTasksCache(user.userId);
+    // Invalidate the lists the new task appears in, and the parent's
+    // subtasks
+    await Promise.all(taskListScopes(task).map(invalidateTasksCache));
+    if (parentId) {
+      await invalidateTaskCache(parentId, []);
+    }
+    await publishTaskEvent('task.created', task);
+
+    await recordAudit(request, user, {
+      action: 'task.create',
+      targetType: 'task',
+      targetId: task.id,
+      after: taskAuditSnapshot(task),
+    });
+    await notifyAssignee(task, user);
 
-    return NextResponse.json({ task }, { status: 201 });
+    const [created] = await withTaskExtras([task], user.userId);
+    return NextResponse.json({ task: created }, { status: 201 });
   } catch (error) {
     console.error('Create task error:', error);
     return NextResponse.json(
@@ -70,4 +125,4 @@ export const POST = requireAuth(async (request: NextRequest, user) => {
       { status: 500 }
     );
   }
-});
+}, { rateLimit: RATE_LIMITS.tasks, body: createTaskSchema });
@@ -0,0 +1,41 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireAuth } from '@/lib/middleware';
+import { RATE_LIMITS } from '@/lib/rate-limit';
+import { searchTasksQuerySchema } from '@/lib/schemas';
+import { prisma } from '@/lib/prisma';
+import { searchTasks, withSearchHits } from '@/lib/search';
+import { taskInclude, withTaskExtras } from '@/lib/tasks';
+
+// GET /api/tasks/search - Ranked full-text search over the tasks the user can see
+export const GET = requireAuth(async (request: NextRequest, user, context, { query }) => {
+  try {
+    const { q, status, page, limit } = query;
+
+    const { hits, total } = await searchTasks(
+      q,
+      { visibleTo: user.userId, status },
+      { limit, offset: (page - 1) * limit }
+    );
+
+    const tasks = await prisma.task.findMany({
+      where: { id: { in: hits.map((hit) => hit.id) } },
+      include: taskInclude,
+    });
+
+    return NextResponse.json({
+      tasks: withSearchHits(await withTaskExtras(tasks, user.userId), hits),
+      pagination: {
+        page,
+        limit,
+        total,
+        totalPages: Math.ceil(total / limit),
+      },
+    });
+  } catch (error) {
+    console.error('Search tasks error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}, { rateLimit: RATE_LIMITS.tasks, query: searchTasksQuerySchema });
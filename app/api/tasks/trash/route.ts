@@ -0,0 +1,59 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { Prisma } from '@prisma/client';
+import { requireAuth } from '@/lib/middleware';
+import { RATE_LIMITS } from '@/lib/rate-limit';
+import { listTrashQuerySchema } from '@/lib/schemas';
+import { prisma } from '@/lib/prisma';
+import { taskInclude } from '@/lib/tasks';
+import { purgeDate } from '@/lib/trash';
+
+// GET /api/tasks/trash - List the deleted tasks the user can restore, newest first
+// Subtasks deleted with their parent are restored with it and not listed
+export const GET = requireAuth(async (request: NextRequest, user, context, { query }) => {
+  try {
+    const { page, limit } = query;
+
+    const where: Prisma.TaskWhereInput = {
+      deletedAt: { not: null },
+      OR: [{ parentId: null }, { parent: { deletedAt: null } }],
+      AND: {
+        OR: [
+          { projectId: null, userId: user.userId },
+          { assigneeId: user.userId },
+          {
+            project: {
+              members: { some: { userId: user.userId, role: { in: ['OWNER', 'EDITOR'] } } },
+            },
+          },
+        ],
+      },
+    };
+
+    const [tasks, total] = await Promise.all([
+      prisma.task.findMany({
+        where,
+        include: taskInclude,
+        orderBy: { deletedAt: 'desc' },
+        skip: (page - 1) * limit,
+        take: limit,
+      }),
+      prisma.task.count({ where }),
+    ]);
+
+    return NextResponse.json({
+      tasks: tasks.map((task) => ({ ...task, purgeAt: purgeDate(task.deletedAt!) })),
+      pagination: {
+        page,
+        limit,
+        total,
+        totalPages: Math.ceil(total / limit),
+      },
+    });
+  } catch (error) {
+    console.error('Get trash error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}, { rateLimit: RATE_LIMITS.tasks, query: listTrashQuerySchema });
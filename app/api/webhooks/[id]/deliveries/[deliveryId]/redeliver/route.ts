@@ -0,0 +1,49 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireAuth } from '@/lib/middleware';
+import { RATE_LIMITS } from '@/lib/rate-limit';
+import { prisma } from '@/lib/prisma';
+import { redeliver } from '@/lib/webhooks';
+
+// POST /api/webhooks/[id]/deliveries/[deliveryId]/redeliver - Send a delivery's payload again
+// The result is a new delivery, attempted right away and retried like any other
+export const POST = requireAuth(
+  async (
+    request: NextRequest,
+    user,
+    { params }: { params: Promise<{ id: string; deliveryId: string }> }
+  ) => {
+    try {
+      const { id, deliveryId } = await params;
+
+      const delivery = await prisma.webhookDelivery.findUnique({
+        where: { id: deliveryId, webhookId: id, webhook: { userId: user.userId } },
+        include: { webhook: { select: { active: true } } },
+      });
+
+      if (!delivery) {
+        return NextResponse.json(
+          { error: 'Delivery not found' },
+          { status: 404 }
+        );
+      }
+
+      if (!delivery.webhook.active) {
+        return NextResponse.json(
+          { error: 'The webhook is disabled; enable it first' },
+          { status: 409 }
+        );
+      }
+
+      const redelivery = await redeliver(delivery);
+
+      return NextResponse.json({ delivery: redelivery }, { status: 201 });
+    } catch (error) {
+      console.error('Redeliver webhook error:', error);
+      return NextResponse.json(
+        { error: 'Internal server error' },
+        { status: 500 }
+      );
+    }
+  },
+  { rateLimit: RATE_LIMITS.tasks }
+);
@@ -0,0 +1,65 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { Prisma } from '@prisma/client';
+import { requireAuth } from '@/lib/middleware';
+import { RATE_LIMITS } from '@/lib/rate-limit';
+import { listWebhookDeliveriesQuerySchema } from '@/lib/schemas';
+import { prisma } from '@/lib/prisma';
+
+// GET /api/webhooks/[id]/deliveries - List a webhook's deliveries, newest first
+export const GET = requireAuth(
+  async (
+    request: NextRequest,
+    user,
+    { params }: { params: Promise<{ id: string }> },
+    { query }
+  ) => {
+    try {
+      const { id } = await params;
+      const { page, limit, status } = query;
+
+      const webhook = await prisma.webhook.findUnique({
+        where: { id, userId: user.userId },
+        select: { id: true },
+      });
+
+      if (!webhook) {
+        return NextResponse.json(
+          { error: 'Webhook not found' },
+          { status: 404 }
+        );
+      }
+
+      const where: Prisma.WebhookDeliveryWhereInput = {
+        webhookId: id,
+        ...(status && { status }),
+      };
+
+      const [deliveries, total] = await Promise.all([
+        prisma.webhookDelivery.findMany({
+          where,
+          orderBy: { createdAt: 'desc' },
+          skip: (page - 1) * limit,
+          take: limit,
+        }),
+        prisma.webhookDelivery.count({ where }),
+      ]);
+
+      return NextResponse.json({
+        deliveries,
+        pagination: {
+          page,
+          limit,
+          total,
+          totalPages: Math.ceil(total / limit),
+        },
+      });
+    } catch (error) {
+      console.error('Get webhook deliveries error:', error);
+      return NextResponse.json(
+        { error: 'Internal server error' },
+        { status: 500 }
+      );
+    }
+  },
+  { rateLimit: RATE_LIMITS.tasks, query: listWebhookDeliveriesQuerySchema }
+);
@@ -0,0 +1,161 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireAuth } from '@/lib/middleware';
+import { RATE_LIMITS } from '@/lib/rate-limit';
+import { updateWebhookSchema } from '@/lib/schemas';
+import { prisma } from '@/lib/prisma';
+import { auditDiff, recordAudit } from '@/lib/audit';
+import {
+  generateWebhookSecret,
+  webhookEventsError,
+  webhookSelect,
+  webhookUrlError,
+} from '@/lib/webhooks';
+
+const WEBHOOK_AUDIT_FIELDS = ['url', 'events', 'description', 'active'] as const;
+
+// Other users' webhooks are reported as not found
+async function findOwnWebhook(id: string, userId: string) {
+  const webhook = await prisma.webhook.findUnique({
+    where: { id, userId },
+    select: webhookSelect,
+  });
+
+  if (!webhook) {
+    return {
+      response: NextResponse.json(
+        { error: 'Webhook not found' },
+        { status: 404 }
+      ),
+    };
+  }
+
+  return { webhook };
+}
+
+// GET /api/webhooks/[id] - Get a webhook with its delivery counts
+export const GET = requireAuth(
+  async (request: NextRequest, user, { params }: { params: Promise<{ id: string }> }) => {
+    try {
+      const { id } = await params;
+
+      const result = await findOwnWebhook(id, user.userId);
+      if (result.response) return result.response;
+
+      const counts = await prisma.webhookDelivery.groupBy({
+        by: ['status'],
+        where: { webhookId: id },
+        _count: true,
+      });
+
+      return NextResponse.json({
+        webhook: {
+          ...result.webhook,
+          deliveries: {
+            PENDING: 0,
+            SUCCEEDED: 0,
+            FAILED: 0,
+            ...Object.fromEntries(counts.map((row) => [row.status, row._count])),
+          },
+        },
+      });
+    } catch (error) {
+      console.error('Get webhook error:', error);
+      return NextResponse.json(
+        { error: 'Internal server error' },
+        { status: 500 }
+      );
+    }
+  },
+  { rateLimit: RATE_LIMITS.tasks }
+);
+
+// PATCH /api/webhooks/[id] - Update a webhook or rotate its signing secret
+export const PATCH = requireAuth(
+  async (
+    request: NextRequest,
+    user,
+    { params }: { params: Promise<{ id: string }> },
+    { body }
+  ) => {
+    try {
+      const { id } = await params;
+      const { url, events, description, active, rotateSecret } = body;
+
+      const result = await findOwnWebhook(id, user.userId);
+      if (result.response) return result.response;
+
+      const error =
+        (url !== undefined ? webhookUrlError(url) : null) ??
+        (events !== undefined ? webhookEventsError(events, user.role) : null);
+      if (error) {
+        return NextResponse.json(
+          { error },
+          { status: 400 }
+        );
+      }
+
+      const secret = rotateSecret ? generateWebhookSecret() : undefined;
+      const webhook = await prisma.webhook.update({
+        where: { id },
+        data: {
+          ...(url !== undefined && { url }),
+          ...(events !== undefined && { events }),
+          ...(description !== undefined && { description }),
+          ...(active !== undefined && { active }),
+          ...(secret && { secret }),
+        },
+        select: webhookSelect,
+      });
+
+      const diff = auditDiff(result.webhook, webhook, WEBHOOK_AUDIT_FIELDS);
+      await recordAudit(request, user, {
+        action: 'webhook.update',
+        targetType: 'webhook',
+        targetId: id,
+        before: diff.before,
+        after: { ...diff.after, ...(secret && { secretRotated: true }) },
+      });
+
+      return NextResponse.json({ webhook, ...(secret && { secret }) });
+    } catch (error) {
+      console.error('Update webhook error:', error);
+      return NextResponse.json(
+        { error: 'Internal server error' },
+        { status: 500 }
+      );
+    }
+  },
+  { rateLimit: RATE_LIMITS.tasks, body: updateWebhookSchema }
+);
+
+// DELETE /api/webhooks/[id] - Delete a webhook and its delivery log
+export const DELETE = requireAuth(
+  async (request: NextRequest, user, { params }: { params: Promise<{ id: string }> }) => {
+    try {
+      const { id } = await params;
+
+      const result = await findOwnWebhook(id, user.userId);
+      if (result.response) return result.response;
+
+      await prisma.webhook.delete({
+        where: { id },
+      });
+
+      await recordAudit(request, user, {
+        action: 'webhook.delete',
+        targetType: 'webhook',
+        targetId: id,
+        before: { url: result.webhook.url, events: result.webhook.events },
+      });
+
+      return NextResponse.json({ message: 'Webhook deleted successfully' });
+    } catch (error) {
+      console.error('Delete webhook error:', error);
+      return NextResponse.json(
+        { error: 'Internal server error' },
+        { status: 500 }
+      );
+    }
+  },
+  { rateLimit: RATE_LIMITS.tasks }
+);
@@ -0,0 +1,83 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireAuth } from '@/lib/middleware';
+import { RATE_LIMITS } from '@/lib/rate-limit';
+import { createWebhookSchema } from '@/lib/schemas';
+import { prisma } from '@/lib/prisma';
+import { recordAudit } from '@/lib/audit';
+import {
+  generateWebhookSecret,
+  MAX_WEBHOOKS_PER_USER,
+  webhookEventsError,
+  webhookSelect,
+  webhookUrlError,
+} from '@/lib/webhooks';
+
+// GET /api/webhooks - List the user's webhooks
+export const GET = requireAuth(async (request: NextRequest, user) => {
+  try {
+    const webhooks = await prisma.webhook.findMany({
+      where: { userId: user.userId },
+      select: webhookSelect,
+      orderBy: { createdAt: 'asc' },
+    });
+
+    return NextResponse.json({ webhooks });
+  } catch (error) {
+    console.error('Get webhooks error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}, { rateLimit: RATE_LIMITS.tasks });
+
+// POST /api/webhooks - Register a webhook; the response holds its signing secret
+export const POST = requireAuth(async (request: NextRequest, user, context, { body }) => {
+  try {
+    const { url, events, description, active } = body;
+
+    const error = webhookUrlError(url) ?? webhookEventsError(events, user.role);
+    if (error) {
+      return NextResponse.json(
+        { error },
+        { status: 400 }
+      );
+    }
+
+    const count = await prisma.webhook.count({ where: { userId: user.userId } });
+    if (count >= MAX_WEBHOOKS_PER_USER) {
+      return NextResponse.json(
+        { error: `At most ${MAX_WEBHOOKS_PER_USER} webhooks per user` },
+        { status: 409 }
+      );
+    }
+
+    const secret = generateWebhookSecret();
+    const webhook = await prisma.webhook.create({
+      data: {
+        url,
+        events,
+        description: description ?? null,
+        active,
+        secret,
+        userId: user.userId,
+      },
+      select: webhookSelect,
+    });
+
+    await recordAudit(request, user, {
+      action: 'webhook.create',
+      targetType: 'webhook',
+      targetId: webhook.id,
+      after: { url, events, active },
+    });
+
+    return NextResponse.json({ webhook, secret }, { status: 201 });
+  } catch (error) {
+    console.error('Create webhook error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}, { rateLimit: RATE_LIMITS.tasks, body: createWebhookSchema });
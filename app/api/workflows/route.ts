@@ -0,0 +1,26 @@
+import { NextResponse } from 'next/server';
+import { requireAuth } from '@/lib/middleware';
+import { RATE_LIMITS } from '@/lib/rate-limit';
+import { prisma } from '@/lib/prisma';
+import { workflowInclude } from '@/lib/workflows';
+
+// GET /api/workflows - Workflows project owners can choose from
+export const GET = requireAuth(
+  async () => {
+    try {
+      const workflows = await prisma.workflow.findMany({
+        include: workflowInclude,
+        orderBy: [{ isDefault: 'desc' }, { name: 'asc' }],
+      });
+
+      return NextResponse.json({ workflows });
+    } catch (error) {
+      console.error('Get workflows error:', error);
+      return NextResponse.json(
+        { error: 'Internal server error' },
+        { status: 500 }
+      );
+    }
+  },
+  { rateLimit: RATE_LIMITS.tasks }
+);
@@ -1,8 +1,10 @@
 'use client';
 
-import { useEffect, useState } from 'react';
+import { Fragment, useEffect, useRef, useState } from 'react';
 import { useRouter } from 'next/navigation';
-import { getToken, removeToken } from '@/lib/client-auth';
+import { authFetch, removeToken, logout } from '@/lib/client-auth';
+import { subscribeToTaskEvents, TaskEvent } from '@/lib/client-events';
+import NotificationBell from '@/components/NotificationBell';
 
 interface User {
   id: string;
@@ -11,14 +13,179 @@ interface User {
   role: string;
 }
 
+interface Label {
+  id: string;
+  name: string;
+  color: string;
+}
+
 interface Task {
   id: string;
   title: string;
   description: string | null;
   status: 'OPEN' | 'IN_PROGRESS' | 'DONE';
+  priority: 'LOW' | 'MEDIUM' | 'HIGH' | 'URGENT';
+  dueDate: string | null;
+  projectId: string | null;
+  assigneeId: string | null;
+  assignee: { id: string; email: string; name: string | null } | null;
+  stateId: string | null;
+  state: { id: string; name: string; category: Task['status'] } | null;
+  // Workflow transitions the current user may perform
+  transitions: { id: string; name: string; toStateId: string }[];
+  parentId: string | null;
+  progress: {
+    subtasks: { total: number; done: number };
+    checklist: { total: number; done: number };
+    percent: number | null;
+  };
+  // Blocking tasks not done yet
+  openBlockers: number;
+  labels: Label[];
+  recurrence: string | null;
+  nextOccurrenceAt: string | null;
+  createdAt: string;
+  updatedAt: string;
+  // Present on search results; matches are wrapped in <mark></mark>
+  search?: {
+    title: string;
+    description: string | null;
+  };
+}
+
+// A deleted task, restorable until purgeAt
+interface TrashedTask {
+  id: string;
+  title: string;
+  projectId: string | null;
+  deletedAt: string;
+  purgeAt: string;
+}
+
+interface ChecklistItem {
+  id: string;
+  title: string;
+  done: boolean;
+  position: number;
+}
+
+interface Comment {
+  id: string;
+  body: string;
+  authorId: string | null;
+  author: { id: string; email: string; name: string | null } | null;
+  mentions: { id: string; email: string; name: string | null }[];
   createdAt: string;
+  updatedAt: string;
+}
+
+interface ProjectMember {
+  userId: string;
+  email: string;
+  name: string | null;
 }
 
+interface Project {
+  id: string;
+  name: string;
+  description: string | null;
+  role: 'OWNER' | 'EDITOR' | 'VIEWER';
+}
+
+type DueView = 'all' | 'overdue' | 'soon';
+type SortKey = 'createdAt' | 'updatedAt' | 'dueDate' | 'priority' | 'title';
+
+interface TaskFilters {
+  projectId: string; // Empty for personal tasks
+  assigned: boolean; // Tasks assigned to the user, in any project
+  view: DueView;
+  status: Task['status'] | '';
+  labelIds: string[];
+  labelMatch: 'any' | 'all';
+  sort: SortKey;
+}
+
+const defaultFilters: TaskFilters = {
+  projectId: '',
+  assigned: false,
+  view: 'all',
+  status: '',
+  labelIds: [],
+  labelMatch: 'any',
+  sort: 'createdAt',
+};
+
+const tasksUrl = (projectId: string) =>
+  projectId ? `/api/projects/${projectId}/tasks` : '/api/tasks';
+
+// The API picks the natural order for each sort field
+const taskListUrl = (filters: TaskFilters, cursor?: string) => {
+  const params = new URLSearchParams({ sort: filters.sort });
+  if (filters.assigned) params.set('assigned', 'me');
+  if (filters.view !== 'all') params.set('due', filters.view);
+  if (filters.status) params.set('status', filters.status);
+  if (filters.labelIds.length > 0) {
+    params.set('labels', filters.labelIds.join(','));
+    params.set('labelMatch', filters.labelMatch);
+  }
+  if (cursor) params.set('cursor', cursor);
+  return `${tasksUrl(filters.projectId)}?${params}`;
+};
+
+const SEARCH_DEBOUNCE_MS = 300;
+
+// Render search highlights as React elements rather than injecting HTML
+const renderHighlight = (text: string) =>
+  text.split(/(<mark>.*?<\/mark>)/g).map((part, i) =>
+    part.startsWith('<mark>') ? (
+      <mark key={i} className="bg-yellow-200 dark:bg-yellow-700/60 text-inherit rounded-sm">
+        {part.slice('<mark>'.length, -'</mark>'.length)}
+      </mark>
+    ) : (
+      part
+    )
+  );
+
+const emptyLabel = { name: '', color: '#3b82f6' };
+
+const emptyTask = {
+  title: '',
+  description: '',
+  priority: 'MEDIUM' as Task['priority'],
+  dueDate: '',
+  recurrence: '',
+};
+
+// Common rules offered when creating a task; the API takes any supported RRULE
+const RECURRENCE_OPTIONS = [
+  ['', 'Does not repeat'],
+  ['FREQ=DAILY', 'Daily'],
+  ['FREQ=DAILY;BYDAY=MO,TU,WE,TH,FR', 'Every weekday'],
+  ['FREQ=WEEKLY', 'Weekly'],
+  ['FREQ=MONTHLY', 'Monthly'],
+] as const;
+
+const isOverdue = (task: Task) =>
+  task.status !== 'DONE' && !!task.dueDate && new Date(task.dueDate) < new Date();
+
+// Show subtasks under their parent, keeping the list order at each level.
+// Subtasks whose parent isn't in the list show at the top level.
+const nestTasks = (tasks: Task[]) => {
+  const ids = new Set(tasks.map((task) => task.id));
+  const rows: { task: Task; depth: number }[] = [];
+  const addRows = (parentId: string | null, depth: number) => {
+    for (const task of tasks) {
+      const isRoot = !task.parentId || !ids.has(task.parentId);
+      if (parentId === null ? isRoot : task.parentId === parentId) {
+        rows.push({ task, depth });
+        addRows(task.id, depth + 1);
+      }
+    }
+  };
+  addRows(null, 0);
+  return rows;
+};
+
 export default function DashboardPage() {
   const [user, setUser] = useState<User | null>(null);
   const [tasks, setTasks] = useState<Task[]>([]);
@@ -26,25 +193,37 @@ export default function DashboardPage() {
   const [tasksLoading, setTasksLoading] = useState(false);
   const [error, setError] = useState('');
   const [showCreateForm, setShowCreateForm] = useState(false);
-  const [newTask, setNewTask] = useState({ title: '', description: '' });
+  const [newTask, setNewTask] = useState(emptyTask);
   const [creatingTask, setCreatingTask] = useState(false);
+  const [filters, setFilters] = useState<TaskFilters>(defaultFilters);
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
+  const [loadingMore, setLoadingMore] = useState(false);
+  const [search, setSearch] = useState('');
+  const [searchRefresh, setSearchRefresh] = useState(0);
+  const [projects, setProjects] = useState<Project[]>([]);
+  const [projectForm, setProjectForm] = useState<'create' | 'share' | null>(null);
+  const [newProjectName, setNewProjectName] = useState('');
+  const [share, setShare] = useState({ email: '', role: 'EDITOR' as Project['role'] });
+  const [members, setMembers] = useState<ProjectMember[]>([]);
+  const [expandedTaskId, setExpandedTaskId] = useState<string | null>(null);
+  const [comments, setComments] = useState<Comment[]>([]);
+  const [commentsLoading, setCommentsLoading] = useState(false);
+  const [newComment, setNewComment] = useState('');
+  const [editingComment, setEditingComment] = useState<{ id: string; body: string } | null>(null);
+  const [checklist, setChecklist] = useState<ChecklistItem[]>([]);
+  const [newChecklistItem, setNewChecklistItem] = useState('');
+  const [newSubtask, setNewSubtask] = useState('');
+  // Labels of the open list: personal labels, or the open project's
+  const [labels, setLabels] = useState<Label[]>([]);
+  const [newLabel, setNewLabel] = useState(emptyLabel);
+  // Deleted tasks, while the trash is open
+  const [trash, setTrash] = useState<TrashedTask[] | null>(null);
   const router = useRouter();
 
   useEffect(() => {
     const fetchUser = async () => {
-      const token = getToken();
-
-      if (!token) {
-        router.push('/');
-        return;
-      }
-
       try {
-        const res = await fetch('/api/auth/me', {
-          headers: {
-            Authorization: `Bearer ${token}`,
-          },
-        });
+        const res = await authFetch('/api/auth/me');
 
         if (!res.ok) {
           throw new Error('Unauthorized');
@@ -52,7 +231,7 @@ export default function DashboardPage() {
 
         const data = await res.json();
         setUser(data.user);
-        await fetchTasks(token);
+        await Promise.all([fetchTasks(defaultFilters), fetchProjects(), fetchLabels('')]);
       } catch (error) {
         removeToken();
         router.push('/');
@@ -64,37 +243,359 @@ export default function DashboardPage() {
     fetchUser();
   }, [router]);
 
-  const fetchTasks = async (token?: string) => {
-    const authToken = token || getToken();
-    if (!authToken) return;
+  // Search as the user types, once they pause. Results replace the list until
+  // the box is cleared.
+  useEffect(() => {
+    const q = search.trim();
+    if (!q) return;
+
+    let cancelled = false;
+    const timer = setTimeout(async () => {
+      setError('');
+      try {
+        const res = await authFetch(`/api/tasks/search?${new URLSearchParams({ q, limit: '50' })}`);
+
+        if (!res.ok) {
+          throw new Error('Search failed');
+        }
+
+        const data = await res.json();
+        if (!cancelled) {
+          setTasks(data.tasks);
+          setNextCursor(null);
+        }
+      } catch (err) {
+        if (!cancelled) {
+          setError(err instanceof Error ? err.message : 'Search failed');
+        }
+      }
+    }, SEARCH_DEBOUNCE_MS);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [search, searchRefresh]);
+
+  // Apply changes made in other tabs or by collaborators as they happen. The
+  // subscription outlives renders, so events go through a ref to the latest
+  // handler; null means events were missed.
+  const taskEventHandler = useRef<(event: TaskEvent | null) => void>(() => {});
+  useEffect(() => {
+    taskEventHandler.current = handleTaskEvent;
+  });
+  useEffect(() => {
+    if (!user) return;
+    return subscribeToTaskEvents({
+      onEvent: (event) => taskEventHandler.current(event),
+      onReset: () => taskEventHandler.current(null),
+    });
+  }, [user]);
 
+  const fetchTasks = async (query: TaskFilters) => {
     setTasksLoading(true);
     setError('');
 
     try {
-      const res = await fetch('/api/tasks', {
+      const res = await authFetch(taskListUrl(query));
+
+      if (!res.ok) {
+        throw new Error('Failed to fetch tasks');
+      }
+
+      const data = await res.json();
+      setTasks(data.tasks);
+      setNextCursor(data.nextCursor);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load tasks');
+    } finally {
+      setTasksLoading(false);
+    }
+  };
+
+  const fetchProjects = async () => {
+    try {
+      const res = await authFetch('/api/projects');
+
+      if (!res.ok) {
+        throw new Error('Failed to fetch projects');
+      }
+
+      const data = await res.json();
+      setProjects(data.projects);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load projects');
+    }
+  };
+
+  const fetchLabels = async (projectId: string) => {
+    try {
+      const res = await authFetch(`/api/labels${projectId ? `?projectId=${projectId}` : ''}`);
+
+      if (!res.ok) {
+        throw new Error('Failed to fetch labels');
+      }
+
+      const data = await res.json();
+      setLabels(data.labels);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load labels');
+    }
+  };
+
+  const fetchMembers = async (projectId: string) => {
+    try {
+      const res = await authFetch(`/api/projects/${projectId}/members`);
+
+      if (!res.ok) {
+        throw new Error('Failed to fetch project members');
+      }
+
+      const data = await res.json();
+      setMembers(data.members);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load project members');
+    }
+  };
+
+  const fetchComments = async (taskId: string) => {
+    setCommentsLoading(true);
+
+    try {
+      const res = await authFetch(`/api/tasks/${taskId}/comments`);
+
+      if (!res.ok) {
+        throw new Error('Failed to fetch comments');
+      }
+
+      const data = await res.json();
+      setComments(data.comments);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load comments');
+    } finally {
+      setCommentsLoading(false);
+    }
+  };
+
+  const fetchChecklist = async (taskId: string) => {
+    try {
+      const res = await authFetch(`/api/tasks/${taskId}/checklist`);
+
+      if (!res.ok) {
+        throw new Error('Failed to fetch checklist');
+      }
+
+      const data = await res.json();
+      setChecklist(data.items);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load checklist');
+    }
+  };
+
+  const handleToggleDetails = async (taskId: string) => {
+    setNewComment('');
+    setEditingComment(null);
+    setComments([]);
+    setChecklist([]);
+    setNewChecklistItem('');
+    setNewSubtask('');
+    setNewLabel(emptyLabel);
+
+    if (expandedTaskId === taskId) {
+      setExpandedTaskId(null);
+      return;
+    }
+
+    setExpandedTaskId(taskId);
+    await Promise.all([fetchComments(taskId), fetchChecklist(taskId)]);
+  };
+
+  const handleAddChecklistItem = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!expandedTaskId || !newChecklistItem.trim()) return;
+
+    try {
+      const res = await authFetch(`/api/tasks/${expandedTaskId}/checklist`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ title: newChecklistItem }),
+      });
+
+      const data = await res.json();
+      if (!res.ok) {
+        throw new Error(data.error || 'Failed to add checklist item');
+      }
+
+      setChecklist((current) => [...current, data.item]);
+      setNewChecklistItem('');
+      await refreshTasks();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to add checklist item');
+    }
+  };
+
+  const handleToggleChecklistItem = async (item: ChecklistItem) => {
+    if (!expandedTaskId) return;
+
+    try {
+      const res = await authFetch(`/api/tasks/${expandedTaskId}/checklist/${item.id}`, {
+        method: 'PATCH',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ done: !item.done }),
+      });
+
+      const data = await res.json();
+      if (!res.ok) {
+        throw new Error(data.error || 'Failed to update checklist item');
+      }
+
+      setChecklist((current) => current.map((i) => (i.id === item.id ? data.item : i)));
+      await refreshTasks();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to update checklist item');
+    }
+  };
+
+  const handleDeleteChecklistItem = async (itemId: string) => {
+    if (!expandedTaskId) return;
+
+    try {
+      const res = await authFetch(`/api/tasks/${expandedTaskId}/checklist/${itemId}`, {
+        method: 'DELETE',
+      });
+
+      if (!res.ok) {
+        throw new Error('Failed to delete checklist item');
+      }
+
+      setChecklist((current) => current.filter((i) => i.id !== itemId));
+      await refreshTasks();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to delete checklist item');
+    }
+  };
+
+  const handleAddSubtask = async (e: React.FormEvent, parent: Task) => {
+    e.preventDefault();
+    if (!newSubtask.trim()) return;
+
+    try {
+      // Subtasks are created in their parent's project or personal list
+      const res = await authFetch(tasksUrl(parent.projectId ?? ''), {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ title: newSubtask, parentId: parent.id }),
+      });
+
+      if (!res.ok) {
+        const data = await res.json();
+        throw new Error(data.error || 'Failed to add subtask');
+      }
+
+      setNewSubtask('');
+      await refreshTasks();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to add subtask');
+    }
+  };
+
+  const handleAddComment = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!expandedTaskId || !newComment.trim()) return;
+
+    try {
+      const res = await authFetch(`/api/tasks/${expandedTaskId}/comments`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ body: newComment }),
+      });
+
+      const data = await res.json();
+      if (!res.ok) {
+        throw new Error(data.error || 'Failed to add comment');
+      }
+
+      setComments((current) => [...current, data.comment]);
+      setNewComment('');
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to add comment');
+    }
+  };
+
+  const handleSaveComment = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!expandedTaskId || !editingComment) return;
+
+    try {
+      const res = await authFetch(`/api/tasks/${expandedTaskId}/comments/${editingComment.id}`, {
+        method: 'PATCH',
         headers: {
-          Authorization: `Bearer ${authToken}`,
+          'Content-Type': 'application/json',
         },
+        body: JSON.stringify({ body: editingComment.body }),
+      });
+
+      const data = await res.json();
+      if (!res.ok) {
+        throw new Error(data.error || 'Failed to update comment');
+      }
+
+      setComments((current) => current.map((c) => (c.id === data.comment.id ? data.comment : c)));
+      setEditingComment(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to update comment');
+    }
+  };
+
+  const handleDeleteComment = async (commentId: string) => {
+    if (!expandedTaskId || !confirm('Delete this comment?')) return;
+
+    try {
+      const res = await authFetch(`/api/tasks/${expandedTaskId}/comments/${commentId}`, {
+        method: 'DELETE',
       });
 
+      if (!res.ok) {
+        throw new Error('Failed to delete comment');
+      }
+
+      setComments((current) => current.filter((c) => c.id !== commentId));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to delete comment');
+    }
+  };
+
+  const handleLoadMore = async () => {
+    if (!nextCursor) return;
+    setLoadingMore(true);
+
+    try {
+      const res = await authFetch(taskListUrl(filters, nextCursor));
+
       if (!res.ok) {
         throw new Error('Failed to fetch tasks');
       }
 
       const data = await res.json();
-      setTasks(data.tasks);
+      setTasks((current) => [...current, ...data.tasks]);
+      setNextCursor(data.nextCursor);
     } catch (err) {
       setError(err instanceof Error ? err.message : 'Failed to load tasks');
     } finally {
-      setTasksLoading(false);
+      setLoadingMore(false);
     }
   };
 
   const handleCreateTask = async (e: React.FormEvent) => {
     e.preventDefault();
-    const token = getToken();
-    if (!token) return;
 
     if (!newTask.title.trim()) {
       setError('Task title is required');
@@ -105,15 +606,19 @@ export default function DashboardPage() {
     setError('');
 
     try {
-      const res = await fetch('/api/tasks', {
+      const res = await authFetch(tasksUrl(filters.projectId), {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
-          Authorization: `Bearer ${token}`,
         },
         body: JSON.stringify({
           title: newTask.title,
           description: newTask.description || null,
+          priority: newTask.priority,
+          // The date input has no time, so the task is due at the end of that day
+          dueDate: newTask.dueDate ? new Date(`${newTask.dueDate}T23:59:59`).toISOString() : null,
+          // Recurring tasks repeat from their due date
+          ...(newTask.recurrence && newTask.dueDate && { recurrence: newTask.recurrence }),
         }),
       });
 
@@ -122,9 +627,9 @@ export default function DashboardPage() {
         throw new Error(data.error || 'Failed to create task');
       }
 
-      setNewTask({ title: '', description: '' });
+      setNewTask(emptyTask);
       setShowCreateForm(false);
-      await fetchTasks();
+      await refreshTasks();
     } catch (err) {
       setError(err instanceof Error ? err.message : 'Failed to create task');
     } finally {
@@ -133,55 +638,323 @@ export default function DashboardPage() {
   };
 
   const handleDeleteTask = async (taskId: string) => {
-    const token = getToken();
-    if (!token) return;
-
     if (!confirm('Are you sure you want to delete this task?')) return;
 
     try {
-      const res = await fetch(`/api/tasks/${taskId}`, {
+      let res = await authFetch(`/api/tasks/${taskId}`, {
         method: 'DELETE',
-        headers: {
-          Authorization: `Bearer ${token}`,
-        },
       });
 
+      // Tasks with subtasks need a second confirmation
+      if (res.status === 409) {
+        const data = await res.json();
+        if (!confirm(`${data.error}. Delete the subtasks too?`)) return;
+        res = await authFetch(`/api/tasks/${taskId}?cascade=true`, {
+          method: 'DELETE',
+        });
+      }
+
       if (!res.ok) {
-        throw new Error('Failed to delete task');
+        const data = await res.json();
+        throw new Error(data.error || 'Failed to delete task');
       }
 
-      await fetchTasks();
+      await refreshTasks();
+      if (trash) {
+        await fetchTrash();
+      }
     } catch (err) {
       setError(err instanceof Error ? err.message : 'Failed to delete task');
     }
   };
 
-  const handleUpdateStatus = async (taskId: string, newStatus: Task['status']) => {
-    const token = getToken();
-    if (!token) return;
+  const fetchTrash = async () => {
+    try {
+      const res = await authFetch('/api/tasks/trash?limit=50');
+
+      if (!res.ok) {
+        throw new Error('Failed to fetch deleted tasks');
+      }
+
+      const data = await res.json();
+      setTrash(data.tasks);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load deleted tasks');
+    }
+  };
+
+  const handleToggleTrash = async () => {
+    if (trash) {
+      setTrash(null);
+    } else {
+      await fetchTrash();
+    }
+  };
+
+  const handleRestoreTask = async (taskId: string) => {
+    try {
+      const res = await authFetch(`/api/tasks/${taskId}/restore`, {
+        method: 'POST',
+      });
+
+      if (!res.ok) {
+        const data = await res.json();
+        throw new Error(data.error || 'Failed to restore task');
+      }
 
+      await Promise.all([fetchTrash(), refreshTasks()]);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to restore task');
+    }
+  };
+
+  const handleTransition = async (taskId: string, stateId: string, force = false) => {
     try {
-      const res = await fetch(`/api/tasks/${taskId}`, {
+      const res = await authFetch(`/api/tasks/${taskId}`, {
         method: 'PATCH',
         headers: {
           'Content-Type': 'application/json',
-          Authorization: `Bearer ${token}`,
         },
-        body: JSON.stringify({ status: newStatus }),
+        body: JSON.stringify({ stateId, ...(force && { force }) }),
       });
 
       if (!res.ok) {
-        throw new Error('Failed to update task');
+        const data = await res.json();
+        // Completing a blocked task needs confirmation
+        if (res.status === 409 && data.blockers && !force) {
+          const titles = data.blockers.map((blocker: { title: string }) => blocker.title).join(', ');
+          if (confirm(`This task is blocked by: ${titles}. Complete it anyway?`)) {
+            await handleTransition(taskId, stateId, true);
+          }
+          return;
+        }
+        throw new Error(data.error || 'Failed to update task');
       }
 
-      await fetchTasks();
+      await refreshTasks();
     } catch (err) {
       setError(err instanceof Error ? err.message : 'Failed to update task');
     }
   };
 
-  const handleLogout = () => {
-    removeToken();
+  const refreshTasks = async () => {
+    if (search.trim()) {
+      setSearchRefresh((n) => n + 1);
+    } else {
+      await fetchTasks(filters);
+    }
+  };
+
+  // Replace a listed task with its current version, or drop it once it is
+  // gone or no longer visible
+  const refreshTask = async (taskId: string) => {
+    try {
+      const res = await authFetch(`/api/tasks/${taskId}`);
+
+      if (res.status === 403 || res.status === 404) {
+        setTasks((prev) => prev.filter((task) => task.id !== taskId));
+        return;
+      }
+      if (!res.ok) {
+        throw new Error('Failed to fetch task');
+      }
+
+      const data = await res.json();
+      setTasks((prev) => prev.map((task) => (task.id === taskId ? { ...task, ...data.task } : task)));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load task');
+    }
+  };
+
+  const handleTaskEvent = async (event: TaskEvent | null) => {
+    if (!event) {
+      await refreshTasks();
+      return;
+    }
+
+    const { id, userId, projectId, parentId, assigneeId } = event.task;
+    const listed = (taskId: string | null) => tasks.some((task) => task.id === taskId);
+
+    if (event.type === 'task.created') {
+      // Refetch the list when the task belongs in it
+      const inView = filters.assigned
+        ? assigneeId === user?.id
+        : projectId
+          ? projectId === filters.projectId
+          : !filters.projectId && userId === user?.id;
+      if (inView || search.trim()) await refreshTasks();
+    } else if (event.type === 'task.deleted') {
+      setTasks((prev) => prev.filter((task) => task.id !== id));
+    } else if (listed(id)) {
+      await refreshTask(id);
+    }
+
+    // Parents show the progress of their subtasks
+    if (parentId && listed(parentId)) {
+      await refreshTask(parentId);
+    }
+  };
+
+  const handleChangeFilters = async (changes: Partial<TaskFilters>) => {
+    // Labels belong to one list, so switching lists drops the label filter
+    const switchingList = changes.projectId !== undefined && changes.projectId !== filters.projectId;
+    const updated = { ...filters, ...(switchingList && { labelIds: [] }), ...changes };
+    setFilters(updated);
+    setSearch('');
+    setMembers([]);
+    await Promise.all([
+      fetchTasks(updated),
+      updated.projectId ? fetchMembers(updated.projectId) : null,
+      switchingList ? fetchLabels(updated.projectId) : null,
+    ]);
+  };
+
+  const handleToggleLabelFilter = async (labelId: string) => {
+    await handleChangeFilters({
+      labelIds: filters.labelIds.includes(labelId)
+        ? filters.labelIds.filter((id) => id !== labelId)
+        : [...filters.labelIds, labelId],
+    });
+  };
+
+  const handleToggleTaskLabel = async (task: Task, labelId: string) => {
+    const labelIds = task.labels.some((label) => label.id === labelId)
+      ? task.labels.filter((label) => label.id !== labelId).map((label) => label.id)
+      : [...task.labels.map((label) => label.id), labelId];
+
+    try {
+      const res = await authFetch(`/api/tasks/${task.id}`, {
+        method: 'PATCH',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ labelIds }),
+      });
+
+      if (!res.ok) {
+        const data = await res.json();
+        throw new Error(data.error || 'Failed to update labels');
+      }
+
+      await refreshTasks();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to update labels');
+    }
+  };
+
+  const handleCreateLabel = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!newLabel.name.trim()) return;
+
+    try {
+      const res = await authFetch('/api/labels', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          ...newLabel,
+          ...(filters.projectId && { projectId: filters.projectId }),
+        }),
+      });
+
+      const data = await res.json();
+      if (!res.ok) {
+        throw new Error(data.error || 'Failed to create label');
+      }
+
+      setLabels((current) =>
+        [...current, data.label].sort((a, b) => a.name.localeCompare(b.name))
+      );
+      setNewLabel(emptyLabel);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to create label');
+    }
+  };
+
+  const handleAssign = async (taskId: string, assigneeId: string) => {
+    try {
+      const res = await authFetch(`/api/tasks/${taskId}`, {
+        method: 'PATCH',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ assigneeId: assigneeId || null }),
+      });
+
+      if (!res.ok) {
+        const data = await res.json();
+        throw new Error(data.error || 'Failed to assign task');
+      }
+
+      await refreshTasks();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to assign task');
+    }
+  };
+
+  const handleCreateProject = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError('');
+
+    try {
+      const res = await authFetch('/api/projects', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ name: newProjectName }),
+      });
+
+      const data = await res.json();
+      if (!res.ok) {
+        throw new Error(data.error || 'Failed to create project');
+      }
+
+      setNewProjectName('');
+      setProjectForm(null);
+      setProjects((current) => [...current, data.project]);
+      await handleChangeFilters({ projectId: data.project.id, assigned: false });
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to create project');
+    }
+  };
+
+  const handleShareProject = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError('');
+
+    try {
+      const res = await authFetch(`/api/projects/${filters.projectId}/members`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify(share),
+      });
+
+      if (!res.ok) {
+        const data = await res.json();
+        throw new Error(data.error || 'Failed to add member');
+      }
+
+      setShare({ email: '', role: 'EDITOR' });
+      setProjectForm(null);
+      await fetchMembers(filters.projectId);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to add member');
+    }
+  };
+
+  const handleSearchChange = async (value: string) => {
+    setSearch(value);
+    if (search.trim() && !value.trim()) {
+      await fetchTasks(filters);
+    }
+  };
+
+  const handleLogout = async () => {
+    await logout();
     router.push('/');
   };
 
@@ -193,6 +966,18 @@ export default function DashboardPage() {
     );
   }
 
+  const currentProject = projects.find((p) => p.id === filters.projectId);
+
+  // Viewers can only read project tasks; personal tasks are always editable
+  const canEdit = (projectId: string | null) => {
+    if (!projectId) return true;
+    const role = projects.find((p) => p.id === projectId)?.role;
+    return role === 'OWNER' || role === 'EDITOR';
+  };
+
+  // Assignees may always work on their tasks
+  const canEditTask = (task: Task) => task.assigneeId === user?.id || canEdit(task.projectId);
+
   const getStatusColor = (status: Task['status']) => {
     switch (status) {
       case 'OPEN':
@@ -204,6 +989,19 @@ export default function DashboardPage() {
     }
   };
 
+  const getPriorityColor = (priority: Task['priority']) => {
+    switch (priority) {
+      case 'LOW':
+        return 'bg-zinc-100 text-zinc-700 dark:bg-zinc-800 dark:text-zinc-300';
+      case 'MEDIUM':
+        return 'bg-blue-100 text-blue-800 dark:bg-blue-900/30 dark:text-blue-400';
+      case 'HIGH':
+        return 'bg-orange-100 text-orange-800 dark:bg-orange-900/30 dark:text-orange-400';
+      case 'URGENT':
+        return 'bg-red-100 text-red-800 dark:bg-red-900/30 dark:text-red-400';
+    }
+  };
+
   const getStatusLabel = (status: Task['status']) => {
     switch (status) {
       case 'OPEN':
@@ -224,25 +1022,159 @@ export default function DashboardPage() {
               <h1 className="text-xl font-bold text-zinc-900 dark:text-white">Dashboard</h1>
               <p className="text-sm text-zinc-600 dark:text-zinc-400">Welcome, {user?.name || user?.email}</p>
             </div>
-            <button
-              onClick={handleLogout}
-              className="px-4 py-2 bg-red-600 hover:bg-red-700 text-white rounded-lg transition-colors text-sm font-medium"
-            >
-              Logout
-            </button>
+            <div className="flex items-center gap-4">
+              <NotificationBell />
+              <button
+                onClick={handleLogout}
+                className="px-4 py-2 bg-red-600 hover:bg-red-700 text-white rounded-lg transition-colors text-sm font-medium"
+              >
+                Logout
+              </button>
+            </div>
           </div>
         </div>
       </nav>
 
       <main className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
-        <div className="flex justify-between items-center mb-6">
-          <h2 className="text-2xl font-bold text-zinc-900 dark:text-white">My Tasks</h2>
+        <div className="flex flex-wrap items-center gap-3 mb-6">
+          <select
+            aria-label="Project"
+            value={filters.assigned ? 'assigned' : filters.projectId}
+            onChange={(e) =>
+              handleChangeFilters(
+                e.target.value === 'assigned'
+                  ? { projectId: '', assigned: true }
+                  : { projectId: e.target.value, assigned: false }
+              )
+            }
+            className="px-3 py-2 rounded-lg border border-zinc-300 dark:border-zinc-600 bg-white dark:bg-zinc-800 text-zinc-900 dark:text-white outline-none text-sm"
+          >
+            <option value="">Personal tasks</option>
+            <option value="assigned">Assigned to me</option>
+            {projects.map((project) => (
+              <option key={project.id} value={project.id}>
+                {project.name}
+              </option>
+            ))}
+          </select>
+          {currentProject && (
+            <span className="inline-flex px-2 py-1 text-xs font-semibold rounded-full bg-zinc-100 text-zinc-700 dark:bg-zinc-800 dark:text-zinc-300">
+              {currentProject.role}
+            </span>
+          )}
           <button
-            onClick={() => setShowCreateForm(!showCreateForm)}
-            className="px-4 py-2 bg-blue-600 hover:bg-blue-700 text-white rounded-lg transition-colors text-sm font-medium"
+            onClick={() => setProjectForm(projectForm === 'create' ? null : 'create')}
+            className="text-blue-600 dark:text-blue-400 hover:underline text-sm font-medium"
           >
-            {showCreateForm ? 'Cancel' : '+ New Task'}
+            + New Project
           </button>
+          <button
+            onClick={handleToggleTrash}
+            className="text-blue-600 dark:text-blue-400 hover:underline text-sm font-medium"
+          >
+            {trash ? 'Hide Trash' : 'Trash'}
+          </button>
+          {currentProject?.role === 'OWNER' && (
+            <button
+              onClick={() => setProjectForm(projectForm === 'share' ? null : 'share')}
+              className="text-blue-600 dark:text-blue-400 hover:underline text-sm font-medium"
+            >
+              Share
+            </button>
+          )}
+        </div>
+
+        {projectForm === 'create' && (
+          <form onSubmit={handleCreateProject} className="mb-6 flex gap-3">
+            <input
+              type="text"
+              value={newProjectName}
+              onChange={(e) => setNewProjectName(e.target.value)}
+              required
+              placeholder="Project name"
+              className="flex-1 px-4 py-2 rounded-lg border border-zinc-300 dark:border-zinc-600 bg-white dark:bg-zinc-800 text-zinc-900 dark:text-white focus:ring-2 focus:ring-blue-500 focus:border-transparent outline-none transition"
+            />
+            <button
+              type="submit"
+              className="px-4 py-2 bg-blue-600 hover:bg-blue-700 text-white rounded-lg transition-colors text-sm font-medium"
+            >
+              Create Project
+            </button>
+          </form>
+        )}
+
+        {projectForm === 'share' && (
+          <form onSubmit={handleShareProject} className="mb-6 flex gap-3">
+            <input
+              type="email"
+              value={share.email}
+              onChange={(e) => setShare({ ...share, email: e.target.value })}
+              required
+              placeholder="Member email"
+              className="flex-1 px-4 py-2 rounded-lg border border-zinc-300 dark:border-zinc-600 bg-white dark:bg-zinc-800 text-zinc-900 dark:text-white focus:ring-2 focus:ring-blue-500 focus:border-transparent outline-none transition"
+            />
+            <select
+              value={share.role}
+              onChange={(e) => setShare({ ...share, role: e.target.value as Project['role'] })}
+              className="px-3 py-2 rounded-lg border border-zinc-300 dark:border-zinc-600 bg-white dark:bg-zinc-800 text-zinc-900 dark:text-white outline-none text-sm"
+            >
+              <option value="VIEWER">Viewer</option>
+              <option value="EDITOR">Editor</option>
+              <option value="OWNER">Owner</option>
+            </select>
+            <button
+              type="submit"
+              className="px-4 py-2 bg-blue-600 hover:bg-blue-700 text-white rounded-lg transition-colors text-sm font-medium"
+            >
+              Add Member
+            </button>
+          </form>
+        )}
+
+        {trash && (
+          <div className="mb-6 bg-white dark:bg-zinc-900 rounded-lg shadow p-4 border border-zinc-200 dark:border-zinc-800">
+            <h3 className="text-sm font-semibold text-zinc-900 dark:text-white mb-3">Trash</h3>
+            {trash.length === 0 ? (
+              <p className="text-sm text-zinc-600 dark:text-zinc-400">The trash is empty</p>
+            ) : (
+              <ul className="divide-y divide-zinc-200 dark:divide-zinc-800">
+                {trash.map((task) => (
+                  <li key={task.id} className="py-2 flex items-center justify-between gap-3 text-sm">
+                    <div>
+                      <p className="text-zinc-900 dark:text-white">{task.title}</p>
+                      <p className="text-xs text-zinc-500 dark:text-zinc-400">
+                        {task.projectId
+                          ? projects.find((project) => project.id === task.projectId)?.name ?? 'Project'
+                          : 'Personal'}
+                        {' · '}deleted {new Date(task.deletedAt).toLocaleDateString()}, purged{' '}
+                        {new Date(task.purgeAt).toLocaleDateString()}
+                      </p>
+                    </div>
+                    <button
+                      onClick={() => handleRestoreTask(task.id)}
+                      className="text-blue-600 dark:text-blue-400 hover:underline font-medium"
+                    >
+                      Restore
+                    </button>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+        )}
+
+        <div className="flex justify-between items-center mb-6">
+          <h2 className="text-2xl font-bold text-zinc-900 dark:text-white">
+            {currentProject ? currentProject.name : filters.assigned ? 'Assigned to Me' : 'My Tasks'}
+          </h2>
+          {!filters.assigned && canEdit(filters.projectId) && (
+            <button
+              onClick={() => setShowCreateForm(!showCreateForm)}
+              className="px-4 py-2 bg-blue-600 hover:bg-blue-700 text-white rounded-lg transition-colors text-sm font-medium"
+            >
+              {showCreateForm ? 'Cancel' : '+ New Task'}
+            </button>
+          )}
         </div>
 
         {error && (
@@ -282,6 +1214,55 @@ export default function DashboardPage() {
                   placeholder="Enter task description (optional)"
                 />
               </div>
+              <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                <div>
+                  <label htmlFor="priority" className="block text-sm font-medium text-zinc-700 dark:text-zinc-300 mb-2">
+                    Priority
+                  </label>
+                  <select
+                    id="priority"
+                    value={newTask.priority}
+                    onChange={(e) => setNewTask({ ...newTask, priority: e.target.value as Task['priority'] })}
+                    className="w-full px-4 py-2 rounded-lg border border-zinc-300 dark:border-zinc-600 bg-white dark:bg-zinc-800 text-zinc-900 dark:text-white focus:ring-2 focus:ring-blue-500 focus:border-transparent outline-none transition"
+                  >
+                    <option value="LOW">Low</option>
+                    <option value="MEDIUM">Medium</option>
+                    <option value="HIGH">High</option>
+                    <option value="URGENT">Urgent</option>
+                  </select>
+                </div>
+                <div>
+                  <label htmlFor="dueDate" className="block text-sm font-medium text-zinc-700 dark:text-zinc-300 mb-2">
+                    Due Date
+                  </label>
+                  <input
+                    id="dueDate"
+                    type="date"
+                    value={newTask.dueDate}
+                    onChange={(e) => setNewTask({ ...newTask, dueDate: e.target.value })}
+                    className="w-full px-4 py-2 rounded-lg border border-zinc-300 dark:border-zinc-600 bg-white dark:bg-zinc-800 text-zinc-900 dark:text-white focus:ring-2 focus:ring-blue-500 focus:border-transparent outline-none transition"
+                  />
+                </div>
+                <div>
+                  <label htmlFor="recurrence" className="block text-sm font-medium text-zinc-700 dark:text-zinc-300 mb-2">
+                    Repeat
+                  </label>
+                  <select
+                    id="recurrence"
+                    value={newTask.recurrence}
+                    onChange={(e) => setNewTask({ ...newTask, recurrence: e.target.value })}
+                    disabled={!newTask.dueDate}
+                    title={newTask.dueDate ? undefined : 'Set a due date to repeat the task'}
+                    className="w-full px-4 py-2 rounded-lg border border-zinc-300 dark:border-zinc-600 bg-white dark:bg-zinc-800 text-zinc-900 dark:text-white focus:ring-2 focus:ring-blue-500 focus:border-transparent outline-none transition disabled:opacity-50"
+                  >
+                    {RECURRENCE_OPTIONS.map(([rule, label]) => (
+                      <option key={label} value={rule}>
+                        {label}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+              </div>
               <div className="flex gap-3">
                 <button
                   type="submit"
@@ -294,7 +1275,7 @@ export default function DashboardPage() {
                   type="button"
                   onClick={() => {
                     setShowCreateForm(false);
-                    setNewTask({ title: '', description: '' });
+                    setNewTask(emptyTask);
                     setError('');
                   }}
                   className="px-6 py-2 bg-zinc-200 hover:bg-zinc-300 dark:bg-zinc-700 dark:hover:bg-zinc-600 text-zinc-900 dark:text-white rounded-lg transition-colors text-sm font-medium"
@@ -306,19 +1287,126 @@ export default function DashboardPage() {
           </div>
         )}
 
+        <input
+          type="search"
+          value={search}
+          onChange={(e) => handleSearchChange(e.target.value)}
+          placeholder='Search tasks, e.g. invoice -draft or "release notes"'
+          className="w-full mb-4 px-4 py-2 rounded-lg border border-zinc-300 dark:border-zinc-600 bg-white dark:bg-zinc-800 text-zinc-900 dark:text-white focus:ring-2 focus:ring-blue-500 focus:border-transparent outline-none transition"
+        />
+
+        <div className="flex flex-wrap justify-between items-center gap-3 mb-4">
+          <div className="flex gap-2">
+            {([
+              ['all', 'All'],
+              ['overdue', 'Overdue'],
+              ['soon', 'Due Soon'],
+            ] as const).map(([view, label]) => (
+              <button
+                key={view}
+                onClick={() => handleChangeFilters({ view })}
+                className={`px-3 py-1 rounded-lg text-sm font-medium transition-colors ${
+                  filters.view === view && !search.trim()
+                    ? 'bg-blue-600 text-white'
+                    : 'bg-white dark:bg-zinc-900 text-zinc-700 dark:text-zinc-300 hover:bg-zinc-100 dark:hover:bg-zinc-800'
+                }`}
+              >
+                {label}
+              </button>
+            ))}
+          </div>
+          <div className="flex gap-4">
+            <label className="flex items-center gap-2 text-sm text-zinc-600 dark:text-zinc-400">
+              Status
+              <select
+                value={filters.status}
+                onChange={(e) => handleChangeFilters({ status: e.target.value as TaskFilters['status'] })}
+                className="px-3 py-1 rounded-lg border border-zinc-300 dark:border-zinc-600 bg-white dark:bg-zinc-800 text-zinc-900 dark:text-white outline-none"
+              >
+                <option value="">All</option>
+                <option value="OPEN">Open</option>
+                <option value="IN_PROGRESS">In Progress</option>
+                <option value="DONE">Done</option>
+              </select>
+            </label>
+            <label className="flex items-center gap-2 text-sm text-zinc-600 dark:text-zinc-400">
+              Sort by
+              <select
+                value={filters.sort}
+                onChange={(e) => handleChangeFilters({ sort: e.target.value as SortKey })}
+                className="px-3 py-1 rounded-lg border border-zinc-300 dark:border-zinc-600 bg-white dark:bg-zinc-800 text-zinc-900 dark:text-white outline-none"
+              >
+                <option value="createdAt">Newest</option>
+                <option value="updatedAt">Recently updated</option>
+                <option value="dueDate">Due date</option>
+                <option value="priority">Priority</option>
+                <option value="title">Title</option>
+              </select>
+            </label>
+          </div>
+        </div>
+
+        {labels.length > 0 && (
+          <div className="flex flex-wrap items-center gap-2 mb-4">
+            <span className="text-sm text-zinc-600 dark:text-zinc-400">Labels</span>
+            {labels.map((label) => (
+              <button
+                key={label.id}
+                onClick={() => handleToggleLabelFilter(label.id)}
+                aria-pressed={filters.labelIds.includes(label.id)}
+                className={`inline-flex items-center gap-1 px-2 py-0.5 rounded-full text-xs font-medium border transition-colors ${
+                  filters.labelIds.includes(label.id)
+                    ? 'border-blue-600 bg-blue-50 dark:bg-blue-900/30 text-blue-700 dark:text-blue-300'
+                    : 'border-zinc-300 dark:border-zinc-600 text-zinc-700 dark:text-zinc-300 hover:bg-zinc-100 dark:hover:bg-zinc-800'
+                }`}
+              >
+                <span className="h-2 w-2 rounded-full" style={{ backgroundColor: label.color }} />
+                {label.name}
+              </button>
+            ))}
+            {filters.labelIds.length > 1 && (
+              <select
+                aria-label="Label match"
+                value={filters.labelMatch}
+                onChange={(e) => handleChangeFilters({ labelMatch: e.target.value as TaskFilters['labelMatch'] })}
+                className="px-2 py-0.5 rounded-lg border border-zinc-300 dark:border-zinc-600 bg-white dark:bg-zinc-800 text-zinc-900 dark:text-white outline-none text-xs"
+              >
+                <option value="any">Any label</option>
+                <option value="all">All labels</option>
+              </select>
+            )}
+          </div>
+        )}
+
         {tasksLoading ? (
           <div className="text-center py-12 text-zinc-600 dark:text-zinc-400">
             Loading tasks...
           </div>
         ) : tasks.length === 0 ? (
           <div className="bg-white dark:bg-zinc-900 rounded-lg shadow p-12 text-center">
-            <p className="text-zinc-600 dark:text-zinc-400 mb-4">No tasks yet</p>
-            <button
-              onClick={() => setShowCreateForm(true)}
-              className="text-blue-600 dark:text-blue-400 hover:underline text-sm font-medium"
-            >
-              Create your first task
-            </button>
+            {search.trim() ? (
+              <p className="text-zinc-600 dark:text-zinc-400">No tasks match your search</p>
+            ) : filters.assigned && filters.view === 'all' && !filters.status ? (
+              <p className="text-zinc-600 dark:text-zinc-400">No tasks are assigned to you</p>
+            ) : filters.view === 'all' && !filters.status ? (
+              <>
+                <p className="text-zinc-600 dark:text-zinc-400 mb-4">No tasks yet</p>
+                <button
+                  onClick={() => setShowCreateForm(true)}
+                  className="text-blue-600 dark:text-blue-400 hover:underline text-sm font-medium"
+                >
+                  Create your first task
+                </button>
+              </>
+            ) : (
+              <p className="text-zinc-600 dark:text-zinc-400">
+                {filters.view === 'overdue'
+                  ? 'No overdue tasks'
+                  : filters.view === 'soon'
+                    ? 'Nothing due in the next 48 hours'
+                    : 'No tasks match these filters'}
+              </p>
+            )}
           </div>
         ) : (
           <div className="bg-white dark:bg-zinc-900 rounded-lg shadow overflow-hidden">
@@ -332,6 +1420,15 @@ export default function DashboardPage() {
                     <th className="px-6 py-3 text-left text-xs font-medium text-zinc-500 dark:text-zinc-400 uppercase tracking-wider">
                       Status
                     </th>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-zinc-500 dark:text-zinc-400 uppercase tracking-wider">
+                      Priority
+                    </th>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-zinc-500 dark:text-zinc-400 uppercase tracking-wider">
+                      Due
+                    </th>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-zinc-500 dark:text-zinc-400 uppercase tracking-wider">
+                      Assignee
+                    </th>
                     <th className="px-6 py-3 text-left text-xs font-medium text-zinc-500 dark:text-zinc-400 uppercase tracking-wider">
                       Created
                     </th>
@@ -341,53 +1438,348 @@ export default function DashboardPage() {
                   </tr>
                 </thead>
                 <tbody className="divide-y divide-zinc-200 dark:divide-zinc-700">
-                  {tasks.map((task) => (
-                    <tr key={task.id} className="hover:bg-zinc-50 dark:hover:bg-zinc-800/50 transition-colors">
-                      <td className="px-6 py-4">
-                        <div className="text-sm font-medium text-zinc-900 dark:text-white">{task.title}</div>
-                        {task.description && (
-                          <div className="text-sm text-zinc-500 dark:text-zinc-400 mt-1">{task.description}</div>
-                        )}
-                      </td>
-                      <td className="px-6 py-4">
-                        <span className={`inline-flex px-2 py-1 text-xs font-semibold rounded-full ${getStatusColor(task.status)}`}>
-                          {getStatusLabel(task.status)}
-                        </span>
-                      </td>
-                      <td className="px-6 py-4 text-sm text-zinc-500 dark:text-zinc-400">
-                        {new Date(task.createdAt).toLocaleDateString()}
-                      </td>
-                      <td className="px-6 py-4 text-right text-sm font-medium">
-                        <div className="flex justify-end gap-2">
-                          {task.status !== 'DONE' && (
-                            <button
-                              onClick={() => handleUpdateStatus(task.id, task.status === 'OPEN' ? 'IN_PROGRESS' : 'DONE')}
-                              className="px-3 py-1 bg-green-600 hover:bg-green-700 text-white rounded text-xs transition-colors"
+                  {nestTasks(tasks).map(({ task, depth }) => (
+                    <Fragment key={task.id}>
+                      <tr
+                        className={`transition-colors ${
+                          isOverdue(task)
+                            ? 'bg-red-50 hover:bg-red-100 dark:bg-red-900/10 dark:hover:bg-red-900/20'
+                            : 'hover:bg-zinc-50 dark:hover:bg-zinc-800/50'
+                        }`}
+                      >
+                        <td className="px-6 py-4" style={{ paddingLeft: `${1.5 + depth * 1.5}rem` }}>
+                          {depth > 0 && <span className="mr-1 text-zinc-400 dark:text-zinc-600">↳</span>}
+                          <button
+                            onClick={() => handleToggleDetails(task.id)}
+                            aria-expanded={expandedTaskId === task.id}
+                            className="text-left text-sm font-medium text-zinc-900 dark:text-white hover:text-blue-600 dark:hover:text-blue-400"
+                          >
+                            {task.search ? renderHighlight(task.search.title) : task.title}
+                          </button>
+                          {task.description && (
+                            <div className="text-sm text-zinc-500 dark:text-zinc-400 mt-1">
+                              {task.search?.description ? renderHighlight(task.search.description) : task.description}
+                            </div>
+                          )}
+                          {task.labels.length > 0 && (
+                            <div className="mt-1 flex flex-wrap gap-1">
+                              {task.labels.map((label) => (
+                                <span
+                                  key={label.id}
+                                  className="px-2 py-0.5 rounded-full text-xs font-medium text-white"
+                                  style={{ backgroundColor: label.color }}
+                                >
+                                  {label.name}
+                                </span>
+                              ))}
+                            </div>
+                          )}
+                          {task.progress.percent !== null && (
+                            <div className="mt-2 flex items-center gap-2" title={`${task.progress.subtasks.done}/${task.progress.subtasks.total} subtasks, ${task.progress.checklist.done}/${task.progress.checklist.total} checklist items`}>
+                              <div className="h-1.5 w-24 rounded-full bg-zinc-200 dark:bg-zinc-700 overflow-hidden">
+                                <div
+                                  className="h-full bg-green-500"
+                                  style={{ width: `${task.progress.percent}%` }}
+                                />
+                              </div>
+                              <span className="text-xs text-zinc-500 dark:text-zinc-400">{task.progress.percent}%</span>
+                            </div>
+                          )}
+                        </td>
+                        <td className="px-6 py-4">
+                          <span className={`inline-flex px-2 py-1 text-xs font-semibold rounded-full ${getStatusColor(task.status)}`}>
+                            {task.state?.name ?? getStatusLabel(task.status)}
+                          </span>
+                          {task.openBlockers > 0 && (
+                            <span
+                              title={`Blocked by ${task.openBlockers} open task(s)`}
+                              className="ml-2 inline-flex px-2 py-1 text-xs font-semibold rounded-full bg-red-100 text-red-800 dark:bg-red-900/30 dark:text-red-400"
                             >
-                              {task.status === 'OPEN' ? 'Start' : 'Complete'}
-                            </button>
+                              Blocked
+                            </span>
                           )}
-                          {task.status === 'DONE' && (
-                            <button
-                              onClick={() => handleUpdateStatus(task.id, 'OPEN')}
-                              className="px-3 py-1 bg-blue-600 hover:bg-blue-700 text-white rounded text-xs transition-colors"
+                          {task.recurrence && (
+                            <span
+                              title={`${task.recurrence}${task.nextOccurrenceAt ? `, next due ${new Date(task.nextOccurrenceAt).toLocaleDateString()}` : ''}`}
+                              className="ml-2 inline-flex px-2 py-1 text-xs font-semibold rounded-full bg-indigo-100 text-indigo-800 dark:bg-indigo-900/30 dark:text-indigo-400"
                             >
-                              Reopen
-                            </button>
+                              Repeats
+                            </span>
                           )}
-                          <button
-                            onClick={() => handleDeleteTask(task.id)}
-                            className="px-3 py-1 bg-red-600 hover:bg-red-700 text-white rounded text-xs transition-colors"
-                          >
-                            Delete
-                          </button>
-                        </div>
-                      </td>
-                    </tr>
+                        </td>
+                        <td className="px-6 py-4">
+                          <span className={`inline-flex px-2 py-1 text-xs font-semibold rounded-full ${getPriorityColor(task.priority)}`}>
+                            {task.priority.charAt(0) + task.priority.slice(1).toLowerCase()}
+                          </span>
+                        </td>
+                        <td className="px-6 py-4 text-sm">
+                          {task.dueDate ? (
+                            <span className={isOverdue(task) ? 'font-semibold text-red-600 dark:text-red-400' : 'text-zinc-500 dark:text-zinc-400'}>
+                              {new Date(task.dueDate).toLocaleDateString()}
+                              {isOverdue(task) && ' (overdue)'}
+                            </span>
+                          ) : (
+                            <span className="text-zinc-400 dark:text-zinc-600">-</span>
+                          )}
+                        </td>
+                        <td className="px-6 py-4 text-sm text-zinc-500 dark:text-zinc-400">
+                          {/* Reassign within the open project; members are known only there */}
+                          {task.projectId && task.projectId === filters.projectId && canEditTask(task) ? (
+                            <select
+                              aria-label="Assignee"
+                              value={task.assigneeId ?? ''}
+                              onChange={(e) => handleAssign(task.id, e.target.value)}
+                              className="px-2 py-1 rounded border border-zinc-300 dark:border-zinc-600 bg-white dark:bg-zinc-800 text-zinc-900 dark:text-white outline-none text-xs"
+                            >
+                              <option value="">Unassigned</option>
+                              {members.map((member) => (
+                                <option key={member.userId} value={member.userId}>
+                                  {member.name || member.email}
+                                </option>
+                              ))}
+                            </select>
+                          ) : task.assignee ? (
+                            task.assignee.name || task.assignee.email
+                          ) : (
+                            '-'
+                          )}
+                        </td>
+                        <td className="px-6 py-4 text-sm text-zinc-500 dark:text-zinc-400">
+                          {new Date(task.createdAt).toLocaleDateString()}
+                        </td>
+                        <td className="px-6 py-4 text-right text-sm font-medium">
+                          {canEditTask(task) && (
+                            <div className="flex justify-end gap-2">
+                              {task.transitions.map((transition) => (
+                                <button
+                                  key={transition.id}
+                                  onClick={() => handleTransition(task.id, transition.toStateId)}
+                                  className="px-3 py-1 bg-green-600 hover:bg-green-700 text-white rounded text-xs transition-colors"
+                                >
+                                  {transition.name}
+                                </button>
+                              ))}
+                              <button
+                                onClick={() => handleDeleteTask(task.id)}
+                                className="px-3 py-1 bg-red-600 hover:bg-red-700 text-white rounded text-xs transition-colors"
+                              >
+                                Delete
+                              </button>
+                            </div>
+                          )}
+                        </td>
+                      </tr>
+                      {expandedTaskId === task.id && (
+                        <tr className="bg-zinc-50 dark:bg-zinc-800/30">
+                          <td colSpan={7} className="px-6 py-4">
+                            {/* Labels are known only for the open list */}
+                            {canEditTask(task) && (task.projectId ?? '') === filters.projectId && (
+                              <>
+                                <h4 className="text-sm font-semibold text-zinc-900 dark:text-white mb-3">Labels</h4>
+                                <div className="flex flex-wrap items-center gap-2 mb-6">
+                                  {labels.map((label) => {
+                                    const applied = task.labels.some((l) => l.id === label.id);
+                                    return (
+                                      <button
+                                        key={label.id}
+                                        onClick={() => handleToggleTaskLabel(task, label.id)}
+                                        aria-pressed={applied}
+                                        className={`px-2 py-0.5 rounded-full text-xs font-medium border ${
+                                          applied ? 'text-white border-transparent' : 'text-zinc-700 dark:text-zinc-300 border-zinc-300 dark:border-zinc-600'
+                                        }`}
+                                        style={applied ? { backgroundColor: label.color } : undefined}
+                                      >
+                                        {label.name}
+                                      </button>
+                                    );
+                                  })}
+                                  <form onSubmit={handleCreateLabel} className="flex gap-2">
+                                    <input
+                                      type="text"
+                                      value={newLabel.name}
+                                      onChange={(e) => setNewLabel({ ...newLabel, name: e.target.value })}
+                                      placeholder="New label"
+                                      maxLength={50}
+                                      className="w-32 px-3 py-1 rounded border border-zinc-300 dark:border-zinc-600 bg-white dark:bg-zinc-800 text-zinc-900 dark:text-white outline-none text-sm"
+                                    />
+                                    <input
+                                      type="color"
+                                      aria-label="Label color"
+                                      value={newLabel.color}
+                                      onChange={(e) => setNewLabel({ ...newLabel, color: e.target.value })}
+                                      className="h-8 w-8 rounded border border-zinc-300 dark:border-zinc-600"
+                                    />
+                                    <button
+                                      type="submit"
+                                      disabled={!newLabel.name.trim()}
+                                      className="px-3 py-1 bg-blue-600 hover:bg-blue-700 disabled:bg-blue-400 text-white rounded text-xs disabled:cursor-not-allowed"
+                                    >
+                                      Create
+                                    </button>
+                                  </form>
+                                </div>
+                              </>
+                            )}
+                            <h4 className="text-sm font-semibold text-zinc-900 dark:text-white mb-3">Checklist</h4>
+                            {checklist.length === 0 ? (
+                              <p className="text-sm text-zinc-500 dark:text-zinc-400 mb-3">No checklist items</p>
+                            ) : (
+                              <ul className="space-y-1 mb-3">
+                                {checklist.map((item) => (
+                                  <li key={item.id} className="flex items-center gap-2 text-sm">
+                                    <input
+                                      type="checkbox"
+                                      checked={item.done}
+                                      disabled={!canEditTask(task)}
+                                      onChange={() => handleToggleChecklistItem(item)}
+                                    />
+                                    <span className={item.done ? 'line-through text-zinc-400 dark:text-zinc-500' : 'text-zinc-700 dark:text-zinc-300'}>
+                                      {item.title}
+                                    </span>
+                                    {canEditTask(task) && (
+                                      <button
+                                        onClick={() => handleDeleteChecklistItem(item.id)}
+                                        className="text-xs text-red-600 dark:text-red-400 hover:underline"
+                                      >
+                                        Remove
+                                      </button>
+                                    )}
+                                  </li>
+                                ))}
+                              </ul>
+                            )}
+                            {canEditTask(task) && (
+                              <div className="flex flex-col md:flex-row gap-3 mb-6">
+                                <form onSubmit={handleAddChecklistItem} className="flex flex-1 gap-2">
+                                  <input
+                                    type="text"
+                                    value={newChecklistItem}
+                                    onChange={(e) => setNewChecklistItem(e.target.value)}
+                                    placeholder="Add a checklist item"
+                                    className="flex-1 px-3 py-1 rounded border border-zinc-300 dark:border-zinc-600 bg-white dark:bg-zinc-800 text-zinc-900 dark:text-white outline-none text-sm"
+                                  />
+                                  <button
+                                    type="submit"
+                                    disabled={!newChecklistItem.trim()}
+                                    className="px-3 py-1 bg-blue-600 hover:bg-blue-700 disabled:bg-blue-400 text-white rounded text-xs disabled:cursor-not-allowed"
+                                  >
+                                    Add
+                                  </button>
+                                </form>
+                                <form onSubmit={(e) => handleAddSubtask(e, task)} className="flex flex-1 gap-2">
+                                  <input
+                                    type="text"
+                                    value={newSubtask}
+                                    onChange={(e) => setNewSubtask(e.target.value)}
+                                    placeholder="Add a subtask"
+                                    className="flex-1 px-3 py-1 rounded border border-zinc-300 dark:border-zinc-600 bg-white dark:bg-zinc-800 text-zinc-900 dark:text-white outline-none text-sm"
+                                  />
+                                  <button
+                                    type="submit"
+                                    disabled={!newSubtask.trim()}
+                                    className="px-3 py-1 bg-blue-600 hover:bg-blue-700 disabled:bg-blue-400 text-white rounded text-xs disabled:cursor-not-allowed"
+                                  >
+                                    Add subtask
+                                  </button>
+                                </form>
+                              </div>
+                            )}
+                            <h4 className="text-sm font-semibold text-zinc-900 dark:text-white mb-3">Comments</h4>
+                            {commentsLoading ? (
+                              <p className="text-sm text-zinc-500 dark:text-zinc-400">Loading comments...</p>
+                            ) : comments.length === 0 ? (
+                              <p className="text-sm text-zinc-500 dark:text-zinc-400">No comments yet</p>
+                            ) : (
+                              <ul className="space-y-3 mb-4">
+                                {comments.map((comment) => (
+                                  <li key={comment.id} className="bg-white dark:bg-zinc-900 rounded-lg p-3 text-sm">
+                                    <div className="flex justify-between items-center mb-1">
+                                      <span className="font-medium text-zinc-900 dark:text-white">
+                                        {comment.author ? comment.author.name || comment.author.email : 'Deleted user'}
+                                        <span className="ml-2 text-xs font-normal text-zinc-500 dark:text-zinc-400">
+                                          {new Date(comment.createdAt).toLocaleString()}
+                                          {comment.updatedAt !== comment.createdAt && ' (edited)'}
+                                        </span>
+                                      </span>
+                                      {comment.authorId === user?.id && editingComment?.id !== comment.id && (
+                                        <span className="flex gap-3 text-xs">
+                                          <button
+                                            onClick={() => setEditingComment({ id: comment.id, body: comment.body })}
+                                            className="text-blue-600 dark:text-blue-400 hover:underline"
+                                          >
+                                            Edit
+                                          </button>
+                                          <button
+                                            onClick={() => handleDeleteComment(comment.id)}
+                                            className="text-red-600 dark:text-red-400 hover:underline"
+                                          >
+                                            Delete
+                                          </button>
+                                        </span>
+                                      )}
+                                    </div>
+                                    {editingComment?.id === comment.id ? (
+                                      <form onSubmit={handleSaveComment} className="flex gap-2">
+                                        <input
+                                          type="text"
+                                          value={editingComment.body}
+                                          onChange={(e) => setEditingComment({ ...editingComment, body: e.target.value })}
+                                          required
+                                          className="flex-1 px-3 py-1 rounded border border-zinc-300 dark:border-zinc-600 bg-white dark:bg-zinc-800 text-zinc-900 dark:text-white outline-none"
+                                        />
+                                        <button type="submit" className="text-blue-600 dark:text-blue-400 hover:underline text-xs">
+                                          Save
+                                        </button>
+                                        <button
+                                          type="button"
+                                          onClick={() => setEditingComment(null)}
+                                          className="text-zinc-600 dark:text-zinc-400 hover:underline text-xs"
+                                        >
+                                          Cancel
+                                        </button>
+                                      </form>
+                                    ) : (
+                                      <p className="text-zinc-700 dark:text-zinc-300 whitespace-pre-wrap">{comment.body}</p>
+                                    )}
+                                  </li>
+                                ))}
+                              </ul>
+                            )}
+                            <form onSubmit={handleAddComment} className="flex gap-3 mt-3">
+                              <input
+                                type="text"
+                                value={newComment}
+                                onChange={(e) => setNewComment(e.target.value)}
+                                placeholder="Add a comment, mention people with @email"
+                                className="flex-1 px-4 py-2 rounded-lg border border-zinc-300 dark:border-zinc-600 bg-white dark:bg-zinc-800 text-zinc-900 dark:text-white focus:ring-2 focus:ring-blue-500 focus:border-transparent outline-none transition text-sm"
+                              />
+                              <button
+                                type="submit"
+                                disabled={!newComment.trim()}
+                                className="px-4 py-2 bg-blue-600 hover:bg-blue-700 disabled:bg-blue-400 text-white rounded-lg transition-colors text-sm font-medium disabled:cursor-not-allowed"
+                              >
+                                Comment
+                              </button>
+                            </form>
+                          </td>
+                        </tr>
+                      )}
+                    </Fragment>
                   ))}
                 </tbody>
               </table>
             </div>
+            {nextCursor && (
+              <div className="px-6 py-4 border-t border-zinc-200 dark:border-zinc-700 text-center">
+                <button
+                  onClick={handleLoadMore}
+                  disabled={loadingMore}
+                  className="text-blue-600 dark:text-blue-400 hover:underline text-sm font-medium disabled:opacity-50"
+                >
+                  {loadingMore ? 'Loading...' : 'Load more'}
+                </button>
+              </div>
+            )}
           </div>
         )}
 
@@ -1,11 +1,13 @@
 'use client';
 
-import { useState } from 'react';
+import { use, useState } from 'react';
 import { useRouter } from 'next/navigation';
 import { setToken } from '@/lib/client-auth';
 
-export default function AuthPage() {
-  const [isLogin, setIsLogin] = useState(true);
+// With ?invite=<token>, from an invitation email, signing up accepts the invitation
+export default function AuthPage({ searchParams }: { searchParams: Promise<{ invite?: string }> }) {
+  const { invite } = use(searchParams);
+  const [isLogin, setIsLogin] = useState(!invite);
   const [email, setEmail] = useState('');
   const [password, setPassword] = useState('');
   const [name, setName] = useState('');
@@ -19,10 +21,12 @@ export default function AuthPage() {
     setLoading(true);
 
     try {
-      const endpoint = isLogin ? '/api/auth/login' : '/api/auth/register';
+      const endpoint = isLogin
+        ? '/api/auth/login'
+        : invite ? '/api/auth/register/invite' : '/api/auth/register';
       const body = isLogin 
         ? { email, password }
-        : { email, password, name };
+        : invite ? { token: invite, email, password, name } : { email, password, name };
 
       const res = await fetch(endpoint, {
         method: 'POST',
@@ -56,7 +60,7 @@ export default function AuthPage() {
             {isLogin ? 'Welcome Back' : 'Create Account'}
           </h1>
           <p className="text-center text-zinc-600 dark:text-zinc-400 mb-8">
-            {isLogin ? 'Sign in to your account' : 'Sign up to get started'}
+            {isLogin ? 'Sign in to your account' : invite ? 'Sign up to accept your invitation' : 'Sign up to get started'}
           </p>
 
           <form onSubmit={handleSubmit} className="space-y-4">
@@ -122,7 +126,15 @@ export default function AuthPage() {
             </button>
           </form>
 
-          <div className="mt-6 text-center">
+          <div className="mt-6 flex flex-col items-center gap-2">
+            {isLogin && (
+              <button
+                onClick={() => router.push('/reset-password')}
+                className="text-zinc-600 dark:text-zinc-400 hover:underline text-sm"
+              >
+                Forgot your password?
+              </button>
+            )}
             <button
               onClick={() => {
                 setIsLogin(!isLogin);
@@ -0,0 +1,231 @@
+'use client';
+
+import { useEffect, useRef, useState } from 'react';
+import { authFetch } from '@/lib/client-auth';
+
+interface Notification {
+  id: string;
+  type: NotificationType;
+  message: string;
+  taskId: string | null;
+  readAt: string | null;
+  createdAt: string;
+}
+
+type NotificationType = 'TASK_ASSIGNED' | 'TASK_DUE_SOON' | 'PASSWORD_RESET' | 'ROLE_CHANGED';
+
+type Channel = 'inApp' | 'email';
+
+type Preferences = Record<NotificationType, Record<Channel, boolean>>;
+
+const TYPE_LABELS: Record<NotificationType, string> = {
+  TASK_ASSIGNED: 'A task is assigned to me',
+  TASK_DUE_SOON: 'A task is due soon',
+  PASSWORD_RESET: 'An admin resets my password',
+  ROLE_CHANGED: 'An admin changes my role',
+};
+
+const POLL_MS = 60 * 1000;
+const PAGE_SIZE = 10;
+
+// Bell with the unread count, opening the latest notifications and the
+// notification preferences. Shared by the dashboard and admin headers.
+export default function NotificationBell() {
+  const [open, setOpen] = useState(false);
+  const [notifications, setNotifications] = useState<Notification[]>([]);
+  const [unreadCount, setUnreadCount] = useState(0);
+  const [preferences, setPreferences] = useState<Preferences | null>(null);
+  const [showPreferences, setShowPreferences] = useState(false);
+  // Bumped to refetch right away, e.g. when the dropdown opens
+  const [refreshKey, setRefreshKey] = useState(0);
+  const containerRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    const fetchNotifications = async () => {
+      try {
+        const res = await authFetch(`/api/notifications?limit=${PAGE_SIZE}`);
+        if (!res.ok) return;
+        const data = await res.json();
+        setNotifications(data.notifications);
+        setUnreadCount(data.unreadCount);
+      } catch (error) {
+        console.error('Error fetching notifications:', error);
+      }
+    };
+
+    fetchNotifications();
+    const interval = setInterval(fetchNotifications, POLL_MS);
+    return () => clearInterval(interval);
+  }, [refreshKey]);
+
+  useEffect(() => {
+    if (!open) return;
+    const handleClick = (e: MouseEvent) => {
+      if (!containerRef.current?.contains(e.target as Node)) setOpen(false);
+    };
+    document.addEventListener('mousedown', handleClick);
+    return () => document.removeEventListener('mousedown', handleClick);
+  }, [open]);
+
+  const handleToggle = () => {
+    if (!open) setRefreshKey((key) => key + 1);
+    setShowPreferences(false);
+    setOpen(!open);
+  };
+
+  const handleMarkRead = async (notification: Notification) => {
+    if (notification.readAt) return;
+    try {
+      const res = await authFetch(`/api/notifications/${notification.id}/read`, { method: 'POST' });
+      if (!res.ok) return;
+      const data = await res.json();
+      setNotifications((current) =>
+        current.map((n) => (n.id === notification.id ? data.notification : n))
+      );
+      setUnreadCount((count) => Math.max(count - 1, 0));
+    } catch (error) {
+      console.error('Error marking notification read:', error);
+    }
+  };
+
+  const handleMarkAllRead = async () => {
+    try {
+      const res = await authFetch('/api/notifications/read-all', { method: 'POST' });
+      if (!res.ok) return;
+      const readAt = new Date().toISOString();
+      setNotifications((current) => current.map((n) => ({ ...n, readAt: n.readAt ?? readAt })));
+      setUnreadCount(0);
+    } catch (error) {
+      console.error('Error marking notifications read:', error);
+    }
+  };
+
+  const handleShowPreferences = async () => {
+    setShowPreferences(true);
+    try {
+      const res = await authFetch('/api/notifications/preferences');
+      if (res.ok) {
+        const data = await res.json();
+        setPreferences(data.preferences);
+      }
+    } catch (error) {
+      console.error('Error fetching notification preferences:', error);
+    }
+  };
+
+  const handleTogglePreference = async (type: NotificationType, channel: Channel, enabled: boolean) => {
+    try {
+      const res = await authFetch('/api/notifications/preferences', {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ [type]: { [channel]: enabled } }),
+      });
+      if (res.ok) {
+        const data = await res.json();
+        setPreferences(data.preferences);
+      }
+    } catch (error) {
+      console.error('Error updating notification preferences:', error);
+    }
+  };
+
+  return (
+    <div ref={containerRef} className="relative">
+      <button
+        onClick={handleToggle}
+        aria-label={`Notifications (${unreadCount} unread)`}
+        className="relative p-2 rounded-lg text-zinc-600 hover:bg-zinc-100 dark:text-zinc-400 dark:hover:bg-zinc-800 transition-colors"
+      >
+        <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 17h5l-1.405-1.405A2.032 2.032 0 0118 14.158V11a6.002 6.002 0 00-4-5.659V5a2 2 0 10-4 0v.341C7.67 6.165 6 8.388 6 11v3.159c0 .538-.214 1.055-.595 1.436L4 17h5m6 0v1a3 3 0 11-6 0v-1m6 0H9" />
+        </svg>
+        {unreadCount > 0 && (
+          <span className="absolute -top-0.5 -right-0.5 min-w-5 h-5 px-1 rounded-full bg-red-600 text-white text-xs font-semibold flex items-center justify-center">
+            {unreadCount > 99 ? '99+' : unreadCount}
+          </span>
+        )}
+      </button>
+
+      {open && (
+        <div className="absolute right-0 mt-2 w-80 z-20 bg-white dark:bg-zinc-900 rounded-lg shadow-lg border border-zinc-200 dark:border-zinc-800">
+          <div className="flex items-center justify-between px-4 py-3 border-b border-zinc-200 dark:border-zinc-800">
+            <h2 className="text-sm font-semibold text-zinc-900 dark:text-white">
+              {showPreferences ? 'Notify me when' : 'Notifications'}
+            </h2>
+            <div className="flex gap-3 text-xs">
+              {!showPreferences && unreadCount > 0 && (
+                <button onClick={handleMarkAllRead} className="text-blue-600 hover:underline dark:text-blue-400">
+                  Mark all read
+                </button>
+              )}
+              <button
+                onClick={() => (showPreferences ? setShowPreferences(false) : handleShowPreferences())}
+                className="text-zinc-600 hover:underline dark:text-zinc-400"
+              >
+                {showPreferences ? 'Back' : 'Settings'}
+              </button>
+            </div>
+          </div>
+
+          {showPreferences ? (
+            <div className="px-4 py-3">
+              {!preferences ? (
+                <p className="text-sm text-zinc-500 dark:text-zinc-400">Loading...</p>
+              ) : (
+                <table className="w-full text-sm text-zinc-700 dark:text-zinc-300">
+                  <thead>
+                    <tr className="text-xs text-zinc-500 dark:text-zinc-400">
+                      <th className="pb-2 text-left font-medium"></th>
+                      <th className="pb-2 px-2 font-medium">In app</th>
+                      <th className="pb-2 pl-2 font-medium">Email</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {(Object.keys(TYPE_LABELS) as NotificationType[]).map((type) => (
+                      <tr key={type}>
+                        <td className="py-1">{TYPE_LABELS[type]}</td>
+                        {(['inApp', 'email'] as const).map((channel) => (
+                          <td key={channel} className="py-1 px-2 text-center">
+                            <input
+                              type="checkbox"
+                              aria-label={`${TYPE_LABELS[type]}: ${channel === 'inApp' ? 'in app' : 'email'}`}
+                              checked={preferences[type][channel]}
+                              onChange={(e) => handleTogglePreference(type, channel, e.target.checked)}
+                            />
+                          </td>
+                        ))}
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              )}
+            </div>
+          ) : notifications.length === 0 ? (
+            <p className="px-4 py-6 text-sm text-center text-zinc-500 dark:text-zinc-400">No notifications</p>
+          ) : (
+            <ul className="max-h-96 overflow-y-auto divide-y divide-zinc-200 dark:divide-zinc-800">
+              {notifications.map((notification) => (
+                <li key={notification.id}>
+                  <button
+                    onClick={() => handleMarkRead(notification)}
+                    className="w-full text-left px-4 py-3 flex gap-2 hover:bg-zinc-50 dark:hover:bg-zinc-800"
+                  >
+                    <span
+                      className={`mt-1.5 h-2 w-2 shrink-0 rounded-full ${notification.readAt ? 'bg-transparent' : 'bg-blue-600'}`}
+                    />
+                    <span>
+                      <span className="block text-sm text-zinc-900 dark:text-white">{notification.message}</span>
+                      <span className="block text-xs text-zinc-500 dark:text-zinc-400">
+                        {new Date(notification.createdAt).toLocaleString()}
+                      </span>
+                    </span>
+                  </button>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
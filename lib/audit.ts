@@ -0,0 +1,98 @@
+import { NextRequest } from 'next/server';
+import { Prisma } from '@prisma/client';
+import { z } from 'zod';
+import { prisma } from './prisma';
+import { getClientInfo } from './middleware';
+import { auditActionSchema, auditTargetTypeSchema } from './schemas';
+import { queueWebhookDeliveries } from './webhooks';
+
+// Append-only record of who did what: task changes, auth events and admin
+// actions. Writing an event never fails the request that triggered it; the
+// change it describes has already happened by then. Task and admin events
+// are also delivered to the webhooks subscribed to them.
+
+export type AuditAction = z.infer<typeof auditActionSchema>;
+export type AuditTargetType = z.infer<typeof auditTargetTypeSchema>;
+
+export interface AuditActor {
+  userId: string;
+  email: string;
+}
+
+export interface AuditEntry {
+  action: AuditAction;
+  targetType: AuditTargetType;
+  targetId?: string | null;
+  before?: Record<string, unknown> | null;
+  after?: Record<string, unknown> | null;
+}
+
+// Never stored, whatever record is passed in
+const REDACTED_FIELDS = new Set(['passwordHash', 'tokenHash', 'searchVector']);
+
+function toAuditJson(value: Record<string, unknown> | null | undefined) {
+  if (!value) return Prisma.DbNull;
+  const entries = Object.entries(value).filter(
+    ([key, field]) => !REDACTED_FIELDS.has(key) && field !== undefined
+  );
+  // Round-trip through JSON so dates become ISO strings
+  return JSON.parse(JSON.stringify(Object.fromEntries(entries))) as Prisma.InputJsonObject;
+}
+
+const sameValue = (a: unknown, b: unknown) => JSON.stringify(a) === JSON.stringify(b);
+
+// Only the given fields that differ between two versions of a record
+export function auditDiff(
+  before: Record<string, unknown>,
+  after: Record<string, unknown>,
+  fields: readonly string[]
+) {
+  const changed = fields.filter((field) => !sameValue(before[field], after[field]));
+  return {
+    before: Object.fromEntries(changed.map((field) => [field, before[field]])),
+    after: Object.fromEntries(changed.map((field) => [field, after[field]])),
+  };
+}
+
+// Background jobs record events without a request
+export async function recordAudit(
+  request: NextRequest | null,
+  actor: AuditActor | null,
+  entry: AuditEntry
+) {
+  try {
+    const event = await prisma.auditEvent.create({
+      data: {
+        action: entry.action,
+        actorId: actor?.userId ?? null,
+        actorEmail: actor?.email ?? null,
+        targetType: entry.targetType,
+        targetId: entry.targetId ?? null,
+        before: toAuditJson(entry.before),
+        after: toAuditJson(entry.after),
+        ip: request ? getClientInfo(request).ip : null,
+      },
+    });
+    await queueWebhookDeliveries(event);
+  } catch (error) {
+    console.error('Audit log error:', error);
+  }
+}
+
+// Task fields worth tracking in the history
+export const TASK_AUDIT_FIELDS = [
+  'title',
+  'description',
+  'status',
+  'stateId',
+  'priority',
+  'dueDate',
+  'assigneeId',
+  'projectId',
+  'parentId',
+  'recurrence',
+] as const;
+
+export function taskAuditSnapshot(task: Record<string, unknown>) {
+  return Object.fromEntries(TASK_AUDIT_FIELDS.map((field) => [field, task[field]]));
+}
@@ -1,6 +1,8 @@
 import jwt from 'jsonwebtoken';
 import bcrypt from 'bcryptjs';
+import { randomUUID, randomBytes, createHash } from 'crypto';
 import "dotenv/config"
+import { storeSession } from './cache';
 
 const JWT_SECRET = process.env.JWT_SECRET || 'your-secret-key-change-in-production';
 
@@ -8,10 +10,24 @@ if (!process.env.JWT_SECRET) {
   console.warn('Warning: JWT_SECRET not set in environment variables');
 }
 
+// Refresh tokens use their own secret so they can never pass as access tokens
+const REFRESH_TOKEN_SECRET =
+  process.env.REFRESH_TOKEN_SECRET || `${JWT_SECRET}:refresh`;
+
+export const ACCESS_TOKEN_TTL = 15 * 60; // 15 minutes
+export const REFRESH_TOKEN_TTL = 7 * 24 * 60 * 60; // 7 days
+
 export interface JWTPayload {
   userId: string;
   email: string;
   role: string;
+  jti?: string; // Session id, set on every token issued by createSession
+}
+
+export interface RefreshTokenPayload {
+  userId: string;
+  sid: string; // Session id shared by every token in the family
+  gen: number; // Rotation counter, compared against the session record
 }
 
 export async function hashPassword(password: string): Promise<string> {
@@ -25,8 +41,42 @@ export async function verifyPassword(
   return bcrypt.compare(password, hashedPassword);
 }
 
-export function generateToken(payload: JWTPayload): string {
-  return jwt.sign(payload, JWT_SECRET, { expiresIn: '7d' });
+// Single-use tokens (invitations, password resets) are only stored hashed
+export function hashToken(token: string): string {
+  return createHash('sha256').update(token).digest('hex');
+}
+
+export function generateOpaqueToken(): { token: string; tokenHash: string } {
+  const token = randomBytes(32).toString('base64url');
+  return { token, tokenHash: hashToken(token) };
+}
+
+export function generateToken(payload: JWTPayload, tokenId: string): string {
+  const { userId, email, role } = payload;
+  return jwt.sign({ userId, email, role }, JWT_SECRET, {
+    expiresIn: ACCESS_TOKEN_TTL,
+    jwtid: tokenId,
+  });
+}
+
+export function generateRefreshToken(payload: RefreshTokenPayload): string {
+  const { userId, sid, gen } = payload;
+  return jwt.sign({ userId, sid, gen }, REFRESH_TOKEN_SECRET, {
+    expiresIn: REFRESH_TOKEN_TTL,
+  });
+}
+
+// Start a session and issue its first access/refresh token pair
+export async function createSession(
+  payload: JWTPayload,
+  client: { ip: string | null; userAgent: string | null }
+): Promise<{ accessToken: string; refreshToken: string }> {
+  const tokenId = randomUUID();
+  await storeSession(payload.userId, tokenId, client);
+  return {
+    accessToken: generateToken(payload, tokenId),
+    refreshToken: generateRefreshToken({ userId: payload.userId, sid: tokenId, gen: 0 }),
+  };
 }
 
 export function verifyToken(token: string): JWTPayload | null {
@@ -37,3 +87,12 @@ export function verifyToken(token: string): JWTPayload | null {
     return null;
   }
 }
+
+export function verifyRefreshToken(token: string): RefreshTokenPayload | null {
+  try {
+    const decoded = jwt.verify(token, REFRESH_TOKEN_SECRET);
+    return decoded as RefreshTokenPayload;
+  } catch {
+    return null;
+  }
+}
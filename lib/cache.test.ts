@@ -0,0 +1,76 @@
+import { createServer, Server, Socket } from 'net';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+
+// A server that accepts connections and never answers, like Redis stuck or
+// behind a dropped route
+function silentServer() {
+  const sockets = new Set<Socket>();
+  const server = createServer((socket) => {
+    sockets.add(socket);
+    socket.on('close', () => sockets.delete(socket));
+  });
+  return new Promise<{ url: string; close: () => Promise<void> }>((resolve) =>
+    server.listen(0, '127.0.0.1', () => {
+      const { port } = server.address() as { port: number };
+      resolve({
+        url: `redis://127.0.0.1:${port}`,
+        close: () => {
+          sockets.forEach((socket) => socket.destroy());
+          return new Promise((done) => (server as Server).close(() => done()));
+        },
+      });
+    })
+  );
+}
+
+async function loadCache() {
+  const cache = await import('./cache');
+  const { redisClient } = await import('./redis');
+  return { ...cache, redisClient };
+}
+
+describe('sessions with Redis down', () => {
+  beforeEach(() => {
+    vi.resetModules();
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.unstubAllEnvs();
+    vi.restoreAllMocks();
+  });
+
+  it('fails open when nothing listens', async () => {
+    const { validateSession, redisClient } = await loadCache();
+
+    const started = Date.now();
+    await expect(validateSession('user', 'token')).resolves.toBe(true);
+    expect(Date.now() - started).toBeLessThan(2000);
+
+    await redisClient.destroy();
+  });
+
+  it('fails open when Redis never answers', async () => {
+    const server = await silentServer();
+    vi.stubEnv('REDIS_URL', server.url);
+    const { validateSession, redisClient } = await loadCache();
+
+    const started = Date.now();
+    await expect(validateSession('user', 'token')).resolves.toBe(true);
+    await expect(validateSession('user', 'token')).resolves.toBe(true);
+    expect(Date.now() - started).toBeLessThan(2000);
+
+    if (redisClient.isOpen) redisClient.destroy();
+    await server.close();
+  });
+
+  it('fails closed with SESSION_FAIL_MODE=closed', async () => {
+    vi.stubEnv('SESSION_FAIL_MODE', 'closed');
+    const { validateSession, redisClient } = await loadCache();
+
+    await expect(validateSession('user', 'token')).resolves.toBe(false);
+
+    if (redisClient.isOpen) redisClient.destroy();
+  });
+});
@@ -1,3 +1,4 @@
+import { randomUUID } from 'crypto';
 import { redisClient, connectRedis } from './redis';
 
 const CACHE_TTL = {
@@ -7,11 +8,16 @@ const CACHE_TTL = {
   SESSION: 7 * 24 * 60 * 60, // 7 days
 };
 
-// Ensure Redis is connected before operations
+// Whether authenticated requests are allowed when sessions can't be checked
+// because Redis is unavailable. Set SESSION_FAIL_MODE=closed to refuse them.
+export const SESSION_FAIL_OPEN = process.env.SESSION_FAIL_MODE !== 'closed';
+
+// Ensure Redis is connected before operations. False when it can't be reached
+// within REDIS_TIMEOUT_MS.
 async function ensureConnection() {
   try {
     await connectRedis();
-    return true;
+    return redisClient.isReady;
   } catch (error) {
     console.error('Redis connection error:', error);
     return false;
@@ -59,10 +65,31 @@ export async function invalidateUserCache(userId: string) {
 // Task List Caching
 // ============================================
 
-export async function getCachedTasks(userId: string) {
+// Lists are cached per scope: a user id for personal tasks, `project:<id>`
+// for a project's tasks or `assigned:<userId>` for the tasks assigned to a
+// user (see taskListScopes in lib/tasks.ts).
+// Each list query is cached under its own key. Keys embed a per-scope version
+// that invalidation bumps, so every cached query of the scope is dropped at
+// once and the stale entries simply expire.
+const tasksVersionKey = (scope: string) => `tasks:${scope}:version`;
+
+// Resolve the cache key for one list query. Read the key before querying the
+// database so a write landing in between is never cached under the new version.
+export async function getTasksCacheKey(scope: string, queryKey: string) {
+  try {
+    if (!(await ensureConnection())) return null;
+    const version = (await redisClient.get(tasksVersionKey(scope))) ?? '0';
+    return `tasks:${scope}:v${version}:${queryKey}`;
+  } catch (error) {
+    console.error('Cache get error:', error);
+    return null;
+  }
+}
+
+export async function getCachedTasks(cacheKey: string) {
   try {
     if (!(await ensureConnection())) return null;
-    const cached = await redisClient.get(`tasks:${userId}`);
+    const cached = await redisClient.get(cacheKey);
     return cached ? JSON.parse(cached) : null;
   } catch (error) {
     console.error('Cache get error:', error);
@@ -70,23 +97,25 @@ export async function getCachedTasks(userId: string) {
   }
 }
 
-export async function setCachedTasks(userId: string, tasks: any[]) {
+// One page of a task list, as lib/tasks.ts builds it
+export interface TaskListPage {
+  tasks: unknown[];
+  nextCursor: string | null;
+}
+
+export async function setCachedTasks(cacheKey: string, page: TaskListPage) {
   try {
     if (!(await ensureConnection())) return;
-    await redisClient.setEx(
-      `tasks:${userId}`,
-      CACHE_TTL.TASKS,
-      JSON.stringify(tasks)
-    );
+    await redisClient.setEx(cacheKey, CACHE_TTL.TASKS, JSON.stringify(page));
   } catch (error) {
     console.error('Cache set error:', error);
   }
 }
 
-export async function invalidateTasksCache(userId: string) {
+export async function invalidateTasksCache(scope: string) {
   try {
     if (!(await ensureConnection())) return;
-    await redisClient.del(`tasks:${userId}`);
+    await redisClient.incr(tasksVersionKey(scope));
   } catch (error) {
     console.error('Cache invalidation error:', error);
   }
@@ -120,12 +149,13 @@ export async function setCachedTask(taskId: string, task: any) {
   }
 }
 
-export async function invalidateTaskCache(taskId: string, userId: string) {
+// Drop a task and every list it appears in (see taskListScopes in lib/tasks.ts)
+export async function invalidateTaskCache(taskId: string, scopes: string[]) {
   try {
     if (!(await ensureConnection())) return;
     await Promise.all([
       redisClient.del(`task:${taskId}`),
-      redisClient.del(`tasks:${userId}`),
+      ...scopes.map((scope) => redisClient.incr(tasksVersionKey(scope))),
     ]);
   } catch (error) {
     console.error('Cache invalidation error:', error);
@@ -136,18 +166,66 @@ export async function invalidateTaskCache(taskId: string, userId: string) {
 // Session Management
 // ============================================
 
+export interface SessionRecord {
+  tokenId: string;
+  createdAt: string;
+  lastSeenAt: string;
+  ip: string | null;
+  userAgent: string | null;
+  refreshGeneration: number;
+}
+
+export type RefreshRotationResult =
+  | { status: 'rotated'; generation: number }
+  | { status: 'reused' }
+  | { status: 'missing' }
+  | { status: 'unavailable' };
+
+// Only rewrite lastSeenAt once a minute to avoid a write on every request
+const SESSION_TOUCH_INTERVAL_MS = 60 * 1000;
+
+// Sessions are hashes so lastSeenAt and refreshGeneration can be updated
+// independently. Both scripts are no-ops once the session has been revoked.
+const TOUCH_SESSION_SCRIPT = `
+if redis.call('EXISTS', KEYS[1]) == 1 then
+  redis.call('HSET', KEYS[1], 'lastSeenAt', ARGV[1])
+end
+return 0
+`;
+
+const ROTATE_REFRESH_SCRIPT = `
+local current = redis.call('HGET', KEYS[1], 'refreshGeneration')
+if not current then return -1 end
+if tonumber(current) ~= tonumber(ARGV[1]) then
+  redis.call('DEL', KEYS[1])
+  return -2
+end
+local nextGeneration = redis.call('HINCRBY', KEYS[1], 'refreshGeneration', 1)
+redis.call('EXPIRE', KEYS[1], ARGV[2])
+return nextGeneration
+`;
+
 export async function storeSession(
   userId: string,
   tokenId: string,
-  token: string
+  client: { ip: string | null; userAgent: string | null }
 ) {
   try {
     if (!(await ensureConnection())) return;
-    await redisClient.setEx(
-      `session:${userId}:${tokenId}`,
-      CACHE_TTL.SESSION,
-      token
-    );
+    const key = `session:${userId}:${tokenId}`;
+    const now = new Date().toISOString();
+    await redisClient
+      .multi()
+      .hSet(key, {
+        tokenId,
+        createdAt: now,
+        lastSeenAt: now,
+        ip: client.ip ?? '',
+        userAgent: client.userAgent ?? '',
+        refreshGeneration: 0,
+      })
+      .expire(key, CACHE_TTL.SESSION)
+      .exec();
   } catch (error) {
     console.error('Session store error:', error);
   }
@@ -158,21 +236,83 @@ export async function validateSession(
   tokenId: string
 ): Promise<boolean> {
   try {
-    if (!(await ensureConnection())) return true; // Allow if Redis is down
-    const exists = await redisClient.exists(`session:${userId}:${tokenId}`);
-    return exists === 1;
+    if (!(await ensureConnection())) return SESSION_FAIL_OPEN;
+    const key = `session:${userId}:${tokenId}`;
+    const lastSeenAt = await redisClient.hGet(key, 'lastSeenAt');
+    if (!lastSeenAt) return false;
+
+    const now = new Date();
+    if (now.getTime() - new Date(lastSeenAt).getTime() > SESSION_TOUCH_INTERVAL_MS) {
+      await redisClient.eval(TOUCH_SESSION_SCRIPT, {
+        keys: [key],
+        arguments: [now.toISOString()],
+      });
+    }
+    return true;
   } catch (error) {
     console.error('Session validation error:', error);
-    return true; // Allow if Redis is down
+    return SESSION_FAIL_OPEN;
   }
 }
 
-export async function revokeSession(userId: string, tokenId: string) {
+// Advance the refresh token generation of a session. Presenting any other
+// generation means an old refresh token was replayed, so the whole session
+// (every token issued from the same login) is revoked.
+export async function rotateSessionRefresh(
+  userId: string,
+  tokenId: string,
+  generation: number
+): Promise<RefreshRotationResult> {
   try {
-    if (!(await ensureConnection())) return;
-    await redisClient.del(`session:${userId}:${tokenId}`);
+    if (!(await ensureConnection())) return { status: 'unavailable' };
+    const result = Number(
+      await redisClient.eval(ROTATE_REFRESH_SCRIPT, {
+        keys: [`session:${userId}:${tokenId}`],
+        arguments: [String(generation), String(CACHE_TTL.SESSION)],
+      })
+    );
+
+    if (result === -1) return { status: 'missing' };
+    if (result === -2) return { status: 'reused' };
+    return { status: 'rotated', generation: result };
+  } catch (error) {
+    console.error('Session refresh error:', error);
+    return { status: 'unavailable' };
+  }
+}
+
+export async function getUserSessions(userId: string): Promise<SessionRecord[]> {
+  try {
+    if (!(await ensureConnection())) return [];
+    const keys = await redisClient.keys(`session:${userId}:*`);
+    if (keys.length === 0) return [];
+
+    const hashes = await Promise.all(keys.map((key) => redisClient.hGetAll(key)));
+    return hashes
+      .filter((hash) => hash.tokenId)
+      .map((hash) => ({
+        tokenId: hash.tokenId,
+        createdAt: hash.createdAt,
+        lastSeenAt: hash.lastSeenAt,
+        ip: hash.ip || null,
+        userAgent: hash.userAgent || null,
+        refreshGeneration: Number(hash.refreshGeneration),
+      }))
+      .sort((a, b) => b.lastSeenAt.localeCompare(a.lastSeenAt));
+  } catch (error) {
+    console.error('Session list error:', error);
+    return [];
+  }
+}
+
+export async function revokeSession(userId: string, tokenId: string): Promise<boolean> {
+  try {
+    if (!(await ensureConnection())) return false;
+    const deleted = await redisClient.del(`session:${userId}:${tokenId}`);
+    return deleted > 0;
   } catch (error) {
     console.error('Session revocation error:', error);
+    return false;
   }
 }
 
@@ -188,34 +328,152 @@ export async function revokeAllUserSessions(userId: string) {
   }
 }
 
+// ============================================
+// Login Attempt Tracking
+// ============================================
+
+export interface LoginAttemptState {
+  failures: number;
+  lastFailureAt: number; // epoch ms
+  lockedUntil: number; // epoch ms, 0 when not locked
+}
+
+function parseLoginAttempts(hash: Record<string, string>): LoginAttemptState | null {
+  if (!hash.failures) return null;
+  return {
+    failures: Number(hash.failures),
+    lastFailureAt: Number(hash.lastFailureAt),
+    lockedUntil: Number(hash.lockedUntil || 0),
+  };
+}
+
+export async function getLoginAttempts(
+  subjects: string[]
+): Promise<(LoginAttemptState | null)[]> {
+  try {
+    if (subjects.length === 0 || !(await ensureConnection())) {
+      return subjects.map(() => null);
+    }
+    const hashes = await Promise.all(
+      subjects.map((subject) => redisClient.hGetAll(`loginfail:${subject}`))
+    );
+    return hashes.map(parseLoginAttempts);
+  } catch (error) {
+    console.error('Login attempts get error:', error);
+    return subjects.map(() => null);
+  }
+}
+
+export async function recordLoginFailure(
+  subject: string,
+  ttlSeconds: number
+): Promise<LoginAttemptState | null> {
+  try {
+    if (!(await ensureConnection())) return null;
+    const key = `loginfail:${subject}`;
+    const now = Date.now();
+    const [failures] = await redisClient
+      .multi()
+      .hIncrBy(key, 'failures', 1)
+      .hSet(key, 'lastFailureAt', now)
+      .expire(key, ttlSeconds)
+      .exec();
+    return {
+      failures: Number(failures),
+      lastFailureAt: now,
+      lockedUntil: 0,
+    };
+  } catch (error) {
+    console.error('Login failure record error:', error);
+    return null;
+  }
+}
+
+export async function lockLoginSubject(
+  subject: string,
+  lockedUntil: number,
+  ttlSeconds: number
+) {
+  try {
+    if (!(await ensureConnection())) return;
+    const key = `loginfail:${subject}`;
+    await redisClient
+      .multi()
+      .hSet(key, 'lockedUntil', lockedUntil)
+      .expire(key, ttlSeconds)
+      .exec();
+  } catch (error) {
+    console.error('Login lock error:', error);
+  }
+}
+
+export async function clearLoginAttempts(subject: string) {
+  try {
+    if (!(await ensureConnection())) return;
+    await redisClient.del(`loginfail:${subject}`);
+  } catch (error) {
+    console.error('Login attempts clear error:', error);
+  }
+}
+
 // ============================================
 // Rate Limiting
 // ============================================
 
+export interface RateLimitResult {
+  allowed: boolean;
+  limit: number;
+  remaining: number;
+  retryAfter: number; // Seconds until the next request is allowed, 0 if allowed
+}
+
+// Sliding window log: one sorted-set member per accepted request, scored by
+// its timestamp. Rejected requests are not recorded.
+const RATE_LIMIT_SCRIPT = `
+local now = tonumber(ARGV[1])
+local window = tonumber(ARGV[2])
+local limit = tonumber(ARGV[3])
+redis.call('ZREMRANGEBYSCORE', KEYS[1], 0, now - window)
+local count = redis.call('ZCARD', KEYS[1])
+if count < limit then
+  redis.call('ZADD', KEYS[1], now, ARGV[4])
+  redis.call('PEXPIRE', KEYS[1], window)
+  return {1, count + 1, 0}
+end
+local oldest = redis.call('ZRANGE', KEYS[1], 0, 0, 'WITHSCORES')
+return {0, count, tonumber(oldest[2]) + window - now}
+`;
+
+// Returns null when Redis is unavailable so callers can fall back
 export async function checkRateLimit(
-  userId: string,
+  identifier: string,
   endpoint: string,
-  maxRequests: number = 100
-): Promise<{ allowed: boolean; remaining: number }> {
+  maxRequests: number = 100,
+  windowSeconds: number = 60
+): Promise<RateLimitResult | null> {
   try {
-    if (!(await ensureConnection())) {
-      return { allowed: true, remaining: maxRequests };
-    }
-
-    const key = `ratelimit:${userId}:${endpoint}`;
-    const current = await redisClient.incr(key);
+    if (!(await ensureConnection())) return null;
 
-    if (current === 1) {
-      await redisClient.expire(key, 60); // 1 minute window
-    }
+    const now = Date.now();
+    const [allowed, count, retryAfterMs] = (await redisClient.eval(RATE_LIMIT_SCRIPT, {
+      keys: [`ratelimit:${endpoint}:${identifier}`],
+      arguments: [
+        String(now),
+        String(windowSeconds * 1000),
+        String(maxRequests),
+        `${now}:${Math.random().toString(36).slice(2)}`,
+      ],
+    })) as number[];
 
     return {
-      allowed: current <= maxRequests,
-      remaining: Math.max(0, maxRequests - current),
+      allowed: allowed === 1,
+      limit: maxRequests,
+      remaining: Math.max(0, maxRequests - count),
+      retryAfter: Math.ceil(retryAfterMs / 1000),
     };
   } catch (error) {
     console.error('Rate limit error:', error);
-    return { allowed: true, remaining: maxRequests };
+    return null;
   }
 }
 
@@ -242,3 +500,88 @@ export async function getCacheStats() {
     return { connected: false, error: String(error) };
   }
 }
+
+// ============================================
+// Locks
+// ============================================
+
+export type LockResult =
+  | { status: 'acquired'; token: string }
+  | { status: 'held' }
+  | { status: 'unavailable' };
+
+// Only the holder's token releases a lock, so a holder that outlived the TTL
+// can't release a lock someone else has taken since
+const RELEASE_LOCK_SCRIPT = `
+if redis.call('GET', KEYS[1]) == ARGV[1] then
+  return redis.call('DEL', KEYS[1])
+end
+return 0
+`;
+
+export async function acquireLock(name: string, ttlSeconds: number): Promise<LockResult> {
+  try {
+    if (!(await ensureConnection())) return { status: 'unavailable' };
+    const token = randomUUID();
+    const result = await redisClient.set(`lock:${name}`, token, { NX: true, EX: ttlSeconds });
+    return result === 'OK' ? { status: 'acquired', token } : { status: 'held' };
+  } catch (error) {
+    console.error('Lock acquire error:', error);
+    return { status: 'unavailable' };
+  }
+}
+
+export async function releaseLock(name: string, token: string) {
+  try {
+    if (!(await ensureConnection())) return;
+    await redisClient.eval(RELEASE_LOCK_SCRIPT, {
+      keys: [`lock:${name}`],
+      arguments: [token],
+    });
+  } catch (error) {
+    console.error('Lock release error:', error);
+  }
+}
+
+// ============================================
+// Queues
+// ============================================
+
+// A queue is a sorted set of ids scored by when they fall due
+
+// Removes the ids it returns, so each is handed out once
+const CLAIM_DUE_SCRIPT = `
+local ids = redis.call('ZRANGEBYSCORE', KEYS[1], '-inf', ARGV[1], 'LIMIT', 0, ARGV[2])
+if #ids > 0 then
+  redis.call('ZREM', KEYS[1], unpack(ids))
+end
+return ids
+`;
+
+// Queue an id, or move it if already queued. False when Redis is unavailable.
+export async function enqueue(queue: string, id: string, dueAt: Date) {
+  try {
+    if (!(await ensureConnection())) return false;
+    await redisClient.zAdd(`queue:${queue}`, { score: dueAt.getTime(), value: id });
+    return true;
+  } catch (error) {
+    console.error('Queue add error:', error);
+    return false;
+  }
+}
+
+// Take up to `limit` ids that are due, earliest first. Null when Redis is
+// unavailable.
+export async function claimDue(queue: string, limit: number): Promise<string[] | null> {
+  try {
+    if (!(await ensureConnection())) return null;
+    const ids = await redisClient.eval(CLAIM_DUE_SCRIPT, {
+      keys: [`queue:${queue}`],
+      arguments: [String(Date.now()), String(limit)],
+    });
+    return ids as string[];
+  } catch (error) {
+    console.error('Queue claim error:', error);
+    return null;
+  }
+}
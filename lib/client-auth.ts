@@ -1,3 +1,5 @@
+// The short-lived access token lives in localStorage; the refresh token is an
+// httpOnly cookie scoped to /api/auth and is never readable from here.
 export const getToken = (): string | null => {
   if (typeof window === 'undefined') return null;
   return localStorage.getItem('token');
@@ -16,3 +18,70 @@ export const removeToken = (): void => {
 export const isAuthenticated = (): boolean => {
   return !!getToken();
 };
+
+// Share one in-flight refresh so parallel requests don't replay the same
+// refresh token, which the server treats as token theft. Tabs share the
+// refresh cookie, so they take turns through a Web Lock too.
+let refreshPromise: Promise<string | null> | null = null;
+
+const REFRESH_LOCK = 'auth-refresh';
+
+// `staleToken` is the access token that was rejected; if another tab has
+// replaced it in the meantime, that token is used instead of refreshing again
+export const refreshAccessToken = (staleToken = getToken()): Promise<string | null> => {
+  if (!refreshPromise) {
+    const refresh = async (): Promise<string | null> => {
+      const current = getToken();
+      if (current && current !== staleToken) return current;
+
+      const res = await fetch('/api/auth/refresh', { method: 'POST' });
+      if (!res.ok) {
+        removeToken();
+        return null;
+      }
+      const data = await res.json();
+      setToken(data.token);
+      return data.token as string;
+    };
+
+    const refreshInTurn = async () =>
+      navigator.locks ? await navigator.locks.request(REFRESH_LOCK, refresh) : refresh();
+
+    refreshPromise = refreshInTurn()
+      .catch(() => null)
+      .finally(() => {
+        refreshPromise = null;
+      });
+  }
+  return refreshPromise;
+};
+
+// fetch() with the access token attached, refreshing it once on a 401
+export const authFetch = async (
+  input: string,
+  init: RequestInit = {}
+): Promise<Response> => {
+  const send = (token: string | null) => {
+    const headers = new Headers(init.headers);
+    if (token) {
+      headers.set('Authorization', `Bearer ${token}`);
+    }
+    return fetch(input, { ...init, headers });
+  };
+
+  const sent = getToken();
+  const res = await send(sent);
+  if (res.status !== 401) return res;
+
+  const token = await refreshAccessToken(sent);
+  return token ? send(token) : res;
+};
+
+export const logout = async (): Promise<void> => {
+  try {
+    await authFetch('/api/auth/logout', { method: 'POST' });
+  } catch {
+    // Clear the local token even if the server can't be reached
+  }
+  removeToken();
+};
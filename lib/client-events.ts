@@ -0,0 +1,104 @@
+import { authFetch } from './client-auth';
+
+// Client for GET /api/events. EventSource can't send the Authorization
+// header, so the stream is read with fetch, and reconnects pass the id of the
+// last event seen as Last-Event-ID to replay what was missed.
+
+export interface TaskEvent {
+  id: string;
+  type: 'task.created' | 'task.updated' | 'task.deleted';
+  task: {
+    id: string;
+    userId: string;
+    projectId: string | null;
+    parentId: string | null;
+    assigneeId: string | null;
+  };
+}
+
+interface EventHandlers {
+  onEvent: (event: TaskEvent) => void;
+  // Events were missed and can't be replayed: refetch instead
+  onReset: () => void;
+}
+
+const DEFAULT_RETRY_MS = 3000;
+const MAX_RETRY_MS = 60 * 1000;
+
+// Listen until the returned function is called
+export const subscribeToTaskEvents = ({ onEvent, onReset }: EventHandlers): (() => void) => {
+  const controller = new AbortController();
+  let lastEventId: string | null = null;
+  let retryMs = DEFAULT_RETRY_MS;
+  let failures = 0;
+
+  // One "field: value" block of the stream, ended by a blank line
+  const dispatch = (block: string) => {
+    let id: string | null = null;
+    let type = 'message';
+    let data = '';
+    for (const line of block.split('\n')) {
+      const colon = line.indexOf(':');
+      if (colon === 0) continue; // Comment, e.g. a heartbeat
+      const field = colon === -1 ? line : line.slice(0, colon);
+      const value = colon === -1 ? '' : line.slice(colon + 1).replace(/^ /, '');
+      if (field === 'id') id = value;
+      else if (field === 'event') type = value;
+      else if (field === 'data') data += data ? `\n${value}` : value;
+      else if (field === 'retry' && /^\d+$/.test(value)) retryMs = Number(value);
+    }
+
+    if (type === 'reset') {
+      onReset();
+    } else if (id && data) {
+      lastEventId = id;
+      onEvent(JSON.parse(data));
+    }
+  };
+
+  const connect = async () => {
+    const res = await authFetch('/api/events', {
+      headers: lastEventId ? { 'Last-Event-ID': lastEventId } : {},
+      signal: controller.signal,
+    });
+    // Signed out: stop listening
+    if (res.status === 401) {
+      controller.abort();
+      return;
+    }
+    if (!res.ok || !res.body) {
+      throw new Error(`Event stream failed with ${res.status}`);
+    }
+    failures = 0;
+
+    const reader = res.body.pipeThrough(new TextDecoderStream()).getReader();
+    let buffer = '';
+    for (;;) {
+      const { value, done } = await reader.read();
+      if (done) return;
+      buffer += value.replace(/\r\n?/g, '\n');
+      let end;
+      while ((end = buffer.indexOf('\n\n')) !== -1) {
+        dispatch(buffer.slice(0, end));
+        buffer = buffer.slice(end + 2);
+      }
+    }
+  };
+
+  const run = async () => {
+    while (!controller.signal.aborted) {
+      try {
+        await connect();
+      } catch {
+        failures++;
+      }
+      if (controller.signal.aborted) return;
+      // Back off while the server keeps failing
+      const delay = Math.min(retryMs * 2 ** Math.min(failures, 5), MAX_RETRY_MS);
+      await new Promise((resolve) => setTimeout(resolve, failures > 0 ? delay : retryMs));
+    }
+  };
+
+  run();
+  return () => controller.abort();
+};
@@ -0,0 +1,52 @@
+import { prisma } from './prisma';
+import { canAccessTask } from './permissions';
+
+// Mentions are written as @ followed by an email address, e.g.
+// "@alice@example.com can you check this?"
+const MENTION_PATTERN = /(?:^|[^\w@])@([\w.+-]+@[\w-]+(?:\.[\w-]+)+)/g;
+
+export const MAX_MENTIONS = 20;
+
+const userSelect = {
+  id: true,
+  email: true,
+  name: true,
+};
+
+export const commentInclude = {
+  author: { select: userSelect },
+  mentions: { select: { user: { select: userSelect } } },
+};
+
+export function toComment<
+  T extends { mentions: { user: { id: string; email: string; name: string | null } }[] },
+>(comment: T) {
+  return { ...comment, mentions: comment.mentions.map((mention) => mention.user) };
+}
+
+// Distinct mentioned emails in the order they appear, lowercased
+export function parseMentions(body: string): string[] {
+  const emails = [...body.matchAll(MENTION_PATTERN)].map((match) => match[1].toLowerCase());
+  return [...new Set(emails)].slice(0, MAX_MENTIONS);
+}
+
+// Ids of the users mentioned in a comment on the task. Unknown emails and
+// users who can't see the task are ignored, so a mention never reveals the
+// task to someone new.
+export async function resolveMentions(
+  task: { id: string; userId: string; projectId: string | null; assigneeId: string | null },
+  body: string
+): Promise<string[]> {
+  const emails = parseMentions(body);
+  if (emails.length === 0) return [];
+
+  const users = await prisma.user.findMany({
+    where: { email: { in: emails, mode: 'insensitive' }, deletedAt: null },
+    select: { id: true },
+  });
+
+  const visible = await Promise.all(
+    users.map((user) => canAccessTask(task, user.id, 'view'))
+  );
+  return users.filter((_, i) => visible[i]).map((user) => user.id);
+}
@@ -0,0 +1,129 @@
+import { randomUUID } from 'crypto';
+import { beforeAll, beforeEach, describe, expect, it, vi } from 'vitest';
+import { createTestDatabase } from '@/test/database';
+
+const { prisma } = vi.hoisted(() => ({
+  prisma: {
+    $queryRaw: vi.fn(),
+    taskDependency: { findMany: vi.fn(), delete: vi.fn() },
+  },
+}));
+
+vi.mock('./prisma', () => ({ prisma }));
+
+import { dropCyclicDependencies, wouldCreateCycle } from './dependencies';
+
+let db: Awaited<ReturnType<typeof createTestDatabase>>['db'];
+const userId = randomUUID();
+
+async function createTask(deletedAt: Date | null = null) {
+  const id = randomUUID();
+  await db.query(
+    `INSERT INTO "Task" ("id", "title", "userId", "deletedAt", "updatedAt") VALUES ($1, 'Task', $2, $3, now())`,
+    [id, userId, deletedAt]
+  );
+  return id;
+}
+
+let added = 0;
+
+// Dependencies are added a second apart, so they have a definite order
+async function block(blockerId: string, blockedId: string) {
+  await db.query(
+    `INSERT INTO "TaskDependency" ("blockerId", "blockedId", "createdAt")
+     VALUES ($1, $2, now() + $3 * interval '1 second')`,
+    [blockerId, blockedId, added++]
+  );
+}
+
+// A chain of n tasks, each blocking the next
+async function chain(n: number) {
+  const ids = [await createTask()];
+  for (let i = 1; i < n; i++) {
+    ids.push(await createTask());
+    await block(ids[i - 1], ids[i]);
+  }
+  return ids;
+}
+
+beforeAll(async () => {
+  const database = await createTestDatabase();
+  db = database.db;
+  prisma.$queryRaw.mockImplementation(database.queryRaw);
+  await db.query(
+    `INSERT INTO "User" ("id", "email", "passwordHash") VALUES ($1, 'user@example.com', 'x')`,
+    [userId]
+  );
+});
+
+beforeEach(async () => {
+  await db.exec('DELETE FROM "TaskDependency"; DELETE FROM "Task";');
+});
+
+describe('wouldCreateCycle', () => {
+  it('finds a cycle through a direct dependency', async () => {
+    const [a, b] = await chain(2);
+
+    expect(await wouldCreateCycle(b, a)).toBe(true);
+    expect(await wouldCreateCycle(a, b)).toBe(false);
+  });
+
+  it('finds a cycle however long the chain', async () => {
+    const ids = await chain(600);
+
+    expect(await wouldCreateCycle(ids[599], ids[0])).toBe(true);
+  });
+
+  it("doesn't follow dependencies through tasks in the trash", async () => {
+    const a = await createTask();
+    const trashed = await createTask(new Date());
+    const c = await createTask();
+    await block(a, trashed);
+    await block(trashed, c);
+
+    expect(await wouldCreateCycle(c, a)).toBe(false);
+  });
+
+  it('terminates on an existing cycle', async () => {
+    const [a, , c] = await chain(3);
+    await block(c, a);
+    const d = await createTask();
+
+    expect(await wouldCreateCycle(d, a)).toBe(false);
+  });
+});
+
+describe('dropCyclicDependencies', () => {
+  beforeEach(() => {
+    prisma.taskDependency.findMany.mockImplementation(async () =>
+      (await db.query('SELECT "blockerId", "blockedId" FROM "TaskDependency" ORDER BY "createdAt"')).rows
+    );
+    prisma.taskDependency.delete.mockImplementation(
+      async ({ where }: { where: { blockerId_blockedId: { blockerId: string; blockedId: string } } }) => {
+        const { blockerId, blockedId } = where.blockerId_blockedId;
+        await db.query('DELETE FROM "TaskDependency" WHERE "blockerId" = $1 AND "blockedId" = $2', [
+          blockerId,
+          blockedId,
+        ]);
+      }
+    );
+  });
+
+  it('drops the dependencies of a restored task that close a cycle', async () => {
+    // b was in the trash when "c blocks a" was added
+    const [a, b, c] = await chain(3);
+    await block(c, a);
+
+    const dropped = await dropCyclicDependencies([b]);
+
+    expect(dropped).toEqual([{ blockerId: a, blockedId: b }]);
+    const { rows } = await db.query('SELECT "blockerId", "blockedId" FROM "TaskDependency"');
+    expect(rows).toHaveLength(2);
+  });
+
+  it('keeps dependencies without a cycle', async () => {
+    const [, b] = await chain(3);
+
+    expect(await dropCyclicDependencies([b])).toEqual([]);
+  });
+});
@@ -0,0 +1,156 @@
+import { Prisma } from '@prisma/client';
+import { prisma } from './prisma';
+import { canAccessTask } from './permissions';
+
+// "A blocks B" relationships between tasks of the same project (or personal
+// list). A task can't be completed while a blocker is open, and the
+// relationships may not form a cycle.
+
+// Upper bound on the edges returned for one direction of a graph
+const MAX_GRAPH_EDGES = 500;
+
+type TaskRef = { id: string; userId: string; projectId: string | null };
+
+export type DependencyEdge = { blockerId: string; blockedId: string };
+
+// Check that `blockerId` can block the task: it has to be another task of the
+// same project, or a personal task of the same user. Returns the error message
+// to respond with, or null.
+export async function checkBlocker(task: TaskRef, blockerId: string): Promise<string | null> {
+  if (blockerId === task.id) {
+    return 'A task cannot block itself';
+  }
+
+  const blocker = await prisma.task.findUnique({
+    where: { id: blockerId, deletedAt: null },
+    select: { userId: true, projectId: true },
+  });
+
+  const sameList =
+    blocker !== null &&
+    blocker.projectId === task.projectId &&
+    (task.projectId !== null || blocker.userId === task.userId);
+
+  return sameList ? null : 'Blocking task not found in the same project or task list';
+}
+
+// Every dependency upstream of a task (its blockers, their blockers, ...) or
+// downstream (the tasks it blocks, and so on). Tasks in the trash break the
+// chain.
+export async function dependencyEdges(
+  taskId: string,
+  direction: 'upstream' | 'downstream'
+): Promise<DependencyEdge[]> {
+  const [from, to] =
+    direction === 'upstream'
+      ? [Prisma.raw('"blockedId"'), Prisma.raw('"blockerId"')]
+      : [Prisma.raw('"blockerId"'), Prisma.raw('"blockedId"')];
+
+  return prisma.$queryRaw<DependencyEdge[]>`
+    WITH RECURSIVE live AS (
+      SELECT d."blockerId", d."blockedId"
+      FROM "TaskDependency" d
+      JOIN "Task" blocker ON blocker."id" = d."blockerId" AND blocker."deletedAt" IS NULL
+      JOIN "Task" blocked ON blocked."id" = d."blockedId" AND blocked."deletedAt" IS NULL
+    ), edges AS (
+      SELECT "blockerId", "blockedId" FROM live WHERE ${from} = ${taskId}::uuid
+      UNION
+      SELECT d."blockerId", d."blockedId"
+      FROM live d JOIN edges e ON d.${from} = e.${to}
+    )
+    SELECT "blockerId", "blockedId" FROM edges LIMIT ${MAX_GRAPH_EDGES}
+  `;
+}
+
+// Adding "blocker blocks blocked" closes a cycle when the blocker already
+// depends on the blocked task, directly or not. Unlike dependencyEdges this
+// follows the whole graph, however large.
+export async function wouldCreateCycle(blockerId: string, blockedId: string) {
+  const [{ reachable }] = await prisma.$queryRaw<{ reachable: boolean }[]>`
+    WITH RECURSIVE downstream AS (
+      SELECT ${blockedId}::uuid AS "id"
+      UNION
+      SELECT d."blockedId"
+      FROM "TaskDependency" d
+      JOIN downstream ON d."blockerId" = downstream."id"
+      JOIN "Task" blocked ON blocked."id" = d."blockedId" AND blocked."deletedAt" IS NULL
+    )
+    SELECT EXISTS (SELECT 1 FROM downstream WHERE "id" = ${blockerId}::uuid) AS "reachable"
+  `;
+  return reachable;
+}
+
+// Drop the dependencies of restored tasks that close a cycle. Cycles through
+// tasks in the trash aren't checked, so one may have formed while they were
+// there. Returns the dropped dependencies.
+export async function dropCyclicDependencies(taskIds: string[]): Promise<DependencyEdge[]> {
+  const edges = await prisma.taskDependency.findMany({
+    where: { OR: [{ blockerId: { in: taskIds } }, { blockedId: { in: taskIds } }] },
+    select: { blockerId: true, blockedId: true },
+    orderBy: { createdAt: 'asc' },
+  });
+
+  // One at a time, oldest first, so dropping one can keep another
+  const dropped: DependencyEdge[] = [];
+  for (const edge of edges) {
+    if (await wouldCreateCycle(edge.blockerId, edge.blockedId)) {
+      await prisma.taskDependency.delete({ where: { blockerId_blockedId: edge } });
+      dropped.push(edge);
+    }
+  }
+  return dropped;
+}
+
+// Blockers of a task that are not done yet
+export async function openBlockers(taskId: string) {
+  return prisma.task.findMany({
+    where: { blocks: { some: { blockedId: taskId } }, status: { not: 'DONE' }, deletedAt: null },
+    select: { id: true, title: true, status: true },
+    orderBy: { createdAt: 'asc' },
+  });
+}
+
+// The dependency graph around a task. Tasks the user can't view are listed
+// without their title.
+export async function dependencyGraph(task: TaskRef, userId: string) {
+  const [upstream, downstream] = await Promise.all([
+    dependencyEdges(task.id, 'upstream'),
+    dependencyEdges(task.id, 'downstream'),
+  ]);
+
+  const ids = [
+    ...new Set([task.id, ...[...upstream, ...downstream].flatMap((e) => [e.blockerId, e.blockedId])]),
+  ];
+  const tasks = await prisma.task.findMany({
+    where: { id: { in: ids } },
+    select: { id: true, title: true, status: true, userId: true, projectId: true, assigneeId: true },
+  });
+
+  const nodes = await Promise.all(
+    tasks.map(async (node) => ({
+      id: node.id,
+      title: (await canAccessTask(node, userId, 'view')) ? node.title : null,
+      status: node.status,
+    }))
+  );
+
+  return { nodes, upstream, downstream };
+}
+
+// Attach the number of open blockers to each task
+export async function withOpenBlockers<T extends { id: string }>(tasks: T[]) {
+  const ids = tasks.map((task) => task.id);
+  const counts =
+    ids.length > 0
+      ? await prisma.taskDependency.groupBy({
+          by: ['blockedId'],
+          where: { blockedId: { in: ids }, blocker: { status: { not: 'DONE' }, deletedAt: null } },
+          _count: { _all: true },
+        })
+      : [];
+
+  return tasks.map((task) => ({
+    ...task,
+    openBlockers: counts.find((count) => count.blockedId === task.id)?._count._all ?? 0,
+  }));
+}
@@ -0,0 +1,160 @@
+import { z } from 'zod';
+import { taskEventSchema } from './schemas';
+import { prisma } from './prisma';
+import { connectRedis, connectSubscriber } from './redis';
+
+// Realtime task events, streamed to clients by GET /api/events. Every user
+// has a Redis stream of their recent events, which reconnecting clients
+// replay from their Last-Event-ID, and a pub/sub channel that live
+// connections on any app instance subscribe to. Event ids are the stream
+// entry ids, so they increase per user.
+//
+// Events only name the task; clients fetch it to see what changed. Publishing
+// never fails the request that changed the task: without Redis, events are
+// dropped and clients catch up on their next refetch.
+
+export type TaskEventType = z.infer<typeof taskEventSchema>['type'];
+
+export interface TaskEvent {
+  id: string;
+  type: TaskEventType;
+  task: EventTask;
+}
+
+type EventTask = {
+  id: string;
+  userId: string;
+  projectId: string | null;
+  parentId: string | null;
+  assigneeId: string | null;
+};
+
+// Events kept per user for replay, and how long after their last event
+const REPLAY_LENGTH = 500;
+const REPLAY_TTL = 24 * 60 * 60; // 1 day
+
+// Only the fields events carry, not the whole row
+const eventTask = ({ id, userId, projectId, parentId, assigneeId }: EventTask): EventTask => ({
+  id,
+  userId,
+  projectId,
+  parentId,
+  assigneeId,
+});
+
+const streamKey = (userId: string) => `events:${userId}`;
+const channelName = (userId: string) => `events:${userId}:live`;
+
+// Order of two event ids ("<ms>-<seq>"), like a comparator
+export function compareEventIds(a: string, b: string) {
+  const [aMs, aSeq] = a.split('-').map(Number);
+  const [bMs, bSeq] = b.split('-').map(Number);
+  return aMs - bMs || aSeq - bSeq;
+}
+
+// Users who can see each task: the creator of a personal task or the members
+// of the task's project, plus its assignee and watchers
+async function taskAudiences(tasks: EventTask[]) {
+  const projectIds = [...new Set(tasks.flatMap((task) => task.projectId ?? []))];
+  const [members, watchers] = await Promise.all([
+    prisma.projectMember.findMany({
+      where: { projectId: { in: projectIds } },
+      select: { projectId: true, userId: true },
+    }),
+    prisma.taskWatcher.findMany({
+      where: { taskId: { in: tasks.map((task) => task.id) } },
+      select: { taskId: true, userId: true },
+    }),
+  ]);
+
+  return tasks.map((task) => {
+    const audience = new Set(
+      task.projectId
+        ? members.filter((m) => m.projectId === task.projectId).map((m) => m.userId)
+        : [task.userId]
+    );
+    if (task.assigneeId) audience.add(task.assigneeId);
+    watchers.filter((w) => w.taskId === task.id).forEach((w) => audience.add(w.userId));
+    return audience;
+  });
+}
+
+// Send an event for each task to everyone who can see it. Pass a task before
+// and after a change to also reach the users who just lost sight of it; each
+// user gets one event per task.
+export async function publishTaskEvents(type: TaskEventType, tasks: EventTask[]) {
+  if (tasks.length === 0) return;
+
+  try {
+    const audiences = await taskAudiences(tasks);
+
+    // Latest version of each task per user
+    const outbox = new Map<string, Map<string, EventTask>>();
+    tasks.forEach((task, i) => {
+      for (const userId of audiences[i]) {
+        if (!outbox.has(userId)) outbox.set(userId, new Map());
+        outbox.get(userId)!.set(task.id, task);
+      }
+    });
+
+    const client = await connectRedis();
+    for (const [userId, userTasks] of outbox) {
+      for (const task of userTasks.values()) {
+        const event = { type, task: eventTask(task) };
+        const id = await client.xAdd(streamKey(userId), '*', { data: JSON.stringify(event) }, {
+          TRIM: { strategy: 'MAXLEN', strategyModifier: '~', threshold: REPLAY_LENGTH },
+        });
+        await client.expire(streamKey(userId), REPLAY_TTL);
+        await client.publish(channelName(userId), JSON.stringify({ id, ...event }));
+      }
+    }
+  } catch (error) {
+    console.error('Publish task events error:', error);
+  }
+}
+
+export const publishTaskEvent = (type: TaskEventType, task: EventTask) =>
+  publishTaskEvents(type, [task]);
+
+// The user's events after lastEventId, or null when some of them are no longer
+// kept and the client has to refetch instead
+export async function replayEvents(userId: string, lastEventId: string): Promise<TaskEvent[] | null> {
+  try {
+    const client = await connectRedis();
+    const entries = await client.xRange(streamKey(userId), '-', '+');
+
+    const kept = entries.length > 0 && compareEventIds(entries[0].id, lastEventId) <= 0;
+    if (!kept) return null;
+
+    return entries
+      .filter((entry) => compareEventIds(entry.id, lastEventId) > 0)
+      .map((entry) => ({ id: entry.id, ...JSON.parse(entry.message.data) }));
+  } catch (error) {
+    console.error('Replay events error:', error);
+    return null;
+  }
+}
+
+// Call listener with the user's events as they are published. Returns the
+// function that stops listening.
+export async function subscribeToEvents(
+  userId: string,
+  listener: (event: TaskEvent) => void
+): Promise<() => Promise<void>> {
+  const onMessage = (message: string) => listener(JSON.parse(message));
+
+  try {
+    const subscriber = await connectSubscriber();
+    await subscriber.subscribe(channelName(userId), onMessage);
+    return async () => {
+      try {
+        await subscriber.unsubscribe(channelName(userId), onMessage);
+      } catch (error) {
+        console.error('Unsubscribe events error:', error);
+      }
+    };
+  } catch (error) {
+    console.error('Subscribe events error:', error);
+    return async () => {};
+  }
+}
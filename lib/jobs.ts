@@ -0,0 +1,77 @@
+import { z } from 'zod';
+import { jobNameSchema } from './schemas';
+import { acquireLock, releaseLock } from './cache';
+import { generateDueOccurrences } from './recurrence';
+import { purgeTrash, TRASH_RETENTION_DAYS } from './trash';
+import { deliverDueWebhooks } from './webhooks';
+import { DUE_REMINDER_HOURS, notifyDueTasks } from './notifications';
+import { sendQueuedMail, SENT_RETENTION_DAYS } from './mail';
+
+// Background jobs. A scheduler (cron or similar) runs them periodically with
+// POST /api/jobs/{name}, authenticated by CRON_SECRET, or from a shell with
+// `npm run job -- <name>`.
+//
+// Runs of the same job are serialized by a Redis lock, so several app
+// instances can share one schedule. Without Redis a job still runs; every job
+// has to be safe to run twice anyway, since a lock can expire mid-run.
+
+interface Job {
+  description: string;
+  // Upper bound on a run; the lock expires after this long
+  timeoutSeconds: number;
+  run: () => Promise<Record<string, number>>;
+}
+
+export type JobName = z.infer<typeof jobNameSchema>;
+
+export const JOBS: Record<JobName, Job> = {
+  recurrence: {
+    description: 'Generate the next occurrence of recurring tasks that have fallen due',
+    timeoutSeconds: 300,
+    run: () => generateDueOccurrences(),
+  },
+  purge: {
+    description: `Delete tasks and users that have been in the trash for ${TRASH_RETENTION_DAYS} days`,
+    timeoutSeconds: 600,
+    run: () => purgeTrash(),
+  },
+  webhooks: {
+    description: 'Send the webhook deliveries that are due, including retries',
+    timeoutSeconds: 900,
+    run: () => deliverDueWebhooks(),
+  },
+  notifications: {
+    description: `Remind users of open tasks due in the next ${DUE_REMINDER_HOURS} hours, and delete old read notifications`,
+    timeoutSeconds: 600,
+    run: () => notifyDueTasks(),
+  },
+  mail: {
+    description: `Send the queued emails that are due, including retries, and delete emails sent or given up on more than ${SENT_RETENTION_DAYS} days ago`,
+    timeoutSeconds: 900,
+    run: () => sendQueuedMail(),
+  },
+};
+
+export const isJobName = (name: string): name is JobName => jobNameSchema.safeParse(name).success;
+
+export type JobRun =
+  | { status: 'completed'; result: Record<string, number>; durationMs: number }
+  | { status: 'skipped'; reason: string };
+
+export async function runJob(name: JobName): Promise<JobRun> {
+  const job = JOBS[name];
+  const lock = await acquireLock(`job:${name}`, job.timeoutSeconds);
+  if (lock.status === 'held') {
+    return { status: 'skipped', reason: 'Already running' };
+  }
+
+  const startedAt = Date.now();
+  try {
+    const result = await job.run();
+    return { status: 'completed', result, durationMs: Date.now() - startedAt };
+  } finally {
+    if (lock.status === 'acquired') {
+      await releaseLock(`job:${name}`, lock.token);
+    }
+  }
+}
@@ -0,0 +1,87 @@
+import { Label, Prisma } from '@prisma/client';
+import { prisma } from './prisma';
+import { canEditProjectTasks, getProjectRole } from './permissions';
+
+// Colored labels on tasks. Personal labels belong to a user and go on their
+// personal tasks; project labels go on the project's tasks. Project members
+// see the project's labels, owners and editors manage them.
+
+export type LabelMatch = 'any' | 'all';
+
+export const labelSelect = {
+  id: true,
+  name: true,
+  color: true,
+} satisfies Prisma.LabelSelect;
+
+// Tasks carrying any or all of the labels
+export function labelFilterWhere(labelIds: string[], match: LabelMatch = 'any'): Prisma.TaskWhereInput {
+  if (match === 'all') {
+    return { AND: labelIds.map((id) => ({ labels: { some: { id } } })) };
+  }
+  return { labels: { some: { id: { in: labelIds } } } };
+}
+
+// What the user may do with a label: 'edit' for the owner of a personal
+// label and project owners and editors, 'view' for other project members
+export async function labelAccess(
+  label: Pick<Label, 'userId' | 'projectId'>,
+  userId: string
+): Promise<'view' | 'edit' | null> {
+  if (label.projectId) {
+    const role = await getProjectRole(label.projectId, userId);
+    if (!role) return null;
+    return canEditProjectTasks(role) ? 'edit' : 'view';
+  }
+  return label.userId === userId ? 'edit' : null;
+}
+
+// Check that labels can go on a task: they must exist and belong to the
+// task's project, or to the task's owner for personal tasks. Returns the
+// error message to respond with, or null.
+export async function checkTaskLabels(
+  task: { userId: string; projectId: string | null },
+  labelIds: string[]
+): Promise<string | null> {
+  const ids = [...new Set(labelIds)];
+  if (ids.length === 0) return null;
+
+  const found = await prisma.label.count({
+    where: {
+      id: { in: ids },
+      ...(task.projectId ? { projectId: task.projectId } : { userId: task.userId }),
+    },
+  });
+
+  return found === ids.length ? null : 'Labels must belong to the task project or its owner';
+}
+
+export type LabelTaskStats = {
+  id: string;
+  name: string;
+  color: string;
+  userId: string | null;
+  projectId: string | null;
+  total: number;
+  open: number;
+  inProgress: number;
+  done: number;
+};
+
+// Task counts per label for the admin stats, most used labels first
+export async function labelTaskStats(limit: number): Promise<LabelTaskStats[]> {
+  return prisma.$queryRaw<LabelTaskStats[]>`
+    SELECT
+      l."id", l."name", l."color", l."userId", l."projectId",
+      COUNT(*)::int AS "total",
+      COUNT(*) FILTER (WHERE t."status" = 'OPEN')::int AS "open",
+      COUNT(*) FILTER (WHERE t."status" = 'IN_PROGRESS')::int AS "inProgress",
+      COUNT(*) FILTER (WHERE t."status" = 'DONE')::int AS "done"
+    FROM "Label" l
+    JOIN "_LabelToTask" lt ON lt."A" = l."id"
+    JOIN "Task" t ON t."id" = lt."B" AND t."deletedAt" IS NULL
+    GROUP BY l."id"
+    ORDER BY "total" DESC, l."name" ASC
+    LIMIT ${limit}
+  `;
+}
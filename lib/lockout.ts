@@ -0,0 +1,123 @@
+import {
+  getLoginAttempts,
+  recordLoginFailure,
+  lockLoginSubject,
+  clearLoginAttempts,
+  LoginAttemptState,
+} from './cache';
+
+function envNumber(name: string, fallback: number): number {
+  const value = Number(process.env[name]);
+  return value > 0 ? value : fallback;
+}
+
+export const LOGIN_LOCKOUT = {
+  maxEmailFailures: envNumber('LOGIN_MAX_FAILURES', 5),
+  maxIpFailures: envNumber('LOGIN_MAX_IP_FAILURES', 20),
+  lockSeconds: envNumber('LOGIN_LOCK_SECONDS', 15 * 60),
+  backoffBaseSeconds: 1,
+  backoffMaxSeconds: 60,
+  // Failures are forgotten after this long without a new one
+  failureWindowSeconds: 60 * 60,
+};
+
+export type LoginGate =
+  | { allowed: true }
+  | { allowed: false; locked: boolean; retryAfter: number };
+
+export interface AccountLockout {
+  failedAttempts: number;
+  locked: boolean;
+  lockedUntil: string | null;
+}
+
+const emailSubject = (email: string) => `email:${email.trim().toLowerCase()}`;
+
+// The IP comes from getClientInfo, which only trusts the X-Forwarded-For
+// entries added by our own proxies. An IPv6 client usually holds a whole /64,
+// so its addresses share one subject rather than each getting a fresh count.
+function ipSubject(ip: string) {
+  const address = ip.split('%')[0].toLowerCase();
+  if (!address.includes(':') || address.includes('.')) return `ip:${address}`;
+
+  const [head, tail] = address.split('::');
+  const headGroups = head ? head.split(':') : [];
+  const tailGroups = tail ? tail.split(':') : [];
+  const groups =
+    tail === undefined
+      ? headGroups
+      : [...headGroups, ...Array(8 - headGroups.length - tailGroups.length).fill('0'), ...tailGroups];
+
+  const prefix = groups.slice(0, 4).map((group) => parseInt(group, 16).toString(16));
+  return `ip:${prefix.join(':')}::/64`;
+}
+
+function isLocked(state: LoginAttemptState | null, now: number) {
+  return !!state && state.lockedUntil > now;
+}
+
+// Exponential backoff between failed attempts on the same email: 1s, 2s, 4s...
+function backoffUntil(state: LoginAttemptState) {
+  const delaySeconds = Math.min(
+    LOGIN_LOCKOUT.backoffBaseSeconds * 2 ** (state.failures - 1),
+    LOGIN_LOCKOUT.backoffMaxSeconds
+  );
+  return state.lastFailureAt + delaySeconds * 1000;
+}
+
+export async function checkLoginAllowed(email: string, ip: string | null): Promise<LoginGate> {
+  const now = Date.now();
+  const [emailState, ipState] = await getLoginAttempts(
+    ip ? [emailSubject(email), ipSubject(ip)] : [emailSubject(email)]
+  );
+
+  const lockedUntil = Math.max(
+    isLocked(emailState, now) ? emailState!.lockedUntil : 0,
+    isLocked(ipState, now) ? ipState!.lockedUntil : 0
+  );
+  if (lockedUntil > now) {
+    return { allowed: false, locked: true, retryAfter: Math.ceil((lockedUntil - now) / 1000) };
+  }
+
+  if (emailState) {
+    const nextAttemptAt = backoffUntil(emailState);
+    if (nextAttemptAt > now) {
+      return { allowed: false, locked: false, retryAfter: Math.ceil((nextAttemptAt - now) / 1000) };
+    }
+  }
+
+  return { allowed: true };
+}
+
+export async function registerLoginFailure(email: string, ip: string | null) {
+  const ttlSeconds = Math.max(LOGIN_LOCKOUT.failureWindowSeconds, LOGIN_LOCKOUT.lockSeconds);
+  const lockedUntil = Date.now() + LOGIN_LOCKOUT.lockSeconds * 1000;
+
+  const subjects: [string, number][] = [[emailSubject(email), LOGIN_LOCKOUT.maxEmailFailures]];
+  if (ip) {
+    subjects.push([ipSubject(ip), LOGIN_LOCKOUT.maxIpFailures]);
+  }
+
+  await Promise.all(
+    subjects.map(async ([subject, maxFailures]) => {
+      const state = await recordLoginFailure(subject, ttlSeconds);
+      if (state && state.failures >= maxFailures) {
+        await lockLoginSubject(subject, lockedUntil, ttlSeconds);
+      }
+    })
+  );
+}
+
+export async function clearLoginFailures(email: string) {
+  await clearLoginAttempts(emailSubject(email));
+}
+
+export async function getAccountLockouts(emails: string[]): Promise<AccountLockout[]> {
+  const now = Date.now();
+  const states = await getLoginAttempts(emails.map(emailSubject));
+  return states.map((state) => ({
+    failedAttempts: state?.failures ?? 0,
+    locked: isLocked(state, now),
+    lockedUntil: isLocked(state, now) ? new Date(state!.lockedUntil).toISOString() : null,
+  }));
+}
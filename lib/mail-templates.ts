@@ -0,0 +1,110 @@
+import { NotificationType } from '@prisma/client';
+
+// Email templates. Each one turns its data into a subject and a short body of
+// paragraphs with an optional button, rendered to both text and HTML by
+// renderMail, so every email shares one layout.
+
+export interface MailTemplates {
+  invitation: { inviterEmail: string; role: string; acceptUrl: string; expiresAt: Date };
+  notification: { name: string | null; type: NotificationType; message: string; url: string };
+  passwordReset: { name: string | null; resetUrl: string; expiresAt: Date };
+}
+
+export type MailTemplateName = keyof MailTemplates;
+
+export interface RenderedMail {
+  subject: string;
+  text: string;
+  html: string;
+}
+
+interface MailContent {
+  subject: string;
+  greeting?: string;
+  paragraphs: string[];
+  action?: { label: string; url: string };
+  footer?: string;
+}
+
+const NOTIFICATION_SUBJECTS: Record<NotificationType, string> = {
+  TASK_ASSIGNED: 'A task was assigned to you',
+  TASK_DUE_SOON: 'A task is due soon',
+  PASSWORD_RESET: 'Your password was reset',
+  ROLE_CHANGED: 'Your role was changed',
+};
+
+const greet = (name: string | null) => (name ? `Hi ${name},` : 'Hi,');
+
+const templates: { [K in MailTemplateName]: (data: MailTemplates[K]) => MailContent } = {
+  invitation: ({ inviterEmail, role, acceptUrl, expiresAt }) => ({
+    subject: "You're invited to Task Manager",
+    paragraphs: [
+      `${inviterEmail} invited you to join Task Manager${role === 'ADMIN' ? ' as an admin' : ''}.`,
+      `The invitation expires ${expiresAt.toUTCString()}.`,
+    ],
+    action: { label: 'Accept invitation', url: acceptUrl },
+    footer: "If you weren't expecting this invitation, you can ignore this email.",
+  }),
+
+  notification: ({ name, type, message, url }) => ({
+    subject: NOTIFICATION_SUBJECTS[type],
+    greeting: greet(name),
+    paragraphs: [message],
+    action: { label: 'Open Task Manager', url },
+    footer: 'You get these emails because you turned them on in your notification settings.',
+  }),
+
+  passwordReset: ({ name, resetUrl, expiresAt }) => ({
+    subject: 'Reset your Task Manager password',
+    greeting: greet(name),
+    paragraphs: [
+      'Someone asked to reset the password of your Task Manager account.',
+      `The link works once and expires ${expiresAt.toUTCString()}.`,
+    ],
+    action: { label: 'Reset password', url: resetUrl },
+    footer: "If you didn't ask for this, you can ignore this email; your password stays the same.",
+  }),
+};
+
+const escapeHtml = (text: string) =>
+  text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+
+function toText({ greeting, paragraphs, action, footer }: MailContent) {
+  return [
+    ...(greeting ? [greeting] : []),
+    ...paragraphs,
+    ...(action ? [`${action.label}: ${action.url}`] : []),
+    ...(footer ? [`--\n${footer}`] : []),
+  ].join('\n\n');
+}
+
+function toHtml({ subject, greeting, paragraphs, action, footer }: MailContent) {
+  const paragraph = (text: string) =>
+    `<p style="margin:0 0 16px;line-height:1.5">${escapeHtml(text)}</p>`;
+
+  return `<!DOCTYPE html>
+<html>
+<head><meta charset="utf-8"><title>${escapeHtml(subject)}</title></head>
+<body style="margin:0;padding:24px;background:#f4f4f5;font-family:Arial,sans-serif;color:#18181b">
+<div style="max-width:560px;margin:0 auto;padding:32px;background:#ffffff;border-radius:8px">
+${[...(greeting ? [greeting] : []), ...paragraphs].map(paragraph).join('\n')}
+${
+  action
+    ? `<p style="margin:24px 0"><a href="${escapeHtml(action.url)}" style="display:inline-block;padding:12px 20px;background:#2563eb;color:#ffffff;text-decoration:none;border-radius:6px">${escapeHtml(action.label)}</a></p>`
+    : ''
+}
+${footer ? `<p style="margin:24px 0 0;font-size:12px;color:#71717a">${escapeHtml(footer)}</p>` : ''}
+</div>
+</body>
+</html>`;
+}
+
+export function renderMail<K extends MailTemplateName>(template: K, data: MailTemplates[K]): RenderedMail {
+  const content = templates[template](data);
+  return { subject: content.subject, text: toText(content), html: toHtml(content) };
+}
@@ -0,0 +1,120 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+const { prisma } = vi.hoisted(() => ({
+  prisma: {
+    outboxEmail: {
+      createManyAndReturn: vi.fn(),
+      updateMany: vi.fn(),
+      findUniqueOrThrow: vi.fn(),
+      update: vi.fn(),
+      findMany: vi.fn(),
+      deleteMany: vi.fn(),
+    },
+  },
+}));
+
+vi.mock('./prisma', () => ({ prisma }));
+
+import { attemptSend, MAX_ATTEMPTS, memoryTransport, queueMail, setMailTransport } from './mail';
+
+const queued = (attempts = 0) => ({
+  id: 'email-1',
+  to: 'user@example.com',
+  subject: 'Reset your password',
+  text: 'https://app.example.com/reset-password?token=secret',
+  html: '<a href="https://app.example.com/reset-password?token=secret">Reset</a>',
+  attempts,
+});
+
+const failingTransport = { send: vi.fn().mockRejectedValue(new Error('Connection refused')) };
+
+describe('attemptSend', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    prisma.outboxEmail.updateMany.mockResolvedValue({ count: 1 });
+    prisma.outboxEmail.findUniqueOrThrow.mockResolvedValue(queued());
+  });
+
+  it('sends the email and clears its content', async () => {
+    const transport = memoryTransport();
+    setMailTransport(transport);
+
+    expect(await attemptSend('email-1')).toBe('SENT');
+    expect(transport.sent).toEqual([expect.objectContaining({ to: 'user@example.com', text: queued().text })]);
+    expect(prisma.outboxEmail.update).toHaveBeenCalledWith({
+      where: { id: 'email-1' },
+      data: expect.objectContaining({ status: 'SENT', attempts: 1, text: '', html: '' }),
+    });
+  });
+
+  it('keeps the content of an email to retry', async () => {
+    setMailTransport(failingTransport);
+
+    expect(await attemptSend('email-1')).toBe('PENDING');
+    const [{ data }] = prisma.outboxEmail.update.mock.calls[0];
+    expect(data).toMatchObject({ status: 'PENDING', attempts: 1, lastError: 'Connection refused' });
+    expect(data).not.toHaveProperty('text');
+  });
+
+  it('gives up after the last attempt and clears the content', async () => {
+    setMailTransport(failingTransport);
+    prisma.outboxEmail.findUniqueOrThrow.mockResolvedValue(queued(MAX_ATTEMPTS - 1));
+
+    expect(await attemptSend('email-1')).toBe('FAILED');
+    expect(prisma.outboxEmail.update).toHaveBeenCalledWith({
+      where: { id: 'email-1' },
+      data: expect.objectContaining({ status: 'FAILED', nextAttemptAt: null, text: '', html: '' }),
+    });
+  });
+
+  it('leaves an email being sent elsewhere alone', async () => {
+    const transport = memoryTransport();
+    setMailTransport(transport);
+    prisma.outboxEmail.updateMany.mockResolvedValue({ count: 0 });
+
+    expect(await attemptSend('email-1')).toBeNull();
+    expect(transport.sent).toEqual([]);
+  });
+});
+
+describe('queueMail', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    prisma.outboxEmail.updateMany.mockResolvedValue({ count: 1 });
+    prisma.outboxEmail.findUniqueOrThrow.mockResolvedValue(queued());
+  });
+
+  it('queues the email and sends it right away', async () => {
+    const transport = memoryTransport();
+    setMailTransport(transport);
+    prisma.outboxEmail.createManyAndReturn.mockResolvedValue([{ id: 'email-1' }]);
+
+    await queueMail('user@example.com', 'passwordReset', {
+      name: null,
+      resetUrl: 'https://app.example.com/reset-password?token=secret',
+      expiresAt: new Date(),
+    });
+
+    expect(prisma.outboxEmail.createManyAndReturn).toHaveBeenCalledWith(
+      expect.objectContaining({ data: [expect.objectContaining({ template: 'passwordReset' })] })
+    );
+    expect(transport.sent).toHaveLength(1);
+  });
+
+  it("doesn't send an email queued before under the same dedupe key", async () => {
+    const transport = memoryTransport();
+    setMailTransport(transport);
+    prisma.outboxEmail.createManyAndReturn.mockResolvedValue([]);
+
+    await queueMail(
+      'user@example.com',
+      'passwordReset',
+      { name: null, resetUrl: 'https://app.example.com/', expiresAt: new Date() },
+      { dedupeKey: 'once' }
+    );
+
+    expect(prisma.outboxEmail.updateMany).not.toHaveBeenCalled();
+    expect(transport.sent).toEqual([]);
+  });
+});
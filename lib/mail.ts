@@ -0,0 +1,293 @@
+import { mkdir, writeFile } from 'fs/promises';
+import path from 'path';
+import { OutboxEmailStatus } from '@prisma/client';
+import { prisma } from './prisma';
+import { parseSmtpUrl, sendSmtp } from './smtp';
+import { MailTemplateName, MailTemplates, renderMail } from './mail-templates';
+
+// Email. Requests queue emails in the outbox table and usually try to send
+// them right away; the `mail` job sends the rest and retries what fails with
+// exponential backoff, so a mail server outage never fails the request that
+// sent the email. Emails can carry links with tokens in them (password resets,
+// invitations), so their text and HTML are cleared once they are sent or
+// given up on; the rest of the row stays as a record.
+//
+// Emails go out through the transport MAIL_TRANSPORT names:
+// - smtp: the relay at SMTP_URL; the default when SMTP_URL is set
+// - file: .eml files in MAIL_DIR, to open with a mail client
+// - console: the text part in the server log; the default otherwise
+// - memory: kept in memory, for tests (see memoryTransport)
+
+export interface OutgoingEmail {
+  id: string;
+  from: string;
+  to: string;
+  subject: string;
+  text: string;
+  html: string;
+}
+
+export interface MailTransport {
+  send(email: OutgoingEmail): Promise<void>;
+}
+
+export const MAIL_FROM = process.env.MAIL_FROM || 'Task Manager <no-reply@localhost>';
+export const MAX_ATTEMPTS = 6;
+export const SENT_RETENTION_DAYS = 30;
+
+const FIRST_RETRY_MS = 60 * 1000;
+// An attempt holds its email this long, so a request and the job can't both
+// send it
+const SEND_LEASE_MS = 5 * 60 * 1000;
+// Emails sent per job run; the rest wait for the next run
+const JOB_BATCH_SIZE = 50;
+
+// Absolute URL of an app page, for links in emails
+export const appUrl = (pathname: string) =>
+  new URL(pathname, process.env.APP_URL || 'http://localhost:3000').toString();
+
+// 1 minute, then 4, 16, 64 and 256 minutes
+const retryDelay = (attempts: number) => FIRST_RETRY_MS * 4 ** (attempts - 1);
+
+// What an email keeps of its content once it's done with
+const clearedBody = { text: '', html: '' };
+
+// ============================================
+// Messages
+// ============================================
+
+// The address of a mailbox written as "Name <address>"
+const mailboxAddress = (mailbox: string) => mailbox.match(/<([^>]+)>/)?.[1] ?? mailbox;
+
+// Header values on one line, with non-ASCII text as an RFC 2047 encoded word
+function encodeHeader(value: string) {
+  const line = value.replace(/[\r\n]+/g, ' ');
+  return /^[\x20-\x7e]*$/.test(line) ? line : `=?UTF-8?B?${Buffer.from(line).toString('base64')}?=`;
+}
+
+const base64Lines = (text: string) =>
+  Buffer.from(text).toString('base64').replace(/.{76}/g, '$&\r\n');
+
+// The email as an RFC 5322 message with text and HTML alternatives
+export function toMime(email: OutgoingEmail) {
+  const boundary = `=_${email.id}`;
+  const domain = mailboxAddress(email.from).split('@')[1] || 'localhost';
+
+  return [
+    `From: ${encodeHeader(email.from)}`,
+    `To: ${encodeHeader(email.to)}`,
+    `Subject: ${encodeHeader(email.subject)}`,
+    `Date: ${new Date().toUTCString()}`,
+    `Message-ID: <${email.id}@${domain}>`,
+    'MIME-Version: 1.0',
+    `Content-Type: multipart/alternative; boundary="${boundary}"`,
+    '',
+    `--${boundary}`,
+    'Content-Type: text/plain; charset=utf-8',
+    'Content-Transfer-Encoding: base64',
+    '',
+    base64Lines(email.text),
+    `--${boundary}`,
+    'Content-Type: text/html; charset=utf-8',
+    'Content-Transfer-Encoding: base64',
+    '',
+    base64Lines(email.html),
+    `--${boundary}--`,
+    '',
+  ].join('\r\n');
+}
+
+// ============================================
+// Transports
+// ============================================
+
+export function smtpTransport(url: string): MailTransport {
+  const options = parseSmtpUrl(url);
+  return {
+    send: (email) =>
+      sendSmtp(options, { from: mailboxAddress(email.from), to: [email.to] }, toMime(email)),
+  };
+}
+
+export function fileTransport(dir: string): MailTransport {
+  return {
+    async send(email) {
+      await mkdir(dir, { recursive: true });
+      await writeFile(path.join(dir, `${Date.now()}-${email.id}.eml`), toMime(email));
+    },
+  };
+}
+
+export const consoleTransport: MailTransport = {
+  async send(email) {
+    console.log(`Email to ${email.to}: ${email.subject}\n\n${email.text}\n`);
+  },
+};
+
+// Keeps what it sends in `sent`
+export function memoryTransport() {
+  const sent: OutgoingEmail[] = [];
+  return {
+    sent,
+    async send(email: OutgoingEmail) {
+      sent.push(email);
+    },
+  };
+}
+
+function transportFromEnv(): MailTransport {
+  const name = process.env.MAIL_TRANSPORT || (process.env.SMTP_URL ? 'smtp' : 'console');
+  switch (name) {
+    case 'smtp':
+      if (!process.env.SMTP_URL) throw new Error('MAIL_TRANSPORT=smtp needs SMTP_URL');
+      return smtpTransport(process.env.SMTP_URL);
+    case 'file':
+      return fileTransport(process.env.MAIL_DIR || 'tmp/mail');
+    case 'console':
+      return consoleTransport;
+    case 'memory':
+      return memoryTransport();
+    default:
+      throw new Error(`Unknown MAIL_TRANSPORT "${name}"`);
+  }
+}
+
+let transport: MailTransport | null = null;
+
+export const getMailTransport = () => (transport ??= transportFromEnv());
+
+// Send through another transport from now on, e.g. a memoryTransport() in tests
+export function setMailTransport(next: MailTransport) {
+  transport = next;
+}
+
+// ============================================
+// Outbox
+// ============================================
+
+// Queue an email from a template for the `mail` job to send. An email with
+// the dedupe key of one queued before is dropped. Returns the id of the queued
+// email, or null. Never throws.
+export async function enqueueMail<K extends MailTemplateName>(
+  to: string,
+  template: K,
+  data: MailTemplates[K],
+  options: { dedupeKey?: string } = {}
+) {
+  try {
+    const [email] = await prisma.outboxEmail.createManyAndReturn({
+      data: [{ to, template, ...renderMail(template, data), dedupeKey: options.dedupeKey }],
+      skipDuplicates: true,
+      select: { id: true },
+    });
+    return email?.id ?? null;
+  } catch (error) {
+    console.error('Queue mail error:', error);
+    return null;
+  }
+}
+
+// Queue an email like enqueueMail and try to send it now. Never throws.
+export async function queueMail<K extends MailTemplateName>(
+  to: string,
+  template: K,
+  data: MailTemplates[K],
+  options: { dedupeKey?: string } = {}
+) {
+  const id = await enqueueMail(to, template, data, options);
+  if (!id) return;
+
+  try {
+    await attemptSend(id);
+  } catch (error) {
+    console.error('Send mail error:', error);
+  }
+}
+
+// Send a pending email that is due and record the outcome. Returns the new
+// status, or null when the email isn't pending, isn't due or is being sent
+// elsewhere.
+export async function attemptSend(id: string): Promise<OutboxEmailStatus | null> {
+  const now = new Date();
+  const { count } = await prisma.outboxEmail.updateMany({
+    where: { id, status: 'PENDING', nextAttemptAt: { lte: now } },
+    data: { nextAttemptAt: new Date(now.getTime() + SEND_LEASE_MS) },
+  });
+  if (count === 0) return null;
+
+  const email = await prisma.outboxEmail.findUniqueOrThrow({ where: { id } });
+  const attempts = email.attempts + 1;
+
+  try {
+    await getMailTransport().send({
+      id,
+      from: MAIL_FROM,
+      to: email.to,
+      subject: email.subject,
+      text: email.text,
+      html: email.html,
+    });
+  } catch (error) {
+    const failed = attempts >= MAX_ATTEMPTS;
+    await prisma.outboxEmail.update({
+      where: { id },
+      data: {
+        status: failed ? 'FAILED' : 'PENDING',
+        attempts,
+        nextAttemptAt: failed ? null : new Date(Date.now() + retryDelay(attempts)),
+        lastError: error instanceof Error ? error.message : String(error),
+        ...(failed && clearedBody),
+      },
+    });
+    return failed ? 'FAILED' : 'PENDING';
+  }
+
+  await prisma.outboxEmail.update({
+    where: { id },
+    data: {
+      status: 'SENT',
+      attempts,
+      nextAttemptAt: null,
+      sentAt: new Date(),
+      lastError: null,
+      ...clearedBody,
+    },
+  });
+  return 'SENT';
+}
+
+// Send the emails that are due, then delete emails sent or given up on more
+// than SENT_RETENTION_DAYS ago. Run by the `mail` job.
+export async function sendQueuedMail() {
+  const due = await prisma.outboxEmail.findMany({
+    where: { status: 'PENDING', nextAttemptAt: { lte: new Date() } },
+    select: { id: true },
+    orderBy: { nextAttemptAt: 'asc' },
+    take: JOB_BATCH_SIZE,
+  });
+
+  const counts = { sent: 0, retrying: 0, failed: 0 };
+  for (const { id } of due) {
+    try {
+      const status = await attemptSend(id);
+      if (status === 'SENT') counts.sent++;
+      else if (status === 'PENDING') counts.retrying++;
+      else if (status === 'FAILED') counts.failed++;
+    } catch (error) {
+      // Still pending, so a later run picks it up once the lease expires
+      console.error(`Send mail ${id} error:`, error);
+    }
+  }
+
+  const retainedSince = new Date(Date.now() - SENT_RETENTION_DAYS * 24 * 60 * 60 * 1000);
+  const { count: deleted } = await prisma.outboxEmail.deleteMany({
+    where: {
+      OR: [
+        { status: 'SENT', sentAt: { lt: retainedSince } },
+        { status: 'FAILED', createdAt: { lt: retainedSince } },
+      ],
+    },
+  });
+
+  return { ...counts, deleted };
+}
@@ -1,5 +1,14 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { verifyToken, JWTPayload } from './auth';
+import { verifyToken, JWTPayload, REFRESH_TOKEN_TTL } from './auth';
+import { validateSession } from './cache';
+import {
+  RateLimitRule,
+  RATE_LIMITS,
+  consumeRateLimit,
+  rateLimitExceeded,
+  setRateLimitHeaders,
+} from './rate-limit';
+import { ValidationSchemas, RouteInput, parseRouteInput } from './validation';
 
 export function getAuthToken(request: NextRequest): string | null {
   const authHeader = request.headers.get('authorization');
@@ -9,10 +18,114 @@ export function getAuthToken(request: NextRequest): string | null {
   return authHeader.substring(7);
 }
 
-export function requireAuth(
-  handler: (request: NextRequest, user: JWTPayload, context?: any) => Promise<NextResponse>
+// Reverse proxies in front of the app that append the address they see to
+// X-Forwarded-For. Entries left of theirs come from the client and can say
+// anything, so the client address is the entry this many places from the
+// right. Without a proxy the right-most entry is used: Next.js records the
+// socket address there, but only when the request has no X-Forwarded-For of
+// its own, so run public deployments behind a proxy that sets the header.
+const TRUSTED_PROXY_HOPS = Math.max(Number(process.env.TRUSTED_PROXY_HOPS) || 0, 0);
+
+export function getClientInfo(request: NextRequest) {
+  const forwardedFor = (request.headers.get('x-forwarded-for') ?? '')
+    .split(',')
+    .map((entry) => entry.trim())
+    .filter(Boolean);
+  // Fewer entries than proxies means an inner proxy was reached directly
+  const ip = forwardedFor[Math.max(forwardedFor.length - Math.max(TRUSTED_PROXY_HOPS, 1), 0)];
+  return {
+    ip: ip || null,
+    userAgent: request.headers.get('user-agent'),
+  };
+}
+
+export const REFRESH_COOKIE_NAME = 'refresh_token';
+
+export function getRefreshToken(request: NextRequest): string | null {
+  return request.cookies.get(REFRESH_COOKIE_NAME)?.value ?? null;
+}
+
+export function setRefreshCookie(response: NextResponse, refreshToken: string) {
+  response.cookies.set(REFRESH_COOKIE_NAME, refreshToken, {
+    httpOnly: true,
+    secure: process.env.NODE_ENV === 'production',
+    sameSite: 'strict',
+    path: '/api/auth',
+    maxAge: REFRESH_TOKEN_TTL,
+  });
+  return response;
+}
+
+export function clearRefreshCookie(response: NextResponse) {
+  response.cookies.set(REFRESH_COOKIE_NAME, '', {
+    httpOnly: true,
+    secure: process.env.NODE_ENV === 'production',
+    sameSite: 'strict',
+    path: '/api/auth',
+    maxAge: 0,
+  });
+  return response;
+}
+
+export interface RouteOptions<B = undefined, Q = undefined> extends ValidationSchemas<B, Q> {
+  rateLimit?: RateLimitRule;
+}
+
+type PublicHandler<B, Q> = (
+  request: NextRequest,
+  context: unknown,
+  input: RouteInput<B, Q>
+) => Promise<NextResponse>;
+
+type AuthHandler<B, Q> = (
+  request: NextRequest,
+  user: JWTPayload,
+  context: any,
+  input: RouteInput<B, Q>
+) => Promise<NextResponse>;
+
+// Apply the rate limit, then validation, then run the handler
+async function runRoute<B, Q>(
+  request: NextRequest,
+  options: RouteOptions<B, Q>,
+  identifier: string,
+  run: (input: RouteInput<B, Q>) => Promise<NextResponse>
+) {
+  const execute = async () => {
+    const parsed = await parseRouteInput(request, options);
+    if ('response' in parsed) return parsed.response;
+    return run(parsed.input);
+  };
+
+  if (!options.rateLimit) return execute();
+
+  const result = await consumeRateLimit(options.rateLimit, identifier);
+  if (!result.allowed) {
+    return rateLimitExceeded(result);
+  }
+  return setRateLimitHeaders(await execute(), result);
+}
+
+// Rate limit a public route by client IP
+export function withRateLimit<B = undefined, Q = undefined>(
+  rule: RateLimitRule,
+  handler: PublicHandler<B, Q>,
+  options: ValidationSchemas<B, Q> = {}
+) {
+  return async (request: NextRequest, context?: unknown) => {
+    const { ip } = getClientInfo(request);
+    return runRoute(request, { ...options, rateLimit: rule }, ip ?? 'unknown', (input) =>
+      handler(request, context, input)
+    );
+  };
+}
+
+function authenticated<B, Q>(
+  handler: AuthHandler<B, Q>,
+  options: RouteOptions<B, Q>,
+  adminOnly: boolean
 ) {
-  return async (request: NextRequest, context?: any) => {
+  return async (request: NextRequest, context?: unknown) => {
     const token = getAuthToken(request);
 
     if (!token) {
@@ -24,27 +137,44 @@ export function requireAuth(
 
     const user = verifyToken(token);
 
-    if (!user) {
+    if (!user || !user.jti) {
       return NextResponse.json(
         { error: 'Invalid or expired token' },
         { status: 401 }
       );
     }
 
-    return handler(request, user, context);
-  };
-}
+    // Reject tokens whose session was revoked (logout, role change, password reset)
+    if (!(await validateSession(user.userId, user.jti))) {
+      return NextResponse.json(
+        { error: 'Session has been revoked' },
+        { status: 401 }
+      );
+    }
 
-export function requireAdmin(
-  handler: (request: NextRequest, user: JWTPayload, context?: any) => Promise<NextResponse>
-) {
-  return requireAuth(async (request: NextRequest, user: JWTPayload, context?: any) => {
-    if (user.role !== 'ADMIN') {
+    if (adminOnly && user.role !== 'ADMIN') {
       return NextResponse.json(
         { error: 'Admin access required' },
         { status: 403 }
       );
     }
-    return handler(request, user, context);
-  });
+
+    return runRoute(request, options, user.userId, (input) =>
+      handler(request, user, context, input)
+    );
+  };
+}
+
+export function requireAuth<B = undefined, Q = undefined>(
+  handler: AuthHandler<B, Q>,
+  options: RouteOptions<B, Q> = {}
+) {
+  return authenticated(handler, options, false);
+}
+
+export function requireAdmin<B = undefined, Q = undefined>(
+  handler: AuthHandler<B, Q>,
+  options: RouteOptions<B, Q> = {}
+) {
+  return authenticated(handler, { rateLimit: RATE_LIMITS.admin, ...options }, true);
 }
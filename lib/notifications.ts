@@ -0,0 +1,170 @@
+import { NotificationType, Prisma } from '@prisma/client';
+import { prisma } from './prisma';
+import { notificationTypeSchema } from './schemas';
+import { AuditActor } from './audit';
+import { appUrl, queueMail } from './mail';
+
+// Notifications: a user's feed of things that happened to them or their
+// tasks, shown by the bell in the dashboard and admin headers, and optionally
+// emailed. Users pick the channels of each type in their preferences; a type
+// with both turned off is never created. Like the audit log, notifying never
+// fails the request that triggered it.
+
+export const NOTIFICATION_TYPES = notificationTypeSchema.options;
+
+// How far ahead the `notifications` job reminds of due dates
+export const DUE_REMINDER_HOURS = 24;
+// Read notifications are deleted by the job after this long
+export const READ_RETENTION_DAYS = 90;
+
+export const notificationSelect = {
+  id: true,
+  type: true,
+  message: true,
+  taskId: true,
+  actorId: true,
+  readAt: true,
+  createdAt: true,
+} satisfies Prisma.NotificationSelect;
+
+export interface NewNotification {
+  userId: string;
+  type: NotificationType;
+  message: string;
+  taskId?: string | null;
+  actorId?: string | null;
+  dedupeKey?: string;
+}
+
+export type NotificationPreferences = Record<NotificationType, { inApp: boolean; email: boolean }>;
+
+const DEFAULT_CHANNELS = { inApp: true, email: false };
+
+// Every type, with the defaults for types the user never changed
+export async function getNotificationPreferences(userId: string): Promise<NotificationPreferences> {
+  const rows = await prisma.notificationPreference.findMany({
+    where: { userId },
+  });
+
+  return Object.fromEntries(
+    NOTIFICATION_TYPES.map((type) => {
+      const row = rows.find((pref) => pref.type === type);
+      return [type, row ? { inApp: row.inApp, email: row.email } : DEFAULT_CHANNELS];
+    })
+  ) as NotificationPreferences;
+}
+
+// Create the notifications and queue the emails their recipients want;
+// returns how many notifications were created. Deleted users and duplicate
+// dedupe keys are skipped.
+export async function notify(notifications: NewNotification[]) {
+  if (notifications.length === 0) return 0;
+
+  try {
+    const userIds = [...new Set(notifications.map((notification) => notification.userId))];
+    const [recipients, preferences] = await Promise.all([
+      prisma.user.findMany({
+        where: { id: { in: userIds }, deletedAt: null },
+        select: { id: true, email: true, name: true },
+      }),
+      prisma.notificationPreference.findMany({
+        where: { userId: { in: userIds } },
+        select: { userId: true, type: true, inApp: true, email: true },
+      }),
+    ]);
+
+    const channels = (notification: NewNotification) =>
+      preferences.find((pref) => pref.userId === notification.userId && pref.type === notification.type) ??
+      DEFAULT_CHANNELS;
+
+    let count = 0;
+    const inApp = notifications.filter(
+      (notification) =>
+        recipients.some((user) => user.id === notification.userId) && channels(notification).inApp
+    );
+    if (inApp.length > 0) {
+      ({ count } = await prisma.notification.createMany({
+        data: inApp,
+        skipDuplicates: true,
+      }));
+    }
+
+    for (const notification of notifications) {
+      const recipient = recipients.find((user) => user.id === notification.userId);
+      if (!recipient || !channels(notification).email) continue;
+
+      await queueMail(
+        recipient.email,
+        'notification',
+        {
+          name: recipient.name,
+          type: notification.type,
+          message: notification.message,
+          url: appUrl('/dashboard'),
+        },
+        { dedupeKey: notification.dedupeKey && `${notification.dedupeKey}:email` }
+      );
+    }
+
+    return count;
+  } catch (error) {
+    console.error('Notify error:', error);
+    return 0;
+  }
+}
+
+// Tell the assignee of a task that someone else assigned it to them
+export async function notifyAssignee(
+  task: { id: string; title: string; assigneeId: string | null },
+  actor: AuditActor
+) {
+  if (!task.assigneeId || task.assigneeId === actor.userId) return;
+
+  await notify([
+    {
+      userId: task.assigneeId,
+      type: 'TASK_ASSIGNED',
+      message: `${actor.email} assigned you "${task.title}"`,
+      taskId: task.id,
+      actorId: actor.userId,
+    },
+  ]);
+}
+
+// Remind the assignee (or, without one, the creator) of open tasks due in the
+// next DUE_REMINDER_HOURS, once per due date, and delete old read notifications.
+// Run by the `notifications` job.
+export async function notifyDueTasks() {
+  const now = new Date();
+  const until = new Date(now.getTime() + DUE_REMINDER_HOURS * 60 * 60 * 1000);
+
+  const tasks = await prisma.task.findMany({
+    where: {
+      deletedAt: null,
+      status: { not: 'DONE' },
+      dueDate: { gt: now, lte: until },
+    },
+    select: { id: true, title: true, dueDate: true, userId: true, assigneeId: true },
+  });
+
+  const reminded = await notify(
+    tasks.map((task) => {
+      const userId = task.assigneeId ?? task.userId;
+      return {
+        userId,
+        type: 'TASK_DUE_SOON' as const,
+        message: `"${task.title}" is due within ${DUE_REMINDER_HOURS} hours`,
+        taskId: task.id,
+        dedupeKey: `due-soon:${task.id}:${task.dueDate!.getTime()}:${userId}`,
+      };
+    })
+  );
+
+  const { count: deleted } = await prisma.notification.deleteMany({
+    where: {
+      readAt: { lt: new Date(now.getTime() - READ_RETENTION_DAYS * 24 * 60 * 60 * 1000) },
+    },
+  });
+
+  return { due: tasks.length, reminded, deleted };
+}
@@ -0,0 +1,1514 @@
+import { z } from 'zod';
+import {
+  schemaRegistry,
+  messageSchema,
+  paginationSchema,
+  userSchema,
+  userWithTimestampSchema,
+  taskSchema,
+  taskWithAssigneeSchema,
+  taskDetailSchema,
+  sessionSchema,
+  accountLockoutSchema,
+  invitationSchema,
+  auditEventSchema,
+  workflowSchema,
+  workflowDefinitionSchema,
+  labelSchema,
+  listLabelsQuerySchema,
+  createLabelSchema,
+  updateLabelSchema,
+  authResponseSchema,
+  registerSchema,
+  registerWithInviteSchema,
+  loginSchema,
+  forgotPasswordSchema,
+  resetPasswordWithTokenSchema,
+  changePasswordSchema,
+  createTaskSchema,
+  updateTaskSchema,
+  listTasksQuerySchema,
+  searchTasksQuerySchema,
+  taskSearchResultSchema,
+  projectSchema,
+  projectMemberSchema,
+  createProjectSchema,
+  updateProjectSchema,
+  addProjectMemberSchema,
+  updateProjectMemberSchema,
+  commentSchema,
+  createCommentSchema,
+  updateCommentSchema,
+  listCommentsQuerySchema,
+  taskHistoryQuerySchema,
+  deleteTaskQuerySchema,
+  taskEventSchema,
+  listTrashQuerySchema,
+  dependencyGraphSchema,
+  addDependencySchema,
+  checklistItemSchema,
+  createChecklistItemSchema,
+  updateChecklistItemSchema,
+  listAuditEventsQuerySchema,
+  listUsersQuerySchema,
+  listAllTasksQuerySchema,
+  userTasksQuerySchema,
+  updateUserSchema,
+  resetPasswordSchema,
+  createInvitationSchema,
+  webhookSchema,
+  webhookDeliverySchema,
+  webhookDeliveryStatusSchema,
+  createWebhookSchema,
+  updateWebhookSchema,
+  listWebhookDeliveriesQuerySchema,
+  notificationSchema,
+  notificationPreferencesSchema,
+  listNotificationsQuerySchema,
+  updateNotificationPreferencesSchema,
+  jobNameSchema,
+} from './schemas';
+
+// Every API route and the schemas it validates with. The OpenAPI document in
+// swagger.json is generated from this list: `npm run openapi:generate`.
+
+type Access = 'public' | 'user' | 'admin' | 'cron';
+
+interface ApiOperation {
+  method: 'get' | 'post' | 'patch' | 'put' | 'delete';
+  path: string;
+  tag: string;
+  summary: string;
+  description?: string;
+  access: Access;
+  cookie?: boolean; // Authenticated by the refresh token cookie
+  params?: Record<string, z.ZodType>; // Path parameters other than UUIDs
+  body?: z.ZodType;
+  query?: z.ZodObject;
+  responses: Record<number, { description: string; schema?: z.ZodType; contentType?: string }>;
+  errors?: Record<number, string>;
+}
+
+const ok = (description: string, schema?: z.ZodType, contentType?: string) => ({
+  description,
+  schema,
+  contentType,
+});
+
+const RATE_LIMITED = { 429: 'Rate limit exceeded' };
+
+const taskPageSchema = z.object({
+  tasks: z.array(taskWithAssigneeSchema),
+  nextCursor: z.uuid().nullable(),
+  cached: z.boolean(),
+});
+
+const purgeAtSchema = z.iso.datetime().describe('When the purge job deletes it for good');
+
+const NOT_A_MEMBER = { 404: 'Project not found or not a member' };
+
+const webhookSecretSchema = z.string().describe('Signing secret; only shown when generated');
+
+const healthSchema = z.object({
+  status: z.enum(['ok', 'degraded']),
+  timestamp: z.iso.datetime(),
+  services: z.object({ database: z.string(), redis: z.string() }),
+});
+
+export const apiOperations: ApiOperation[] = [
+  // ============================================
+  // Authentication
+  // ============================================
+  {
+    method: 'post',
+    path: '/api/auth/register',
+    tag: 'Authentication',
+    summary: 'Register a new user',
+    description: 'Self-registered accounts always get the USER role.',
+    access: 'public',
+    body: registerSchema,
+    responses: { 201: ok('User registered successfully', authResponseSchema) },
+    errors: { 409: 'User already exists', ...RATE_LIMITED },
+  },
+  {
+    method: 'post',
+    path: '/api/auth/register/invite',
+    tag: 'Authentication',
+    summary: 'Register with an invitation token',
+    access: 'public',
+    body: registerWithInviteSchema,
+    responses: { 201: ok('User registered successfully', authResponseSchema) },
+    errors: { 409: 'User already exists', ...RATE_LIMITED },
+  },
+  {
+    method: 'post',
+    path: '/api/auth/login',
+    tag: 'Authentication',
+    summary: 'Login user',
+    access: 'public',
+    body: loginSchema,
+    responses: { 200: ok('Login successful', authResponseSchema) },
+    errors: {
+      401: 'Invalid credentials',
+      423: 'Account temporarily locked',
+      429: 'Rate limit exceeded or retrying too soon after a failed attempt',
+    },
+  },
+  {
+    method: 'post',
+    path: '/api/auth/refresh',
+    tag: 'Authentication',
+    summary: 'Refresh the access token',
+    description: 'Rotates the refresh token cookie. Replaying an old refresh token revokes the session.',
+    access: 'public',
+    cookie: true,
+    responses: { 200: ok('New access token', z.object({ token: z.string() })) },
+    errors: { 401: 'Invalid, expired or reused refresh token', 503: 'Session store unavailable' },
+  },
+  {
+    method: 'get',
+    path: '/api/auth/me',
+    tag: 'Authentication',
+    summary: 'Get current user',
+    access: 'user',
+    responses: {
+      200: ok('Current user', z.object({ user: userWithTimestampSchema, cached: z.boolean() })),
+    },
+    errors: { 404: 'User not found' },
+  },
+  {
+    method: 'post',
+    path: '/api/auth/logout',
+    tag: 'Authentication',
+    summary: 'Revoke the current session',
+    access: 'user',
+    responses: { 200: ok('Logged out successfully', messageSchema) },
+  },
+  {
+    method: 'post',
+    path: '/api/auth/logout-all',
+    tag: 'Authentication',
+    summary: 'Revoke every session of the current user',
+    access: 'user',
+    responses: { 200: ok('Logged out from all sessions', messageSchema) },
+  },
+  {
+    method: 'get',
+    path: '/api/auth/sessions',
+    tag: 'Authentication',
+    summary: 'List active sessions',
+    access: 'user',
+    responses: { 200: ok('Active sessions', z.object({ sessions: z.array(sessionSchema) })) },
+  },
+  {
+    method: 'delete',
+    path: '/api/auth/sessions/{id}',
+    tag: 'Authentication',
+    summary: 'Revoke one session',
+    access: 'user',
+    responses: { 200: ok('Session revoked successfully', messageSchema) },
+    errors: { 404: 'Session not found' },
+  },
+  {
+    method: 'post',
+    path: '/api/auth/password/forgot',
+    tag: 'Authentication',
+    summary: 'Email a password reset link',
+    description:
+      'Answers the same, and as fast, whether or not the email has an account; the email is ' +
+      'sent after the response. The link carries a single-use token that expires after an ' +
+      'hour; asking again replaces it.',
+    access: 'public',
+    body: forgotPasswordSchema,
+    responses: { 200: ok('Reset link sent if the account exists', messageSchema) },
+    errors: RATE_LIMITED,
+  },
+  {
+    method: 'post',
+    path: '/api/auth/password/reset',
+    tag: 'Authentication',
+    summary: 'Set a new password with a reset token',
+    description: 'Revokes every session of the user.',
+    access: 'public',
+    body: resetPasswordWithTokenSchema,
+    responses: { 200: ok('Password reset successfully', messageSchema) },
+    errors: { 400: 'Invalid or expired reset token', ...RATE_LIMITED },
+  },
+  {
+    method: 'post',
+    path: '/api/auth/password/change',
+    tag: 'Authentication',
+    summary: "Change the current user's password",
+    description: 'Revokes every session of the user, the current one included, and clears the refresh token cookie.',
+    access: 'user',
+    body: changePasswordSchema,
+    responses: { 200: ok('Password changed successfully', messageSchema) },
+    errors: { 400: 'Current password is incorrect', 404: 'User not found', ...RATE_LIMITED },
+  },
+
+  // ============================================
+  // Tasks
+  // ============================================
+  {
+    method: 'get',
+    path: '/api/tasks',
+    tag: 'Tasks',
+    summary: 'List personal tasks of the current user',
+    description:
+      '`assigned=me` lists the tasks assigned to the user, in any project, instead of their personal tasks. ' +
+      'Filters combine with AND. `search` matches title and description case-insensitively. ' +
+      '`due=overdue` or `due=soon` returns only unfinished tasks past their due date or due within 48 hours. ' +
+      'Pass `nextCursor` from the previous page as `cursor` to fetch the next one.',
+    access: 'user',
+    query: listTasksQuerySchema,
+    responses: { 200: ok('One page of tasks', taskPageSchema) },
+    errors: RATE_LIMITED,
+  },
+  {
+    method: 'get',
+    path: '/api/tasks/search',
+    tag: 'Tasks',
+    summary: 'Full-text search over tasks visible to the current user',
+    description:
+      'Ranked search over title and description. `q` accepts web search syntax: ' +
+      '"quoted phrases", `or`, and `-word` to exclude.',
+    access: 'user',
+    query: searchTasksQuerySchema,
+    responses: {
+      200: ok(
+        'Matching tasks, best match first',
+        z.object({ tasks: z.array(taskSearchResultSchema), pagination: paginationSchema })
+      ),
+    },
+    errors: RATE_LIMITED,
+  },
+  {
+    method: 'get',
+    path: '/api/tasks/trash',
+    tag: 'Tasks',
+    summary: 'List deleted tasks the current user can restore',
+    description:
+      'Personal tasks, tasks assigned to the user and tasks of projects where the user is an owner or ' +
+      'editor, most recently deleted first. Subtasks deleted with their parent are restored with it ' +
+      'and not listed.',
+    access: 'user',
+    query: listTrashQuerySchema,
+    responses: {
+      200: ok(
+        'One page of deleted tasks',
+        z.object({
+          tasks: z.array(taskWithAssigneeSchema.extend({ purgeAt: purgeAtSchema })),
+          pagination: paginationSchema,
+        })
+      ),
+    },
+    errors: RATE_LIMITED,
+  },
+  {
+    method: 'get',
+    path: '/api/events',
+    tag: 'Tasks',
+    summary: 'Stream task events (Server-Sent Events)',
+    description:
+      'A `text/event-stream` of `task.created`, `task.updated` and `task.deleted` events for the tasks ' +
+      'the user can see; each event\'s `data` is a TaskEvent naming the task. Reconnect with the ' +
+      '`Last-Event-ID` header to replay missed events; a `reset` event means they are no longer kept ' +
+      'and the client should refetch. The server closes streams after the access token lifetime.',
+    access: 'user',
+    responses: { 200: ok('Event stream', taskEventSchema, 'text/event-stream') },
+    errors: RATE_LIMITED,
+  },
+  {
+    method: 'post',
+    path: '/api/tasks',
+    tag: 'Tasks',
+    summary: 'Create a new task',
+    access: 'user',
+    body: createTaskSchema,
+    responses: { 201: ok('Task created successfully', z.object({ task: taskWithAssigneeSchema })) },
+    errors: RATE_LIMITED,
+  },
+  {
+    method: 'get',
+    path: '/api/tasks/{id}',
+    tag: 'Tasks',
+    summary: 'Get a task by ID',
+    access: 'user',
+    responses: { 200: ok('Task details', z.object({ task: taskDetailSchema, cached: z.boolean() })) },
+    errors: { 403: 'No access to the task', 404: 'Task not found', ...RATE_LIMITED },
+  },
+  {
+    method: 'patch',
+    path: '/api/tasks/{id}',
+    tag: 'Tasks',
+    summary: 'Update a task',
+    description:
+      'Status changes follow the task workflow: pass `stateId` (one of the task `transitions`) ' +
+      'or a `status` category. Moves without a matching transition are rejected with 409.',
+    access: 'user',
+    body: updateTaskSchema,
+    responses: {
+      200: ok(
+        'Task updated successfully',
+        z.object({
+          task: taskDetailSchema,
+          nextOccurrence: taskWithAssigneeSchema
+            .describe('Generated when completing an occurrence of a recurring task')
+            .optional(),
+        })
+      ),
+    },
+    errors: {
+      403: 'No access to the task, or role not allowed to perform the transition',
+      404: 'Task not found',
+      409: 'Transition not allowed by the workflow, or completing a task with open blockers without force',
+      ...RATE_LIMITED,
+    },
+  },
+  {
+    method: 'delete',
+    path: '/api/tasks/{id}',
+    tag: 'Tasks',
+    summary: 'Delete a task',
+    description: 'Moves the task to the trash, where it can be restored until it is purged.',
+    access: 'user',
+    query: deleteTaskQuerySchema,
+    responses: {
+      200: ok(
+        'Task deleted successfully',
+        messageSchema.extend({ deletedSubtasks: z.number().int(), purgeAt: purgeAtSchema })
+      ),
+    },
+    errors: {
+      403: 'No access to the task or one of its subtasks',
+      404: 'Task not found',
+      409: 'Task has subtasks and cascade was not requested',
+      ...RATE_LIMITED,
+    },
+  },
+  {
+    method: 'post',
+    path: '/api/tasks/{id}/restore',
+    tag: 'Tasks',
+    summary: 'Restore a task from the trash',
+    description: 'Subtasks deleted along with the task are restored with it.',
+    access: 'user',
+    responses: {
+      200: ok(
+        'Task restored successfully',
+        messageSchema.extend({ task: taskWithAssigneeSchema, restoredSubtasks: z.number().int() })
+      ),
+    },
+    errors: {
+      403: 'No access to the task',
+      404: 'Task not found in the trash',
+      409: 'The parent task is in the trash',
+      ...RATE_LIMITED,
+    },
+  },
+  {
+    method: 'get',
+    path: '/api/tasks/{id}/dependencies',
+    tag: 'Tasks',
+    summary: 'Get the dependency graph around a task',
+    access: 'user',
+    responses: { 200: ok('Upstream and downstream dependencies', dependencyGraphSchema) },
+    errors: { 403: 'No access to the task', 404: 'Task not found', ...RATE_LIMITED },
+  },
+  {
+    method: 'post',
+    path: '/api/tasks/{id}/dependencies',
+    tag: 'Tasks',
+    summary: 'Mark another task as blocking this one',
+    description: 'The blocking task must be in the same project or personal list.',
+    access: 'user',
+    body: addDependencySchema,
+    responses: {
+      201: ok(
+        'Dependency added',
+        z.object({
+          dependency: z.object({
+            blockerId: z.uuid(),
+            blockedId: z.uuid(),
+            createdAt: z.iso.datetime(),
+          }),
+        })
+      ),
+    },
+    errors: {
+      400: 'Blocking task not found in the same list',
+      403: 'No access to the task',
+      404: 'Task not found',
+      409: 'Dependency already exists or would create a cycle',
+      ...RATE_LIMITED,
+    },
+  },
+  {
+    method: 'delete',
+    path: '/api/tasks/{id}/dependencies/{blockerId}',
+    tag: 'Tasks',
+    summary: 'Remove a dependency',
+    access: 'user',
+    responses: { 200: ok('Dependency removed successfully', messageSchema) },
+    errors: { 403: 'No access to the task', 404: 'Dependency not found', ...RATE_LIMITED },
+  },
+  {
+    method: 'get',
+    path: '/api/tasks/{id}/checklist',
+    tag: 'Tasks',
+    summary: "List a task's checklist items",
+    access: 'user',
+    responses: { 200: ok('Checklist items in order', z.object({ items: z.array(checklistItemSchema) })) },
+    errors: { 403: 'No access to the task', 404: 'Task not found', ...RATE_LIMITED },
+  },
+  {
+    method: 'post',
+    path: '/api/tasks/{id}/checklist',
+    tag: 'Tasks',
+    summary: 'Add a checklist item',
+    access: 'user',
+    body: createChecklistItemSchema,
+    responses: { 201: ok('Checklist item created', z.object({ item: checklistItemSchema })) },
+    errors: {
+      400: 'Checklist is full',
+      403: 'No access to the task',
+      404: 'Task not found',
+      ...RATE_LIMITED,
+    },
+  },
+  {
+    method: 'patch',
+    path: '/api/tasks/{id}/checklist/{itemId}',
+    tag: 'Tasks',
+    summary: 'Rename, check off or move a checklist item',
+    access: 'user',
+    body: updateChecklistItemSchema,
+    responses: { 200: ok('Checklist item updated', z.object({ item: checklistItemSchema })) },
+    errors: { 403: 'No access to the task', 404: 'Checklist item not found', ...RATE_LIMITED },
+  },
+  {
+    method: 'delete',
+    path: '/api/tasks/{id}/checklist/{itemId}',
+    tag: 'Tasks',
+    summary: 'Delete a checklist item',
+    access: 'user',
+    responses: { 200: ok('Checklist item deleted successfully', messageSchema) },
+    errors: { 403: 'No access to the task', 404: 'Checklist item not found', ...RATE_LIMITED },
+  },
+  {
+    method: 'get',
+    path: '/api/tasks/{id}/history',
+    tag: 'Tasks',
+    summary: 'Get the activity history of a task',
+    description: 'Who created and changed the task, newest first. Updates only list the changed fields.',
+    access: 'user',
+    query: taskHistoryQuerySchema,
+    responses: {
+      200: ok(
+        'Paginated task events',
+        z.object({ events: z.array(auditEventSchema.omit({ ip: true })), pagination: paginationSchema })
+      ),
+    },
+    errors: { 403: 'No access to the task', 404: 'Task not found', ...RATE_LIMITED },
+  },
+
+  // ============================================
+  // Workflows
+  // ============================================
+  {
+    method: 'get',
+    path: '/api/workflows',
+    tag: 'Workflows',
+    summary: 'List the workflows projects can follow',
+    access: 'user',
+    responses: { 200: ok('Workflows', z.object({ workflows: z.array(workflowSchema) })) },
+    errors: RATE_LIMITED,
+  },
+
+  // ============================================
+  // Labels
+  // ============================================
+  {
+    method: 'get',
+    path: '/api/labels',
+    tag: 'Labels',
+    summary: 'List personal labels, or the labels of a project',
+    access: 'user',
+    query: listLabelsQuerySchema,
+    responses: {
+      200: ok(
+        'Labels by name, with the number of tasks carrying each',
+        z.object({
+          labels: z.array(labelSchema.extend({ _count: z.object({ tasks: z.number().int() }) })),
+        })
+      ),
+    },
+    errors: { ...NOT_A_MEMBER, ...RATE_LIMITED },
+  },
+  {
+    method: 'post',
+    path: '/api/labels',
+    tag: 'Labels',
+    summary: 'Create a personal or project label',
+    access: 'user',
+    body: createLabelSchema,
+    responses: { 201: ok('Label created', z.object({ label: labelSchema })) },
+    errors: {
+      403: 'Project editor access required',
+      ...NOT_A_MEMBER,
+      409: 'A label with this name already exists',
+      ...RATE_LIMITED,
+    },
+  },
+  {
+    method: 'patch',
+    path: '/api/labels/{id}',
+    tag: 'Labels',
+    summary: 'Rename or recolor a label',
+    access: 'user',
+    body: updateLabelSchema,
+    responses: { 200: ok('Label updated', z.object({ label: labelSchema })) },
+    errors: {
+      403: 'Project editor access required',
+      404: 'Label not found',
+      409: 'A label with this name already exists',
+      ...RATE_LIMITED,
+    },
+  },
+  {
+    method: 'delete',
+    path: '/api/labels/{id}',
+    tag: 'Labels',
+    summary: 'Delete a label',
+    description: 'The label is removed from every task carrying it.',
+    access: 'user',
+    responses: { 200: ok('Label deleted successfully', messageSchema) },
+    errors: { 403: 'Project editor access required', 404: 'Label not found', ...RATE_LIMITED },
+  },
+
+  // ============================================
+  // Comments
+  // ============================================
+  {
+    method: 'get',
+    path: '/api/tasks/{id}/comments',
+    tag: 'Comments',
+    summary: 'List the comments on a task',
+    access: 'user',
+    responses: { 200: ok('Comments, oldest first', z.object({ comments: z.array(commentSchema) })) },
+    errors: { 403: 'No access to the task', 404: 'Task not found', ...RATE_LIMITED },
+  },
+  {
+    method: 'post',
+    path: '/api/tasks/{id}/comments',
+    tag: 'Comments',
+    summary: 'Comment on a task',
+    description:
+      'Anyone who can view the task may comment. `@email` mentions of users who can view the task ' +
+      'are stored with the comment; other mentions are left as plain text.',
+    access: 'user',
+    body: createCommentSchema,
+    responses: { 201: ok('Comment created', z.object({ comment: commentSchema })) },
+    errors: { 403: 'No access to the task', 404: 'Task not found', ...RATE_LIMITED },
+  },
+  {
+    method: 'patch',
+    path: '/api/tasks/{id}/comments/{commentId}',
+    tag: 'Comments',
+    summary: 'Edit a comment (author only)',
+    description: 'Mentions are parsed again from the new body.',
+    access: 'user',
+    body: updateCommentSchema,
+    responses: { 200: ok('Comment updated', z.object({ comment: commentSchema })) },
+    errors: { 403: 'Only the author can change a comment', 404: 'Comment not found', ...RATE_LIMITED },
+  },
+  {
+    method: 'delete',
+    path: '/api/tasks/{id}/comments/{commentId}',
+    tag: 'Comments',
+    summary: 'Delete a comment (author only)',
+    access: 'user',
+    responses: { 200: ok('Comment deleted successfully', messageSchema) },
+    errors: { 403: 'Only the author can change a comment', 404: 'Comment not found', ...RATE_LIMITED },
+  },
+
+  // ============================================
+  // Projects
+  // ============================================
+  {
+    method: 'get',
+    path: '/api/projects',
+    tag: 'Projects',
+    summary: 'List projects of the current user',
+    access: 'user',
+    responses: {
+      200: ok(
+        'Projects the user is a member of',
+        z.object({
+          projects: z.array(
+            projectSchema.extend({
+              _count: z.object({ tasks: z.number().int(), members: z.number().int() }),
+            })
+          ),
+        })
+      ),
+    },
+    errors: RATE_LIMITED,
+  },
+  {
+    method: 'post',
+    path: '/api/projects',
+    tag: 'Projects',
+    summary: 'Create a project',
+    description: 'The creator becomes its owner.',
+    access: 'user',
+    body: createProjectSchema,
+    responses: { 201: ok('Project created', z.object({ project: projectSchema })) },
+    errors: RATE_LIMITED,
+  },
+  {
+    method: 'get',
+    path: '/api/projects/{id}',
+    tag: 'Projects',
+    summary: 'Get a project with its members',
+    access: 'user',
+    responses: {
+      200: ok(
+        'Project details',
+        z.object({
+          project: projectSchema.extend({
+            members: z.array(projectMemberSchema),
+            _count: z.object({ tasks: z.number().int() }),
+          }),
+        })
+      ),
+    },
+    errors: { ...NOT_A_MEMBER, ...RATE_LIMITED },
+  },
+  {
+    method: 'patch',
+    path: '/api/projects/{id}',
+    tag: 'Projects',
+    summary: 'Update a project (owners)',
+    description:
+      'Changing `workflowId` moves every task to the first state of the new workflow in its ' +
+      'status category, or to the initial state.',
+    access: 'user',
+    body: updateProjectSchema,
+    responses: { 200: ok('Project updated', z.object({ project: projectSchema })) },
+    errors: {
+      400: 'Workflow not found',
+      403: 'Project owner access required',
+      ...NOT_A_MEMBER,
+      ...RATE_LIMITED,
+    },
+  },
+  {
+    method: 'delete',
+    path: '/api/projects/{id}',
+    tag: 'Projects',
+    summary: 'Delete a project (owners)',
+    description:
+      'Only a project without live tasks can be deleted. Its tasks in the trash are deleted ' +
+      'with it.',
+    access: 'user',
+    responses: { 200: ok('Project deleted successfully', messageSchema) },
+    errors: {
+      403: 'Project owner access required',
+      409: 'Project still has tasks',
+      ...NOT_A_MEMBER,
+      ...RATE_LIMITED,
+    },
+  },
+  {
+    method: 'get',
+    path: '/api/projects/{id}/members',
+    tag: 'Projects',
+    summary: 'List project members',
+    access: 'user',
+    responses: {
+      200: ok('Project members', z.object({ members: z.array(projectMemberSchema) })),
+    },
+    errors: { ...NOT_A_MEMBER, ...RATE_LIMITED },
+  },
+  {
+    method: 'post',
+    path: '/api/projects/{id}/members',
+    tag: 'Projects',
+    summary: 'Add a member by email (owners)',
+    access: 'user',
+    body: addProjectMemberSchema,
+    responses: { 201: ok('Member added', z.object({ member: projectMemberSchema })) },
+    errors: {
+      403: 'Project owner access required',
+      404: 'Project or user not found',
+      409: 'User is already a member',
+      ...RATE_LIMITED,
+    },
+  },
+  {
+    method: 'patch',
+    path: '/api/projects/{id}/members/{userId}',
+    tag: 'Projects',
+    summary: 'Change a member role (owners)',
+    access: 'user',
+    body: updateProjectMemberSchema,
+    responses: { 200: ok('Member updated', z.object({ member: projectMemberSchema })) },
+    errors: {
+      403: 'Project owner access required',
+      404: 'Project or member not found',
+      ...RATE_LIMITED,
+    },
+  },
+  {
+    method: 'delete',
+    path: '/api/projects/{id}/members/{userId}',
+    tag: 'Projects',
+    summary: 'Remove a member, or leave the project',
+    description: 'Owners can remove anyone. Any member can remove themselves. The last owner cannot be removed.',
+    access: 'user',
+    responses: { 200: ok('Member removed successfully', messageSchema) },
+    errors: {
+      403: 'Project owner access required',
+      404: 'Project or member not found',
+      ...RATE_LIMITED,
+    },
+  },
+  {
+    method: 'get',
+    path: '/api/projects/{id}/tasks',
+    tag: 'Projects',
+    summary: 'List project tasks',
+    description: 'Takes the same filters, sorting and cursor paging as `GET /api/tasks`.',
+    access: 'user',
+    query: listTasksQuerySchema,
+    responses: { 200: ok('One page of tasks', taskPageSchema) },
+    errors: { ...NOT_A_MEMBER, ...RATE_LIMITED },
+  },
+  {
+    method: 'post',
+    path: '/api/projects/{id}/tasks',
+    tag: 'Projects',
+    summary: 'Create a project task (owners and editors)',
+    access: 'user',
+    body: createTaskSchema,
+    responses: { 201: ok('Task created successfully', z.object({ task: taskWithAssigneeSchema })) },
+    errors: { 403: 'Project editor access required', ...NOT_A_MEMBER, ...RATE_LIMITED },
+  },
+
+  // ============================================
+  // Webhooks
+  // ============================================
+  {
+    method: 'get',
+    path: '/api/webhooks',
+    tag: 'Webhooks',
+    summary: "List the user's webhooks",
+    access: 'user',
+    responses: { 200: ok('Webhooks, oldest first', z.object({ webhooks: z.array(webhookSchema) })) },
+    errors: RATE_LIMITED,
+  },
+  {
+    method: 'post',
+    path: '/api/webhooks',
+    tag: 'Webhooks',
+    summary: 'Register a webhook',
+    description:
+      'Deliveries are POSTed with the headers X-Webhook-Event, X-Webhook-Delivery and ' +
+      'X-Webhook-Signature: t=<unix time>,v1=<hex HMAC-SHA256 of "<t>.<body>" keyed with the ' +
+      'secret>. Failed deliveries are retried with exponential backoff. task.* events are sent ' +
+      'for the tasks the owner can see; admin.* events need an admin.',
+    access: 'user',
+    body: createWebhookSchema,
+    responses: {
+      201: ok('Webhook registered', z.object({ webhook: webhookSchema, secret: webhookSecretSchema })),
+    },
+    errors: { 409: 'Too many webhooks', ...RATE_LIMITED },
+  },
+  {
+    method: 'get',
+    path: '/api/webhooks/{id}',
+    tag: 'Webhooks',
+    summary: 'Get a webhook with its delivery counts',
+    access: 'user',
+    responses: {
+      200: ok(
+        'The webhook',
+        z.object({
+          webhook: webhookSchema.extend({
+            deliveries: z.record(webhookDeliveryStatusSchema, z.number().int()),
+          }),
+        })
+      ),
+    },
+    errors: { 404: 'Webhook not found', ...RATE_LIMITED },
+  },
+  {
+    method: 'patch',
+    path: '/api/webhooks/{id}',
+    tag: 'Webhooks',
+    summary: 'Update a webhook or rotate its secret',
+    access: 'user',
+    body: updateWebhookSchema,
+    responses: {
+      200: ok(
+        'Webhook updated',
+        z.object({ webhook: webhookSchema, secret: webhookSecretSchema.optional() })
+      ),
+    },
+    errors: { 404: 'Webhook not found', ...RATE_LIMITED },
+  },
+  {
+    method: 'delete',
+    path: '/api/webhooks/{id}',
+    tag: 'Webhooks',
+    summary: 'Delete a webhook and its deliveries',
+    access: 'user',
+    responses: { 200: ok('Webhook deleted successfully', messageSchema) },
+    errors: { 404: 'Webhook not found', ...RATE_LIMITED },
+  },
+  {
+    method: 'get',
+    path: '/api/webhooks/{id}/deliveries',
+    tag: 'Webhooks',
+    summary: "List a webhook's deliveries",
+    description: 'Deliveries are kept for 30 days once they succeeded or failed for good.',
+    access: 'user',
+    query: listWebhookDeliveriesQuerySchema,
+    responses: {
+      200: ok(
+        'Deliveries, newest first',
+        z.object({ deliveries: z.array(webhookDeliverySchema), pagination: paginationSchema })
+      ),
+    },
+    errors: { 404: 'Webhook not found', ...RATE_LIMITED },
+  },
+  {
+    method: 'post',
+    path: '/api/webhooks/{id}/deliveries/{deliveryId}/redeliver',
+    tag: 'Webhooks',
+    summary: 'Redeliver a delivery',
+    description:
+      'Sends the same payload as a new delivery, attempted right away and retried like any other.',
+    access: 'user',
+    responses: { 201: ok('The new delivery', z.object({ delivery: webhookDeliverySchema })) },
+    errors: {
+      404: 'Delivery not found',
+      409: 'The webhook is disabled; enable it first',
+      ...RATE_LIMITED,
+    },
+  },
+
+  // ============================================
+  // Notifications
+  // ============================================
+  {
+    method: 'get',
+    path: '/api/notifications',
+    tag: 'Notifications',
+    summary: "List the user's notifications",
+    access: 'user',
+    query: listNotificationsQuerySchema,
+    responses: {
+      200: ok(
+        'Notifications, newest first',
+        z.object({
+          notifications: z.array(notificationSchema),
+          unreadCount: z.number().int().describe('Unread notifications in all'),
+          pagination: paginationSchema,
+        })
+      ),
+    },
+    errors: RATE_LIMITED,
+  },
+  {
+    method: 'post',
+    path: '/api/notifications/{id}/read',
+    tag: 'Notifications',
+    summary: 'Mark a notification as read',
+    access: 'user',
+    responses: { 200: ok('The notification', z.object({ notification: notificationSchema })) },
+    errors: { 404: 'Notification not found', ...RATE_LIMITED },
+  },
+  {
+    method: 'post',
+    path: '/api/notifications/read-all',
+    tag: 'Notifications',
+    summary: 'Mark all notifications as read',
+    access: 'user',
+    responses: {
+      200: ok('Notifications marked as read', messageSchema.extend({ updated: z.number().int() })),
+    },
+    errors: RATE_LIMITED,
+  },
+  {
+    method: 'get',
+    path: '/api/notifications/preferences',
+    tag: 'Notifications',
+    summary: 'Get notification preferences',
+    access: 'user',
+    responses: {
+      200: ok('Every notification type', z.object({ preferences: notificationPreferencesSchema })),
+    },
+    errors: RATE_LIMITED,
+  },
+  {
+    method: 'patch',
+    path: '/api/notifications/preferences',
+    tag: 'Notifications',
+    summary: 'Turn notification channels on or off',
+    description:
+      'Types and channels left out keep their setting. Email is off by default; a type with ' +
+      'both channels off is not recorded at all.',
+    access: 'user',
+    body: updateNotificationPreferencesSchema,
+    responses: {
+      200: ok('Preferences updated', z.object({ preferences: notificationPreferencesSchema })),
+    },
+    errors: RATE_LIMITED,
+  },
+
+  // ============================================
+  // Admin
+  // ============================================
+  {
+    method: 'get',
+    path: '/api/admin/stats',
+    tag: 'Admin',
+    summary: 'Get system statistics',
+    access: 'admin',
+    responses: {
+      200: ok(
+        'System statistics',
+        z.object({
+          users: z.object({
+            total: z.number().int(),
+            admins: z.number().int(),
+            regular: z.number().int(),
+            trashed: z.number().int(),
+            recent: z.array(userWithTimestampSchema),
+            topUsers: z.array(userSchema.omit({ role: true }).extend({ taskCount: z.number().int() })),
+          }),
+          tasks: z.object({
+            total: z.number().int(),
+            open: z.number().int(),
+            inProgress: z.number().int(),
+            done: z.number().int(),
+            unlabeled: z.number().int(),
+            trashed: z.number().int(),
+            byLabel: z
+              .array(
+                labelSchema.omit({ createdAt: true, updatedAt: true }).extend({
+                  total: z.number().int(),
+                  open: z.number().int(),
+                  inProgress: z.number().int(),
+                  done: z.number().int(),
+                })
+              )
+              .describe('Task counts of the 20 most used labels'),
+          }),
+        })
+      ),
+    },
+  },
+  {
+    method: 'get',
+    path: '/api/admin/tasks',
+    tag: 'Admin',
+    summary: 'Get tasks across all users',
+    description: 'With `q`, results are ranked full-text matches and each task carries a `search` object.',
+    access: 'admin',
+    query: listAllTasksQuerySchema,
+    responses: {
+      200: ok(
+        'Paginated tasks',
+        z.object({
+          tasks: z.array(
+            taskSchema.extend({
+              user: userSchema,
+              labels: taskWithAssigneeSchema.shape.labels,
+              search: taskSearchResultSchema.shape.search.optional(),
+            })
+          ),
+          pagination: paginationSchema,
+        })
+      ),
+    },
+  },
+  {
+    method: 'get',
+    path: '/api/admin/users',
+    tag: 'Admin',
+    summary: 'Get all users',
+    description: '`deleted=true` lists the users in the trash, counting the tasks deleted with them.',
+    access: 'admin',
+    query: listUsersQuerySchema,
+    responses: {
+      200: ok(
+        'Paginated users',
+        z.object({
+          users: z.array(
+            userWithTimestampSchema.extend({
+              deletedAt: z.iso.datetime().nullable(),
+              _count: z.object({ tasks: z.number().int() }),
+              lockout: accountLockoutSchema,
+              purgeAt: purgeAtSchema.optional(),
+            })
+          ),
+          pagination: paginationSchema,
+        })
+      ),
+    },
+  },
+  {
+    method: 'get',
+    path: '/api/admin/users/{id}',
+    tag: 'Admin',
+    summary: 'Get user details',
+    access: 'admin',
+    responses: {
+      200: ok(
+        'User details with recent tasks',
+        z.object({
+          user: userWithTimestampSchema.extend({
+            tasks: z.array(taskSchema.pick({ id: true, title: true, status: true, createdAt: true })),
+            _count: z.object({ tasks: z.number().int() }),
+            lockout: accountLockoutSchema,
+          }),
+        })
+      ),
+    },
+    errors: { 404: 'User not found' },
+  },
+  {
+    method: 'patch',
+    path: '/api/admin/users/{id}',
+    tag: 'Admin',
+    summary: 'Update a user',
+    description: 'Changing the role revokes all sessions of the user. `unlock: true` clears failed login attempts.',
+    access: 'admin',
+    body: updateUserSchema,
+    responses: {
+      200: ok('User updated successfully', messageSchema.extend({ user: userWithTimestampSchema })),
+    },
+    errors: { 404: 'User not found', 409: 'Email already in use' },
+  },
+  {
+    method: 'delete',
+    path: '/api/admin/users/{id}',
+    tag: 'Admin',
+    summary: 'Delete a user',
+    description:
+      'Moves the user and the tasks they created to the trash and revokes all their sessions. ' +
+      'An admin can restore them until they are purged.',
+    access: 'admin',
+    responses: {
+      200: ok(
+        'User deleted successfully',
+        messageSchema.extend({ deletedTasks: z.number().int(), purgeAt: purgeAtSchema })
+      ),
+    },
+    errors: { 400: 'Cannot delete yourself', 404: 'User not found' },
+  },
+  {
+    method: 'post',
+    path: '/api/admin/users/{id}/restore',
+    tag: 'Admin',
+    summary: 'Restore a user from the trash',
+    description: 'Restores the tasks deleted along with the user. Their sessions stay revoked.',
+    access: 'admin',
+    responses: {
+      200: ok('User restored successfully', messageSchema.extend({ restoredTasks: z.number().int() })),
+    },
+    errors: { 404: 'User not found in the trash' },
+  },
+  {
+    method: 'post',
+    path: '/api/admin/users/{id}/password',
+    tag: 'Admin',
+    summary: 'Reset a user password',
+    description: 'Revokes all sessions of the user.',
+    access: 'admin',
+    body: resetPasswordSchema,
+    responses: { 200: ok('Password reset successfully', messageSchema) },
+    errors: { 404: 'User not found' },
+  },
+  {
+    method: 'get',
+    path: '/api/admin/users/{id}/tasks',
+    tag: 'Admin',
+    summary: 'Get all tasks of a user',
+    access: 'admin',
+    query: userTasksQuerySchema,
+    responses: { 200: ok('Tasks of the user', z.object({ tasks: z.array(taskSchema) })) },
+    errors: { 404: 'User not found' },
+  },
+  {
+    method: 'get',
+    path: '/api/admin/comments',
+    tag: 'Admin',
+    summary: 'Get comments across all tasks for moderation',
+    description: '`search` is a case-insensitive match on the comment body.',
+    access: 'admin',
+    query: listCommentsQuerySchema,
+    responses: {
+      200: ok(
+        'Paginated comments, newest first',
+        z.object({
+          comments: z.array(
+            commentSchema.extend({ task: taskSchema.pick({ id: true, title: true }) })
+          ),
+          pagination: paginationSchema,
+        })
+      ),
+    },
+  },
+  {
+    method: 'delete',
+    path: '/api/admin/comments/{id}',
+    tag: 'Admin',
+    summary: 'Delete any comment',
+    access: 'admin',
+    responses: { 200: ok('Comment deleted successfully', messageSchema) },
+    errors: { 404: 'Comment not found' },
+  },
+  {
+    method: 'get',
+    path: '/api/admin/audit',
+    tag: 'Admin',
+    summary: 'Browse the audit log',
+    description:
+      'Task changes, auth events and admin actions, newest first. ' +
+      '`from` is inclusive and `to` exclusive.',
+    access: 'admin',
+    query: listAuditEventsQuerySchema,
+    responses: {
+      200: ok(
+        'Paginated audit events',
+        z.object({ events: z.array(auditEventSchema), pagination: paginationSchema })
+      ),
+    },
+  },
+  {
+    method: 'get',
+    path: '/api/admin/workflows',
+    tag: 'Workflows',
+    summary: 'List workflows',
+    access: 'admin',
+    responses: { 200: ok('Workflows', z.object({ workflows: z.array(workflowSchema) })) },
+  },
+  {
+    method: 'post',
+    path: '/api/admin/workflows',
+    tag: 'Workflows',
+    summary: 'Create a workflow',
+    description:
+      'States are ordered as given; the initial state defaults to the first. ' +
+      'Making a workflow the default unsets the previous default.',
+    access: 'admin',
+    body: workflowDefinitionSchema,
+    responses: { 201: ok('Workflow created', z.object({ workflow: workflowSchema })) },
+    errors: { 409: 'A workflow with this name already exists' },
+  },
+  {
+    method: 'get',
+    path: '/api/admin/workflows/{id}',
+    tag: 'Workflows',
+    summary: 'Get a workflow',
+    access: 'admin',
+    responses: { 200: ok('Workflow', z.object({ workflow: workflowSchema })) },
+    errors: { 404: 'Workflow not found' },
+  },
+  {
+    method: 'put',
+    path: '/api/admin/workflows/{id}',
+    tag: 'Workflows',
+    summary: 'Replace a workflow definition',
+    description:
+      'States are matched by name, so tasks keep their state. Recategorizing a state updates ' +
+      'the status of its tasks. Transitions are replaced as a whole.',
+    access: 'admin',
+    body: workflowDefinitionSchema,
+    responses: { 200: ok('Workflow updated', z.object({ workflow: workflowSchema })) },
+    errors: {
+      400: 'Cannot unset the default workflow',
+      404: 'Workflow not found',
+      409: 'Name taken, or removed states are still used by tasks',
+    },
+  },
+  {
+    method: 'delete',
+    path: '/api/admin/workflows/{id}',
+    tag: 'Workflows',
+    summary: 'Delete an unused workflow',
+    access: 'admin',
+    responses: { 200: ok('Workflow deleted successfully', messageSchema) },
+    errors: {
+      400: 'Cannot delete the default workflow',
+      404: 'Workflow not found',
+      409: 'Workflow is used by projects or tasks',
+    },
+  },
+  {
+    method: 'get',
+    path: '/api/admin/invitations',
+    tag: 'Admin',
+    summary: 'List invitations',
+    access: 'admin',
+    responses: { 200: ok('Invitations', z.object({ invitations: z.array(invitationSchema) })) },
+  },
+  {
+    method: 'post',
+    path: '/api/admin/invitations',
+    tag: 'Admin',
+    summary: 'Create an invitation',
+    description:
+      'The raw token is only returned in this response. With an email, the invitee is also ' +
+      'emailed a link to accept it.',
+    access: 'admin',
+    body: createInvitationSchema,
+    responses: {
+      201: ok(
+        'Invitation created successfully',
+        messageSchema.extend({ invitation: invitationSchema, token: z.string() })
+      ),
+    },
+    errors: { 409: 'User already exists' },
+  },
+  {
+    method: 'delete',
+    path: '/api/admin/invitations/{id}',
+    tag: 'Admin',
+    summary: 'Revoke a pending invitation',
+    access: 'admin',
+    responses: { 200: ok('Invitation revoked successfully', messageSchema) },
+    errors: { 404: 'Invitation not found' },
+  },
+
+  // ============================================
+  // System
+  // ============================================
+  {
+    method: 'get',
+    path: '/api/health',
+    tag: 'System',
+    summary: 'Health check',
+    description: 'Responds with 503 and status `degraded` when the database is unreachable.',
+    access: 'public',
+    responses: {
+      200: ok('Service health', healthSchema),
+      503: ok('Service degraded', healthSchema),
+    },
+  },
+  {
+    method: 'get',
+    path: '/api/cache/stats',
+    tag: 'System',
+    summary: 'Get Redis cache statistics',
+    access: 'admin',
+    responses: { 200: ok('Cache statistics', z.object({ connected: z.boolean() }).loose()) },
+  },
+  {
+    method: 'post',
+    path: '/api/jobs/{name}',
+    tag: 'System',
+    summary: 'Run a background job',
+    description:
+      'For schedulers. `recurrence` generates the next occurrence of recurring tasks that have ' +
+      'fallen due; `purge` deletes tasks and users that have been in the trash longer than ' +
+      'TRASH_RETENTION_DAYS; `webhooks` sends the webhook deliveries that are due; ' +
+      '`notifications` reminds users of tasks due soon; `mail` sends the queued emails that are ' +
+      'due. A run is skipped while the same job is running elsewhere.',
+    access: 'cron',
+    params: { name: jobNameSchema },
+    responses: {
+      200: ok(
+        'Job run',
+        z.object({
+          job: jobNameSchema,
+          status: z.enum(['completed', 'skipped']),
+          result: z.record(z.string(), z.number()).optional(),
+          durationMs: z.number().int().optional(),
+          reason: z.string().optional(),
+        })
+      ),
+    },
+    errors: { 404: 'Job not found' },
+  },
+];
+
+// ============================================
+// Document generation
+// ============================================
+
+const COMPONENT_PREFIX = '#/components/schemas/';
+
+// Drop the regexes zod emits next to formats and the safe-integer bounds
+// it adds to every int; they only add noise to the docs
+function simplify(ctx: { jsonSchema: Record<string, unknown> }) {
+  const schema = ctx.jsonSchema;
+  if (schema.format && schema.pattern) delete schema.pattern;
+  if (schema.maximum === Number.MAX_SAFE_INTEGER) delete schema.maximum;
+  if (schema.minimum === Number.MIN_SAFE_INTEGER) delete schema.minimum;
+}
+
+function toSchema(schema: z.ZodType, io: 'input' | 'output') {
+  const json = z.toJSONSchema(schema, {
+    target: 'openapi-3.0',
+    metadata: schemaRegistry,
+    io,
+    override: simplify,
+  }) as Record<string, unknown>;
+
+  // Registered schemas are emitted as components, so point refs there
+  delete json.definitions;
+  return JSON.parse(
+    JSON.stringify(json).replaceAll('"#/definitions/', `"${COMPONENT_PREFIX}`)
+  );
+}
+
+function errorResponse(description: string, schemaId = 'Error') {
+  return {
+    description,
+    content: {
+      'application/json': { schema: { $ref: `${COMPONENT_PREFIX}${schemaId}` } },
+    },
+  };
+}
+
+function buildOperation(operation: ApiOperation) {
+  const parameters: Record<string, unknown>[] = [];
+
+  for (const match of operation.path.matchAll(/\{(\w+)\}/g)) {
+    parameters.push({
+      name: match[1],
+      in: 'path',
+      required: true,
+      schema: operation.params?.[match[1]]
+        ? toSchema(operation.params[match[1]], 'input')
+        : { type: 'string', format: 'uuid' },
+    });
+  }
+
+  if (operation.query) {
+    for (const [name, field] of Object.entries(operation.query.shape)) {
+      parameters.push({
+        name,
+        in: 'query',
+        required: false,
+        schema: toSchema(field as z.ZodType, 'output'),
+      });
+    }
+  }
+
+  const responses: Record<string, unknown> = {};
+  for (const [status, response] of Object.entries(operation.responses)) {
+    responses[status] = {
+      description: response.description,
+      ...(response.schema && {
+        content: {
+          [response.contentType ?? 'application/json']: { schema: toSchema(response.schema, 'output') },
+        },
+      }),
+    };
+  }
+
+  if (operation.body || operation.query) {
+    responses[400] = errorResponse('Validation failed', 'ValidationError');
+  }
+  if (operation.access === 'cron') {
+    responses[401] = errorResponse('Invalid or missing cron secret');
+  } else if (operation.access !== 'public') {
+    responses[401] = errorResponse('Invalid, expired or revoked token');
+  }
+  if (operation.access === 'admin') {
+    responses[403] = errorResponse('Admin access required');
+  }
+  for (const [status, description] of Object.entries(operation.errors ?? {})) {
+    responses[status] = errorResponse(description);
+  }
+  responses[500] = errorResponse('Internal server error');
+
+  return {
+    tags: [operation.tag],
+    summary: operation.summary,
+    ...(operation.description && { description: operation.description }),
+    ...(operation.access !== 'public' && { security: [{ bearerAuth: [] }] }),
+    ...(operation.cookie && { security: [{ refreshCookie: [] }] }),
+    ...(operation.access === 'cron' && { security: [{ cronSecret: [] }] }),
+    ...(parameters.length > 0 && { parameters }),
+    ...(operation.body && {
+      requestBody: {
+        required: true,
+        content: { 'application/json': { schema: toSchema(operation.body, 'input') } },
+      },
+    }),
+    responses: Object.fromEntries(
+      Object.entries(responses).sort(([a], [b]) => Number(a) - Number(b))
+    ),
+  };
+}
+
+export function buildOpenApiDocument() {
+  const paths: Record<string, Record<string, unknown>> = {};
+  for (const operation of apiOperations) {
+    paths[operation.path] ??= {};
+    paths[operation.path][operation.method] = buildOperation(operation);
+  }
+
+  const { schemas } = z.toJSONSchema(schemaRegistry, {
+    target: 'openapi-3.0',
+    io: 'input',
+    uri: (id) => `${COMPONENT_PREFIX}${id}`,
+    override: simplify,
+  });
+  for (const schema of Object.values(schemas)) {
+    delete schema.$id;
+  }
+
+  return {
+    openapi: '3.0.0',
+    info: {
+      title: 'Task Management API',
+      description:
+        'A RESTful API for user authentication and task management built with Next.js, Prisma, and PostgreSQL',
+      version: '1.0.0',
+      contact: { name: 'API Support' },
+    },
+    servers: [{ url: 'http://localhost:3000', description: 'Development server' }],
+    tags: [
+      { name: 'Authentication', description: 'User authentication endpoints' },
+      { name: 'Tasks', description: 'Task management endpoints' },
+      { name: 'Comments', description: 'Task comment threads' },
+      { name: 'Projects', description: 'Shared projects and their members' },
+      { name: 'Workflows', description: 'Task states and the transitions between them' },
+      { name: 'Labels', description: 'Colored personal and project labels for tasks' },
+      { name: 'Webhooks', description: 'Signed HTTP callbacks for task and admin events' },
+      { name: 'Notifications', description: 'In-app notifications and their preferences' },
+      { name: 'Admin', description: 'Administration endpoints (ADMIN role required)' },
+      { name: 'System', description: 'Health and diagnostics' },
+    ],
+    paths,
+    components: {
+      securitySchemes: {
+        bearerAuth: {
+          type: 'http',
+          scheme: 'bearer',
+          bearerFormat: 'JWT',
+          description: 'Enter your JWT token in the format: Bearer <token>',
+        },
+        refreshCookie: {
+          type: 'apiKey',
+          in: 'cookie',
+          name: 'refresh_token',
+        },
+        cronSecret: {
+          type: 'http',
+          scheme: 'bearer',
+          description: 'The CRON_SECRET environment variable, as Bearer <secret>',
+        },
+      },
+      schemas,
+    },
+  };
+}
@@ -0,0 +1,57 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+const { prisma } = vi.hoisted(() => ({
+  prisma: {
+    $transaction: vi.fn(),
+    passwordResetToken: { deleteMany: vi.fn(), create: vi.fn() },
+    outboxEmail: {
+      createManyAndReturn: vi.fn(),
+      updateMany: vi.fn(),
+      findUniqueOrThrow: vi.fn(),
+      update: vi.fn(),
+    },
+  },
+}));
+
+vi.mock('./prisma', () => ({ prisma }));
+
+import { memoryTransport, setMailTransport } from './mail';
+import { sendPasswordReset } from './password-reset';
+
+describe('sendPasswordReset', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    // The outbox hands back what was queued
+    prisma.outboxEmail.createManyAndReturn.mockImplementation(async ({ data: [email] }) => {
+      prisma.outboxEmail.findUniqueOrThrow.mockResolvedValue({ id: 'email-1', attempts: 0, ...email });
+      return [{ id: 'email-1' }];
+    });
+    prisma.outboxEmail.updateMany.mockResolvedValue({ count: 1 });
+  });
+
+  it('emails a reset link right away', async () => {
+    const transport = memoryTransport();
+    setMailTransport(transport);
+
+    await sendPasswordReset({ id: 'user-1', email: 'user@example.com', name: 'Ada' });
+
+    expect(transport.sent).toHaveLength(1);
+    expect(transport.sent[0].to).toBe('user@example.com');
+    const [, link] = transport.sent[0].text.match(/reset-password\?token=(\S+)/) ?? [];
+    expect(link).toBeTruthy();
+
+    // Only the hash of the token is stored
+    const [{ data }] = prisma.passwordResetToken.create.mock.calls[0];
+    expect(data.tokenHash).not.toBe(link);
+    expect(data.userId).toBe('user-1');
+  });
+
+  it('replaces earlier links', async () => {
+    setMailTransport(memoryTransport());
+
+    await sendPasswordReset({ id: 'user-1', email: 'user@example.com', name: null });
+
+    expect(prisma.passwordResetToken.deleteMany).toHaveBeenCalledWith({ where: { userId: 'user-1' } });
+    expect(prisma.$transaction).toHaveBeenCalledTimes(1);
+  });
+});
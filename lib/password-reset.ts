@@ -0,0 +1,61 @@
+import { prisma } from './prisma';
+import { generateOpaqueToken, hashPassword, hashToken } from './auth';
+import { revokeAllUserSessions } from './cache';
+import { appUrl, queueMail } from './mail';
+
+// Forgotten passwords. A user asks for a reset link by email; its token is
+// stored hashed, works once and expires after RESET_TOKEN_TTL_MINUTES. Only
+// the latest link of a user works.
+
+export const RESET_TOKEN_TTL_MINUTES = 60;
+
+// Email a link to reset the user's password, through the outbox so the `mail`
+// job retries a failed send. Run it after responding, so how long a request
+// takes doesn't tell whether the account exists.
+export async function sendPasswordReset(user: { id: string; email: string; name: string | null }) {
+  const { token, tokenHash } = generateOpaqueToken();
+  const expiresAt = new Date(Date.now() + RESET_TOKEN_TTL_MINUTES * 60 * 1000);
+
+  await prisma.$transaction([
+    prisma.passwordResetToken.deleteMany({ where: { userId: user.id } }),
+    prisma.passwordResetToken.create({ data: { tokenHash, userId: user.id, expiresAt } }),
+  ]);
+
+  await queueMail(user.email, 'passwordReset', {
+    name: user.name,
+    resetUrl: appUrl(`/reset-password?token=${token}`),
+    expiresAt,
+  });
+}
+
+// Use up a reset token. Returns its user, or null when the token is unknown,
+// used or expired, or its user is in the trash.
+export async function consumeResetToken(token: string) {
+  const tokenHash = hashToken(token);
+
+  // Claim the token first so it can only be used once
+  const { count } = await prisma.passwordResetToken.updateMany({
+    where: { tokenHash, usedAt: null, expiresAt: { gt: new Date() } },
+    data: { usedAt: new Date() },
+  });
+  if (count === 0) return null;
+
+  const { user } = await prisma.passwordResetToken.findUniqueOrThrow({
+    where: { tokenHash },
+    select: { user: { select: { id: true, email: true, deletedAt: true } } },
+  });
+  return user.deletedAt ? null : user;
+}
+
+// Set a new password, then sign the user out everywhere. Outstanding reset
+// links stop working too.
+export async function setPassword(userId: string, password: string) {
+  const passwordHash = await hashPassword(password);
+
+  await prisma.$transaction([
+    prisma.user.update({ where: { id: userId }, data: { passwordHash } }),
+    prisma.passwordResetToken.deleteMany({ where: { userId } }),
+  ]);
+
+  await revokeAllUserSessions(userId);
+}
@@ -0,0 +1,69 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+const { prisma } = vi.hoisted(() => ({
+  prisma: {
+    user: { count: vi.fn() },
+    projectMember: { count: vi.fn(), findUnique: vi.fn() },
+    taskWatcher: { findUnique: vi.fn() },
+  },
+}));
+
+vi.mock('./prisma', () => ({ prisma }));
+
+import { checkTaskParticipants } from './permissions';
+
+describe('checkTaskParticipants', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    prisma.user.count.mockImplementation(async ({ where }) => where.id.in.length);
+    prisma.taskWatcher.findUnique.mockResolvedValue(null);
+  });
+
+  it('accepts no participants', async () => {
+    expect(await checkTaskParticipants({ userId: 'owner', projectId: null }, [])).toBeNull();
+    expect(prisma.user.count).not.toHaveBeenCalled();
+  });
+
+  it('rejects users that are missing or in the trash', async () => {
+    prisma.user.count.mockResolvedValue(1);
+
+    expect(await checkTaskParticipants({ userId: 'owner', projectId: null }, ['owner', 'gone'])).toBe(
+      'Assignee or watcher not found'
+    );
+  });
+
+  describe('personal tasks', () => {
+    it('only lets a new task be assigned to its creator', async () => {
+      const task = { userId: 'owner', projectId: null };
+
+      expect(await checkTaskParticipants(task, ['owner'])).toBeNull();
+      expect(await checkTaskParticipants(task, ['stranger'])).toBe(
+        'A personal task can only be assigned to or watched by users who can see it'
+      );
+    });
+
+    it('keeps the users already on an existing task', async () => {
+      const task = { id: 'task-1', userId: 'owner', projectId: null, assigneeId: 'assignee' };
+      prisma.taskWatcher.findUnique.mockImplementation(async ({ where }) =>
+        where.taskId_userId.userId === 'watcher' ? { taskId: 'task-1', userId: 'watcher' } : null
+      );
+
+      expect(await checkTaskParticipants(task, ['assignee', 'watcher', 'owner'])).toBeNull();
+      expect(await checkTaskParticipants(task, ['watcher', 'stranger'])).not.toBeNull();
+    });
+  });
+
+  describe('project tasks', () => {
+    it('requires every participant to be a member', async () => {
+      const task = { userId: 'owner', projectId: 'project-1' };
+
+      prisma.projectMember.count.mockResolvedValue(2);
+      expect(await checkTaskParticipants(task, ['member-1', 'member-2'])).toBeNull();
+
+      prisma.projectMember.count.mockResolvedValue(1);
+      expect(await checkTaskParticipants(task, ['member-1', 'stranger'])).toBe(
+        'Assignees and watchers must be members of the project'
+      );
+    });
+  });
+});
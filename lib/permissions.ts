@@ -0,0 +1,99 @@
+import { ProjectRole } from '@prisma/client';
+import { prisma } from './prisma';
+
+// Who may do what with projects and tasks.
+//
+// Personal tasks (no project) are private to the user who created them.
+// Project tasks are visible to every member; owners and editors may change
+// them. Only owners manage the project itself and its members.
+//
+// On top of that, the assignee of a task may view and change it, and its
+// watchers may view it.
+
+export type TaskAccess = 'view' | 'edit';
+
+export async function getProjectRole(projectId: string, userId: string): Promise<ProjectRole | null> {
+  const membership = await prisma.projectMember.findUnique({
+    where: { projectId_userId: { projectId, userId } },
+    select: { role: true },
+  });
+  return membership?.role ?? null;
+}
+
+export function canEditProjectTasks(role: ProjectRole | null) {
+  return role === 'OWNER' || role === 'EDITOR';
+}
+
+export function canManageProject(role: ProjectRole | null) {
+  return role === 'OWNER';
+}
+
+export async function canAccessTask(
+  task: { id: string; userId: string; projectId?: string | null; assigneeId?: string | null },
+  userId: string,
+  access: TaskAccess
+): Promise<boolean> {
+  if (task.assigneeId === userId) {
+    return true;
+  }
+
+  if (task.projectId) {
+    const role = await getProjectRole(task.projectId, userId);
+    if (access === 'view' ? role !== null : canEditProjectTasks(role)) {
+      return true;
+    }
+  } else if (task.userId === userId) {
+    return true;
+  }
+
+  if (access === 'view') {
+    const watcher = await prisma.taskWatcher.findUnique({
+      where: { taskId_userId: { taskId: task.id, userId } },
+    });
+    return watcher !== null;
+  }
+
+  return false;
+}
+
+// Check that an assignee and watchers can be attached to a task (without an
+// id while it is being created): they must exist, and for project tasks they
+// must be members of the project. Personal tasks are private, so only users
+// who can see the task already may be attached to it: its creator, or for an
+// existing task also its assignee and watchers. Returns the error message to
+// respond with, or null.
+export async function checkTaskParticipants(
+  task: { id?: string; userId: string; projectId: string | null; assigneeId?: string | null },
+  userIds: string[]
+): Promise<string | null> {
+  const ids = [...new Set(userIds)];
+  if (ids.length === 0) return null;
+
+  const found = await prisma.user.count({ where: { id: { in: ids }, deletedAt: null } });
+  if (found !== ids.length) {
+    return 'Assignee or watcher not found';
+  }
+
+  if (task.projectId) {
+    const members = await prisma.projectMember.count({
+      where: { projectId: task.projectId, userId: { in: ids } },
+    });
+    if (members !== ids.length) {
+      return 'Assignees and watchers must be members of the project';
+    }
+  } else {
+    const { id: taskId } = task;
+    const allowed = await Promise.all(
+      ids.map(
+        (userId) =>
+          userId === task.userId ||
+          (taskId !== undefined && canAccessTask({ ...task, id: taskId }, userId, 'view'))
+      )
+    );
+    if (allowed.includes(false)) {
+      return 'A personal task can only be assigned to or watched by users who can see it';
+    }
+  }
+
+  return null;
+}
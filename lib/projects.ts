@@ -0,0 +1,35 @@
+import { ProjectRole } from '@prisma/client';
+import { prisma } from './prisma';
+
+export const projectMemberInclude = {
+  user: {
+    select: {
+      email: true,
+      name: true,
+    },
+  },
+};
+
+export function toProjectMember(member: {
+  userId: string;
+  role: ProjectRole;
+  createdAt: Date;
+  user: { email: string; name: string | null };
+}) {
+  return {
+    userId: member.userId,
+    email: member.user.email,
+    name: member.user.name,
+    role: member.role,
+    createdAt: member.createdAt,
+  };
+}
+
+// Changes that would leave a project without an owner are refused
+export async function isLastOwner(projectId: string, userId: string) {
+  const owners = await prisma.projectMember.findMany({
+    where: { projectId, role: 'OWNER' },
+    select: { userId: true },
+  });
+  return owners.length === 1 && owners[0].userId === userId;
+}
@@ -0,0 +1,45 @@
+import { afterAll, beforeAll, describe, expect, it, vi } from 'vitest';
+import { consumeRateLimit } from './rate-limit';
+import { redisClient } from './redis';
+
+describe('rate limits with Redis down', () => {
+  beforeAll(() => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+  });
+
+  afterAll(() => {
+    if (redisClient.isOpen) redisClient.destroy();
+    vi.restoreAllMocks();
+  });
+
+  it('falls back to limiting in memory', async () => {
+    const rule = { name: 'test', limit: 3, windowSeconds: 60 };
+    const started = Date.now();
+
+    const results = [];
+    for (let i = 0; i < 4; i++) results.push(await consumeRateLimit(rule, '203.0.113.7'));
+
+    expect(results.map((result) => result.allowed)).toEqual([true, true, true, false]);
+    expect(results.map((result) => result.remaining)).toEqual([2, 1, 0, 0]);
+    expect(results[3].retryAfter).toBeGreaterThan(0);
+    expect(Date.now() - started).toBeLessThan(3000);
+  });
+
+  it('limits each identifier separately', async () => {
+    const rule = { name: 'separate', limit: 1, windowSeconds: 60 };
+
+    expect((await consumeRateLimit(rule, 'user-1')).allowed).toBe(true);
+    expect((await consumeRateLimit(rule, 'user-1')).allowed).toBe(false);
+    expect((await consumeRateLimit(rule, 'user-2')).allowed).toBe(true);
+  });
+
+  it("doesn't wait on Redis again right after failing to connect", async () => {
+    const rule = { name: 'pause', limit: 10, windowSeconds: 60 };
+    const started = Date.now();
+
+    for (let i = 0; i < 5; i++) await consumeRateLimit(rule, '203.0.113.7');
+
+    expect(Date.now() - started).toBeLessThan(100);
+  });
+});
@@ -0,0 +1,104 @@
+import { NextResponse } from 'next/server';
+import { checkRateLimit, RateLimitResult } from './cache';
+
+export interface RateLimitRule {
+  name: string;
+  limit: number;
+  windowSeconds: number;
+}
+
+// Parse an override such as RATE_LIMIT_LOGIN="10/60" (requests/seconds)
+function defineRule(name: string, limit: number, windowSeconds: number): RateLimitRule {
+  const override = process.env[`RATE_LIMIT_${name.toUpperCase()}`];
+  if (override) {
+    const [overrideLimit, overrideWindow] = override.split('/').map(Number);
+    if (overrideLimit > 0 && overrideWindow > 0) {
+      return { name, limit: overrideLimit, windowSeconds: overrideWindow };
+    }
+    console.warn(`Ignoring invalid RATE_LIMIT_${name.toUpperCase()}: ${override}`);
+  }
+  return { name, limit, windowSeconds };
+}
+
+export const RATE_LIMITS = {
+  login: defineRule('login', 10, 60), // per IP
+  register: defineRule('register', 5, 60 * 60), // per IP
+  passwordForgot: defineRule('password_forgot', 5, 15 * 60), // per IP
+  passwordReset: defineRule('password_reset', 10, 15 * 60), // per IP
+  passwordChange: defineRule('password_change', 5, 15 * 60), // per user
+  tasks: defineRule('tasks', 100, 60), // per user
+  admin: defineRule('admin', 200, 60), // per user
+};
+
+// ============================================
+// In-memory fallback
+// ============================================
+
+// Used while Redis is down. Limits are per app instance, so they are looser
+// than the shared Redis limits when several instances run.
+const memoryWindows = new Map<string, number[]>();
+const MEMORY_MAX_KEYS = 10000;
+
+function checkMemoryRateLimit(rule: RateLimitRule, identifier: string): RateLimitResult {
+  const key = `${rule.name}:${identifier}`;
+  const now = Date.now();
+  const windowMs = rule.windowSeconds * 1000;
+  const timestamps = (memoryWindows.get(key) ?? []).filter((t) => t > now - windowMs);
+
+  if (timestamps.length >= rule.limit) {
+    memoryWindows.set(key, timestamps);
+    return {
+      allowed: false,
+      limit: rule.limit,
+      remaining: 0,
+      retryAfter: Math.ceil((timestamps[0] + windowMs - now) / 1000),
+    };
+  }
+
+  timestamps.push(now);
+  // Map keeps insertion order, so re-inserting moves the key to the end and
+  // the first key is always the least recently used one
+  memoryWindows.delete(key);
+  memoryWindows.set(key, timestamps);
+  if (memoryWindows.size > MEMORY_MAX_KEYS) {
+    memoryWindows.delete(memoryWindows.keys().next().value!);
+  }
+
+  return {
+    allowed: true,
+    limit: rule.limit,
+    remaining: rule.limit - timestamps.length,
+    retryAfter: 0,
+  };
+}
+
+// ============================================
+// Enforcement
+// ============================================
+
+export async function consumeRateLimit(
+  rule: RateLimitRule,
+  identifier: string
+): Promise<RateLimitResult> {
+  const result = await checkRateLimit(identifier, rule.name, rule.limit, rule.windowSeconds);
+  return result ?? checkMemoryRateLimit(rule, identifier);
+}
+
+export function setRateLimitHeaders(response: NextResponse, result: RateLimitResult) {
+  response.headers.set('X-RateLimit-Limit', String(result.limit));
+  response.headers.set('X-RateLimit-Remaining', String(result.remaining));
+  if (!result.allowed) {
+    response.headers.set('Retry-After', String(result.retryAfter));
+  }
+  return response;
+}
+
+export function rateLimitExceeded(result: RateLimitResult) {
+  return setRateLimitHeaders(
+    NextResponse.json(
+      { error: 'Too many requests', retryAfter: result.retryAfter },
+      { status: 429 }
+    ),
+    result
+  );
+}
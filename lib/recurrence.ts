@@ -0,0 +1,131 @@
+import { NextRequest } from 'next/server';
+import { Prisma } from '@prisma/client';
+import { prisma } from './prisma';
+import { nextOccurrenceDate, parseRecurrence } from './rrule';
+import { getInitialState } from './workflows';
+import { taskInclude, taskListScopes } from './tasks';
+import { invalidateTaskCache, invalidateTasksCache } from './cache';
+import { AuditActor, recordAudit, taskAuditSnapshot } from './audit';
+import { publishTaskEvent } from './events';
+
+// Recurring tasks. A task with a recurrence rule is one occurrence of a
+// series, due on its due date. The next occurrence is generated when this one
+// is completed, or by the `recurrence` job once this one falls due, whichever
+// comes first. It copies the task (labels, watchers and an unchecked
+// checklist included) and starts in the workflow's initial state.
+//
+// Generating is idempotent: previousOccurrenceId is unique, so when two app
+// instances race for the same occurrence the second insert fails and is
+// ignored.
+
+// Occurrences generated per job run; the rest wait for the next run
+const JOB_BATCH_SIZE = 500;
+
+// Series fields of an occurrence with the given rule and due date. A task
+// without either doesn't recur.
+export function recurrenceFields(recurrence: string | null, dueDate: Date | null, occurrence = 1) {
+  if (!recurrence || !dueDate) {
+    return { recurrence: null, occurrence: null, nextOccurrenceAt: null };
+  }
+
+  // Stored rules were validated by the request schemas
+  const rule = parseRecurrence(recurrence);
+  if (typeof rule === 'string') {
+    throw new Error(`Invalid recurrence rule "${recurrence}": ${rule}`);
+  }
+
+  return { recurrence, occurrence, nextOccurrenceAt: nextOccurrenceDate(rule, dueDate, occurrence) };
+}
+
+// Generate the occurrence after a task. Returns it, or null when the series
+// has ended or the occurrence already exists.
+export async function createNextOccurrence(
+  taskId: string,
+  request: NextRequest | null,
+  actor: AuditActor | null
+) {
+  const task = await prisma.task.findUnique({
+    where: { id: taskId, deletedAt: null },
+    include: {
+      labels: { select: { id: true } },
+      watchers: { select: { userId: true } },
+      checklistItems: { orderBy: { position: 'asc' } },
+    },
+  });
+
+  if (!task?.recurrence || !task.nextOccurrenceAt || task.occurrence === null) {
+    return null;
+  }
+
+  const state = await getInitialState(task.projectId);
+
+  let next;
+  try {
+    next = await prisma.task.create({
+      data: {
+        title: task.title,
+        description: task.description,
+        status: state?.category ?? 'OPEN',
+        stateId: state?.id ?? null,
+        priority: task.priority,
+        dueDate: task.nextOccurrenceAt,
+        userId: task.userId,
+        assigneeId: task.assigneeId,
+        projectId: task.projectId,
+        parentId: task.parentId,
+        ...recurrenceFields(task.recurrence, task.nextOccurrenceAt, task.occurrence + 1),
+        previousOccurrenceId: task.id,
+        labels: { connect: task.labels },
+        watchers: { create: task.watchers },
+        checklistItems: {
+          create: task.checklistItems.map(({ title, position }) => ({ title, position })),
+        },
+      },
+      include: taskInclude,
+    });
+  } catch (error) {
+    if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+      return null;
+    }
+    throw error;
+  }
+
+  await Promise.all(taskListScopes(next).map(invalidateTasksCache));
+  if (next.parentId) {
+    await invalidateTaskCache(next.parentId, []);
+  }
+  await publishTaskEvent('task.created', next);
+
+  await recordAudit(request, actor, {
+    action: 'task.create',
+    targetType: 'task',
+    targetId: next.id,
+    after: taskAuditSnapshot(next),
+  });
+
+  return next;
+}
+
+// The `recurrence` job: generate the next occurrence of every recurring task
+// that has fallen due. A series that fell behind catches up one occurrence
+// per run.
+export async function generateDueOccurrences(now = new Date()) {
+  const due = await prisma.task.findMany({
+    where: {
+      nextOccurrenceAt: { not: null },
+      dueDate: { lte: now },
+      deletedAt: null,
+      nextOccurrence: { is: null },
+    },
+    select: { id: true },
+    orderBy: { dueDate: 'asc' },
+    take: JOB_BATCH_SIZE,
+  });
+
+  let created = 0;
+  for (const task of due) {
+    if (await createNextOccurrence(task.id, null, null)) created++;
+  }
+
+  return { due: due.length, created };
+}
@@ -1,25 +1,84 @@
 import { createClient } from 'redis';
 
+// How long a request waits on Redis before going on without it, e.g. failing
+// open on sessions or limiting rates in memory
+export const REDIS_TIMEOUT_MS = Number(process.env.REDIS_TIMEOUT_MS) || 1000;
+// Reconnect attempts after the connection drops before the client gives up;
+// requests then go without it for RECONNECT_PAUSE_MS before connecting again
+const MAX_RECONNECTS = 3;
+const RECONNECT_PAUSE_MS = 5000;
+
+const redisUrl = process.env.REDIS_URL || 'redis://localhost:6379';
+
 const redisClient = createClient({
-  url: process.env.REDIS_URL || 'redis://localhost:6379',
+  url: redisUrl,
+  // While Redis is unreachable, fail commands at once instead of queueing them
+  // until it's back
+  disableOfflineQueue: true,
+  commandOptions: { timeout: REDIS_TIMEOUT_MS },
+  socket: {
+    connectTimeout: REDIS_TIMEOUT_MS,
+    reconnectStrategy: (retries) => (retries < MAX_RECONNECTS ? 100 * 2 ** retries : false),
+  },
 });
 
 redisClient.on('error', (err) => console.error('Redis Client Error', err));
 redisClient.on('connect', () => console.log('Redis Client Connected'));
 
-let isConnected = false;
+// Wait until the promise settles, for at most REDIS_TIMEOUT_MS
+async function settleWithinTimeout(promise: Promise<unknown>) {
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  await Promise.race([promise, new Promise((resolve) => (timer = setTimeout(resolve, REDIS_TIMEOUT_MS)))]);
+  clearTimeout(timer);
+}
+
+let connecting: Promise<void> = Promise.resolve();
+let nextConnectAt = 0;
 
+// Connect unless connected or connecting. Returns once the client is ready or
+// after REDIS_TIMEOUT_MS, so check redisClient.isReady before relying on it.
+// After a failed connection it returns at once for a while, so requests don't
+// each wait on Redis while it's down.
 export async function connectRedis() {
-  if (!isConnected && !redisClient.isOpen) {
-    try {
-      await redisClient.connect();
-      isConnected = true;
-      console.log('Redis connected successfully');
-    } catch (error) {
-      console.error('Failed to connect to Redis:', error);
-    }
+  if (!redisClient.isOpen) {
+    if (Date.now() < nextConnectAt) return redisClient;
+    connecting = redisClient.connect().then(
+      () => console.log('Redis connected successfully'),
+      (error) => {
+        nextConnectAt = Date.now() + RECONNECT_PAUSE_MS;
+        console.error('Failed to connect to Redis:', error);
+      }
+    );
   }
+  if (!redisClient.isReady) await settleWithinTimeout(connecting);
   return redisClient;
 }
 
+// Pub/sub needs a connection of its own: a client in subscriber mode can't run
+// other commands. It keeps reconnecting however long Redis is down, so open
+// event streams get events again once it's back.
+const subscriberClient = createClient({
+  url: redisUrl,
+  disableOfflineQueue: true,
+  socket: {
+    connectTimeout: REDIS_TIMEOUT_MS,
+    reconnectStrategy: (retries) => Math.min(100 * 2 ** retries, 5000),
+  },
+});
+
+subscriberClient.on('error', (err) => console.error('Redis Subscriber Error', err));
+
+let subscriberConnecting: Promise<void> = Promise.resolve();
+
+export async function connectSubscriber() {
+  if (!subscriberClient.isOpen) {
+    subscriberConnecting = subscriberClient.connect().then(
+      () => console.log('Redis subscriber connected successfully'),
+      (error) => console.error('Failed to connect Redis subscriber:', error)
+    );
+  }
+  if (!subscriberClient.isReady) await settleWithinTimeout(subscriberConnecting);
+  return subscriberClient;
+}
+
 export { redisClient };
@@ -0,0 +1,110 @@
+import { describe, expect, it } from 'vitest';
+import { formatRecurrence, nextOccurrenceDate, parseRecurrence, RecurrenceRule } from './rrule';
+
+function rule(text: string) {
+  const parsed = parseRecurrence(text);
+  if (typeof parsed === 'string') throw new Error(parsed);
+  return parsed;
+}
+
+// The due dates of a series starting at `start`, up to `limit` of them
+function expand(recurrence: RecurrenceRule, start: string, limit = 6) {
+  const dates = [new Date(start)];
+  while (dates.length < limit) {
+    const next = nextOccurrenceDate(recurrence, dates[dates.length - 1], dates.length);
+    if (!next) break;
+    dates.push(next);
+  }
+  return dates.map((date) => date.toISOString().slice(0, 10));
+}
+
+describe('parseRecurrence', () => {
+  it('parses a rule into its canonical text', () => {
+    expect(formatRecurrence(rule('RRULE:freq=weekly;byday=TH,MO;interval=2;count=10'))).toBe(
+      'FREQ=WEEKLY;INTERVAL=2;BYDAY=MO,TH;COUNT=10'
+    );
+  });
+
+  it('rejects unsupported and conflicting parts', () => {
+    expect(parseRecurrence('FREQ=YEARLY')).toBe('FREQ must be DAILY, WEEKLY or MONTHLY');
+    expect(parseRecurrence('INTERVAL=2')).toBe('FREQ is required');
+    expect(parseRecurrence('FREQ=DAILY;COUNT=2;UNTIL=20261231')).toBe('Pass either UNTIL or COUNT');
+    expect(parseRecurrence('FREQ=MONTHLY;BYDAY=MO')).toBe('BYDAY is not supported with FREQ=MONTHLY');
+    expect(parseRecurrence('FREQ=DAILY;BYSETPOS=1')).toBe('BYSETPOS is not supported');
+  });
+});
+
+describe('nextOccurrenceDate', () => {
+  it('repeats daily on listed weekdays', () => {
+    // 2026-10-19 is a Monday
+    expect(expand(rule('FREQ=DAILY;BYDAY=MO,WE,FR'), '2026-10-19T09:00:00Z')).toEqual([
+      '2026-10-19',
+      '2026-10-21',
+      '2026-10-23',
+      '2026-10-26',
+      '2026-10-28',
+      '2026-10-30',
+    ]);
+  });
+
+  it('steps daily by the interval to a listed weekday', () => {
+    expect(expand(rule('FREQ=DAILY;INTERVAL=3;BYDAY=MO'), '2026-10-19T09:00:00Z', 3)).toEqual([
+      '2026-10-19',
+      '2026-11-09',
+      '2026-11-30',
+    ]);
+  });
+
+  it('keeps the weekday of a daily interval of whole weeks', () => {
+    expect(expand(rule('FREQ=DAILY;INTERVAL=7;BYDAY=MO'), '2026-10-19T09:00:00Z', 3)).toEqual([
+      '2026-10-19',
+      '2026-10-26',
+      '2026-11-02',
+    ]);
+    expect(expand(rule('FREQ=DAILY;INTERVAL=14;BYDAY=MO,TU'), '2026-10-20T09:00:00Z', 3)).toEqual([
+      '2026-10-20',
+      '2026-11-03',
+      '2026-11-17',
+    ]);
+  });
+
+  it('ends a daily interval of whole weeks that never reaches a listed weekday', () => {
+    // 2026-10-20 is a Tuesday
+    expect(expand(rule('FREQ=DAILY;INTERVAL=7;BYDAY=MO'), '2026-10-20T09:00:00Z')).toEqual([
+      '2026-10-20',
+    ]);
+  });
+
+  it('repeats weekly on listed weekdays every interval weeks', () => {
+    expect(expand(rule('FREQ=WEEKLY;INTERVAL=2;BYDAY=MO,TH'), '2026-10-19T09:00:00Z', 5)).toEqual([
+      '2026-10-19',
+      '2026-10-22',
+      '2026-11-02',
+      '2026-11-05',
+      '2026-11-16',
+    ]);
+  });
+
+  it('skips months without the day', () => {
+    expect(expand(rule('FREQ=MONTHLY'), '2026-01-31T09:00:00Z', 4)).toEqual([
+      '2026-01-31',
+      '2026-03-31',
+      '2026-05-31',
+      '2026-07-31',
+    ]);
+  });
+
+  it('keeps the time of day', () => {
+    const next = nextOccurrenceDate(rule('FREQ=DAILY'), new Date('2026-10-19T17:30:00Z'), 1);
+    expect(next?.toISOString()).toBe('2026-10-20T17:30:00.000Z');
+  });
+
+  it('ends the series at COUNT or UNTIL', () => {
+    expect(expand(rule('FREQ=DAILY;COUNT=3'), '2026-10-19T09:00:00Z')).toHaveLength(3);
+    expect(expand(rule('FREQ=DAILY;UNTIL=20261021'), '2026-10-19T09:00:00Z')).toEqual([
+      '2026-10-19',
+      '2026-10-20',
+      '2026-10-21',
+    ]);
+  });
+});
@@ -0,0 +1,162 @@
+// The subset of iCalendar recurrence rules (RFC 5545 RRULE) recurring tasks
+// support: FREQ=DAILY|WEEKLY|MONTHLY with INTERVAL, BYDAY (daily and weekly
+// rules) and an end given by UNTIL or COUNT, e.g.
+//
+//   FREQ=WEEKLY;INTERVAL=2;BYDAY=MO,TH;COUNT=10
+//
+// Dates are computed in UTC and keep the time of day of the first occurrence.
+// No imports: the request schemas validate rules with this module.
+
+export const WEEKDAYS = ['MO', 'TU', 'WE', 'TH', 'FR', 'SA', 'SU'] as const;
+
+export type Weekday = (typeof WEEKDAYS)[number];
+
+export interface RecurrenceRule {
+  freq: 'DAILY' | 'WEEKLY' | 'MONTHLY';
+  interval: number;
+  byDay: Weekday[];
+  until: Date | null;
+  count: number | null;
+}
+
+const MAX_INTERVAL = 365;
+const MAX_COUNT = 1000;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Monday-based weekday index, 0-6
+const weekdayIndex = (date: Date) => (date.getUTCDay() + 6) % 7;
+
+const addDays = (date: Date, days: number) => new Date(date.getTime() + days * DAY_MS);
+
+// 20261019 or 20261019T090000Z
+function parseUntil(value: string): Date | null {
+  const match = /^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})Z)?$/.exec(value);
+  if (!match) return null;
+  const [, year, month, day, hours, minutes, seconds] = match;
+  // A bare date includes the whole day
+  const date = hours
+    ? new Date(Date.UTC(+year, +month - 1, +day, +hours, +minutes, +seconds))
+    : new Date(Date.UTC(+year, +month - 1, +day, 23, 59, 59));
+  return date.getUTCDate() === +day ? date : null;
+}
+
+const formatUntil = (date: Date) =>
+  date.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+
+// Parse a rule, with or without the "RRULE:" prefix. Returns the rule or the
+// reason it was rejected.
+export function parseRecurrence(text: string): RecurrenceRule | string {
+  const rule: Partial<RecurrenceRule> = { interval: 1, byDay: [], until: null, count: null };
+  const seen = new Set<string>();
+
+  for (const part of text.trim().replace(/^RRULE:/i, '').split(';')) {
+    const [name, value] = part.split('=').map((s) => s.trim().toUpperCase());
+    if (!name || !value) return `Malformed rule part "${part}"`;
+    if (seen.has(name)) return `${name} is given twice`;
+    seen.add(name);
+
+    switch (name) {
+      case 'FREQ':
+        if (value !== 'DAILY' && value !== 'WEEKLY' && value !== 'MONTHLY') {
+          return 'FREQ must be DAILY, WEEKLY or MONTHLY';
+        }
+        rule.freq = value;
+        break;
+      case 'INTERVAL':
+        rule.interval = Number(value);
+        if (!Number.isInteger(rule.interval) || rule.interval < 1 || rule.interval > MAX_INTERVAL) {
+          return `INTERVAL must be a whole number from 1 to ${MAX_INTERVAL}`;
+        }
+        break;
+      case 'BYDAY': {
+        const days = value.split(',');
+        if (!days.every((day): day is Weekday => (WEEKDAYS as readonly string[]).includes(day))) {
+          return 'BYDAY must list weekdays: MO, TU, WE, TH, FR, SA, SU';
+        }
+        rule.byDay = WEEKDAYS.filter((day) => days.includes(day));
+        break;
+      }
+      case 'UNTIL':
+        rule.until = parseUntil(value);
+        if (!rule.until) return 'UNTIL must be a date like 20261231 or 20261231T170000Z';
+        break;
+      case 'COUNT':
+        rule.count = Number(value);
+        if (!Number.isInteger(rule.count) || rule.count < 1 || rule.count > MAX_COUNT) {
+          return `COUNT must be a whole number from 1 to ${MAX_COUNT}`;
+        }
+        break;
+      default:
+        return `${name} is not supported`;
+    }
+  }
+
+  if (!rule.freq) return 'FREQ is required';
+  if (rule.until && rule.count) return 'Pass either UNTIL or COUNT';
+  if (rule.freq === 'MONTHLY' && rule.byDay!.length > 0) return 'BYDAY is not supported with FREQ=MONTHLY';
+
+  return rule as RecurrenceRule;
+}
+
+// Canonical text of a rule, as stored on tasks
+export function formatRecurrence(rule: RecurrenceRule): string {
+  return [
+    `FREQ=${rule.freq}`,
+    ...(rule.interval !== 1 ? [`INTERVAL=${rule.interval}`] : []),
+    ...(rule.byDay.length > 0 ? [`BYDAY=${rule.byDay.join(',')}`] : []),
+    ...(rule.until ? [`UNTIL=${formatUntil(rule.until)}`] : []),
+    ...(rule.count ? [`COUNT=${rule.count}`] : []),
+  ].join(';');
+}
+
+// The next date of the series, or null when no later date matches the rule
+function nextDate(rule: RecurrenceRule, from: Date): Date | null {
+  const days = rule.byDay.map((day) => WEEKDAYS.indexOf(day));
+
+  if (rule.freq === 'DAILY') {
+    // An interval of whole weeks never changes the weekday
+    if (days.length > 0 && rule.interval % 7 === 0) {
+      return days.includes(weekdayIndex(from)) ? addDays(from, rule.interval) : null;
+    }
+    // Otherwise step by the interval until a listed weekday; any listed day is
+    // reached within 7 steps
+    let date = addDays(from, rule.interval);
+    for (let i = 0; days.length > 0 && !days.includes(weekdayIndex(date)) && i < 7; i++) {
+      date = addDays(date, rule.interval);
+    }
+    return date;
+  }
+
+  if (rule.freq === 'WEEKLY') {
+    if (days.length === 0) return addDays(from, 7 * rule.interval);
+    // A later listed day of the same week, or the first listed day of the
+    // week `interval` weeks on
+    const current = weekdayIndex(from);
+    const later = days.find((day) => day > current);
+    return later !== undefined
+      ? addDays(from, later - current)
+      : addDays(from, 7 * rule.interval - current + days[0]);
+  }
+
+  // MONTHLY: the same day of the month, skipping months without that day
+  const day = from.getUTCDate();
+  for (let months = rule.interval; ; months += rule.interval) {
+    const date = new Date(from);
+    date.setUTCDate(1);
+    date.setUTCMonth(date.getUTCMonth() + months);
+    date.setUTCDate(day);
+    if (date.getUTCDate() === day) return date;
+  }
+}
+
+// Due date of the occurrence after `from`, the due date of occurrence number
+// `occurrence` of the series, or null when the series ends there
+export function nextOccurrenceDate(
+  rule: RecurrenceRule,
+  from: Date,
+  occurrence: number
+): Date | null {
+  if (rule.count !== null && occurrence >= rule.count) return null;
+  const date = nextDate(rule, from);
+  return date && rule.until && date > rule.until ? null : date;
+}
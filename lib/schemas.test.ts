@@ -0,0 +1,31 @@
+import { describe, expect, it } from 'vitest';
+import {
+  addProjectMemberSchema,
+  createInvitationSchema,
+  forgotPasswordSchema,
+  loginSchema,
+  registerSchema,
+  registerWithInviteSchema,
+} from './schemas';
+
+describe('emails', () => {
+  it('are lowercased wherever they are stored', () => {
+    expect(registerSchema.parse({ email: 'Ada@Example.COM', password: 'password1' }).email).toBe(
+      'ada@example.com'
+    );
+    expect(
+      registerWithInviteSchema.parse({ token: 't', email: 'Ada@Example.COM', password: 'password1' }).email
+    ).toBe('ada@example.com');
+    expect(createInvitationSchema.parse({ email: 'Ada@Example.COM' }).email).toBe('ada@example.com');
+  });
+
+  it('are lowercased wherever they are looked up', () => {
+    expect(loginSchema.parse({ email: ' Ada@Example.COM ', password: 'x' }).email).toBe('ada@example.com');
+    expect(forgotPasswordSchema.parse({ email: 'Ada@Example.COM' }).email).toBe('ada@example.com');
+    expect(addProjectMemberSchema.parse({ email: 'Ada@Example.COM' }).email).toBe('ada@example.com');
+  });
+
+  it('still have to be valid', () => {
+    expect(registerSchema.safeParse({ email: 'not an email', password: 'password1' }).success).toBe(false);
+  });
+});
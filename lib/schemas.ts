@@ -0,0 +1,988 @@
+import { z } from 'zod';
+import { formatRecurrence, parseRecurrence } from './rrule';
+
+// Schemas registered here become named components in the generated OpenAPI
+// document (see lib/openapi.ts)
+export const schemaRegistry = z.registry<{ id: string; description?: string }>();
+
+// ============================================
+// Shared
+// ============================================
+
+// Mirror the enums in prisma/schema.prisma
+export const roleSchema = z.enum(['USER', 'ADMIN']);
+export const taskStatusSchema = z.enum(['OPEN', 'IN_PROGRESS', 'DONE']);
+export const taskPrioritySchema = z.enum(['LOW', 'MEDIUM', 'HIGH', 'URGENT']);
+export const projectRoleSchema = z.enum(['OWNER', 'EDITOR', 'VIEWER']);
+export const webhookDeliveryStatusSchema = z.enum(['PENDING', 'SUCCEEDED', 'FAILED']);
+export const notificationTypeSchema = z.enum([
+  'TASK_ASSIGNED',
+  'TASK_DUE_SOON',
+  'PASSWORD_RESET',
+  'ROLE_CHANGED',
+]);
+
+// Audit log vocabulary, see lib/audit.ts
+export const auditActionSchema = z.enum([
+  'task.create',
+  'task.update',
+  'task.delete',
+  'task.restore',
+  'auth.register',
+  'auth.login',
+  'auth.login_failed',
+  'auth.logout',
+  'auth.logout_all',
+  'auth.session_revoke',
+  'auth.password_forgot',
+  'auth.password_reset',
+  'auth.password_change',
+  'admin.user_update',
+  'admin.user_delete',
+  'admin.user_restore',
+  'admin.password_reset',
+  'admin.invitation_create',
+  'admin.invitation_revoke',
+  'admin.comment_delete',
+  'admin.workflow_create',
+  'admin.workflow_update',
+  'admin.workflow_delete',
+  'webhook.create',
+  'webhook.update',
+  'webhook.delete',
+]);
+export const auditTargetTypeSchema = z.enum([
+  'task',
+  'user',
+  'session',
+  'invitation',
+  'comment',
+  'workflow',
+  'webhook',
+]);
+
+// Audit actions webhooks can subscribe to, see lib/webhooks.ts
+export const webhookEventSchema = auditActionSchema.extract([
+  'task.create',
+  'task.update',
+  'task.delete',
+  'task.restore',
+  'admin.user_update',
+  'admin.user_delete',
+  'admin.user_restore',
+  'admin.password_reset',
+  'admin.invitation_create',
+  'admin.invitation_revoke',
+  'admin.comment_delete',
+  'admin.workflow_create',
+  'admin.workflow_update',
+  'admin.workflow_delete',
+]);
+
+// Background jobs, see lib/jobs.ts
+export const jobNameSchema = z.enum(['recurrence', 'purge', 'webhooks', 'notifications', 'mail']);
+
+// Emails are stored and looked up in lowercase
+const emailSchema = z.email('Invalid email address').toLowerCase();
+const passwordSchema = z.string().min(8, 'Password must be at least 8 characters');
+const nameSchema = z.string().trim().max(100, 'Name must be at most 100 characters');
+
+const pageSchema = z.coerce.number().int().min(1).default(1);
+const limitSchema = (defaultLimit: number) =>
+  z.coerce.number().int().min(1).max(100).default(defaultLimit);
+
+export const errorSchema = z
+  .object({ error: z.string() })
+  .register(schemaRegistry, { id: 'Error' });
+
+export const validationErrorSchema = z
+  .object({
+    error: z.literal('Validation failed'),
+    details: z.array(z.object({ field: z.string(), message: z.string() })),
+  })
+  .register(schemaRegistry, { id: 'ValidationError' });
+
+export const messageSchema = z.object({ message: z.string() });
+
+export const paginationSchema = z.object({
+  page: z.number().int(),
+  limit: z.number().int(),
+  total: z.number().int(),
+  totalPages: z.number().int(),
+});
+
+// ============================================
+// Models (response shapes)
+// ============================================
+
+export const userSchema = z
+  .object({
+    id: z.uuid(),
+    email: z.email(),
+    name: z.string().nullable(),
+    role: roleSchema,
+  })
+  .register(schemaRegistry, { id: 'User' });
+
+export const userWithTimestampSchema = userSchema
+  .extend({ createdAt: z.iso.datetime() })
+  .register(schemaRegistry, { id: 'UserWithTimestamp' });
+
+export const taskSchema = z
+  .object({
+    id: z.uuid(),
+    title: z.string(),
+    description: z.string().nullable(),
+    status: taskStatusSchema.describe('Category of the workflow state'),
+    stateId: z.uuid().nullable(),
+    priority: taskPrioritySchema,
+    dueDate: z.iso.datetime().nullable(),
+    userId: z.uuid(),
+    assigneeId: z.uuid().nullable(),
+    projectId: z.uuid().nullable(),
+    parentId: z.uuid().nullable(),
+    recurrence: z.string().nullable().describe('RRULE of a recurring task'),
+    occurrence: z.number().int().nullable().describe('Position in the recurring series, from 1'),
+    nextOccurrenceAt: z.iso
+      .datetime()
+      .nullable()
+      .describe('Due date of the next occurrence; null once the series ends'),
+    previousOccurrenceId: z.uuid().nullable(),
+    deletedAt: z.iso.datetime().nullable().describe('Set while the task is in the trash'),
+    createdAt: z.iso.datetime(),
+    updatedAt: z.iso.datetime(),
+  })
+  .register(schemaRegistry, { id: 'Task' });
+
+export const labelSchema = z
+  .object({
+    id: z.uuid(),
+    name: z.string(),
+    color: z.string().describe('Hex color, #rrggbb'),
+    userId: z.uuid().nullable().describe('Owner of a personal label'),
+    projectId: z.uuid().nullable().describe('Project of a project label'),
+    createdAt: z.iso.datetime(),
+    updatedAt: z.iso.datetime(),
+  })
+  .register(schemaRegistry, { id: 'Label' });
+
+export const taskEventSchema = z
+  .object({
+    id: z.string().describe('Event id, sent back as Last-Event-ID'),
+    type: z.enum(['task.created', 'task.updated', 'task.deleted']),
+    task: taskSchema.pick({ id: true, userId: true, projectId: true, parentId: true, assigneeId: true }),
+  })
+  .register(schemaRegistry, { id: 'TaskEvent' });
+
+export const dependencyGraphSchema = z
+  .object({
+    nodes: z.array(
+      z.object({
+        id: z.uuid(),
+        title: z.string().nullable().describe("Null for tasks you can't view"),
+        status: taskStatusSchema,
+      })
+    ),
+    upstream: z
+      .array(z.object({ blockerId: z.uuid(), blockedId: z.uuid() }))
+      .describe('The blockers of the task, their blockers and so on'),
+    downstream: z
+      .array(z.object({ blockerId: z.uuid(), blockedId: z.uuid() }))
+      .describe('The tasks it blocks, the tasks those block and so on'),
+  })
+  .register(schemaRegistry, { id: 'DependencyGraph' });
+
+export const checklistItemSchema = z
+  .object({
+    id: z.uuid(),
+    taskId: z.uuid(),
+    title: z.string(),
+    done: z.boolean(),
+    position: z.number().int(),
+    createdAt: z.iso.datetime(),
+    updatedAt: z.iso.datetime(),
+  })
+  .register(schemaRegistry, { id: 'ChecklistItem' });
+
+const progressCountSchema = z.object({ total: z.number().int(), done: z.number().int() });
+
+export const taskProgressSchema = z
+  .object({
+    subtasks: progressCountSchema.describe('Direct subtasks; done when in the DONE category'),
+    checklist: progressCountSchema,
+    percent: z
+      .number()
+      .int()
+      .nullable()
+      .describe('Share of subtasks and checklist items done; null without either'),
+  })
+  .register(schemaRegistry, { id: 'TaskProgress' });
+
+export const workflowStateSchema = z
+  .object({
+    id: z.uuid(),
+    name: z.string(),
+    category: taskStatusSchema,
+    position: z.number().int(),
+    isInitial: z.boolean(),
+  })
+  .register(schemaRegistry, { id: 'WorkflowState' });
+
+export const workflowTransitionSchema = z
+  .object({
+    id: z.uuid(),
+    name: z.string(),
+    fromStateId: z.uuid(),
+    toStateId: z.uuid(),
+    allowedRoles: z.array(projectRoleSchema).describe('Empty allows everyone who may edit the task'),
+  })
+  .register(schemaRegistry, { id: 'WorkflowTransition' });
+
+export const workflowSchema = z
+  .object({
+    id: z.uuid(),
+    name: z.string(),
+    isDefault: z.boolean(),
+    states: z.array(workflowStateSchema),
+    transitions: z.array(workflowTransitionSchema),
+    createdAt: z.iso.datetime(),
+    updatedAt: z.iso.datetime(),
+  })
+  .register(schemaRegistry, { id: 'Workflow' });
+
+export const taskWithAssigneeSchema = taskSchema
+  .extend({
+    assignee: z.object({ id: z.uuid(), email: z.email(), name: z.string().nullable() }).nullable(),
+    state: workflowStateSchema.pick({ id: true, name: true, category: true }).nullable(),
+    transitions: z
+      .array(workflowTransitionSchema.pick({ id: true, name: true, toStateId: true }))
+      .describe('Transitions the current user may perform; move with PATCH { stateId: toStateId }'),
+    labels: z.array(labelSchema.pick({ id: true, name: true, color: true })),
+    progress: taskProgressSchema,
+    openBlockers: z
+      .number()
+      .int()
+      .describe('Blocking tasks not done yet; the task cannot be completed while above 0'),
+  })
+  .register(schemaRegistry, { id: 'TaskWithAssignee' });
+
+export const taskDetailSchema = taskWithAssigneeSchema
+  .extend({
+    watchers: z.array(z.object({ userId: z.uuid() })),
+    subtasks: z.array(
+      taskSchema.pick({ id: true, title: true, status: true, stateId: true, assigneeId: true })
+    ),
+    checklistItems: z.array(checklistItemSchema),
+  })
+  .register(schemaRegistry, { id: 'TaskDetail' });
+
+export const taskSearchResultSchema = taskWithAssigneeSchema
+  .extend({
+    search: z.object({
+      rank: z.number(),
+      title: z.string(),
+      description: z.string().nullable(),
+    }),
+  })
+  .register(schemaRegistry, {
+    id: 'TaskSearchResult',
+    description: 'Task with its search rank. Matched words in the highlights are wrapped in <mark></mark>.',
+  });
+
+export const projectSchema = z
+  .object({
+    id: z.uuid(),
+    name: z.string(),
+    description: z.string().nullable(),
+    workflowId: z.uuid().nullable().describe('Null follows the default workflow'),
+    role: projectRoleSchema.describe('Role of the current user in the project'),
+    createdAt: z.iso.datetime(),
+    updatedAt: z.iso.datetime(),
+  })
+  .register(schemaRegistry, { id: 'Project' });
+
+export const projectMemberSchema = z
+  .object({
+    userId: z.uuid(),
+    email: z.email(),
+    name: z.string().nullable(),
+    role: projectRoleSchema,
+    createdAt: z.iso.datetime(),
+  })
+  .register(schemaRegistry, { id: 'ProjectMember' });
+
+const commentUserSchema = z.object({ id: z.uuid(), email: z.email(), name: z.string().nullable() });
+
+export const commentSchema = z
+  .object({
+    id: z.uuid(),
+    body: z.string(),
+    taskId: z.uuid(),
+    authorId: z.uuid().nullable(),
+    author: commentUserSchema.nullable().describe('Null when the author was deleted for good'),
+    mentions: z.array(commentUserSchema).describe('Users mentioned with @email'),
+    createdAt: z.iso.datetime(),
+    updatedAt: z.iso.datetime(),
+  })
+  .register(schemaRegistry, { id: 'Comment' });
+
+export const sessionSchema = z
+  .object({
+    id: z.uuid(),
+    createdAt: z.iso.datetime(),
+    lastSeenAt: z.iso.datetime(),
+    ip: z.string().nullable(),
+    userAgent: z.string().nullable(),
+    current: z.boolean(),
+  })
+  .register(schemaRegistry, { id: 'Session' });
+
+export const accountLockoutSchema = z
+  .object({
+    failedAttempts: z.number().int(),
+    locked: z.boolean(),
+    lockedUntil: z.iso.datetime().nullable(),
+  })
+  .register(schemaRegistry, { id: 'AccountLockout' });
+
+export const invitationSchema = z
+  .object({
+    id: z.uuid(),
+    email: z.email().nullable(),
+    role: roleSchema,
+    status: z.enum(['PENDING', 'ACCEPTED', 'EXPIRED']),
+    expiresAt: z.iso.datetime(),
+    acceptedAt: z.iso.datetime().nullable(),
+    createdAt: z.iso.datetime(),
+  })
+  .register(schemaRegistry, { id: 'Invitation' });
+
+export const auditEventSchema = z
+  .object({
+    id: z.uuid(),
+    action: auditActionSchema,
+    actorId: z.uuid().nullable(),
+    actorEmail: z.string().nullable().describe('Email of the actor at the time of the event'),
+    targetType: auditTargetTypeSchema,
+    targetId: z.string().nullable(),
+    before: z.record(z.string(), z.unknown()).nullable().describe('Changed fields before the event'),
+    after: z.record(z.string(), z.unknown()).nullable().describe('Changed fields after the event'),
+    ip: z.string().nullable(),
+    createdAt: z.iso.datetime(),
+  })
+  .register(schemaRegistry, { id: 'AuditEvent' });
+
+export const webhookSchema = z
+  .object({
+    id: z.uuid(),
+    url: z.url(),
+    events: z.array(webhookEventSchema),
+    description: z.string().nullable(),
+    active: z.boolean(),
+    userId: z.uuid().describe('Owner'),
+    createdAt: z.iso.datetime(),
+    updatedAt: z.iso.datetime(),
+  })
+  .register(schemaRegistry, { id: 'Webhook' });
+
+export const webhookPayloadSchema = z
+  .object({
+    id: z.uuid().describe('Id of the audit event; the same for every delivery of it'),
+    event: webhookEventSchema,
+    occurredAt: z.iso.datetime(),
+    actor: z.object({ id: z.uuid(), email: z.string() }).nullable(),
+    target: z.object({ type: auditTargetTypeSchema, id: z.string().nullable() }),
+    before: z.record(z.string(), z.unknown()).nullable(),
+    after: z.record(z.string(), z.unknown()).nullable(),
+  })
+  .register(schemaRegistry, { id: 'WebhookPayload' });
+
+export const webhookDeliverySchema = z
+  .object({
+    id: z.uuid(),
+    webhookId: z.uuid(),
+    event: webhookEventSchema,
+    payload: webhookPayloadSchema,
+    status: webhookDeliveryStatusSchema,
+    attempts: z.number().int(),
+    nextAttemptAt: z.iso.datetime().nullable().describe('Set while the delivery is pending'),
+    lastAttemptAt: z.iso.datetime().nullable(),
+    responseStatus: z.number().int().nullable().describe('HTTP status of the last attempt'),
+    responseBody: z.string().nullable().describe('Start of the last response body'),
+    error: z.string().nullable().describe('Why the last attempt failed'),
+    durationMs: z.number().int().nullable(),
+    redeliveryOfId: z.uuid().nullable().describe('The delivery this one was redelivered from'),
+    createdAt: z.iso.datetime(),
+  })
+  .register(schemaRegistry, { id: 'WebhookDelivery' });
+
+export const notificationSchema = z
+  .object({
+    id: z.uuid(),
+    type: notificationTypeSchema,
+    message: z.string(),
+    taskId: z.uuid().nullable().describe('The task it is about, if any'),
+    actorId: z.uuid().nullable().describe('Who caused it; null for reminders'),
+    readAt: z.iso.datetime().nullable(),
+    createdAt: z.iso.datetime(),
+  })
+  .register(schemaRegistry, { id: 'Notification' });
+
+const notificationChannelsSchema = z.object({
+  inApp: z.boolean().describe('Show in the notification center'),
+  email: z.boolean().describe('Send by email'),
+});
+
+export const notificationPreferencesSchema = z
+  .record(notificationTypeSchema, notificationChannelsSchema)
+  .register(schemaRegistry, { id: 'NotificationPreferences' });
+
+export const authResponseSchema = z.object({
+  message: z.string(),
+  user: userSchema,
+  token: z.string(),
+});
+
+// ============================================
+// Auth
+// ============================================
+
+export const registerSchema = z
+  .object({
+    email: emailSchema,
+    password: passwordSchema,
+    name: nameSchema.optional(),
+  })
+  .register(schemaRegistry, { id: 'RegisterRequest' });
+
+export const registerWithInviteSchema = z
+  .object({
+    token: z.string().min(1, 'Invitation token is required'),
+    email: emailSchema.optional(),
+    password: passwordSchema,
+    name: nameSchema.optional(),
+  })
+  .register(schemaRegistry, { id: 'RegisterWithInviteRequest' });
+
+export const loginSchema = z
+  .object({
+    email: z.string().trim().toLowerCase().min(1, 'Email is required'),
+    password: z.string().min(1, 'Password is required'),
+  })
+  .register(schemaRegistry, { id: 'LoginRequest' });
+
+export const forgotPasswordSchema = z
+  .object({
+    email: emailSchema,
+  })
+  .register(schemaRegistry, { id: 'ForgotPasswordRequest' });
+
+export const resetPasswordWithTokenSchema = z
+  .object({
+    token: z.string().min(1, 'Reset token is required'),
+    newPassword: passwordSchema,
+  })
+  .register(schemaRegistry, { id: 'ResetPasswordWithTokenRequest' });
+
+export const changePasswordSchema = z
+  .object({
+    currentPassword: z.string().min(1, 'Current password is required'),
+    newPassword: passwordSchema,
+  })
+  .refine((data) => data.newPassword !== data.currentPassword, {
+    message: 'New password must be different from the current password',
+    path: ['newPassword'],
+  })
+  .register(schemaRegistry, { id: 'ChangePasswordRequest' });
+
+// ============================================
+// Tasks
+// ============================================
+
+const taskTitleSchema = z
+  .string()
+  .trim()
+  .min(1, 'Title is required')
+  .max(200, 'Title must be at most 200 characters');
+const taskDescriptionSchema = z
+  .string()
+  .max(5000, 'Description must be at most 5000 characters')
+  .nullable();
+const taskDueDateSchema = z.iso
+  .datetime({ offset: true, message: 'Due date must be an ISO 8601 date-time' })
+  .nullable();
+const taskAssigneeSchema = z.uuid('Invalid assignee id').nullable();
+const taskWatcherIdsSchema = z
+  .array(z.uuid('Invalid watcher id'))
+  .max(50, 'A task can have at most 50 watchers')
+  .describe('Replaces the full list of watchers');
+const taskLabelIdsSchema = z
+  .array(z.uuid('Invalid label id'))
+  .max(20, 'A task can have at most 20 labels')
+  .describe('Labels of the task list: personal labels for personal tasks, project labels for project tasks');
+const taskParentSchema = z
+  .uuid('Invalid parent task id')
+  .describe('Parent task, in the same project or personal list');
+// Stored in canonical form, see lib/rrule.ts
+const taskRecurrenceSchema = z
+  .string()
+  .transform((text, ctx) => {
+    const rule = parseRecurrence(text);
+    if (typeof rule === 'string') {
+      ctx.addIssue({ code: 'custom', message: rule });
+      return z.NEVER;
+    }
+    return formatRecurrence(rule);
+  })
+  .describe(
+    'Repeats the task: an RRULE with FREQ=DAILY|WEEKLY|MONTHLY and optional INTERVAL, BYDAY, ' +
+      'UNTIL or COUNT, e.g. FREQ=WEEKLY;BYDAY=MO,TH;COUNT=10. The due date is the first occurrence.'
+  )
+  .nullable();
+
+export const createTaskSchema = z
+  .object({
+    title: taskTitleSchema,
+    description: taskDescriptionSchema.optional(),
+    status: taskStatusSchema.optional(),
+    priority: taskPrioritySchema.optional(),
+    dueDate: taskDueDateSchema.optional(),
+    assigneeId: taskAssigneeSchema.optional(),
+    watcherIds: taskWatcherIdsSchema.optional(),
+    parentId: taskParentSchema.optional(),
+    labelIds: taskLabelIdsSchema.optional(),
+    recurrence: taskRecurrenceSchema.optional(),
+  })
+  .refine((data) => !data.recurrence || data.dueDate, {
+    message: 'A recurring task needs a due date',
+    path: ['dueDate'],
+  })
+  .register(schemaRegistry, { id: 'CreateTaskRequest' });
+
+export const updateTaskSchema = z
+  .object({
+    title: taskTitleSchema.optional(),
+    description: taskDescriptionSchema.optional(),
+    status: taskStatusSchema
+      .describe('Moves to the first allowed state of this category')
+      .optional(),
+    stateId: z.uuid('Invalid state id').optional(),
+    priority: taskPrioritySchema.optional(),
+    dueDate: taskDueDateSchema.optional(),
+    assigneeId: taskAssigneeSchema.optional(),
+    watcherIds: taskWatcherIdsSchema.optional(),
+    parentId: taskParentSchema.nullable().optional(),
+    labelIds: taskLabelIdsSchema.describe('Replaces the full list of labels').optional(),
+    recurrence: taskRecurrenceSchema
+      .describe('Restarts the series from this occurrence; null stops it')
+      .optional(),
+    force: z
+      .boolean()
+      .describe('Complete the task even though blocking tasks are still open')
+      .optional(),
+  })
+  .refine((data) => Object.keys(data).length > 0, 'At least one field is required')
+  .refine((data) => data.status === undefined || data.stateId === undefined, {
+    message: 'Pass either status or stateId',
+    path: ['stateId'],
+  })
+  .register(schemaRegistry, { id: 'UpdateTaskRequest' });
+
+export const taskSortSchema = z.enum(['createdAt', 'updatedAt', 'dueDate', 'priority', 'title']);
+
+// Comma-separated label ids, e.g. ?labels=<id>,<id>&labelMatch=all
+const labelFilterSchema = z.preprocess(
+  (value) => (typeof value === 'string' ? value.split(',').filter(Boolean) : value),
+  z.array(z.uuid('Invalid label id')).min(1).max(20)
+);
+export const labelMatchSchema = z
+  .enum(['any', 'all'])
+  .describe('any: tasks with at least one of the labels (default); all: tasks with every label');
+
+export const listTasksQuerySchema = z.object({
+  assigned: z.literal('me').optional(),
+  status: taskStatusSchema.optional(),
+  priority: taskPrioritySchema.optional(),
+  labels: labelFilterSchema.optional(),
+  labelMatch: labelMatchSchema.optional(),
+  due: z.enum(['overdue', 'soon']).optional(),
+  search: z.string().trim().min(1).max(200).optional(),
+  sort: taskSortSchema.optional(),
+  order: z.enum(['asc', 'desc']).optional(),
+  cursor: z.uuid('Invalid cursor').optional(),
+  limit: limitSchema(50),
+});
+
+export const addDependencySchema = z
+  .object({
+    blockerId: z.uuid('Invalid task id').describe('Task that blocks this one'),
+  })
+  .register(schemaRegistry, { id: 'AddDependencyRequest' });
+
+export const deleteTaskQuerySchema = z.object({
+  cascade: z
+    .literal('true')
+    .describe('Also delete the subtasks; without it a task with subtasks is not deleted')
+    .optional(),
+});
+
+export const listTrashQuerySchema = z.object({
+  page: pageSchema,
+  limit: limitSchema(20),
+});
+
+export const taskHistoryQuerySchema = z.object({
+  page: pageSchema,
+  limit: limitSchema(50),
+});
+
+const searchTextSchema = z
+  .string()
+  .trim()
+  .min(1, 'Search query is required')
+  .max(200, 'Search query must be at most 200 characters');
+
+export const searchTasksQuerySchema = z.object({
+  q: searchTextSchema,
+  status: taskStatusSchema.optional(),
+  page: pageSchema,
+  limit: limitSchema(20),
+});
+
+// ============================================
+// Labels
+// ============================================
+
+const labelNameSchema = z
+  .string()
+  .trim()
+  .min(1, 'Name is required')
+  .max(50, 'Name must be at most 50 characters');
+const labelColorSchema = z
+  .string()
+  .regex(/^#[0-9a-fA-F]{6}$/, 'Color must be a hex color like #3b82f6')
+  .transform((color) => color.toLowerCase());
+
+export const listLabelsQuerySchema = z.object({
+  projectId: z.uuid('Invalid project id').describe('Project labels; personal labels without').optional(),
+});
+
+export const createLabelSchema = z
+  .object({
+    name: labelNameSchema,
+    color: labelColorSchema,
+    projectId: z
+      .uuid('Invalid project id')
+      .describe('Creates a project label (owners and editors); a personal label without')
+      .optional(),
+  })
+  .register(schemaRegistry, { id: 'CreateLabelRequest' });
+
+export const updateLabelSchema = z
+  .object({
+    name: labelNameSchema.optional(),
+    color: labelColorSchema.optional(),
+  })
+  .refine((data) => Object.keys(data).length > 0, 'At least one field is required')
+  .register(schemaRegistry, { id: 'UpdateLabelRequest' });
+
+// ============================================
+// Checklists
+// ============================================
+
+const checklistTitleSchema = z
+  .string()
+  .trim()
+  .min(1, 'Title is required')
+  .max(200, 'Title must be at most 200 characters');
+
+export const createChecklistItemSchema = z
+  .object({
+    title: checklistTitleSchema,
+  })
+  .register(schemaRegistry, { id: 'CreateChecklistItemRequest' });
+
+export const updateChecklistItemSchema = z
+  .object({
+    title: checklistTitleSchema.optional(),
+    done: z.boolean().optional(),
+    position: z.number().int().min(0).describe('New index in the checklist').optional(),
+  })
+  .refine((data) => Object.keys(data).length > 0, 'At least one field is required')
+  .register(schemaRegistry, { id: 'UpdateChecklistItemRequest' });
+
+// ============================================
+// Comments
+// ============================================
+
+const commentBodySchema = z
+  .string()
+  .trim()
+  .min(1, 'Comment is required')
+  .max(5000, 'Comment must be at most 5000 characters');
+
+export const createCommentSchema = z
+  .object({
+    body: commentBodySchema,
+  })
+  .register(schemaRegistry, { id: 'CreateCommentRequest' });
+
+export const updateCommentSchema = z
+  .object({
+    body: commentBodySchema,
+  })
+  .register(schemaRegistry, { id: 'UpdateCommentRequest' });
+
+// ============================================
+// Projects
+// ============================================
+
+const projectNameSchema = z
+  .string()
+  .trim()
+  .min(1, 'Name is required')
+  .max(100, 'Name must be at most 100 characters');
+const projectDescriptionSchema = z
+  .string()
+  .max(2000, 'Description must be at most 2000 characters')
+  .nullable();
+
+export const createProjectSchema = z
+  .object({
+    name: projectNameSchema,
+    description: projectDescriptionSchema.optional(),
+  })
+  .register(schemaRegistry, { id: 'CreateProjectRequest' });
+
+export const updateProjectSchema = z
+  .object({
+    name: projectNameSchema.optional(),
+    description: projectDescriptionSchema.optional(),
+    workflowId: z
+      .uuid('Invalid workflow id')
+      .nullable()
+      .describe('Null switches to the default workflow; tasks move to matching states')
+      .optional(),
+  })
+  .refine((data) => Object.keys(data).length > 0, 'At least one field is required')
+  .register(schemaRegistry, { id: 'UpdateProjectRequest' });
+
+export const addProjectMemberSchema = z
+  .object({
+    email: emailSchema,
+    role: projectRoleSchema.default('VIEWER'),
+  })
+  .register(schemaRegistry, { id: 'AddProjectMemberRequest' });
+
+export const updateProjectMemberSchema = z
+  .object({
+    role: projectRoleSchema,
+  })
+  .register(schemaRegistry, { id: 'UpdateProjectMemberRequest' });
+
+// ============================================
+// Webhooks
+// ============================================
+
+const webhookUrlSchema = z
+  .url({ protocol: /^https?$/, error: 'URL must be an http or https URL' })
+  .max(2000, 'URL must be at most 2000 characters');
+const webhookEventsSchema = z
+  .array(webhookEventSchema)
+  .min(1, 'At least one event is required')
+  .transform((events) => [...new Set(events)]);
+const webhookDescriptionSchema = z
+  .string()
+  .trim()
+  .max(200, 'Description must be at most 200 characters')
+  .nullable();
+
+export const createWebhookSchema = z
+  .object({
+    url: webhookUrlSchema,
+    events: webhookEventsSchema.describe('admin.* events need an admin'),
+    description: webhookDescriptionSchema.optional(),
+    active: z.boolean().default(true),
+  })
+  .register(schemaRegistry, { id: 'CreateWebhookRequest' });
+
+export const updateWebhookSchema = z
+  .object({
+    url: webhookUrlSchema.optional(),
+    events: webhookEventsSchema.optional(),
+    description: webhookDescriptionSchema.optional(),
+    active: z.boolean().optional(),
+    rotateSecret: z
+      .literal(true)
+      .describe('Replace the signing secret; the new one is in the response')
+      .optional(),
+  })
+  .refine((data) => Object.keys(data).length > 0, 'At least one field is required')
+  .register(schemaRegistry, { id: 'UpdateWebhookRequest' });
+
+export const listWebhookDeliveriesQuerySchema = z.object({
+  page: pageSchema,
+  limit: limitSchema(20),
+  status: webhookDeliveryStatusSchema.optional(),
+});
+
+// ============================================
+// Notifications
+// ============================================
+
+export const listNotificationsQuerySchema = z.object({
+  page: pageSchema,
+  limit: limitSchema(20),
+  unread: z.literal('true').describe('Only unread notifications').optional(),
+});
+
+export const updateNotificationPreferencesSchema = z
+  .partialRecord(
+    notificationTypeSchema,
+    notificationChannelsSchema
+      .partial()
+      .refine((data) => Object.keys(data).length > 0, 'At least one channel is required')
+  )
+  .refine((data) => Object.keys(data).length > 0, 'At least one type is required')
+  .register(schemaRegistry, { id: 'UpdateNotificationPreferencesRequest' });
+
+// ============================================
+// Admin
+// ============================================
+
+const workflowNameSchema = z
+  .string()
+  .trim()
+  .min(1, 'Name is required')
+  .max(50, 'Name must be at most 50 characters');
+
+export const workflowDefinitionSchema = z
+  .object({
+    name: workflowNameSchema,
+    isDefault: z.boolean().optional(),
+    states: z
+      .array(
+        z.object({
+          name: workflowNameSchema,
+          category: taskStatusSchema,
+          initial: z.boolean().optional(),
+        })
+      )
+      .min(1, 'A workflow needs at least one state')
+      .max(20, 'A workflow can have at most 20 states'),
+    transitions: z
+      .array(
+        z.object({
+          name: workflowNameSchema,
+          from: z.string().describe('State name'),
+          to: z.string().describe('State name'),
+          allowedRoles: z.array(projectRoleSchema).default([]),
+        })
+      )
+      .max(100, 'A workflow can have at most 100 transitions'),
+  })
+  .superRefine((data, ctx) => {
+    const names = data.states.map((state) => state.name);
+    if (new Set(names).size !== names.length) {
+      ctx.addIssue({ code: 'custom', path: ['states'], message: 'State names must be unique' });
+    }
+    if (data.states.filter((state) => state.initial).length > 1) {
+      ctx.addIssue({ code: 'custom', path: ['states'], message: 'Only one state can be initial' });
+    }
+
+    const pairs = new Set<string>();
+    data.transitions.forEach((transition, i) => {
+      if (!names.includes(transition.from) || !names.includes(transition.to)) {
+        ctx.addIssue({
+          code: 'custom',
+          path: ['transitions', i],
+          message: 'Transitions must connect states of the workflow',
+        });
+      }
+      if (transition.from === transition.to) {
+        ctx.addIssue({
+          code: 'custom',
+          path: ['transitions', i],
+          message: 'A transition must change the state',
+        });
+      }
+      const pair = `${transition.from}\n${transition.to}`;
+      if (pairs.has(pair)) {
+        ctx.addIssue({
+          code: 'custom',
+          path: ['transitions', i],
+          message: 'Only one transition per pair of states',
+        });
+      }
+      pairs.add(pair);
+    });
+  })
+  .register(schemaRegistry, {
+    id: 'WorkflowDefinition',
+    description: 'Full definition of a workflow. Existing states are matched by name.',
+  });
+
+export const listUsersQuerySchema = z.object({
+  page: pageSchema,
+  limit: limitSchema(10),
+  role: roleSchema.optional(),
+  search: z.string().trim().optional(),
+  deleted: z.literal('true').describe('List the users in the trash instead').optional(),
+});
+
+export const listAllTasksQuerySchema = z.object({
+  page: pageSchema,
+  limit: limitSchema(20),
+  status: taskStatusSchema.optional(),
+  userId: z.uuid().optional(),
+  labels: labelFilterSchema.optional(),
+  labelMatch: labelMatchSchema.optional(),
+  q: searchTextSchema.optional(),
+});
+
+export const listCommentsQuerySchema = z.object({
+  page: pageSchema,
+  limit: limitSchema(20),
+  taskId: z.uuid().optional(),
+  authorId: z.uuid().optional(),
+  search: z.string().trim().optional(),
+});
+
+export const listAuditEventsQuerySchema = z.object({
+  page: pageSchema,
+  limit: limitSchema(50),
+  action: auditActionSchema.optional(),
+  actorId: z.uuid().optional(),
+  targetType: auditTargetTypeSchema.optional(),
+  targetId: z.string().trim().min(1).optional(),
+  from: z.iso.datetime({ offset: true }).optional(),
+  to: z.iso.datetime({ offset: true }).optional(),
+});
+
+export const userTasksQuerySchema = z.object({
+  status: taskStatusSchema.optional(),
+});
+
+export const updateUserSchema = z
+  .object({
+    name: nameSchema.nullable().optional(),
+    role: roleSchema.optional(),
+    email: emailSchema.optional(),
+    unlock: z.boolean().optional(),
+  })
+  .refine((data) => Object.keys(data).length > 0, 'At least one field is required')
+  .register(schemaRegistry, { id: 'UpdateUserRequest' });
+
+export const resetPasswordSchema = z
+  .object({
+    newPassword: passwordSchema,
+  })
+  .register(schemaRegistry, { id: 'ResetPasswordRequest' });
+
+export const createInvitationSchema = z
+  .object({
+    email: emailSchema.optional(),
+    role: roleSchema.default('USER'),
+    expiresInHours: z.number().int().min(1).max(30 * 24).default(72),
+  })
+  .register(schemaRegistry, { id: 'CreateInvitationRequest' });
@@ -0,0 +1,123 @@
+import { Prisma, TaskStatus } from '@prisma/client';
+import { prisma } from './prisma';
+import { LabelMatch } from './labels';
+
+// Full-text task search over the generated "Task"."searchVector" column
+// (title weighted above description, GIN indexed). Queries use websearch
+// syntax: quoted phrases, `or` and `-excluded` words work as users expect.
+
+export const HIGHLIGHT_START = '<mark>';
+export const HIGHLIGHT_END = '</mark>';
+
+const TITLE_HEADLINE = `HighlightAll=true, StartSel=${HIGHLIGHT_START}, StopSel=${HIGHLIGHT_END}`;
+const DESCRIPTION_HEADLINE =
+  `MaxFragments=2, MaxWords=20, MinWords=5, FragmentDelimiter=" … ", ` +
+  `StartSel=${HIGHLIGHT_START}, StopSel=${HIGHLIGHT_END}`;
+
+export interface TaskSearchFilters {
+  // Tasks created by this user
+  userId?: string;
+  // Tasks this user can see: their personal tasks, their projects' tasks and
+  // the tasks they are assigned to or watch
+  visibleTo?: string;
+  status?: TaskStatus;
+  // Tasks carrying any (or with labelMatch 'all', every one) of these labels
+  labelIds?: string[];
+  labelMatch?: LabelMatch;
+}
+
+export interface TaskSearchHit {
+  id: string;
+  rank: number;
+  titleHighlight: string;
+  descriptionHighlight: string | null;
+}
+
+function filterSql(filters: TaskSearchFilters) {
+  const conditions = [Prisma.sql`t."searchVector" @@ query.q`, Prisma.sql`t."deletedAt" IS NULL`];
+  if (filters.userId) {
+    conditions.push(Prisma.sql`t."userId" = ${filters.userId}::uuid`);
+  }
+  if (filters.visibleTo) {
+    conditions.push(Prisma.sql`(
+      (t."projectId" IS NULL AND t."userId" = ${filters.visibleTo}::uuid)
+      OR t."projectId" IN (
+        SELECT "projectId" FROM "ProjectMember" WHERE "userId" = ${filters.visibleTo}::uuid
+      )
+      OR t."assigneeId" = ${filters.visibleTo}::uuid
+      OR t."id" IN (
+        SELECT "taskId" FROM "TaskWatcher" WHERE "userId" = ${filters.visibleTo}::uuid
+      )
+    )`);
+  }
+  if (filters.status) {
+    conditions.push(Prisma.sql`t."status" = ${filters.status}::"TaskStatus"`);
+  }
+  if (filters.labelIds?.length) {
+    const labelIds = Prisma.join(filters.labelIds.map((id) => Prisma.sql`${id}::uuid`));
+    if (filters.labelMatch === 'all') {
+      conditions.push(Prisma.sql`(
+        SELECT count(DISTINCT "A") FROM "_LabelToTask" WHERE "B" = t."id" AND "A" IN (${labelIds})
+      ) = ${new Set(filters.labelIds).size}`);
+    } else {
+      conditions.push(Prisma.sql`EXISTS (
+        SELECT 1 FROM "_LabelToTask" WHERE "B" = t."id" AND "A" IN (${labelIds})
+      )`);
+    }
+  }
+  return Prisma.join(conditions, ' AND ');
+}
+
+// Returns one page of matches ordered by rank, plus the total match count.
+// Hits only carry ids; load the tasks themselves with Prisma.
+export async function searchTasks(
+  text: string,
+  filters: TaskSearchFilters,
+  { limit, offset }: { limit: number; offset: number }
+): Promise<{ hits: TaskSearchHit[]; total: number }> {
+  const query = Prisma.sql`(SELECT websearch_to_tsquery('english', ${text}) AS q) AS query`;
+  const where = filterSql(filters);
+
+  const [hits, [{ total }]] = await Promise.all([
+    prisma.$queryRaw<TaskSearchHit[]>`
+      SELECT
+        t."id",
+        ts_rank(t."searchVector", query.q) AS "rank",
+        ts_headline('english', t."title", query.q, ${TITLE_HEADLINE}) AS "titleHighlight",
+        CASE WHEN t."description" IS NULL THEN NULL
+          ELSE ts_headline('english', t."description", query.q, ${DESCRIPTION_HEADLINE})
+        END AS "descriptionHighlight"
+      FROM "Task" t, ${query}
+      WHERE ${where}
+      ORDER BY "rank" DESC, t."createdAt" DESC
+      LIMIT ${limit} OFFSET ${offset}
+    `,
+    prisma.$queryRaw<{ total: number }[]>`
+      SELECT count(*)::int AS "total"
+      FROM "Task" t, ${query}
+      WHERE ${where}
+    `,
+  ]);
+
+  return { hits, total };
+}
+
+// Put loaded tasks in rank order and attach their highlights
+export function withSearchHits<T extends { id: string }>(tasks: T[], hits: TaskSearchHit[]) {
+  const tasksById = new Map(tasks.map((task) => [task.id, task]));
+
+  return hits.flatMap((hit) => {
+    const task = tasksById.get(hit.id);
+    if (!task) return [];
+    return [
+      {
+        ...task,
+        search: {
+          rank: hit.rank,
+          title: hit.titleHighlight,
+          description: hit.descriptionHighlight,
+        },
+      },
+    ];
+  });
+}
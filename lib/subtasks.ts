@@ -0,0 +1,120 @@
+import { Prisma } from '@prisma/client';
+import { prisma } from './prisma';
+
+// Subtasks and checklists. A subtask is a regular task with a parentId; it
+// lives in its parent's project, or for personal tasks in the same user's
+// list, so it is visible wherever the parent is. Checklist items are plain
+// to-do lines on a task.
+//
+// Progress counts a task's direct subtasks (done in the DONE category) and its
+// checklist items. It is computed per request: a subtask's change would
+// otherwise have to invalidate every cached list its parent appears in.
+
+export const MAX_CHECKLIST_ITEMS = 100;
+
+type TaskScope = { userId: string; projectId: string | null };
+
+// Check that a task in `scope` may be nested under the parent: the parent has
+// to be in the same project, or be a personal task of the same user. Returns
+// the error message to respond with, or null.
+export async function checkParent(parentId: string, scope: TaskScope): Promise<string | null> {
+  const parent = await prisma.task.findUnique({
+    where: { id: parentId, deletedAt: null },
+    select: { userId: true, projectId: true },
+  });
+
+  const sameList =
+    parent !== null &&
+    parent.projectId === scope.projectId &&
+    (scope.projectId !== null || parent.userId === scope.userId);
+
+  return sameList ? null : 'Parent task not found in the same project or task list';
+}
+
+// Ids of every task below this one, at any depth, including those in the
+// trash
+export async function descendantIds(taskId: string): Promise<string[]> {
+  const rows = await prisma.$queryRaw<{ id: string }[]>`
+    WITH RECURSIVE descendants AS (
+      SELECT "id" FROM "Task" WHERE "parentId" = ${taskId}::uuid
+      UNION
+      SELECT t."id" FROM "Task" t JOIN descendants d ON t."parentId" = d."id"
+    )
+    SELECT "id" FROM descendants
+  `;
+  return rows.map((row) => row.id);
+}
+
+const percent = (done: number, total: number) =>
+  total === 0 ? null : Math.round((done / total) * 100);
+
+// Attach `progress` to each task
+export async function withProgress<T extends { id: string }>(tasks: T[]) {
+  const ids = tasks.map((task) => task.id);
+
+  const [subtasks, items] = await Promise.all([
+    ids.length > 0
+      ? prisma.task.groupBy({
+          by: ['parentId', 'status'],
+          where: { parentId: { in: ids }, deletedAt: null },
+          _count: { _all: true },
+        })
+      : [],
+    ids.length > 0
+      ? prisma.checklistItem.groupBy({
+          by: ['taskId', 'done'],
+          where: { taskId: { in: ids } },
+          _count: { _all: true },
+        })
+      : [],
+  ]);
+
+  return tasks.map((task) => {
+    const subtaskCounts = { total: 0, done: 0 };
+    for (const group of subtasks.filter((g) => g.parentId === task.id)) {
+      subtaskCounts.total += group._count._all;
+      if (group.status === 'DONE') subtaskCounts.done += group._count._all;
+    }
+
+    const checklistCounts = { total: 0, done: 0 };
+    for (const group of items.filter((g) => g.taskId === task.id)) {
+      checklistCounts.total += group._count._all;
+      if (group.done) checklistCounts.done += group._count._all;
+    }
+
+    return {
+      ...task,
+      progress: {
+        subtasks: subtaskCounts,
+        checklist: checklistCounts,
+        percent: percent(
+          subtaskCounts.done + checklistCounts.done,
+          subtaskCounts.total + checklistCounts.total
+        ),
+      },
+    };
+  });
+}
+
+// Move a checklist item to a new index, shifting the items in between
+export async function moveChecklistItem(
+  tx: Prisma.TransactionClient,
+  taskId: string,
+  itemId: string,
+  position: number
+) {
+  const items = await tx.checklistItem.findMany({
+    where: { taskId },
+    select: { id: true, position: true },
+    orderBy: [{ position: 'asc' }, { createdAt: 'asc' }],
+  });
+
+  const ordered = items.filter((item) => item.id !== itemId);
+  ordered.splice(Math.min(position, ordered.length), 0, { id: itemId, position });
+
+  for (const [index, item] of ordered.entries()) {
+    if (items.find((current) => current.id === item.id)?.position !== index) {
+      await tx.checklistItem.update({ where: { id: item.id }, data: { position: index } });
+    }
+  }
+}
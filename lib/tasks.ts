@@ -0,0 +1,184 @@
+import { createHash } from 'crypto';
+import { Prisma } from '@prisma/client';
+import { z } from 'zod';
+import { listTasksQuerySchema } from './schemas';
+import { prisma } from './prisma';
+import { getTasksCacheKey, getCachedTasks, setCachedTasks } from './cache';
+import { taskStateSelect, withTransitions } from './workflows';
+import { withProgress } from './subtasks';
+import { withOpenBlockers } from './dependencies';
+import { labelFilterWhere, labelSelect } from './labels';
+
+// A task is due soon when its due date falls within this many hours from now
+export const DUE_SOON_HOURS = 48;
+
+export type DueFilter = 'overdue' | 'soon';
+export type TaskListQuery = z.infer<typeof listTasksQuerySchema>;
+
+// Completed tasks are never overdue or due soon
+export function dueDateWhere(due: DueFilter, now = new Date()): Prisma.TaskWhereInput {
+  if (due === 'overdue') {
+    return { status: { not: 'DONE' }, dueDate: { lt: now } };
+  }
+
+  return {
+    status: { not: 'DONE' },
+    dueDate: { gte: now, lte: new Date(now.getTime() + DUE_SOON_HOURS * 60 * 60 * 1000) },
+  };
+}
+
+// Due date and title read naturally ascending, the rest newest/highest first
+const DEFAULT_ORDER: Record<NonNullable<TaskListQuery['sort']>, Prisma.SortOrder> = {
+  createdAt: 'desc',
+  updatedAt: 'desc',
+  dueDate: 'asc',
+  priority: 'desc',
+  title: 'asc',
+};
+
+export const projectListScope = (projectId: string) => `project:${projectId}`;
+export const assignedListScope = (userId: string) => `assigned:${userId}`;
+
+// Cache scopes of the lists a task appears in: the project's list for project
+// tasks or the creator's personal list otherwise, plus the assignee's
+// "assigned to me" list
+export function taskListScopes(task: {
+  userId: string;
+  projectId?: string | null;
+  assigneeId?: string | null;
+}) {
+  const scopes = [task.projectId ? projectListScope(task.projectId) : task.userId];
+  if (task.assigneeId) {
+    scopes.push(assignedListScope(task.assigneeId));
+  }
+  return scopes;
+}
+
+// Relations returned with tasks in lists and in create responses
+export const taskInclude = {
+  assignee: {
+    select: { id: true, email: true, name: true },
+  },
+  state: {
+    select: taskStateSelect,
+  },
+  labels: {
+    select: labelSelect,
+    orderBy: { name: 'asc' },
+  },
+} satisfies Prisma.TaskInclude;
+
+// Relations returned with a single task
+export const taskDetailInclude = {
+  ...taskInclude,
+  watchers: {
+    select: { userId: true },
+    orderBy: { createdAt: 'asc' },
+  },
+  subtasks: {
+    where: { deletedAt: null },
+    select: { id: true, title: true, status: true, stateId: true, assigneeId: true },
+    orderBy: { createdAt: 'asc' },
+  },
+  checklistItems: {
+    orderBy: { position: 'asc' },
+  },
+} satisfies Prisma.TaskInclude;
+
+// Fields added to tasks in every response, computed per request: the
+// workflow transitions the user may perform, the progress of subtasks and the
+// number of open blockers
+export async function withTaskExtras<
+  T extends Parameters<typeof withTransitions>[0][number] & { id: string },
+>(tasks: T[], userId: string) {
+  return withOpenBlockers(await withProgress(await withTransitions(tasks, userId)));
+}
+
+// `scope` selects the list: a user's personal tasks, a project's tasks or the
+// tasks assigned to a user
+function taskListWhere(
+  scope: Prisma.TaskWhereInput,
+  query: TaskListQuery
+): Prisma.TaskWhereInput {
+  const filters: Prisma.TaskWhereInput[] = [scope, { deletedAt: null }];
+
+  if (query.status) filters.push({ status: query.status });
+  if (query.priority) filters.push({ priority: query.priority });
+  if (query.due) filters.push(dueDateWhere(query.due));
+  if (query.labels) filters.push(labelFilterWhere(query.labels, query.labelMatch));
+  if (query.search) {
+    filters.push({
+      OR: [
+        { title: { contains: query.search, mode: 'insensitive' } },
+        { description: { contains: query.search, mode: 'insensitive' } },
+      ],
+    });
+  }
+
+  return { AND: filters };
+}
+
+// The id tiebreaker gives cursors a stable position when sort values repeat
+function taskListOrderBy(query: TaskListQuery): Prisma.TaskOrderByWithRelationInput[] {
+  const sort = query.sort ?? (query.due ? 'dueDate' : 'createdAt');
+  const order = query.order ?? DEFAULT_ORDER[sort];
+  return [{ [sort]: order }, { id: order }];
+}
+
+// Stable cache key for a list query: the same parameters in any order hash
+// to the same key
+function taskListCacheKey(query: TaskListQuery): string {
+  const normalized = Object.entries(query)
+    .filter(([, value]) => value !== undefined)
+    .sort(([a], [b]) => a.localeCompare(b));
+  return createHash('sha1').update(JSON.stringify(normalized)).digest('hex').slice(0, 16);
+}
+
+// One page of a task list, served from the cache when possible
+export async function listTasks(
+  scope: { userId: string; projectId: null } | { projectId: string } | { assigneeId: string },
+  query: TaskListQuery
+) {
+  const cacheScope =
+    'userId' in scope
+      ? scope.userId
+      : 'assigneeId' in scope
+        ? assignedListScope(scope.assigneeId)
+        : projectListScope(scope.projectId);
+
+  // Due filters depend on the current time, so they bypass the cache
+  const cacheKey = query.due
+    ? null
+    : await getTasksCacheKey(cacheScope, taskListCacheKey(query));
+
+  if (cacheKey) {
+    const cachedPage = await getCachedTasks(cacheKey);
+    if (cachedPage) {
+      console.log('Cache hit: tasks list');
+      return { ...cachedPage, cached: true };
+    }
+  }
+
+  // Fallback to database. Fetch one extra row to know if there is a next page.
+  console.log('Cache miss: fetching tasks from database');
+  const tasks = await prisma.task.findMany({
+    where: taskListWhere(scope, query),
+    include: taskInclude,
+    orderBy: taskListOrderBy(query),
+    take: query.limit + 1,
+    ...(query.cursor && { cursor: { id: query.cursor }, skip: 1 }),
+  });
+
+  const hasMore = tasks.length > query.limit;
+  const page = {
+    tasks: hasMore ? tasks.slice(0, query.limit) : tasks,
+    nextCursor: hasMore ? tasks[query.limit - 1].id : null,
+  };
+
+  // Cache for next time
+  if (cacheKey) {
+    await setCachedTasks(cacheKey, page);
+  }
+
+  return { ...page, cached: false };
+}
@@ -0,0 +1,93 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+const { prisma, invalidateTaskCache, publishTaskEvents } = vi.hoisted(() => ({
+  prisma: {
+    $transaction: vi.fn(),
+    task: { findMany: vi.fn(), updateMany: vi.fn(), deleteMany: vi.fn() },
+    user: { deleteMany: vi.fn() },
+  },
+  invalidateTaskCache: vi.fn(),
+  publishTaskEvents: vi.fn(),
+}));
+
+vi.mock('./prisma', () => ({ prisma }));
+vi.mock('./cache', () => ({ invalidateTaskCache }));
+vi.mock('./events', () => ({ publishTaskEvents }));
+
+import { purgeTrash, TRASH_RETENTION_DAYS, trashTasks } from './trash';
+
+const task = (id: string) => ({
+  id,
+  userId: 'user-1',
+  projectId: null,
+  parentId: null,
+  assigneeId: null,
+});
+
+describe('purgeTrash', () => {
+  const now = new Date('2026-10-19T12:00:00Z');
+  const cutoff = new Date(now.getTime() - TRASH_RETENTION_DAYS * 24 * 60 * 60 * 1000);
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    prisma.task.updateMany.mockImplementation((args) => ({ op: 'endSeries', args }));
+    prisma.user.deleteMany.mockImplementation((args) => ({ op: 'deleteUsers', args }));
+    prisma.task.deleteMany.mockImplementation((args) => ({ op: 'deleteTasks', args }));
+    prisma.$transaction.mockResolvedValue([{ count: 1 }, { count: 2 }, { count: 3 }]);
+  });
+
+  it('deletes users and tasks in the trash for longer than the retention window', async () => {
+    prisma.task.findMany.mockResolvedValue([]);
+
+    const result = await purgeTrash(now);
+
+    expect(result).toEqual({ users: 2, tasks: 3, seriesEnded: 0 });
+    const [operations] = prisma.$transaction.mock.calls[0];
+    expect(operations).toContainEqual({
+      op: 'deleteUsers',
+      args: { where: { deletedAt: { lte: cutoff } } },
+    });
+    expect(operations).toContainEqual({
+      op: 'deleteTasks',
+      args: { where: { deletedAt: { lte: cutoff } } },
+    });
+  });
+
+  it('ends the series of occurrences followed by a purged one', async () => {
+    prisma.task.findMany.mockResolvedValue([task('previous')]);
+
+    const result = await purgeTrash(now);
+
+    expect(result.seriesEnded).toBe(1);
+    const purged = {
+      OR: [{ deletedAt: { lte: cutoff } }, { user: { deletedAt: { lte: cutoff } } }],
+    };
+    expect(prisma.task.findMany).toHaveBeenCalledWith(
+      expect.objectContaining({ where: { nextOccurrence: { is: purged }, NOT: purged } })
+    );
+    const [operations] = prisma.$transaction.mock.calls[0];
+    expect(operations[0]).toEqual({
+      op: 'endSeries',
+      args: { where: { id: { in: ['previous'] } }, data: { nextOccurrenceAt: null } },
+    });
+    expect(invalidateTaskCache).toHaveBeenCalledWith('previous', expect.any(Array));
+  });
+});
+
+describe('trashTasks', () => {
+  beforeEach(() => vi.clearAllMocks());
+
+  it('moves live tasks to the trash and tells their viewers', async () => {
+    const deletedAt = new Date();
+    const tasks = [task('a'), task('b')];
+
+    await trashTasks(tasks, deletedAt);
+
+    expect(prisma.task.updateMany).toHaveBeenCalledWith({
+      where: { id: { in: ['a', 'b'] }, deletedAt: null },
+      data: { deletedAt },
+    });
+    expect(invalidateTaskCache).toHaveBeenCalledTimes(2);
+    expect(publishTaskEvents).toHaveBeenCalledWith('task.deleted', tasks);
+  });
+});
@@ -0,0 +1,176 @@
+import { Prisma } from '@prisma/client';
+import { prisma } from './prisma';
+import { descendantIds } from './subtasks';
+import { dropCyclicDependencies } from './dependencies';
+import { taskListScopes } from './tasks';
+import { invalidateTaskCache } from './cache';
+import { publishTaskEvents, TaskEventType } from './events';
+
+// Soft delete. Deleting a task or a user moves it to the trash by setting
+// deletedAt, and every read skips rows in the trash: filter with
+// `deletedAt: null` (or "deletedAt" IS NULL in raw SQL). Rows deleted
+// together (a task with its subtasks, a user with their tasks) share one
+// deletedAt, which is how a restore finds what else to bring back. The
+// `purge` job removes rows for good once they have been in the trash for
+// TRASH_RETENTION_DAYS.
+
+function envNumber(name: string, fallback: number): number {
+  const value = Number(process.env[name]);
+  return value > 0 ? value : fallback;
+}
+
+export const TRASH_RETENTION_DAYS = envNumber('TRASH_RETENTION_DAYS', 30);
+
+const RETENTION_MS = TRASH_RETENTION_DAYS * 24 * 60 * 60 * 1000;
+
+// When a row in the trash is purged
+export const purgeDate = (deletedAt: Date) => new Date(deletedAt.getTime() + RETENTION_MS);
+
+type TrashedTask = {
+  id: string;
+  userId: string;
+  projectId: string | null;
+  parentId: string | null;
+  assigneeId: string | null;
+};
+
+const trashedTaskSelect = {
+  id: true,
+  userId: true,
+  projectId: true,
+  parentId: true,
+  assigneeId: true,
+} satisfies Prisma.TaskSelect;
+
+// Tasks matching `where` with their subtasks at any depth, all with the given
+// deletedAt
+async function withSubtasks(where: Prisma.TaskWhereInput, deletedAt: Date | null) {
+  const tasks = await prisma.task.findMany({
+    where: { ...where, deletedAt },
+    select: trashedTaskSelect,
+  });
+
+  const seen = new Set(tasks.map((task) => task.id));
+  for (let parents = tasks; parents.length > 0; ) {
+    const children = await prisma.task.findMany({
+      where: { parentId: { in: parents.map((task) => task.id) }, deletedAt },
+      select: trashedTaskSelect,
+    });
+    parents = children.filter((task) => !seen.has(task.id));
+    parents.forEach((task) => seen.add(task.id));
+    tasks.push(...parents);
+  }
+
+  return tasks;
+}
+
+// Drop the cached tasks and their lists, and tell their viewers the tasks are
+// gone or back
+async function invalidateTasks(tasks: TrashedTask[], event: TaskEventType) {
+  for (const task of tasks) {
+    await invalidateTaskCache(task.id, taskListScopes(task));
+  }
+  await publishTaskEvents(event, tasks);
+}
+
+// Move tasks to the trash together
+export async function trashTasks(tasks: TrashedTask[], deletedAt = new Date()) {
+  await prisma.task.updateMany({
+    where: { id: { in: tasks.map((task) => task.id) }, deletedAt: null },
+    data: { deletedAt },
+  });
+  await invalidateTasks(tasks, 'task.deleted');
+}
+
+// Restore a task from the trash with the subtasks deleted along with it.
+// Their dependencies that would now close a cycle are dropped. Returns the
+// restored tasks as they were in the trash, the task itself first.
+export async function restoreTask(task: { id: string; deletedAt: Date }) {
+  const ids = [task.id, ...(await descendantIds(task.id))];
+  const restored = await prisma.task.findMany({
+    where: { id: { in: ids }, deletedAt: task.deletedAt },
+  });
+
+  await prisma.task.updateMany({
+    where: { id: { in: restored.map((t) => t.id) } },
+    data: { deletedAt: null },
+  });
+  await dropCyclicDependencies(restored.map((t) => t.id));
+  await invalidateTasks(restored, 'task.created');
+
+  return restored.sort((a, b) => Number(b.id === task.id) - Number(a.id === task.id));
+}
+
+// Move a user to the trash with the tasks they created, subtasks included.
+// Their sessions are revoked by the caller.
+export async function trashUser(userId: string) {
+  const deletedAt = new Date();
+  const tasks = await withSubtasks({ userId }, null);
+
+  await prisma.$transaction([
+    prisma.user.update({ where: { id: userId }, data: { deletedAt } }),
+    prisma.task.updateMany({
+      where: { id: { in: tasks.map((task) => task.id) } },
+      data: { deletedAt },
+    }),
+  ]);
+  await invalidateTasks(tasks, 'task.deleted');
+
+  return { deletedAt, deletedTasks: tasks.length };
+}
+
+// Restore a user with the tasks deleted along with them, dropping dependencies
+// like restoreTask
+export async function restoreUser(user: { id: string; deletedAt: Date }) {
+  const tasks = await withSubtasks({ userId: user.id }, user.deletedAt);
+
+  await prisma.$transaction([
+    prisma.user.update({ where: { id: user.id }, data: { deletedAt: null } }),
+    prisma.task.updateMany({
+      where: { id: { in: tasks.map((task) => task.id) } },
+      data: { deletedAt: null },
+    }),
+  ]);
+  await dropCyclicDependencies(tasks.map((task) => task.id));
+  await invalidateTasks(tasks, 'task.created');
+
+  return { restoredTasks: tasks.length };
+}
+
+// The `purge` job: delete what has been in the trash longer than the
+// retention window. Users go first; their tasks cascade with them, while their
+// comments on other users' tasks stay without an author.
+//
+// A purged task that followed another occurrence of a series ends the series
+// there: otherwise the occurrence before it would look due again to the
+// `recurrence` job, which would generate the deleted task anew.
+export async function purgeTrash(now = new Date()) {
+  const cutoff = new Date(now.getTime() - RETENTION_MS);
+  const purged = {
+    OR: [{ deletedAt: { lte: cutoff } }, { user: { deletedAt: { lte: cutoff } } }],
+  } satisfies Prisma.TaskWhereInput;
+
+  const seriesEnded = await prisma.task.findMany({
+    where: { nextOccurrence: { is: purged }, NOT: purged },
+    select: trashedTaskSelect,
+  });
+
+  const [, users, tasks] = await prisma.$transaction([
+    prisma.task.updateMany({
+      where: { id: { in: seriesEnded.map((task) => task.id) } },
+      data: { nextOccurrenceAt: null },
+    }),
+    prisma.user.deleteMany({
+      where: { deletedAt: { lte: cutoff } },
+    }),
+    prisma.task.deleteMany({
+      where: { deletedAt: { lte: cutoff } },
+    }),
+  ]);
+
+  for (const task of seriesEnded) {
+    await invalidateTaskCache(task.id, taskListScopes(task));
+  }
+
+  return { users: users.count, tasks: tasks.count, seriesEnded: seriesEnded.length };
+}
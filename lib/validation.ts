@@ -0,0 +1,62 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+
+export interface ValidationSchemas<B, Q> {
+  body?: z.ZodType<B>;
+  query?: z.ZodType<Q>;
+}
+
+export interface RouteInput<B, Q> {
+  body: B;
+  query: Q;
+}
+
+export function validationError(error: z.ZodError) {
+  return NextResponse.json(
+    {
+      error: 'Validation failed',
+      details: error.issues.map((issue) => ({
+        field: issue.path.join('.'),
+        message: issue.message,
+      })),
+    },
+    { status: 400 }
+  );
+}
+
+// Parse the JSON body and query string against the route's schemas. Returns
+// the 400 response to send instead when either is invalid.
+export async function parseRouteInput<B, Q>(
+  request: NextRequest,
+  schemas: ValidationSchemas<B, Q>
+): Promise<{ input: RouteInput<B, Q> } | { response: NextResponse }> {
+  let body: unknown;
+  let query: unknown;
+
+  if (schemas.body) {
+    let json: unknown;
+    try {
+      json = await request.json();
+    } catch {
+      return {
+        response: NextResponse.json(
+          { error: 'Request body must be valid JSON' },
+          { status: 400 }
+        ),
+      };
+    }
+
+    const result = schemas.body.safeParse(json);
+    if (!result.success) return { response: validationError(result.error) };
+    body = result.data;
+  }
+
+  if (schemas.query) {
+    const params = Object.fromEntries(new URL(request.url).searchParams);
+    const result = schemas.query.safeParse(params);
+    if (!result.success) return { response: validationError(result.error) };
+    query = result.data;
+  }
+
+  return { input: { body: body as B, query: query as Q } };
+}
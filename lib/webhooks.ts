@@ -0,0 +1,301 @@
+import { createHmac, randomBytes } from 'crypto';
+import { AuditEvent, Prisma, WebhookDeliveryStatus } from '@prisma/client';
+import { z } from 'zod';
+import { prisma } from './prisma';
+import { webhookEventSchema } from './schemas';
+import { canAccessTask } from './permissions';
+import { claimDue, enqueue } from './cache';
+
+// Outgoing webhooks. Users register endpoints for audit events: task.* events
+// of the tasks they can see and, for admins, admin.* events. Each event a
+// webhook subscribes to becomes a delivery, a signed POST of the event that
+// is retried with exponential backoff until the endpoint answers 2xx or
+// MAX_ATTEMPTS is reached.
+//
+// Deliveries live in the database; a Redis queue orders the pending ones by
+// when they are due, and the `webhooks` job sends them. Without Redis the job
+// reads the due deliveries from the database instead, and deliveries pending
+// for long past their time are picked up again in case the queue lost them.
+
+export type WebhookEvent = z.infer<typeof webhookEventSchema>;
+
+export const MAX_WEBHOOKS_PER_USER = 10;
+export const MAX_ATTEMPTS = 8;
+export const DELIVERY_RETENTION_DAYS = 30;
+
+const QUEUE = 'webhooks';
+const FIRST_RETRY_MS = 30 * 1000;
+const MAX_RETRY_MS = 6 * 60 * 60 * 1000; // 6 hours
+const STALE_AFTER_MS = 10 * 60 * 1000;
+const REQUEST_TIMEOUT_MS = 10 * 1000;
+const RESPONSE_BODY_LIMIT = 2000;
+// Deliveries sent per job run; at most REQUEST_TIMEOUT_MS each
+const JOB_BATCH_SIZE = 50;
+
+// Everything but the secret, which is only shown when it is generated
+export const webhookSelect = {
+  id: true,
+  url: true,
+  events: true,
+  description: true,
+  active: true,
+  userId: true,
+  createdAt: true,
+  updatedAt: true,
+} satisfies Prisma.WebhookSelect;
+
+export const isWebhookEvent = (action: string): action is WebhookEvent =>
+  webhookEventSchema.safeParse(action).success;
+
+export const isAdminEvent = (event: string) => event.startsWith('admin.');
+
+export const generateWebhookSecret = () => `whsec_${randomBytes(24).toString('base64url')}`;
+
+// Hex HMAC-SHA256 of "<timestamp>.<body>", sent as
+// X-Webhook-Signature: t=<timestamp>,v1=<signature>
+export const signPayload = (secret: string, timestamp: number, body: string) =>
+  createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex');
+
+// Wait before the next attempt, after the given number of failed ones
+export const retryDelay = (attempts: number) =>
+  Math.min(FIRST_RETRY_MS * 2 ** (attempts - 1), MAX_RETRY_MS);
+
+// Endpoints on the server's own network could be used to probe it. Set
+// WEBHOOK_ALLOW_PRIVATE_URLS=true to allow them, e.g. in development. Only
+// addresses written into the URL are checked, not what host names resolve to.
+const PRIVATE_HOSTS = [
+  /^localhost$/,
+  /\.localhost$/,
+  /^0\./,
+  /^10\./,
+  /^127\./,
+  /^169\.254\./,
+  /^172\.(1[6-9]|2\d|3[01])\./,
+  /^192\.168\./,
+  /^\[(::1?|::ffff:.*|f[cd][0-9a-f]*:.*|fe80:.*)\]$/,
+];
+
+// Why a webhook can't use the URL, or null
+export function webhookUrlError(url: string): string | null {
+  if (process.env.WEBHOOK_ALLOW_PRIVATE_URLS === 'true') return null;
+  const { hostname } = new URL(url);
+  return PRIVATE_HOSTS.some((pattern) => pattern.test(hostname.toLowerCase()))
+    ? 'URL must not point to a private address'
+    : null;
+}
+
+// Why the user can't subscribe to the events, or null
+export function webhookEventsError(events: string[], role: string): string | null {
+  return role !== 'ADMIN' && events.some(isAdminEvent)
+    ? 'Only admins can subscribe to admin events'
+    : null;
+}
+
+function webhookPayload(event: AuditEvent) {
+  return {
+    id: event.id,
+    event: event.action,
+    occurredAt: event.createdAt.toISOString(),
+    actor: event.actorId ? { id: event.actorId, email: event.actorEmail ?? '' } : null,
+    target: { type: event.targetType, id: event.targetId },
+    before: event.before,
+    after: event.after,
+  } as Prisma.InputJsonObject;
+}
+
+// Whether the owner of a webhook may see the event
+async function canReceive(
+  event: AuditEvent,
+  owner: { id: string; role: string },
+  task: { id: string; userId: string; projectId: string | null; assigneeId: string | null } | null
+) {
+  if (isAdminEvent(event.action)) return owner.role === 'ADMIN';
+  return task !== null && canAccessTask(task, owner.id, 'view');
+}
+
+// Queue a delivery of the audit event to every webhook subscribed to it.
+// Called by recordAudit; never throws.
+export async function queueWebhookDeliveries(event: AuditEvent) {
+  if (!isWebhookEvent(event.action)) return;
+
+  try {
+    const webhooks = await prisma.webhook.findMany({
+      where: { active: true, events: { has: event.action }, user: { deletedAt: null } },
+      select: { id: true, user: { select: { id: true, role: true } } },
+    });
+    if (webhooks.length === 0) return;
+
+    // Deleted tasks are still in the trash when their event is recorded
+    const task =
+      event.targetType === 'task' && event.targetId
+        ? await prisma.task.findUnique({
+            where: { id: event.targetId },
+            select: { id: true, userId: true, projectId: true, assigneeId: true },
+          })
+        : null;
+
+    const recipients = [];
+    for (const webhook of webhooks) {
+      if (await canReceive(event, webhook.user, task)) recipients.push(webhook);
+    }
+    if (recipients.length === 0) return;
+
+    const now = new Date();
+    const payload = webhookPayload(event);
+    const deliveries = await prisma.webhookDelivery.createManyAndReturn({
+      data: recipients.map((webhook) => ({
+        webhookId: webhook.id,
+        event: event.action,
+        payload,
+        nextAttemptAt: now,
+      })),
+      select: { id: true },
+    });
+
+    for (const delivery of deliveries) {
+      await enqueue(QUEUE, delivery.id, now);
+    }
+  } catch (error) {
+    console.error('Queue webhook deliveries error:', error);
+  }
+}
+
+// Send a pending delivery once and record the outcome. Returns the new
+// status, or null when the delivery isn't pending (anymore) or not yet due.
+export async function attemptDelivery(id: string): Promise<WebhookDeliveryStatus | null> {
+  const delivery = await prisma.webhookDelivery.findUnique({
+    where: { id },
+    include: { webhook: { select: { url: true, secret: true, active: true } } },
+  });
+
+  if (delivery?.status !== 'PENDING') return null;
+  if (delivery.nextAttemptAt && delivery.nextAttemptAt.getTime() > Date.now()) return null;
+
+  if (!delivery.webhook.active) {
+    await prisma.webhookDelivery.update({
+      where: { id },
+      data: { status: 'FAILED', nextAttemptAt: null, error: 'Webhook is disabled' },
+    });
+    return 'FAILED';
+  }
+
+  const body = JSON.stringify(delivery.payload);
+  const timestamp = Math.floor(Date.now() / 1000);
+  const startedAt = new Date();
+  let responseStatus: number | null = null;
+  let responseBody: string | null = null;
+  let error: string | null = null;
+
+  try {
+    const res = await fetch(delivery.webhook.url, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'User-Agent': 'TaskManager-Webhooks/1.0',
+        'X-Webhook-Event': delivery.event,
+        'X-Webhook-Delivery': delivery.id,
+        'X-Webhook-Signature': `t=${timestamp},v1=${signPayload(delivery.webhook.secret, timestamp, body)}`,
+      },
+      body,
+      // A redirect could lead anywhere, including a private address
+      redirect: 'manual',
+      signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS),
+    });
+    responseStatus = res.status;
+    responseBody = (await res.text()).slice(0, RESPONSE_BODY_LIMIT);
+    if (!res.ok) error = `Endpoint responded with ${res.status}`;
+  } catch (err) {
+    error = err instanceof Error ? err.message : String(err);
+  }
+
+  const attempts = delivery.attempts + 1;
+  const status: WebhookDeliveryStatus = !error
+    ? 'SUCCEEDED'
+    : attempts >= MAX_ATTEMPTS
+      ? 'FAILED'
+      : 'PENDING';
+  const nextAttemptAt = status === 'PENDING' ? new Date(Date.now() + retryDelay(attempts)) : null;
+
+  await prisma.webhookDelivery.update({
+    where: { id },
+    data: {
+      status,
+      attempts,
+      nextAttemptAt,
+      lastAttemptAt: startedAt,
+      responseStatus,
+      responseBody,
+      error,
+      durationMs: Date.now() - startedAt.getTime(),
+    },
+  });
+
+  if (nextAttemptAt) {
+    await enqueue(QUEUE, id, nextAttemptAt);
+  }
+  return status;
+}
+
+// Send a delivery's payload again, as a new delivery attempted right away.
+// Returns the new delivery.
+export async function redeliver(delivery: { id: string; webhookId: string; event: string; payload: Prisma.JsonValue }) {
+  const copy = await prisma.webhookDelivery.create({
+    data: {
+      webhookId: delivery.webhookId,
+      event: delivery.event,
+      payload: delivery.payload as Prisma.InputJsonObject,
+      nextAttemptAt: new Date(),
+      redeliveryOfId: delivery.id,
+    },
+  });
+
+  await attemptDelivery(copy.id);
+  return prisma.webhookDelivery.findUniqueOrThrow({ where: { id: copy.id } });
+}
+
+// Send the deliveries that are due, then delete settled deliveries older than
+// DELIVERY_RETENTION_DAYS. Run by the `webhooks` job.
+export async function deliverDueWebhooks() {
+  const now = Date.now();
+
+  let ids = await claimDue(QUEUE, JOB_BATCH_SIZE);
+  if (ids === null) {
+    const due = await prisma.webhookDelivery.findMany({
+      where: { status: 'PENDING', nextAttemptAt: { lte: new Date(now) } },
+      select: { id: true },
+      orderBy: { nextAttemptAt: 'asc' },
+      take: JOB_BATCH_SIZE,
+    });
+    ids = due.map((delivery) => delivery.id);
+  } else {
+    const stale = await prisma.webhookDelivery.findMany({
+      where: { status: 'PENDING', nextAttemptAt: { lte: new Date(now - STALE_AFTER_MS) } },
+      select: { id: true },
+      orderBy: { nextAttemptAt: 'asc' },
+      take: JOB_BATCH_SIZE,
+    });
+    ids = [...new Set([...ids, ...stale.map((delivery) => delivery.id)])];
+  }
+
+  const counts = { succeeded: 0, retrying: 0, failed: 0 };
+  for (const id of ids) {
+    try {
+      const status = await attemptDelivery(id);
+      if (status === 'SUCCEEDED') counts.succeeded++;
+      else if (status === 'PENDING') counts.retrying++;
+      else if (status === 'FAILED') counts.failed++;
+    } catch (error) {
+      // Still pending in the database, so a later run picks it up again
+      console.error(`Webhook delivery ${id} error:`, error);
+    }
+  }
+
+  const { count: deleted } = await prisma.webhookDelivery.deleteMany({
+    where: {
+      status: { not: 'PENDING' },
+      createdAt: { lt: new Date(now - DELIVERY_RETENTION_DAYS * 24 * 60 * 60 * 1000) },
+    },
+  });
+
+  return { ...counts, deleted };
+}
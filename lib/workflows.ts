@@ -0,0 +1,355 @@
+import { Prisma, ProjectRole, TaskStatus } from '@prisma/client';
+import { z } from 'zod';
+import { prisma } from './prisma';
+import { canEditProjectTasks } from './permissions';
+import { workflowDefinitionSchema } from './schemas';
+
+// Task lifecycles defined by admins. A workflow has named states, each mapped
+// to one of the fixed TaskStatus categories (used by filters, due dates and
+// stats), and transitions between them. A transition lists the project roles
+// that may perform it; an empty list allows everyone who may edit the task.
+//
+// Project tasks follow their project's workflow, or the default workflow when
+// the project has none. Personal tasks follow the default workflow; there the
+// creator counts as OWNER and an assignee as EDITOR.
+
+export type WorkflowDefinition = z.infer<typeof workflowDefinitionSchema>;
+
+type TaskForTransitions = {
+  userId: string;
+  projectId: string | null;
+  assigneeId: string | null;
+  stateId: string | null;
+};
+
+export const workflowInclude = {
+  states: { orderBy: { position: 'asc' } },
+  transitions: { orderBy: { name: 'asc' } },
+} satisfies Prisma.WorkflowInclude;
+
+export const taskStateSelect = {
+  id: true,
+  name: true,
+  category: true,
+} satisfies Prisma.WorkflowStateSelect;
+
+export async function getDefaultWorkflowId(): Promise<string> {
+  const workflow = await prisma.workflow.findFirstOrThrow({
+    where: { isDefault: true },
+    select: { id: true },
+  });
+  return workflow.id;
+}
+
+// The workflow new tasks of a project (or personal tasks, with null) follow
+export async function getWorkflowId(projectId: string | null): Promise<string> {
+  if (projectId) {
+    const project = await prisma.project.findUnique({
+      where: { id: projectId },
+      select: { workflowId: true },
+    });
+    if (project?.workflowId) return project.workflowId;
+  }
+  return getDefaultWorkflowId();
+}
+
+// Where a new task starts: the initial state, or with an explicit status the
+// first state of that category
+export async function getInitialState(projectId: string | null, status?: TaskStatus) {
+  const workflowId = await getWorkflowId(projectId);
+  const states = await prisma.workflowState.findMany({
+    where: { workflowId },
+    orderBy: { position: 'asc' },
+  });
+  const state = status
+    ? states.find((s) => s.category === status)
+    : states.find((s) => s.isInitial) ?? states[0];
+  return state ?? null;
+}
+
+function taskRole(
+  task: TaskForTransitions,
+  userId: string,
+  projectRole: ProjectRole | null
+): ProjectRole | null {
+  if (task.projectId) return projectRole;
+  if (task.userId === userId) return 'OWNER';
+  if (task.assigneeId === userId) return 'EDITOR';
+  return null;
+}
+
+// Same rule as canAccessTask(task, userId, 'edit'), with the role known
+function canEditTask(task: TaskForTransitions, userId: string, projectRole: ProjectRole | null) {
+  if (task.assigneeId === userId) return true;
+  return task.projectId ? canEditProjectTasks(projectRole) : task.userId === userId;
+}
+
+const roleAllows = (allowedRoles: ProjectRole[], role: ProjectRole | null) =>
+  allowedRoles.length === 0 || (role !== null && allowedRoles.includes(role));
+
+async function projectRoles(projectIds: string[], userId: string) {
+  if (projectIds.length === 0) return new Map<string, ProjectRole>();
+  const memberships = await prisma.projectMember.findMany({
+    where: { userId, projectId: { in: projectIds } },
+    select: { projectId: true, role: true },
+  });
+  return new Map(memberships.map((m) => [m.projectId, m.role]));
+}
+
+export type TransitionCheck =
+  | { allowed: true; state: { id: string; category: TaskStatus } | null }
+  | { allowed: false; status: 403 | 409; error: string };
+
+// Check a requested move to another state, given by id or by status
+// category. The caller has already checked the user may edit the task.
+// Returns the target state, or null when the task is already there.
+export async function checkTransition(
+  task: TaskForTransitions & { status: TaskStatus },
+  userId: string,
+  target: { stateId?: string; status?: TaskStatus }
+): Promise<TransitionCheck> {
+  if (target.stateId ? target.stateId === task.stateId : target.status === task.status) {
+    return { allowed: true, state: null };
+  }
+
+  // Tasks without a state yet may be placed anywhere in their workflow
+  if (!task.stateId) {
+    const state = await prisma.workflowState.findFirst({
+      where: {
+        workflowId: await getWorkflowId(task.projectId),
+        ...(target.stateId ? { id: target.stateId } : { category: target.status }),
+      },
+      orderBy: { position: 'asc' },
+    });
+    return state
+      ? { allowed: true, state }
+      : { allowed: false, status: 409, error: 'State is not part of the task workflow' };
+  }
+
+  const [from, transitions] = await Promise.all([
+    prisma.workflowState.findUniqueOrThrow({ where: { id: task.stateId } }),
+    prisma.workflowTransition.findMany({
+      where: {
+        fromStateId: task.stateId,
+        toState: target.stateId ? { id: target.stateId } : { category: target.status },
+      },
+      include: { toState: true },
+      orderBy: { toState: { position: 'asc' } },
+    }),
+  ]);
+
+  if (transitions.length === 0) {
+    const to = target.stateId
+      ? (await prisma.workflowState.findUnique({ where: { id: target.stateId } }))?.name ?? 'unknown state'
+      : target.status;
+    return {
+      allowed: false,
+      status: 409,
+      error: `Transition from "${from.name}" to "${to}" is not allowed`,
+    };
+  }
+
+  const projectRole = task.projectId
+    ? (await projectRoles([task.projectId], userId)).get(task.projectId) ?? null
+    : null;
+  const role = taskRole(task, userId, projectRole);
+  const transition = transitions.find((t) => roleAllows(t.allowedRoles, role));
+
+  if (!transition) {
+    return {
+      allowed: false,
+      status: 403,
+      error: `Your role cannot move this task from "${from.name}" to "${transitions[0].toState.name}"`,
+    };
+  }
+
+  return { allowed: true, state: transition.toState };
+}
+
+// Attach the transitions the user may perform to each task, for clients to
+// offer as actions. Computed per request: cached task lists are shared
+// between users.
+export async function withTransitions<T extends TaskForTransitions>(tasks: T[], userId: string) {
+  const stateIds = [...new Set(tasks.flatMap((task) => (task.stateId ? [task.stateId] : [])))];
+  const projectIds = [...new Set(tasks.flatMap((task) => (task.projectId ? [task.projectId] : [])))];
+
+  const [transitions, roles] = await Promise.all([
+    stateIds.length > 0
+      ? prisma.workflowTransition.findMany({
+          where: { fromStateId: { in: stateIds } },
+          select: { id: true, name: true, fromStateId: true, toStateId: true, allowedRoles: true },
+          orderBy: { toState: { position: 'asc' } },
+        })
+      : [],
+    projectRoles(projectIds, userId),
+  ]);
+
+  return tasks.map((task) => {
+    const projectRole = task.projectId ? roles.get(task.projectId) ?? null : null;
+    const role = taskRole(task, userId, projectRole);
+    const available = canEditTask(task, userId, projectRole)
+      ? transitions.filter(
+          (t) => t.fromStateId === task.stateId && roleAllows(t.allowedRoles, role)
+        )
+      : [];
+    return {
+      ...task,
+      transitions: available.map(({ id, name, toStateId }) => ({ id, name, toStateId })),
+    };
+  });
+}
+
+// Names of the states a new definition drops that tasks still use
+export async function statesInUse(workflowId: string, definition: WorkflowDefinition) {
+  const kept = new Set(definition.states.map((state) => state.name));
+  const states = await prisma.workflowState.findMany({
+    where: { workflowId, tasks: { some: {} } },
+    select: { name: true },
+  });
+  return states.map((state) => state.name).filter((name) => !kept.has(name));
+}
+
+// What dropping a task's caches and publishing its events needs
+const taskCacheSelect = {
+  id: true,
+  userId: true,
+  projectId: true,
+  parentId: true,
+  assigneeId: true,
+} satisfies Prisma.TaskSelect;
+
+// Create a workflow or replace the states and transitions of an existing one.
+// States are matched by name so tasks keep their state across edits. Returns
+// the workflow and the tasks whose status changed with a recategorized state,
+// so their caches can be dropped.
+export async function saveWorkflow(workflowId: string | null, definition: WorkflowDefinition) {
+  const initialName =
+    definition.states.find((state) => state.initial)?.name ?? definition.states[0].name;
+
+  return prisma.$transaction(async (tx) => {
+    const recategorized: Prisma.TaskGetPayload<{ select: typeof taskCacheSelect }>[] = [];
+
+    // Only one default at a time
+    if (definition.isDefault) {
+      await tx.workflow.updateMany({
+        where: { isDefault: true, ...(workflowId && { id: { not: workflowId } }) },
+        data: { isDefault: false },
+      });
+    }
+
+    const workflow = workflowId
+      ? await tx.workflow.update({
+          where: { id: workflowId },
+          data: {
+            name: definition.name,
+            ...(definition.isDefault !== undefined && { isDefault: definition.isDefault }),
+          },
+        })
+      : await tx.workflow.create({
+          data: { name: definition.name, isDefault: definition.isDefault ?? false },
+        });
+
+    const existing = await tx.workflowState.findMany({ where: { workflowId: workflow.id } });
+    const existingByName = new Map(existing.map((state) => [state.name, state]));
+    const stateIds = new Map<string, string>();
+
+    for (const [position, state] of definition.states.entries()) {
+      const data = {
+        category: state.category,
+        position,
+        isInitial: state.name === initialName,
+      };
+      const current = existingByName.get(state.name);
+
+      if (current) {
+        await tx.workflowState.update({ where: { id: current.id }, data });
+        // Keep task statuses in line with a recategorized state
+        if (current.category !== state.category) {
+          recategorized.push(
+            ...(await tx.task.findMany({
+              where: { stateId: current.id },
+              select: taskCacheSelect,
+            }))
+          );
+          await tx.task.updateMany({
+            where: { stateId: current.id },
+            data: { status: state.category },
+          });
+        }
+        stateIds.set(state.name, current.id);
+      } else {
+        const created = await tx.workflowState.create({
+          data: { ...data, name: state.name, workflowId: workflow.id },
+        });
+        stateIds.set(state.name, created.id);
+      }
+    }
+
+    await tx.workflowTransition.deleteMany({ where: { workflowId: workflow.id } });
+    await tx.workflowState.deleteMany({
+      where: { workflowId: workflow.id, id: { notIn: [...stateIds.values()] } },
+    });
+    await tx.workflowTransition.createMany({
+      data: definition.transitions.map((transition) => ({
+        workflowId: workflow.id,
+        name: transition.name,
+        fromStateId: stateIds.get(transition.from)!,
+        toStateId: stateIds.get(transition.to)!,
+        allowedRoles: transition.allowedRoles,
+      })),
+    });
+
+    return {
+      workflow: await tx.workflow.findUniqueOrThrow({
+        where: { id: workflow.id },
+        include: workflowInclude,
+      }),
+      recategorized,
+    };
+  });
+}
+
+// Move a project's tasks onto another workflow: each task goes to the first
+// state of the new workflow in its current category, or the initial state.
+// Returns the moved tasks so their caches can be dropped.
+export async function switchProjectWorkflow(projectId: string, workflowId: string | null) {
+  const targetWorkflowId = workflowId ?? (await getDefaultWorkflowId());
+  const states = await prisma.workflowState.findMany({
+    where: { workflowId: targetWorkflowId },
+    orderBy: { position: 'asc' },
+  });
+  const initial = states.find((state) => state.isInitial) ?? states[0];
+
+  return prisma.$transaction(async (tx) => {
+    await tx.project.update({
+      where: { id: projectId },
+      data: { workflowId },
+    });
+
+    for (const category of Object.values(TaskStatus)) {
+      const state = states.find((s) => s.category === category) ?? initial;
+      await tx.task.updateMany({
+        where: { projectId, status: category, NOT: { state: { workflowId: targetWorkflowId } } },
+        data: { stateId: state.id, status: state.category },
+      });
+    }
+
+    return tx.task.findMany({
+      where: { projectId },
+      select: taskCacheSelect,
+    });
+  });
+}
+
+// Compact form of a workflow for the audit log
+export function workflowAuditSnapshot(workflow: Prisma.WorkflowGetPayload<{ include: typeof workflowInclude }>) {
+  const stateNames = new Map(workflow.states.map((state) => [state.id, state.name]));
+  return {
+    name: workflow.name,
+    isDefault: workflow.isDefault,
+    states: workflow.states.map((state) => `${state.name} (${state.category})`),
+    transitions: workflow.transitions.map(
+      (t) => `${t.name}: ${stateNames.get(t.fromStateId)} → ${stateNames.get(t.toStateId)}`
+    ),
+  };
+}
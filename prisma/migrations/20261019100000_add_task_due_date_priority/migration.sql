@@ -0,0 +1,13 @@
+-- CreateEnum
+CREATE TYPE "TaskPriority" AS ENUM ('LOW', 'MEDIUM', 'HIGH', 'URGENT');
+
+-- AlterTable
+ALTER TABLE "Task" ADD COLUMN     "dueDate" TIMESTAMP(3),
+ADD COLUMN     "priority" "TaskPriority" NOT NULL DEFAULT 'MEDIUM',
+ADD COLUMN     "updatedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP;
+
+-- The default only fills in existing rows; Prisma sets @updatedAt itself
+ALTER TABLE "Task" ALTER COLUMN "updatedAt" DROP DEFAULT;
+
+-- CreateIndex
+CREATE INDEX "Task_userId_dueDate_idx" ON "Task"("userId", "dueDate");
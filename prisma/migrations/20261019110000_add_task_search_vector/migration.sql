@@ -0,0 +1,9 @@
+-- AlterTable
+-- Kept in sync by Postgres; titles rank above descriptions
+ALTER TABLE "Task" ADD COLUMN "searchVector" tsvector GENERATED ALWAYS AS (
+    setweight(to_tsvector('english', coalesce("title", '')), 'A') ||
+    setweight(to_tsvector('english', coalesce("description", '')), 'B')
+) STORED;
+
+-- CreateIndex
+CREATE INDEX "Task_searchVector_idx" ON "Task" USING GIN ("searchVector");
@@ -0,0 +1,42 @@
+-- CreateTable
+CREATE TABLE "AuditEvent" (
+    "id" UUID NOT NULL,
+    "action" TEXT NOT NULL,
+    "actorId" UUID,
+    "actorEmail" TEXT,
+    "targetType" TEXT NOT NULL,
+    "targetId" TEXT,
+    "before" JSONB,
+    "after" JSONB,
+    "ip" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "AuditEvent_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "AuditEvent_targetType_targetId_createdAt_idx" ON "AuditEvent"("targetType", "targetId", "createdAt");
+
+-- CreateIndex
+CREATE INDEX "AuditEvent_actorId_createdAt_idx" ON "AuditEvent"("actorId", "createdAt");
+
+-- CreateIndex
+CREATE INDEX "AuditEvent_action_createdAt_idx" ON "AuditEvent"("action", "createdAt");
+
+-- CreateIndex
+CREATE INDEX "AuditEvent_createdAt_idx" ON "AuditEvent"("createdAt");
+
+-- Audit events are append-only
+CREATE FUNCTION "audit_event_append_only"() RETURNS trigger AS $$
+BEGIN
+    RAISE EXCEPTION 'AuditEvent is append-only';
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER "AuditEvent_no_update_delete"
+    BEFORE UPDATE OR DELETE ON "AuditEvent"
+    FOR EACH ROW EXECUTE FUNCTION "audit_event_append_only"();
+
+CREATE TRIGGER "AuditEvent_no_truncate"
+    BEFORE TRUNCATE ON "AuditEvent"
+    FOR EACH STATEMENT EXECUTE FUNCTION "audit_event_append_only"();
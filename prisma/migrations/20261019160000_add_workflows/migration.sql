@@ -0,0 +1,99 @@
+-- AlterTable
+ALTER TABLE "Project" ADD COLUMN     "workflowId" UUID;
+
+-- AlterTable
+ALTER TABLE "Task" ADD COLUMN     "stateId" UUID;
+
+-- CreateTable
+CREATE TABLE "Workflow" (
+    "id" UUID NOT NULL,
+    "name" TEXT NOT NULL,
+    "isDefault" BOOLEAN NOT NULL DEFAULT false,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "Workflow_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "WorkflowState" (
+    "id" UUID NOT NULL,
+    "workflowId" UUID NOT NULL,
+    "name" TEXT NOT NULL,
+    "category" "TaskStatus" NOT NULL,
+    "position" INTEGER NOT NULL,
+    "isInitial" BOOLEAN NOT NULL DEFAULT false,
+
+    CONSTRAINT "WorkflowState_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "WorkflowTransition" (
+    "id" UUID NOT NULL,
+    "workflowId" UUID NOT NULL,
+    "name" TEXT NOT NULL,
+    "fromStateId" UUID NOT NULL,
+    "toStateId" UUID NOT NULL,
+    "allowedRoles" "ProjectRole"[],
+
+    CONSTRAINT "WorkflowTransition_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "Task_stateId_idx" ON "Task"("stateId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Workflow_name_key" ON "Workflow"("name");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "WorkflowState_workflowId_name_key" ON "WorkflowState"("workflowId", "name");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "WorkflowTransition_fromStateId_toStateId_key" ON "WorkflowTransition"("fromStateId", "toStateId");
+
+-- CreateIndex
+CREATE INDEX "WorkflowTransition_workflowId_idx" ON "WorkflowTransition"("workflowId");
+
+-- At most one default workflow
+CREATE UNIQUE INDEX "Workflow_isDefault_key" ON "Workflow"("isDefault") WHERE "isDefault";
+
+-- AddForeignKey
+ALTER TABLE "Task" ADD CONSTRAINT "Task_stateId_fkey" FOREIGN KEY ("stateId") REFERENCES "WorkflowState"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "Project" ADD CONSTRAINT "Project_workflowId_fkey" FOREIGN KEY ("workflowId") REFERENCES "Workflow"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "WorkflowState" ADD CONSTRAINT "WorkflowState_workflowId_fkey" FOREIGN KEY ("workflowId") REFERENCES "Workflow"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "WorkflowTransition" ADD CONSTRAINT "WorkflowTransition_workflowId_fkey" FOREIGN KEY ("workflowId") REFERENCES "Workflow"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "WorkflowTransition" ADD CONSTRAINT "WorkflowTransition_fromStateId_fkey" FOREIGN KEY ("fromStateId") REFERENCES "WorkflowState"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "WorkflowTransition" ADD CONSTRAINT "WorkflowTransition_toStateId_fkey" FOREIGN KEY ("toStateId") REFERENCES "WorkflowState"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- Default workflow matching the previous fixed statuses
+INSERT INTO "Workflow" ("id", "name", "isDefault", "updatedAt")
+VALUES ('00000000-0000-4000-8000-000000000001', 'Default', true, CURRENT_TIMESTAMP);
+
+INSERT INTO "WorkflowState" ("id", "workflowId", "name", "category", "position", "isInitial") VALUES
+    ('00000000-0000-4000-8000-000000000011', '00000000-0000-4000-8000-000000000001', 'Open', 'OPEN', 0, true),
+    ('00000000-0000-4000-8000-000000000012', '00000000-0000-4000-8000-000000000001', 'In Progress', 'IN_PROGRESS', 1, false),
+    ('00000000-0000-4000-8000-000000000013', '00000000-0000-4000-8000-000000000001', 'Done', 'DONE', 2, false);
+
+INSERT INTO "WorkflowTransition" ("id", "workflowId", "name", "fromStateId", "toStateId", "allowedRoles") VALUES
+    ('00000000-0000-4000-8000-000000000021', '00000000-0000-4000-8000-000000000001', 'Start', '00000000-0000-4000-8000-000000000011', '00000000-0000-4000-8000-000000000012', '{}'),
+    ('00000000-0000-4000-8000-000000000022', '00000000-0000-4000-8000-000000000001', 'Complete', '00000000-0000-4000-8000-000000000011', '00000000-0000-4000-8000-000000000013', '{}'),
+    ('00000000-0000-4000-8000-000000000023', '00000000-0000-4000-8000-000000000001', 'Stop', '00000000-0000-4000-8000-000000000012', '00000000-0000-4000-8000-000000000011', '{}'),
+    ('00000000-0000-4000-8000-000000000024', '00000000-0000-4000-8000-000000000001', 'Complete', '00000000-0000-4000-8000-000000000012', '00000000-0000-4000-8000-000000000013', '{}'),
+    ('00000000-0000-4000-8000-000000000025', '00000000-0000-4000-8000-000000000001', 'Reopen', '00000000-0000-4000-8000-000000000013', '00000000-0000-4000-8000-000000000011', '{}');
+
+-- Existing tasks move to the matching default state
+UPDATE "Task" SET "stateId" = CASE "status"
+    WHEN 'OPEN' THEN '00000000-0000-4000-8000-000000000011'::uuid
+    WHEN 'IN_PROGRESS' THEN '00000000-0000-4000-8000-000000000012'::uuid
+    WHEN 'DONE' THEN '00000000-0000-4000-8000-000000000013'::uuid
+END;
@@ -0,0 +1,14 @@
+-- AlterTable
+ALTER TABLE "Task" ADD COLUMN     "recurrence" TEXT,
+ADD COLUMN     "occurrence" INTEGER,
+ADD COLUMN     "nextOccurrenceAt" TIMESTAMP(3),
+ADD COLUMN     "previousOccurrenceId" UUID;
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Task_previousOccurrenceId_key" ON "Task"("previousOccurrenceId");
+
+-- CreateIndex
+CREATE INDEX "Task_nextOccurrenceAt_idx" ON "Task"("nextOccurrenceAt");
+
+-- AddForeignKey
+ALTER TABLE "Task" ADD CONSTRAINT "Task_previousOccurrenceId_fkey" FOREIGN KEY ("previousOccurrenceId") REFERENCES "Task"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,9 @@
+-- Emails are stored in lowercase from now on. An address that only differs in
+-- case from another account's is left as it is, to be resolved by hand.
+UPDATE "User" u SET "email" = lower(u."email")
+WHERE u."email" <> lower(u."email")
+  AND NOT EXISTS (
+    SELECT 1 FROM "User" other WHERE other."id" <> u."id" AND lower(other."email") = lower(u."email")
+  );
+
+UPDATE "Invitation" SET "email" = lower("email") WHERE "email" <> lower("email");
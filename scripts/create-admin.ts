@@ -0,0 +1,56 @@
+// Create the first ADMIN account. Refuses to run once any admin exists;
+// further admins are invited through /api/admin/invitations.
+//
+// Usage: npm run admin:create -- <email> <password> [name]
+import 'dotenv/config';
+import { prisma } from '@/lib/prisma';
+import { hashPassword } from '@/lib/auth';
+
+async function main() {
+  const [address, password, name] = process.argv.slice(2);
+  const email = address?.trim().toLowerCase();
+
+  if (!email || !password) {
+    console.error('Usage: npm run admin:create -- <email> <password> [name]');
+    process.exitCode = 1;
+    return;
+  }
+
+  if (password.length < 8) {
+    console.error('Password must be at least 8 characters');
+    process.exitCode = 1;
+    return;
+  }
+
+  const adminCount = await prisma.user.count({ where: { role: 'ADMIN', deletedAt: null } });
+  if (adminCount > 0) {
+    console.error('An admin already exists. Invite new admins from the admin API instead.');
+    process.exitCode = 1;
+    return;
+  }
+
+  const existingUser = await prisma.user.findUnique({ where: { email } });
+  if (existingUser) {
+    console.error(`User ${email} already exists`);
+    process.exitCode = 1;
+    return;
+  }
+
+  const user = await prisma.user.create({
+    data: {
+      email,
+      name: name || null,
+      passwordHash: await hashPassword(password),
+      role: 'ADMIN',
+    },
+  });
+
+  console.log(`Created admin ${user.email} (${user.id})`);
+}
+
+main()
+  .catch((error) => {
+    console.error('Create admin error:', error);
+    process.exitCode = 1;
+  })
+  .finally(() => prisma.$disconnect());
@@ -0,0 +1,11 @@
+// Regenerate swagger.json from the route schemas in lib/openapi.ts.
+//
+// Usage: npm run openapi:generate
+import { writeFileSync } from 'fs';
+import { join } from 'path';
+import { buildOpenApiDocument } from '@/lib/openapi';
+
+const outputPath = join(process.cwd(), 'swagger.json');
+
+writeFileSync(outputPath, `${JSON.stringify(buildOpenApiDocument(), null, 2)}\n`);
+console.log(`Wrote ${outputPath}`);
@@ -0,0 +1,39 @@
+// Run a background job once, e.g. from cron on a host without an HTTP
+// scheduler.
+//
+// Usage: npm run job -- <name>
+import 'dotenv/config';
+import { prisma } from '@/lib/prisma';
+import { redisClient } from '@/lib/redis';
+import { JOBS, isJobName, runJob } from '@/lib/jobs';
+
+async function main() {
+  const [name] = process.argv.slice(2);
+
+  if (!name || !isJobName(name)) {
+    console.error('Usage: npm run job -- <name>');
+    console.error('Jobs:');
+    for (const [jobName, job] of Object.entries(JOBS)) {
+      console.error(`  ${jobName} - ${job.description}`);
+    }
+    process.exitCode = 1;
+    return;
+  }
+
+  const run = await runJob(name);
+  if (run.status === 'skipped') {
+    console.log(`Skipped ${name}: ${run.reason}`);
+    return;
+  }
+  console.log(`Completed ${name} in ${run.durationMs}ms`, run.result);
+}
+
+main()
+  .catch((error) => {
+    console.error('Run job error:', error);
+    process.exitCode = 1;
+  })
+  .finally(async () => {
+    await prisma.$disconnect();
+    if (redisClient.isOpen) await redisClient.quit();
+  });
@@ -0,0 +1,30 @@
+import { readdirSync, readFileSync } from 'fs';
+import path from 'path';
+import { PGlite } from '@electric-sql/pglite';
+import { Prisma } from '@prisma/client';
+
+const MIGRATIONS_DIR = path.join(__dirname, '../prisma/migrations');
+
+export async function applyMigration(db: PGlite, migration: string) {
+  await db.exec(readFileSync(path.join(MIGRATIONS_DIR, migration, 'migration.sql'), 'utf8'));
+}
+
+// Postgres in memory with every migration applied, or the ones before
+// `until`, for testing raw SQL and migrations. queryRaw stands in for
+// prisma.$queryRaw.
+export async function createTestDatabase(options: { until?: string } = {}) {
+  const db = new PGlite();
+  const migrations = readdirSync(MIGRATIONS_DIR)
+    .filter((name) => /^\d/.test(name) && (!options.until || name < options.until))
+    .sort();
+  for (const migration of migrations) {
+    await applyMigration(db, migration);
+  }
+
+  const queryRaw = async (strings: TemplateStringsArray, ...values: unknown[]) => {
+    const query = Prisma.sql(strings, ...values);
+    return (await db.query(query.text, query.values)).rows;
+  };
+
+  return { db, queryRaw };
+}
@@ -0,0 +1,30 @@
+import { describe, expect, it } from 'vitest';
+import { applyMigration, createTestDatabase } from './database';
+
+describe('migrations', () => {
+  it('leave @updatedAt columns without a default, like the schema', async () => {
+    const { db } = await createTestDatabase();
+
+    const { rows } = await db.query(
+      `SELECT table_name, column_default FROM information_schema.columns
+       WHERE column_name = 'updatedAt' AND column_default IS NOT NULL`
+    );
+
+    expect(rows).toEqual([]);
+  });
+
+  it('lowercase emails, except ones that would collide', async () => {
+    const { db } = await createTestDatabase({ until: '20261020030000_lowercase_emails' });
+    await db.exec(`
+      INSERT INTO "User" ("id", "email", "passwordHash") VALUES
+        ('00000000-0000-0000-0000-000000000001', 'Ada@Example.com', 'x'),
+        ('00000000-0000-0000-0000-000000000002', 'Bob@Example.com', 'x'),
+        ('00000000-0000-0000-0000-000000000003', 'bob@example.com', 'x');
+    `);
+
+    await applyMigration(db, '20261020030000_lowercase_emails');
+
+    const { rows } = await db.query<{ email: string }>('SELECT "email" FROM "User" ORDER BY "id"');
+    expect(rows.map((row) => row.email)).toEqual(['ada@example.com', 'Bob@Example.com', 'bob@example.com']);
+  });
+});
@@ -0,0 +1,20 @@
+import path from 'path';
+import { defineConfig } from 'vitest/config';
+
+export default defineConfig({
+  resolve: {
+    alias: { '@': path.resolve(__dirname) },
+  },
+  test: {
+    include: ['**/*.test.ts'],
+    exclude: ['node_modules/**', '.next/**'],
+    // Nothing here needs Postgres or Redis running: tests mock the database or
+    // use one in memory (see test/database.ts), and Redis points at addresses
+    // where nothing answers
+    env: {
+      DATABASE_URL: 'postgresql://localhost:1/test',
+      REDIS_URL: 'redis://127.0.0.1:1',
+      REDIS_TIMEOUT_MS: '200',
+    },
+  },
+});